@@ -0,0 +1,283 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import Link from "next/link";
+import { useAdminRole, AdminAccessNotice } from "@/app/components/AdminGate";
+import { hasAdminRole } from "@/lib/config/admin";
+
+type AuditValues = Record<string, string | number | boolean | null>;
+
+interface AuditEntry {
+  id: string;
+  actor: string;
+  action: string;
+  targetWallet: string;
+  before: AuditValues | null;
+  after: AuditValues;
+  reason?: string;
+  requestId: string;
+  createdAt: string;
+}
+
+interface Filters {
+  action: string;
+  actor: string;
+  targetWallet: string;
+  startDate: string;
+  endDate: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  "credits.grant": "Grant credits",
+  "credits.cost.set": "Credit cost",
+  "credits.purchase": "Credit pack",
+  "tier.set": "Set tier",
+  "subscription.activate": "Subscription",
+  "subscription.expire": "Subscription expired",
+  "facilitator.register": "Facilitator registration",
+  "admin.bootstrap": "First owner",
+  "admin.grant": "Admin role",
+  "admin.remove": "Admin removed",
+  "refund.approve": "Refund approved",
+  "refund.reject": "Refund rejected",
+  "refund.complete": "Refund completed",
+};
+
+const EMPTY_FILTERS: Filters = { action: "", actor: "", targetWallet: "", startDate: "", endDate: "" };
+const PAGE_SIZE = 50;
+
+export default function AdminAuditPage() {
+  const account = useActiveAccount();
+  const admin = useAdminRole();
+  const isAuthorized = hasAdminRole(admin.role, "viewer");
+  const [loading, setLoading] = useState(true);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildQuery = useCallback(
+    (extra: Record<string, string>) => {
+      const params = new URLSearchParams(extra);
+      for (const [key, value] of Object.entries(appliedFilters)) {
+        if (!value) continue;
+        // Date inputs give a day (UTC); the end date covers the whole day
+        params.set(key, key === "endDate" ? `${value}T23:59:59.999Z` : value);
+      }
+      return params.toString();
+    },
+    [appliedFilters]
+  );
+
+  const fetchData = useCallback(async () => {
+    if (!account?.address || !isAuthorized) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/audit?${buildQuery({ limit: String(PAGE_SIZE), offset: String(offset) })}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEntries(data.entries || []);
+        setTotalCount(data.totalCount || 0);
+      } else {
+        setError(data.details?.[0]?.message || data.message || data.error || "Failed to load audit log");
+      }
+    } catch (error) {
+      console.error("Failed to fetch audit log:", error);
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, [account?.address, isAuthorized, buildQuery, offset]);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchData();
+    }
+  }, [isAuthorized, fetchData]);
+
+  const applyFilters = () => {
+    setOffset(0);
+    setAppliedFilters({ ...filters, actor: filters.actor.trim(), targetWallet: filters.targetWallet.trim() });
+  };
+
+  const clearFilters = () => {
+    setOffset(0);
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  const formatValues = (values: AuditValues | null): string => {
+    if (!values) return "—";
+    return Object.entries(values)
+      .map(([key, value]) => `${key}: ${value ?? "—"}`)
+      .join(", ");
+  };
+
+  const shortWallet = (wallet: string) => `${wallet.slice(0, 6)}...${wallet.slice(-4)}`;
+
+  if (!isAuthorized) {
+    return <AdminAccessNotice title="Admin - Audit Log" admin={admin} />;
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">Who changed credits, tiers, subscriptions and registration, and why</p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href={`/api/admin/audit?${buildQuery({ export: "csv" })}`}
+            className="px-4 py-2 bg-primary text-primary-foreground hover:bg-primary/90 rounded-lg text-sm font-medium transition-colors"
+          >
+            Export CSV
+          </a>
+          <Link
+            href="/admin"
+            className="px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
+          >
+            Back to Admin
+          </Link>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-card border border-border rounded-xl p-4 grid md:grid-cols-6 gap-3">
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className="px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+        >
+          <option value="">All actions</option>
+          {Object.entries(ACTION_LABELS).map(([action, label]) => (
+            <option key={action} value={action}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.actor}
+          onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+          placeholder="Actor 0x..."
+          className="px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+        />
+        <input
+          type="text"
+          value={filters.targetWallet}
+          onChange={(e) => setFilters({ ...filters, targetWallet: e.target.value })}
+          placeholder="Target 0x..."
+          className="px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+        />
+        <input
+          type="date"
+          value={filters.startDate}
+          onChange={(e) => setFilters({ ...filters, startDate: e.target.value })}
+          className="px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+        />
+        <input
+          type="date"
+          value={filters.endDate}
+          onChange={(e) => setFilters({ ...filters, endDate: e.target.value })}
+          className="px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={applyFilters}
+            className="flex-1 px-4 py-2 bg-primary text-primary-foreground rounded-lg text-sm font-medium hover:bg-primary/90"
+          >
+            Filter
+          </button>
+          <button
+            onClick={clearFilters}
+            className="px-3 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {/* Content */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-card border border-border rounded-xl p-12 text-center text-muted-foreground">
+          No audit entries match these filters
+        </div>
+      ) : (
+        <div className="bg-card border border-border rounded-xl overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-medium">Date</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Action</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Actor</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Target</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Before</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">After</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-3 text-sm whitespace-nowrap" title={`Request ${entry.requestId}`}>
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{ACTION_LABELS[entry.action] || entry.action}</td>
+                  <td className="px-4 py-3 text-sm font-mono" title={entry.actor}>
+                    {shortWallet(entry.actor)}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-mono" title={entry.targetWallet}>
+                    {shortWallet(entry.targetWallet)}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-muted-foreground">{formatValues(entry.before)}</td>
+                  <td className="px-4 py-3 text-xs">{formatValues(entry.after)}</td>
+                  <td className="px-4 py-3 text-sm">{entry.reason || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalCount > PAGE_SIZE && (
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, totalCount)} of {totalCount}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="px-3 py-1 bg-muted hover:bg-muted/80 rounded-lg disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= totalCount}
+              className="px-3 py-1 bg-muted hover:bg-muted/80 rounded-lg disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useAdminRole, AdminAccessNotice } from "@/app/components/AdminGate";
+import { hasAdminRole } from "@/lib/config/admin";
+import type { CreditServiceId } from "@/lib/config/credit-costs";
+
+interface CreditCostEntry {
+  serviceId: CreditServiceId;
+  credits: number;
+  defaultCredits: number;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export default function AdminCreditCostsPage() {
+  const admin = useAdminRole();
+  const isAuthorized = hasAdminRole(admin.role, "viewer");
+  const canManage = hasAdminRole(admin.role, "operator");
+  const [loading, setLoading] = useState(true);
+  const [costs, setCosts] = useState<CreditCostEntry[]>([]);
+  const [maxCredits, setMaxCredits] = useState(0);
+  const [drafts, setDrafts] = useState<Partial<Record<CreditServiceId, string>>>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchCosts = useCallback(async () => {
+    if (!isAuthorized) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/credit-costs");
+      const data = await response.json();
+      if (data.success) {
+        setCosts(data.costs || []);
+        setMaxCredits(data.maxCredits);
+        setDrafts({});
+      }
+    } catch (error) {
+      console.error("Failed to fetch credit costs:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthorized]);
+
+  useEffect(() => {
+    fetchCosts();
+  }, [fetchCosts]);
+
+  const saveCost = async (serviceId: CreditServiceId) => {
+    const credits = Number(drafts[serviceId]);
+    if (!Number.isInteger(credits) || credits < 0 || credits > maxCredits) {
+      alert(`Cost must be a whole number from 0 to ${maxCredits}`);
+      return;
+    }
+
+    const reason = prompt(`Reason for setting ${serviceId} to ${credits} credits (optional):`);
+    if (reason === null) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/credit-costs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ serviceId, credits, reason: reason || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        fetchCosts();
+      } else {
+        alert(data.message || data.error || "Failed to set cost");
+      }
+    } catch (error) {
+      alert("Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetCost = async (entry: CreditCostEntry) => {
+    if (!confirm(`Reset ${entry.serviceId} to the default of ${entry.defaultCredits} credits?`)) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/credit-costs?serviceId=${entry.serviceId}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (data.success) {
+        fetchCosts();
+      } else {
+        alert(data.message || data.error || "Failed to reset cost");
+      }
+    } catch (error) {
+      alert("Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isAuthorized) {
+    return <AdminAccessNotice title="Admin - Credit Costs" admin={admin} minimumRole="viewer" />;
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Credit Costs</h1>
+          <p className="text-muted-foreground mt-1">
+            Credits charged per interaction, by service. Changes apply within a minute.
+          </p>
+        </div>
+        <Link
+          href="/admin"
+          className="px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
+        >
+          Back to Admin
+        </Link>
+      </div>
+
+      {/* Costs */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        <div className="bg-card border border-border rounded-xl overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-medium">Service</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Credits</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Default</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Last Changed</th>
+                {canManage && <th className="px-4 py-3 text-left text-sm font-medium">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {costs.map((entry) => {
+                const draft = drafts[entry.serviceId];
+                const isOverridden = entry.credits !== entry.defaultCredits || !!entry.updatedBy;
+
+                return (
+                  <tr key={entry.serviceId}>
+                    <td className="px-4 py-3 text-sm font-mono">{entry.serviceId}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {canManage ? (
+                        <input
+                          type="number"
+                          min={0}
+                          max={maxCredits}
+                          value={draft ?? entry.credits}
+                          onChange={(e) => setDrafts((prev) => ({ ...prev, [entry.serviceId]: e.target.value }))}
+                          disabled={saving}
+                          className="w-24 px-2 py-1 bg-muted border border-border rounded text-sm"
+                        />
+                      ) : (
+                        <span className={isOverridden ? "font-medium text-purple-400" : ""}>{entry.credits}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">{entry.defaultCredits}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {entry.updatedBy ? (
+                        <span className="font-mono">
+                          {entry.updatedBy.slice(0, 6)}...{entry.updatedBy.slice(-4)}
+                          {entry.updatedAt && (
+                            <span className="ml-2 font-sans text-muted-foreground">
+                              {new Date(entry.updatedAt).toLocaleDateString()}
+                            </span>
+                          )}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Default</span>
+                      )}
+                    </td>
+                    {canManage && (
+                      <td className="px-4 py-3 text-sm space-x-2">
+                        <button
+                          onClick={() => saveCost(entry.serviceId)}
+                          disabled={saving || draft === undefined || Number(draft) === entry.credits}
+                          className="text-xs px-2 py-1 bg-primary/20 text-primary rounded hover:bg-primary/30 disabled:opacity-50"
+                        >
+                          Save
+                        </button>
+                        {entry.updatedBy && (
+                          <button
+                            onClick={() => resetCost(entry)}
+                            disabled={saving}
+                            className="text-xs px-2 py-1 bg-red-600/20 text-red-400 rounded hover:bg-red-600/30 disabled:opacity-50"
+                          >
+                            Reset
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback } from "react";
 import { useActiveAccount } from "thirdweb/react";
 import Link from "next/link";
+import { useAdminRole, AdminAccessNotice } from "@/app/components/AdminGate";
+import { hasAdminRole } from "@/lib/config/admin";
 
 interface SubscriptionStats {
   totalUsers: number;
@@ -40,7 +42,9 @@ type ViewTab = "stats" | "users" | "subscriptions";
 
 export default function AdminMembershipPage() {
   const account = useActiveAccount();
-  const [isAuthorized, setIsAuthorized] = useState<boolean | null>(null);
+  const admin = useAdminRole();
+  const isAuthorized = hasAdminRole(admin.role, "viewer");
+  const canManage = hasAdminRole(admin.role, "operator");
   const [activeTab, setActiveTab] = useState<ViewTab>("stats");
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<SubscriptionStats | null>(null);
@@ -56,28 +60,6 @@ export default function AdminMembershipPage() {
   const [actionReason, setActionReason] = useState<string>("");
   const [actionLoading, setActionLoading] = useState(false);
 
-  // Check if user is admin
-  useEffect(() => {
-    const checkAdmin = async () => {
-      if (!account?.address) {
-        setIsAuthorized(false);
-        return;
-      }
-      try {
-        const response = await fetch(`/api/admin/wallet/check?wallet=${account.address}`);
-        if (response.ok) {
-          const data = await response.json();
-          setIsAuthorized(data.isAdmin || false);
-        } else {
-          setIsAuthorized(false);
-        }
-      } catch (error) {
-        setIsAuthorized(false);
-      }
-    };
-    checkAdmin();
-  }, [account?.address]);
-
   // Fetch data based on active tab
   const fetchData = useCallback(async () => {
     if (!account?.address || !isAuthorized) return;
@@ -85,7 +67,7 @@ export default function AdminMembershipPage() {
     setLoading(true);
     try {
       const response = await fetch(
-        `/api/admin/membership?adminWallet=${account.address}&action=${activeTab}`
+        `/api/admin/membership?action=${activeTab}`
       );
       const data = await response.json();
 
@@ -125,10 +107,10 @@ export default function AdminMembershipPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          adminWallet: account.address,
           action: actionType,
           walletAddress: selectedUser,
-          ...(actionType === "grant-credits" && { amount: actionAmount, reason: actionReason }),
+          reason: actionReason,
+          ...(actionType === "grant-credits" && { amount: actionAmount }),
           ...(actionType === "set-tier" && { tier: actionTier }),
         }),
       });
@@ -159,34 +141,8 @@ export default function AdminMembershipPage() {
     setShowActionModal(true);
   };
 
-  if (!account?.address) {
-    return (
-      <div className="p-8 text-center">
-        <h1 className="text-2xl font-bold mb-4">Admin - Membership Management</h1>
-        <p className="text-muted-foreground">Please connect your wallet.</p>
-      </div>
-    );
-  }
-
-  if (isAuthorized === null) {
-    return (
-      <div className="p-8 text-center">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
-        <p className="mt-4 text-muted-foreground">Checking authorization...</p>
-      </div>
-    );
-  }
-
   if (!isAuthorized) {
-    return (
-      <div className="p-8 text-center">
-        <h1 className="text-2xl font-bold mb-4 text-red-400">Unauthorized</h1>
-        <p className="text-muted-foreground">You are not authorized to access this page.</p>
-        <Link href="/admin" className="mt-4 inline-block text-primary hover:underline">
-          Back to Admin
-        </Link>
-      </div>
-    );
+    return <AdminAccessNotice title="Admin - Membership Management" admin={admin} />;
   }
 
   return (
@@ -198,12 +154,14 @@ export default function AdminMembershipPage() {
           <p className="text-muted-foreground mt-1">View users, subscriptions, and revenue</p>
         </div>
         <div className="flex gap-2">
-          <button
-            onClick={() => openActionModal("grant-credits")}
-            className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-sm font-medium transition-colors"
-          >
-            Grant Credits
-          </button>
+          {canManage && (
+            <button
+              onClick={() => openActionModal("grant-credits")}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              Grant Credits
+            </button>
+          )}
           <Link
             href="/admin"
             className="px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
@@ -304,20 +262,22 @@ export default function AdminMembershipPage() {
                           : "-"}
                       </td>
                       <td className="px-4 py-3 text-sm">
-                        <div className="flex gap-2">
-                          <button
-                            onClick={() => openActionModal("grant-credits", user.walletAddress)}
-                            className="text-xs px-2 py-1 bg-green-600/20 text-green-400 rounded hover:bg-green-600/30"
-                          >
-                            +Credits
-                          </button>
-                          <button
-                            onClick={() => openActionModal("set-tier", user.walletAddress)}
-                            className="text-xs px-2 py-1 bg-purple-600/20 text-purple-400 rounded hover:bg-purple-600/30"
-                          >
-                            Set Tier
-                          </button>
-                        </div>
+                        {canManage && (
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => openActionModal("grant-credits", user.walletAddress)}
+                              className="text-xs px-2 py-1 bg-green-600/20 text-green-400 rounded hover:bg-green-600/30"
+                            >
+                              +Credits
+                            </button>
+                            <button
+                              onClick={() => openActionModal("set-tier", user.walletAddress)}
+                              className="text-xs px-2 py-1 bg-purple-600/20 text-purple-400 rounded hover:bg-purple-600/30"
+                            >
+                              Set Tier
+                            </button>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -391,27 +351,15 @@ export default function AdminMembershipPage() {
               </div>
 
               {actionType === "grant-credits" && (
-                <>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Amount</label>
-                    <input
-                      type="number"
-                      value={actionAmount}
-                      onChange={(e) => setActionAmount(parseInt(e.target.value) || 0)}
-                      className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium mb-1">Reason</label>
-                    <input
-                      type="text"
-                      value={actionReason}
-                      onChange={(e) => setActionReason(e.target.value)}
-                      placeholder="Promotional bonus"
-                      className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
-                    />
-                  </div>
-                </>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Amount</label>
+                  <input
+                    type="number"
+                    value={actionAmount}
+                    onChange={(e) => setActionAmount(parseInt(e.target.value) || 0)}
+                    className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+                  />
+                </div>
               )}
 
               {actionType === "set-tier" && (
@@ -429,6 +377,18 @@ export default function AdminMembershipPage() {
                   </select>
                 </div>
               )}
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={actionReason}
+                  onChange={(e) => setActionReason(e.target.value)}
+                  placeholder={actionType === "grant-credits" ? "Promotional bonus" : "Support ticket #123"}
+                  className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Recorded in the audit log</p>
+              </div>
             </div>
 
             <div className="flex gap-2 mt-6">
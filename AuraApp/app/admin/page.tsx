@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { useAdminRole, AdminAccessNotice } from "@/app/components/AdminGate";
+import { hasAdminRole } from "@/lib/config/admin";
 
 interface RegistrationStatus {
     registered: boolean;
@@ -12,15 +14,31 @@ interface RegistrationStatus {
     error?: string;
 }
 
+interface FacilitatorHealth {
+    name: string;
+    url?: string;
+    healthy: boolean;
+    latencyMs?: number;
+    circuit: "closed" | "open" | "half-open";
+    consecutiveFailures: number;
+    lastError?: string;
+}
+
 export default function AdminPage() {
+    const admin = useAdminRole();
+    const isAuthorized = hasAdminRole(admin.role, "viewer");
+    const isOwner = hasAdminRole(admin.role, "owner");
     const [registrationStatus, setRegistrationStatus] = useState<RegistrationStatus | null>(null);
     const [loading, setLoading] = useState(true);
     const [registering, setRegistering] = useState(false);
     const [facilitatorHealth, setFacilitatorHealth] = useState<boolean | null>(null);
+    const [facilitators, setFacilitators] = useState<FacilitatorHealth[]>([]);
 
     useEffect(() => {
-        loadStatus();
-    }, []);
+        if (isAuthorized) {
+            loadStatus();
+        }
+    }, [isAuthorized]);
 
     const loadStatus = async () => {
         try {
@@ -38,6 +56,7 @@ export default function AdminPage() {
             if (healthResponse.ok) {
                 const healthData = await healthResponse.json();
                 setFacilitatorHealth(healthData.healthy || false);
+                setFacilitators(healthData.facilitators || []);
             }
         } catch (error) {
             console.error("Failed to load status:", error);
@@ -64,6 +83,10 @@ export default function AdminPage() {
         }
     };
 
+    if (!isAuthorized) {
+        return <AdminAccessNotice title="Admin" admin={admin} />;
+    }
+
     return (
         <div className="max-w-6xl mx-auto px-4 py-8">
             {/* Status Cards */}
@@ -118,7 +141,8 @@ export default function AdminPage() {
                         </button>
                         <button
                             onClick={handleReregister}
-                            disabled={registering || loading}
+                            disabled={registering || loading || !isOwner}
+                            title={isOwner ? undefined : "Only owners can re-register the service"}
                             className="flex-1 px-4 py-2 bg-aura-cyan/20 hover:bg-aura-cyan/30 border border-aura-cyan/30 disabled:opacity-50 disabled:cursor-not-allowed text-aura-cyan text-sm font-medium rounded-lg transition-colors"
                         >
                             {registering ? "Registering..." : "Re-register"}
@@ -147,6 +171,39 @@ export default function AdminPage() {
                             ? "Facilitator is responding"
                             : "Facilitator is not responding"}
                     </p>
+                    {facilitators.length > 0 && (
+                        <div className="space-y-2 mt-4 text-sm">
+                            {facilitators.map((facilitator, index) => (
+                                <div key={facilitator.name} className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <span className="text-muted-foreground">{index === 0 ? "Primary:" : `Fallback ${index}:`}</span>
+                                        <span className="text-foreground ml-2 text-xs break-all">
+                                            {facilitator.url || facilitator.name}
+                                        </span>
+                                        {facilitator.lastError && facilitator.circuit !== "closed" && (
+                                            <p className="text-xs text-red-400 break-all">{facilitator.lastError}</p>
+                                        )}
+                                    </div>
+                                    <span
+                                        className={`shrink-0 px-2 py-0.5 text-xs font-medium rounded ${
+                                            !facilitator.healthy || facilitator.circuit === "open"
+                                                ? "bg-red-500/20 text-red-400"
+                                                : facilitator.circuit === "half-open"
+                                                    ? "bg-yellow-500/20 text-yellow-400"
+                                                    : "bg-green-500/20 text-green-400"
+                                        }`}
+                                        title={`Circuit ${facilitator.circuit}, ${facilitator.consecutiveFailures} consecutive failure(s)`}
+                                    >
+                                        {facilitator.circuit === "open"
+                                            ? "Circuit open"
+                                            : facilitator.healthy
+                                                ? facilitator.latencyMs !== undefined ? `${facilitator.latencyMs}ms` : "Online"
+                                                : "Offline"}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {/* Service Stats */}
@@ -182,7 +239,7 @@ export default function AdminPage() {
             </div>
 
             {/* Quick Links */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
                 <Link
                     href="/admin/membership"
                     className="block bg-gradient-to-br from-amber-500/20 to-orange-500/20 hover:from-amber-500/30 hover:to-orange-500/30 border border-amber-500/30 rounded-xl p-6 backdrop-blur-sm transition-all"
@@ -191,6 +248,40 @@ export default function AdminPage() {
                     <p className="text-sm text-muted-foreground">View users, subscriptions, and revenue</p>
                 </Link>
 
+                <Link
+                    href="/admin/refunds"
+                    className="block bg-gradient-to-br from-green-500/20 to-emerald-500/20 hover:from-green-500/30 hover:to-emerald-500/30 border border-green-500/30 rounded-xl p-6 backdrop-blur-sm transition-all"
+                >
+                    <h3 className="text-lg font-semibold text-foreground mb-2">Refunds</h3>
+                    <p className="text-sm text-muted-foreground">Review refunds for failed paid calls</p>
+                </Link>
+
+                <Link
+                    href="/admin/audit"
+                    className="block bg-gradient-to-br from-slate-500/20 to-zinc-500/20 hover:from-slate-500/30 hover:to-zinc-500/30 border border-slate-500/30 rounded-xl p-6 backdrop-blur-sm transition-all"
+                >
+                    <h3 className="text-lg font-semibold text-foreground mb-2">Audit Log</h3>
+                    <p className="text-sm text-muted-foreground">Who changed credits, tiers and subscriptions</p>
+                </Link>
+
+                <Link
+                    href="/admin/credit-costs"
+                    className="block bg-gradient-to-br from-purple-500/20 to-fuchsia-500/20 hover:from-purple-500/30 hover:to-fuchsia-500/30 border border-purple-500/30 rounded-xl p-6 backdrop-blur-sm transition-all"
+                >
+                    <h3 className="text-lg font-semibold text-foreground mb-2">Credit Costs</h3>
+                    <p className="text-sm text-muted-foreground">Credits charged per AI service</p>
+                </Link>
+
+                {isOwner && (
+                    <Link
+                        href="/admin/roles"
+                        className="block bg-gradient-to-br from-blue-500/20 to-indigo-500/20 hover:from-blue-500/30 hover:to-indigo-500/30 border border-blue-500/30 rounded-xl p-6 backdrop-blur-sm transition-all"
+                    >
+                        <h3 className="text-lg font-semibold text-foreground mb-2">Admin Roles</h3>
+                        <p className="text-sm text-muted-foreground">Grant viewer, operator and owner access</p>
+                    </Link>
+                )}
+
                 <Link
                     href="/dashboard"
                     className="block bg-gradient-to-br from-aura-purple/20 to-aura-cyan/20 hover:from-aura-purple/30 hover:to-aura-cyan/30 border border-aura-purple/30 rounded-xl p-6 backdrop-blur-sm transition-all"
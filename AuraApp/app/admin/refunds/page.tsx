@@ -0,0 +1,339 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import Link from "next/link";
+import { useAdminRole, AdminAccessNotice } from "@/app/components/AdminGate";
+import { hasAdminRole } from "@/lib/config/admin";
+
+interface Refund {
+  id: string;
+  paymentId?: string;
+  route: string;
+  payer: string;
+  network: string;
+  amount: string;
+  amountUsd: number;
+  transactionHash?: string;
+  reason: string;
+  method: "prepaid" | "credits" | "onchain";
+  status: "pending" | "approved" | "completed" | "rejected";
+  credits?: number;
+  refundTransactionHash?: string;
+  error?: string;
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: string;
+  createdAt: string;
+}
+
+type ViewTab = Refund["status"];
+
+export default function AdminRefundsPage() {
+  const account = useActiveAccount();
+  const admin = useAdminRole();
+  const isAuthorized = hasAdminRole(admin.role, "viewer");
+  const canManage = hasAdminRole(admin.role, "operator");
+  const [activeTab, setActiveTab] = useState<ViewTab>("pending");
+  const [loading, setLoading] = useState(true);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+
+  // Action modal state
+  const [showActionModal, setShowActionModal] = useState(false);
+  const [actionType, setActionType] = useState<"approve" | "reject" | "complete" | null>(null);
+  const [selectedRefund, setSelectedRefund] = useState<Refund | null>(null);
+  const [actionNote, setActionNote] = useState<string>("");
+  const [actionTxHash, setActionTxHash] = useState<string>("");
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Fetch refunds for the active tab
+  const fetchData = useCallback(async () => {
+    if (!account?.address || !isAuthorized) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/refunds?status=${activeTab}`
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setRefunds(data.refunds || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch refunds:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [account?.address, isAuthorized, activeTab]);
+
+  useEffect(() => {
+    if (isAuthorized) {
+      fetchData();
+    }
+  }, [isAuthorized, fetchData]);
+
+  // Handle review action
+  const handleAction = async () => {
+    if (!account?.address || !actionType || !selectedRefund) return;
+
+    setActionLoading(true);
+    try {
+      const response = await fetch("/api/admin/refunds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: actionType,
+          refundId: selectedRefund.id,
+          ...(actionType !== "complete" && actionNote && { note: actionNote }),
+          ...(actionType === "complete" && { refundTransactionHash: actionTxHash }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        alert(data.message || "Action completed successfully");
+        setShowActionModal(false);
+        fetchData();
+      } else {
+        alert(data.error || "Action failed");
+      }
+    } catch (error) {
+      alert("Network error");
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Open action modal
+  const openActionModal = (type: "approve" | "reject" | "complete", refund: Refund) => {
+    setActionType(type);
+    setSelectedRefund(refund);
+    setActionNote("");
+    setActionTxHash("");
+    setShowActionModal(true);
+  };
+
+  const describeMethod = (refund: Refund): string => {
+    switch (refund.method) {
+      case "prepaid":
+        return "Prepaid balance";
+      case "credits":
+        return `${refund.credits ?? 0} credits`;
+      case "onchain":
+        return "On-chain USDC";
+    }
+  };
+
+  if (!isAuthorized) {
+    return <AdminAccessNotice title="Admin - Refunds" admin={admin} />;
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Refunds</h1>
+          <p className="text-muted-foreground mt-1">Review refunds for paid calls that failed after settlement</p>
+        </div>
+        <Link
+          href="/admin"
+          className="px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
+        >
+          Back to Admin
+        </Link>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-border pb-2">
+        {(["pending", "approved", "completed", "rejected"] as ViewTab[]).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`px-4 py-2 rounded-t-lg text-sm font-medium transition-colors ${
+              activeTab === tab
+                ? "bg-primary text-primary-foreground"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {tab.charAt(0).toUpperCase() + tab.slice(1)}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "approved" && (
+        <p className="text-sm text-muted-foreground">
+          Send each approved on-chain refund in USDC from the payTo wallet, then record its transaction hash.
+        </p>
+      )}
+
+      {/* Content */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        <div className="bg-card border border-border rounded-xl overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-medium">Date</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Payer</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Endpoint</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Amount</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Refund As</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Reason</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {refunds.map((refund) => (
+                <tr key={refund.id}>
+                  <td className="px-4 py-3 text-sm">
+                    {new Date(refund.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 text-sm font-mono" title={refund.payer}>
+                    {refund.payer.slice(0, 6)}...{refund.payer.slice(-4)}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <code className="text-xs">{refund.route}</code>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    ${refund.amountUsd.toFixed(4)}
+                    <span className="block text-xs text-muted-foreground capitalize">{refund.network}</span>
+                  </td>
+                  <td className="px-4 py-3 text-sm">{describeMethod(refund)}</td>
+                  <td className="px-4 py-3 text-sm max-w-xs">
+                    <span className="block truncate" title={refund.reason}>{refund.reason}</span>
+                    {refund.error && (
+                      <span className="block text-xs text-red-400 truncate" title={refund.error}>
+                        {refund.error}
+                      </span>
+                    )}
+                    {refund.reviewNote && (
+                      <span className="block text-xs text-muted-foreground truncate" title={refund.reviewNote}>
+                        Note: {refund.reviewNote}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="flex gap-2">
+                      {canManage && refund.status === "pending" && (
+                        <button
+                          onClick={() => openActionModal("approve", refund)}
+                          className="text-xs px-2 py-1 bg-green-600/20 text-green-400 rounded hover:bg-green-600/30"
+                        >
+                          Approve
+                        </button>
+                      )}
+                      {canManage && refund.status === "approved" && refund.method === "onchain" && (
+                        <button
+                          onClick={() => openActionModal("complete", refund)}
+                          className="text-xs px-2 py-1 bg-blue-600/20 text-blue-400 rounded hover:bg-blue-600/30"
+                        >
+                          Record Payout
+                        </button>
+                      )}
+                      {canManage && (refund.status === "pending" || refund.status === "approved") && (
+                        <button
+                          onClick={() => openActionModal("reject", refund)}
+                          className="text-xs px-2 py-1 bg-red-600/20 text-red-400 rounded hover:bg-red-600/30"
+                        >
+                          Reject
+                        </button>
+                      )}
+                      {refund.status === "completed" && refund.refundTransactionHash && (
+                        <span className="text-xs font-mono text-muted-foreground" title={refund.refundTransactionHash}>
+                          {refund.refundTransactionHash.slice(0, 10)}...
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {refunds.length === 0 && (
+            <p className="text-center py-8 text-muted-foreground">No {activeTab} refunds</p>
+          )}
+        </div>
+      )}
+
+      {/* Action Modal */}
+      {showActionModal && selectedRefund && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-card border border-border rounded-xl p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-4">
+              {actionType === "approve" ? "Approve Refund" : actionType === "reject" ? "Reject Refund" : "Record Payout"}
+            </h3>
+
+            <div className="space-y-4">
+              <div className="text-sm space-y-1">
+                <p>
+                  <span className="text-muted-foreground">Payer:</span>{" "}
+                  <span className="font-mono break-all">{selectedRefund.payer}</span>
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Amount:</span> ${selectedRefund.amountUsd.toFixed(4)} USDC on{" "}
+                  <span className="capitalize">{selectedRefund.network}</span>
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Refund as:</span> {describeMethod(selectedRefund)}
+                </p>
+              </div>
+
+              {actionType === "complete" ? (
+                <div>
+                  <label className="block text-sm font-medium mb-1">Refund Transaction Hash</label>
+                  <input
+                    type="text"
+                    value={actionTxHash}
+                    onChange={(e) => setActionTxHash(e.target.value)}
+                    placeholder="0x..."
+                    className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Note{actionType === "approve" ? " (optional)" : ""}
+                  </label>
+                  <input
+                    type="text"
+                    value={actionNote}
+                    onChange={(e) => setActionNote(e.target.value)}
+                    placeholder={actionType === "reject" ? "Result was delivered" : ""}
+                    className="w-full px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2 mt-6">
+              <button
+                onClick={() => setShowActionModal(false)}
+                className="flex-1 px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAction}
+                disabled={
+                  actionLoading ||
+                  (actionType === "reject" && !actionNote) ||
+                  (actionType === "complete" && !actionTxHash)
+                }
+                className="flex-1 px-4 py-2 bg-primary hover:bg-primary/90 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                {actionLoading ? "Processing..." : "Confirm"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import Link from "next/link";
+import { useAdminRole, AdminAccessNotice } from "@/app/components/AdminGate";
+import { ADMIN_ROLES, hasAdminRole, type AdminRole } from "@/lib/config/admin";
+
+interface AdminEntry {
+  walletAddress: string;
+  role: AdminRole;
+  grantedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  viewer: "Read stats, users, transactions and refunds",
+  operator: "Also grant credits, set tiers, edit credit costs and review refunds",
+  owner: "Also manage admin roles and the facilitator registration",
+};
+
+export default function AdminRolesPage() {
+  const account = useActiveAccount();
+  const admin = useAdminRole();
+  const isOwner = hasAdminRole(admin.role, "owner");
+  const [loading, setLoading] = useState(true);
+  const [admins, setAdmins] = useState<AdminEntry[]>([]);
+  const [newWallet, setNewWallet] = useState("");
+  const [newRole, setNewRole] = useState<AdminRole>("viewer");
+  const [saving, setSaving] = useState(false);
+
+  const fetchAdmins = useCallback(async () => {
+    if (!isOwner) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/roles");
+      const data = await response.json();
+      if (data.success) {
+        setAdmins(data.admins || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch admins:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [isOwner]);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const setRole = async (walletAddress: string, role: AdminRole) => {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/roles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ walletAddress, role }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setNewWallet("");
+        fetchAdmins();
+      } else {
+        alert(data.message || data.error || "Failed to set role");
+      }
+    } catch (error) {
+      alert("Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeRole = async (walletAddress: string) => {
+    if (!confirm(`Remove admin access for ${walletAddress}?`)) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/admin/roles?walletAddress=${walletAddress}`, { method: "DELETE" });
+      const data = await response.json();
+
+      if (data.success) {
+        fetchAdmins();
+      } else {
+        alert(data.message || data.error || "Failed to remove role");
+      }
+    } catch (error) {
+      alert("Network error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOwner) {
+    return <AdminAccessNotice title="Admin - Roles" admin={admin} minimumRole="owner" />;
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Admin Roles</h1>
+          <p className="text-muted-foreground mt-1">Grant and revoke admin access by wallet</p>
+        </div>
+        <Link
+          href="/admin"
+          className="px-4 py-2 bg-muted hover:bg-muted/80 rounded-lg text-sm transition-colors"
+        >
+          Back to Admin
+        </Link>
+      </div>
+
+      {/* Grant */}
+      <div className="bg-card border border-border rounded-xl p-6 space-y-4">
+        <div className="grid md:grid-cols-3 gap-3 text-sm">
+          {ADMIN_ROLES.map((role) => (
+            <div key={role}>
+              <span className="font-medium capitalize">{role}</span>
+              <p className="text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-col md:flex-row gap-2">
+          <input
+            type="text"
+            value={newWallet}
+            onChange={(e) => setNewWallet(e.target.value)}
+            placeholder="0x..."
+            className="flex-1 px-3 py-2 bg-muted border border-border rounded-lg text-sm"
+          />
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as AdminRole)}
+            className="px-3 py-2 bg-muted border border-border rounded-lg text-sm capitalize"
+          >
+            {ADMIN_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setRole(newWallet, newRole)}
+            disabled={saving || !/^0x[a-fA-F0-9]{40}$/.test(newWallet)}
+            className="px-4 py-2 bg-primary text-primary-foreground rounded-lg text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+          >
+            Grant
+          </button>
+        </div>
+      </div>
+
+      {/* Admins */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          <p className="mt-4 text-muted-foreground">Loading...</p>
+        </div>
+      ) : (
+        <div className="bg-card border border-border rounded-xl overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-medium">Wallet</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Role</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Granted By</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Since</th>
+                <th className="px-4 py-3 text-left text-sm font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {admins.map((entry) => (
+                <tr key={entry.walletAddress}>
+                  <td className="px-4 py-3 text-sm font-mono">
+                    {entry.walletAddress}
+                    {entry.walletAddress === account?.address?.toLowerCase() && (
+                      <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <select
+                      value={entry.role}
+                      onChange={(e) => setRole(entry.walletAddress, e.target.value as AdminRole)}
+                      disabled={saving}
+                      className="px-2 py-1 bg-muted border border-border rounded text-sm capitalize"
+                    >
+                      {ADMIN_ROLES.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-sm font-mono">
+                    {entry.grantedBy === "bootstrap"
+                      ? "bootstrap"
+                      : `${entry.grantedBy.slice(0, 6)}...${entry.grantedBy.slice(-4)}`}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{new Date(entry.createdAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <button
+                      onClick={() => removeRole(entry.walletAddress)}
+                      disabled={saving}
+                      className="text-xs px-2 py-1 bg-red-600/20 text-red-400 rounded hover:bg-red-600/30 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
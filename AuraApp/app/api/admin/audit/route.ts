@@ -0,0 +1,132 @@
+/**
+ * GET /api/admin/audit
+ * Browse the append-only audit log of admin and billing mutations, with filters and CSV export
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auditLogService, AUDIT_ACTIONS, type AuditEntry, type AuditQuery } from "@/lib/services/AuditLogService";
+import { requireAdmin } from "@/lib/middleware/admin";
+
+export const dynamic = "force-dynamic";
+
+const walletSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, "must be a wallet address");
+
+const auditQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  actor: walletSchema.optional(),
+  targetWallet: walletSchema.optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  limit: z.string().regex(/^\d+$/, "limit must be a non-negative integer").optional(),
+  offset: z.string().regex(/^\d+$/, "offset must be a non-negative integer").optional(),
+  export: z.enum(["csv"]).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "viewer");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedParams = auditQuerySchema.parse({
+      action: searchParams.get("action") || undefined,
+      actor: searchParams.get("actor") || undefined,
+      targetWallet: searchParams.get("targetWallet") || undefined,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      limit: searchParams.get("limit") || undefined,
+      offset: searchParams.get("offset") || undefined,
+      export: searchParams.get("export") || undefined,
+    });
+
+    const query: AuditQuery = {
+      action: validatedParams.action,
+      actor: validatedParams.actor,
+      targetWallet: validatedParams.targetWallet,
+      startDate: validatedParams.startDate ? new Date(validatedParams.startDate) : undefined,
+      endDate: validatedParams.endDate ? new Date(validatedParams.endDate) : undefined,
+      // Exports return everything matching the filters, up to the query cap
+      limit: validatedParams.export ? 1000 : parseInt(validatedParams.limit || "50", 10),
+      offset: validatedParams.export ? 0 : parseInt(validatedParams.offset || "0", 10),
+    };
+
+    if (
+      (query.startDate && isNaN(query.startDate.getTime())) ||
+      (query.endDate && isNaN(query.endDate.getTime()))
+    ) {
+      return NextResponse.json(
+        { error: "Validation error", details: "startDate and endDate must be valid dates" },
+        { status: 400 }
+      );
+    }
+
+    const { entries, totalCount } = await auditLogService.query(query);
+
+    if (validatedParams.export === "csv") {
+      return exportToCSV(entries);
+    }
+
+    return NextResponse.json({
+      success: true,
+      entries: entries.map((entry) => ({ ...entry, createdAt: entry.createdAt.toISOString() })),
+      actions: AUDIT_ACTIONS,
+      totalCount,
+      limit: query.limit,
+      offset: query.offset,
+      filters: validatedParams,
+    });
+  } catch (error) {
+    console.error("Get audit log error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Validation error",
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to get audit log",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Export audit entries to CSV
+ */
+function exportToCSV(entries: AuditEntry[]): NextResponse {
+  const headers = ["Created At", "Action", "Actor", "Target Wallet", "Before", "After", "Reason", "Request ID"];
+
+  const rows = entries.map((entry) => [
+    entry.createdAt.toISOString(),
+    entry.action,
+    entry.actor,
+    entry.targetWallet,
+    entry.before ? JSON.stringify(entry.before) : "",
+    JSON.stringify(entry.after),
+    entry.reason || "",
+    entry.requestId,
+  ]);
+
+  const csvContent = [
+    headers.join(","),
+    ...rows.map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")),
+  ].join("\n");
+
+  return new NextResponse(csvContent, {
+    headers: {
+      "Content-Type": "text/csv",
+      "Content-Disposition": `attachment; filename="audit-log-${new Date().toISOString().split("T")[0]}.csv"`,
+    },
+  });
+}
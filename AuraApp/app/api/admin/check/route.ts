@@ -1,17 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
+import { sessionService } from "@/lib/services/SessionService";
+import { adminRoleService } from "@/lib/services/AdminRoleService";
+import { SESSION_COOKIE } from "@/lib/middleware/session";
 
 export const dynamic = "force-dynamic";
 
 /**
  * GET /api/admin/check
- * Check if a wallet address is an admin
+ * Check if the signed-in wallet is an admin, and its role
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const walletAddress = searchParams.get("wallet");
 
-    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+    if (walletAddress && !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
       return NextResponse.json(
         {
           isAdmin: false,
@@ -21,21 +24,28 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get admin wallets from environment variable
-    // Format: "0x123...,0x456..." (comma-separated)
-    const adminWallets = (process.env.ADMIN_WALLETS || "")
-      .split(",")
-      .map((w) => w.trim().toLowerCase())
-      .filter(Boolean);
+    // Only the signed-in wallet can be checked (wallet, if sent, must match it)
+    const session = sessionService.getSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!session || (walletAddress && walletAddress.toLowerCase() !== session.walletAddress)) {
+      return NextResponse.json({
+        isAdmin: false,
+        role: null,
+        canBootstrap: false,
+        signedIn: !!session,
+      });
+    }
 
-    const isAdmin = adminWallets.length > 0
-      ? adminWallets.includes(walletAddress.toLowerCase())
-      : true; // If no admin wallets configured, allow all (dev mode)
+    const role = await adminRoleService.getRole(session.walletAddress);
+    // Offer the first-owner bootstrap to ADMIN_WALLETS while no owner exists
+    const canBootstrap = !role && (await adminRoleService.canBootstrap(session.walletAddress));
 
-    console.log(`Admin check: ${walletAddress} -> ${isAdmin}`, { adminWallets });
+    console.log(`Admin check: ${session.walletAddress} -> ${role || "none"}`);
 
     return NextResponse.json({
-      isAdmin,
+      isAdmin: !!role,
+      role,
+      canBootstrap,
+      signedIn: true,
     });
   } catch (error) {
     console.error("Admin check error:", error);
@@ -0,0 +1,119 @@
+/**
+ * Admin Credit Costs API
+ * GET    /api/admin/credit-costs - Every service's cost, default and last editor (viewer)
+ * POST   /api/admin/credit-costs - Set a service's cost (operator)
+ * DELETE /api/admin/credit-costs?serviceId=chat - Return a service to its default cost (operator)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { requireAdmin } from "@/lib/middleware/admin";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+import { creditCostService, type CreditCost } from "@/lib/services/CreditCostService";
+import { CREDIT_SERVICE_IDS, MAX_CREDIT_COST } from "@/lib/config/credit-costs";
+
+export const dynamic = "force-dynamic";
+
+const serviceIdSchema = z.enum(CREDIT_SERVICE_IDS);
+
+const setCostSchema = z.object({
+  serviceId: serviceIdSchema,
+  credits: z.number().int().min(0).max(MAX_CREDIT_COST),
+  reason: z.string().max(500).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "viewer");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const costs = await creditCostService.list();
+
+    return NextResponse.json({
+      success: true,
+      costs: costs.map(serializeCost),
+      maxCredits: MAX_CREDIT_COST,
+    });
+  } catch (error) {
+    console.error("[Admin Credit Costs API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to list credit costs" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "operator");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const { serviceId, credits, reason } = setCostSchema.parse(await request.json());
+    const cost = await creditCostService.setCost(
+      serviceId,
+      credits,
+      createAuditContext(request, admin.walletAddress!, reason)
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Set ${serviceId} to ${credits} credits`,
+      cost: serializeCost(cost),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), { status: validationError.statusCode });
+    }
+
+    console.error("[Admin Credit Costs API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to set credit cost" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "operator");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const serviceId = serviceIdSchema.parse(request.nextUrl.searchParams.get("serviceId"));
+    const cost = await creditCostService.resetCost(
+      serviceId,
+      createAuditContext(request, admin.walletAddress!, request.nextUrl.searchParams.get("reason") || undefined)
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Reset ${serviceId} to ${cost.credits} credits`,
+      cost: serializeCost(cost),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), { status: validationError.statusCode });
+    }
+
+    console.error("[Admin Credit Costs API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to reset credit cost" },
+      { status: 500 }
+    );
+  }
+}
+
+function serializeCost(cost: CreditCost) {
+  return {
+    ...cost,
+    updatedAt: cost.updatedAt?.toISOString(),
+  };
+}
@@ -1,52 +1,40 @@
 /**
  * GET /api/admin/facilitator/health
- * Check facilitator health (server-side proxy to avoid CORS)
+ * Check health of every configured facilitator (server-side proxy to avoid CORS)
+ * Reports each facilitator's health probe alongside its circuit breaker state
  */
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { x402Config } from "@/lib/config/x402";
+import { getFacilitatorHealth } from "@/lib/services/facilitator";
+import { requireAdmin } from "@/lib/middleware/admin";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const facilitatorUrl = x402Config.facilitatorUrl;
-    
-    // Use the correct health endpoint for PerkOS-Stack
-    const response = await fetch(`${facilitatorUrl}/api/v2/x402/health`, {
-      method: "GET",
-      signal: AbortSignal.timeout(5000), // 5 second timeout
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        {
-          healthy: false,
-          status: response.status,
-          statusText: response.statusText,
-        },
-        { status: 200 } // Return 200 so client can handle the response
-      );
+    const admin = await requireAdmin(request, "viewer");
+    if (!admin.isAuthorized) {
+      return admin.response!;
     }
 
-    const healthData = await response.json().catch(() => ({}));
+    const facilitators = await getFacilitatorHealth();
 
     return NextResponse.json({
-      healthy: true,
-      status: healthData.status || "healthy",
-      data: healthData,
+      // Payments can be processed as long as one facilitator is usable
+      healthy: facilitators.some((facilitator) => facilitator.healthy && facilitator.circuit !== "open"),
+      mode: x402Config.facilitatorMode,
+      facilitators,
     });
   } catch (error) {
     return NextResponse.json(
       {
         healthy: false,
+        mode: x402Config.facilitatorMode,
+        facilitators: [],
         error: error instanceof Error ? error.message : "Failed to check health",
       },
       { status: 200 } // Return 200 so client can handle the response
     );
   }
 }
-
@@ -5,27 +5,20 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { creditsService, SUBSCRIPTION_TIERS, SubscriptionTier } from "@/lib/services/CreditsService";
-
-// Check if wallet is admin
-function isAdmin(walletAddress: string): boolean {
-  const adminWallets = process.env.ADMIN_WALLETS?.split(",").map(w => w.toLowerCase()) || [];
-  return adminWallets.includes(walletAddress.toLowerCase());
-}
+import { requireAdmin } from "@/lib/middleware/admin";
+import { createAuditContext } from "@/lib/services/AuditLogService";
 
 // GET: Fetch membership stats and all users
 export async function GET(request: NextRequest) {
   try {
+    const admin = await requireAdmin(request, "viewer");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
     const { searchParams } = new URL(request.url);
-    const adminWallet = searchParams.get("adminWallet");
     const action = searchParams.get("action") || "stats";
 
-    if (!adminWallet || !isAdmin(adminWallet)) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
-
     switch (action) {
       case "stats": {
         const stats = await creditsService.getSubscriptionStats();
@@ -106,16 +99,14 @@ export async function GET(request: NextRequest) {
 // POST: Admin actions (grant credits, set tier)
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { adminWallet, action, walletAddress, ...params } = body;
-
-    if (!adminWallet || !isAdmin(adminWallet)) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
+    const admin = await requireAdmin(request, "operator");
+    if (!admin.isAuthorized) {
+      return admin.response!;
     }
 
+    const body = await request.json();
+    const { action, walletAddress, reason, ...params } = body;
+
     if (!walletAddress) {
       return NextResponse.json(
         { success: false, error: "walletAddress is required" },
@@ -125,7 +116,7 @@ export async function POST(request: NextRequest) {
 
     switch (action) {
       case "grant-credits": {
-        const { amount, reason } = params;
+        const { amount } = params;
         if (!amount || typeof amount !== "number") {
           return NextResponse.json(
             { success: false, error: "amount (number) is required" },
@@ -135,7 +126,7 @@ export async function POST(request: NextRequest) {
         const result = await creditsService.grantBonusCredits(
           walletAddress,
           amount,
-          reason || "Admin grant"
+          createAuditContext(request, admin.walletAddress!, reason || "Admin grant")
         );
         return NextResponse.json({
           success: true,
@@ -155,6 +146,7 @@ export async function POST(request: NextRequest) {
         const result = await creditsService.setUserTier(
           walletAddress,
           tier as SubscriptionTier,
+          createAuditContext(request, admin.walletAddress!, reason),
           expiresAt ? new Date(expiresAt) : undefined
         );
         return NextResponse.json({
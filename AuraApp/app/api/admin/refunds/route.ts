@@ -0,0 +1,123 @@
+/**
+ * Admin Refunds API
+ * Review queue for refunds of paid calls that failed after settlement
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { refundService, type RefundRecord } from "@/lib/services/RefundService";
+import { requireAdmin } from "@/lib/middleware/admin";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+
+export const dynamic = "force-dynamic";
+
+const refundActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+    refundId: z.string().min(1),
+    note: z.string().optional(),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    refundId: z.string().min(1),
+    note: z.string().min(1, "A note is required to reject a refund"),
+  }),
+  z.object({
+    action: z.literal("complete"),
+    refundId: z.string().min(1),
+    refundTransactionHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, "Valid refundTransactionHash is required"),
+  }),
+]);
+
+// GET: List refunds, optionally filtered by status or payer
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "viewer");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const status = searchParams.get("status");
+    if (status && !["pending", "approved", "completed", "rejected"].includes(status)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const refunds = await refundService.query({
+      status: (status || undefined) as RefundRecord["status"] | undefined,
+      payer: searchParams.get("payer") || undefined,
+      limit: parseInt(searchParams.get("limit") || "100", 10),
+    });
+
+    return NextResponse.json({
+      success: true,
+      refunds: refunds.map(serializeRefund),
+      count: refunds.length,
+    });
+  } catch (error) {
+    console.error("[Admin Refunds API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to fetch refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Review actions (approve, reject, complete an on-chain payout)
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "operator");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const params = refundActionSchema.parse(await request.json());
+    const audit = createAuditContext(request, admin.walletAddress!, "note" in params ? params.note : undefined);
+
+    let refund: RefundRecord;
+    switch (params.action) {
+      case "approve":
+        refund = await refundService.approve(params.refundId, audit);
+        break;
+      case "reject":
+        refund = await refundService.reject(params.refundId, audit);
+        break;
+      case "complete":
+        refund = await refundService.complete(params.refundId, audit, params.refundTransactionHash);
+        break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Refund ${refund.id} is ${refund.status}`,
+      refund: serializeRefund(refund),
+    });
+  } catch (error) {
+    console.error("[Admin Refunds API] Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Action failed" },
+      { status: 500 }
+    );
+  }
+}
+
+function serializeRefund(refund: RefundRecord) {
+  return {
+    ...refund,
+    reviewedAt: refund.reviewedAt?.toISOString(),
+    createdAt: refund.createdAt.toISOString(),
+    updatedAt: refund.updatedAt.toISOString(),
+  };
+}
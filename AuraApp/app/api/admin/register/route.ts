@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { registrationService } from "@/lib/services/RegistrationService";
+import { x402Config } from "@/lib/config/x402";
+import { requireAdmin } from "@/lib/middleware/admin";
+import { createAuditContext } from "@/lib/services/AuditLogService";
 
 export const dynamic = "force-dynamic";
 
@@ -9,8 +12,16 @@ export const dynamic = "force-dynamic";
  */
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json().catch(() => ({}));
-        const result = await registrationService.register(body);
+        const admin = await requireAdmin(request, "owner");
+        if (!admin.isAuthorized) {
+            return admin.response!;
+        }
+
+        const { reason, ...body } = await request.json().catch(() => ({}));
+        const result = await registrationService.register(
+            createAuditContext(request, admin.walletAddress!, typeof reason === "string" ? reason : undefined),
+            body
+        );
 
         if (!result.success) {
             return NextResponse.json({
@@ -40,13 +51,18 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
     try {
+        const admin = await requireAdmin(request, "viewer");
+        if (!admin.isAuthorized) {
+            return admin.response!;
+        }
+
         const status = await registrationService.checkStatus();
         return NextResponse.json(status);
     } catch (error) {
         console.error("Status check error:", error);
         return NextResponse.json({
             registered: false,
-            facilitatorUrl: process.env.FACILITATOR_URL || "https://stack.perkos.xyz",
+            facilitatorUrl: x402Config.facilitatorUrl,
             error: error instanceof Error ? error.message : "Failed to check status",
             lastChecked: new Date().toISOString(),
         }, { status: 200 });
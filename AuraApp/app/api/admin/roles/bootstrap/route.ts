@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireWalletSession } from "@/lib/middleware/session";
+import { adminRoleService } from "@/lib/services/AdminRoleService";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/admin/roles/bootstrap
+ * Claim the first owner role
+ * Only for a signed-in wallet listed in ADMIN_WALLETS, and only while no owner exists.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = requireWalletSession(request);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
+    if (!(await adminRoleService.canBootstrap(auth.walletAddress!))) {
+      return NextResponse.json(
+        { success: false, error: "Bootstrap is only available to ADMIN_WALLETS while no owner exists" },
+        { status: 403 }
+      );
+    }
+
+    const admin = await adminRoleService.bootstrap(
+      auth.walletAddress!,
+      createAuditContext(request, auth.walletAddress!, "Bootstrap first owner")
+    );
+
+    return NextResponse.json({
+      success: true,
+      role: admin.role,
+      walletAddress: admin.walletAddress,
+    });
+  } catch (error) {
+    console.error("[Admin Bootstrap] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Bootstrap failed" },
+      { status: 409 }
+    );
+  }
+}
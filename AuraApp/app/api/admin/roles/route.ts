@@ -0,0 +1,120 @@
+/**
+ * Admin Roles API
+ * GET    /api/admin/roles - List admins
+ * POST   /api/admin/roles - Grant or change a wallet's role
+ * DELETE /api/admin/roles?walletAddress=0x...&reason=... - Remove a wallet's role
+ * All methods require the owner role. Changes are recorded in the audit log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { requireAdmin } from "@/lib/middleware/admin";
+import { adminRoleService, type AdminRoleRecord } from "@/lib/services/AdminRoleService";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+import { ADMIN_ROLES } from "@/lib/config/admin";
+
+export const dynamic = "force-dynamic";
+
+const walletAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required");
+
+const setRoleSchema = z.object({
+  walletAddress: walletAddressSchema,
+  role: z.enum(ADMIN_ROLES),
+  reason: z.string().max(500).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "owner");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const admins = await adminRoleService.list();
+
+    return NextResponse.json({
+      success: true,
+      admins: admins.map(serializeAdmin),
+      roles: ADMIN_ROLES,
+    });
+  } catch (error) {
+    console.error("[Admin Roles API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to list admins" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "owner");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const { walletAddress, role, reason } = setRoleSchema.parse(await request.json());
+    const record = await adminRoleService.setRole(
+      walletAddress,
+      role,
+      createAuditContext(request, admin.walletAddress!, reason)
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Set ${record.walletAddress} to ${role}`,
+      admin: serializeAdmin(record),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), { status: validationError.statusCode });
+    }
+
+    console.error("[Admin Roles API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to set role" },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request, "owner");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
+
+    const walletAddress = walletAddressSchema.parse(request.nextUrl.searchParams.get("walletAddress"));
+    await adminRoleService.removeRole(
+      walletAddress,
+      createAuditContext(request, admin.walletAddress!, request.nextUrl.searchParams.get("reason") || undefined)
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Removed ${walletAddress.toLowerCase()}`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), { status: validationError.statusCode });
+    }
+
+    console.error("[Admin Roles API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to remove role" },
+      { status: 400 }
+    );
+  }
+}
+
+function serializeAdmin(admin: AdminRoleRecord) {
+  return {
+    ...admin,
+    createdAt: admin.createdAt.toISOString(),
+    updatedAt: admin.updatedAt.toISOString(),
+  };
+}
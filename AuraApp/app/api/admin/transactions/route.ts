@@ -1,11 +1,12 @@
 /**
  * GET /api/admin/transactions
- * Get all x402 transactions with filters and export options
+ * Get all x402 transactions from the local payment ledger with filters and export options
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { x402Config } from "@/lib/config/x402";
+import { paymentLedgerService, type PaymentQuery, type PaymentRecord } from "@/lib/services/PaymentLedgerService";
+import { requireAdmin } from "@/lib/middleware/admin";
 
 export const dynamic = "force-dynamic";
 
@@ -13,16 +14,19 @@ const transactionsQuerySchema = z.object({
   startDate: z.string().optional(),
   endDate: z.string().optional(),
   network: z.string().optional(),
-  status: z.enum(["success", "failed", "pending"]).optional(),
+  status: z.enum(["success", "failed", "pending", "settle_unknown"]).optional(),
   search: z.string().optional(),
-  limit: z.string().optional(),
-  offset: z.string().optional(),
+  limit: z.string().regex(/^\d+$/, "limit must be a non-negative integer").optional(),
+  offset: z.string().regex(/^\d+$/, "offset must be a non-negative integer").optional(),
   export: z.enum(["csv", "json"]).optional(),
 });
 
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Add admin authentication check here
+    const admin = await requireAdmin(request, "viewer");
+    if (!admin.isAuthorized) {
+      return admin.response!;
+    }
 
     const { searchParams } = new URL(request.url);
     const params = {
@@ -38,38 +42,33 @@ export async function GET(request: NextRequest) {
 
     const validatedParams = transactionsQuerySchema.parse(params);
 
-    // Query PerkOS-Stack facilitator for transactions
-    const facilitatorUrl = x402Config.facilitatorUrl;
-    const queryParams = new URLSearchParams();
-
-    if (validatedParams.startDate) queryParams.append("startDate", validatedParams.startDate);
-    if (validatedParams.endDate) queryParams.append("endDate", validatedParams.endDate);
-    if (validatedParams.network) queryParams.append("network", validatedParams.network);
-    if (validatedParams.status) queryParams.append("status", validatedParams.status);
-    if (validatedParams.search) queryParams.append("search", validatedParams.search);
-    if (validatedParams.limit) queryParams.append("limit", validatedParams.limit);
-    if (validatedParams.offset) queryParams.append("offset", validatedParams.offset);
-
-    let transactions: any[] = [];
-    let totalCount = 0;
-
-    try {
-      // Try to fetch from facilitator
-      const response = await fetch(`${facilitatorUrl}/api/x402/transactions?${queryParams.toString()}`);
-
-      if (response.ok) {
-        const data = await response.json();
-        transactions = data.transactions || [];
-        totalCount = data.totalCount || transactions.length;
-      } else {
-        // Fallback: return empty array if facilitator doesn't have this endpoint
-        console.warn("Facilitator doesn't support transaction query endpoint");
-      }
-    } catch (error) {
-      console.error("Failed to fetch transactions from facilitator:", error);
-      // Continue with empty array
+    // Search matches a payer address, a transaction hash or an endpoint path
+    const search = validatedParams.search?.trim();
+    const query: PaymentQuery = {
+      network: validatedParams.network,
+      status: validatedParams.status,
+      startDate: validatedParams.startDate ? new Date(validatedParams.startDate) : undefined,
+      endDate: validatedParams.endDate ? new Date(validatedParams.endDate) : undefined,
+      payer: search && /^0x[a-fA-F0-9]{40}$/.test(search) ? search : undefined,
+      transactionHash: search && /^0x[a-fA-F0-9]{64}$/.test(search) ? search : undefined,
+      route: search?.startsWith("/") ? search : undefined,
+      // Exports return everything matching the filters, up to the ledger query cap
+      limit: validatedParams.export ? 1000 : parseInt(validatedParams.limit || "50", 10),
+      offset: validatedParams.export ? 0 : parseInt(validatedParams.offset || "0", 10),
+    };
+
+    if (
+      (query.startDate && isNaN(query.startDate.getTime())) ||
+      (query.endDate && isNaN(query.endDate.getTime()))
+    ) {
+      return NextResponse.json(
+        { error: "Validation error", details: "startDate and endDate must be valid dates" },
+        { status: 400 }
+      );
     }
 
+    const { payments: transactions, totalCount } = await paymentLedgerService.query(query);
+
     // Handle export
     if (validatedParams.export === "csv") {
       return exportToCSV(transactions);
@@ -79,8 +78,10 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      transactions,
+      transactions: transactions.map(serializePayment),
       totalCount,
+      limit: query.limit,
+      offset: query.offset,
       filters: validatedParams,
     });
   } catch (error) {
@@ -106,32 +107,57 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Serialize a ledger record for JSON responses
+ */
+function serializePayment(payment: PaymentRecord) {
+  return {
+    ...payment,
+    createdAt: payment.createdAt.toISOString(),
+    updatedAt: payment.updatedAt.toISOString(),
+  };
+}
+
 /**
  * Export transactions to CSV
  */
-function exportToCSV(transactions: any[]): NextResponse {
+function exportToCSV(transactions: PaymentRecord[]): NextResponse {
   const headers = [
     "Transaction Hash",
     "Network",
     "Payer Address",
     "Recipient Address",
     "Amount (USD)",
-    "Asset",
+    "Amount (Atomic)",
+    "Nonce",
     "Status",
+    "Stage",
+    "Error",
     "Endpoint",
+    "Conversation",
+    "Latency (ms)",
+    "Verified By",
+    "Settled By",
     "Created At",
   ];
 
   const rows = transactions.map((tx) => [
-    tx.transaction_hash || tx.hash || "",
-    tx.network || "",
-    tx.payer_address || tx.payer || "",
-    tx.recipient_address || tx.recipient || "",
-    tx.amount_usd || tx.amount || "0",
-    tx.asset_symbol || tx.asset || "",
-    tx.status || "",
-    tx.endpoint_path || tx.endpoint || "",
-    tx.created_at || tx.timestamp || "",
+    tx.transactionHash || "",
+    tx.network,
+    tx.payer,
+    tx.recipient,
+    tx.amountUsd,
+    tx.amount,
+    tx.nonce,
+    tx.status,
+    tx.stage,
+    tx.error || "",
+    tx.route,
+    tx.conversationId || "",
+    tx.latencyMs ?? "",
+    tx.verifiedBy || "",
+    tx.settledBy || "",
+    tx.createdAt.toISOString(),
   ]);
 
   const csvContent = [
@@ -150,8 +176,8 @@ function exportToCSV(transactions: any[]): NextResponse {
 /**
  * Export transactions to JSON
  */
-function exportToJSON(transactions: any[]): NextResponse {
-  return NextResponse.json(transactions, {
+function exportToJSON(transactions: PaymentRecord[]): NextResponse {
+  return NextResponse.json(transactions.map(serializePayment), {
     headers: {
       "Content-Disposition": `attachment; filename="transactions-${new Date().toISOString().split("T")[0]}.json"`,
     },
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAIService } from "@/lib/services/AIService";
 import { z } from "zod";
-import { verifyX402Payment } from "@/lib/middleware/x402";
+import { withX402Payment } from "@/lib/middleware/x402";
+import { ValidationError } from "@/lib/errors";
+import { fetchImageAsDataUrl } from "@/lib/utils/safe-fetch";
 
 export const dynamic = "force-dynamic";
 
@@ -13,36 +15,27 @@ const analyzeRequestSchema = z.object({
 
 export async function POST(request: NextRequest) {
     try {
-        // 1. Verify Payment (x402)
-        const paymentResult = await verifyX402Payment(request, "POST /api/ai/analyze");
-        if (!paymentResult.isValid) {
-            return paymentResult.response!;
-        }
-
-        // 2. Parse Body
-        const body = await request.json();
-        const validatedData = analyzeRequestSchema.parse(body);
-
-        // 3. Call AI Service
-        const aiService = getAIService();
-        const analysis = await aiService.analyzeImage(
-            validatedData.image,
-            validatedData.question
-        );
-
-        // 4. Return Response
-        const responseConfig: any = {
-            success: true,
-            data: { analysis },
-        };
+        // 1. Verify Payment (x402), settled only after the handler succeeds
+        return await withX402Payment(request, "POST /api/ai/analyze", async () => {
+            // 2. Parse Body
+            const body = await request.json();
+            const validatedData = analyzeRequestSchema.parse(body);
+
+            // 3. Call AI Service (image URLs are fetched here, never by the provider)
+            const aiService = getAIService();
+            const analysis = await aiService.analyzeImage(
+                await fetchImageAsDataUrl(validatedData.image),
+                validatedData.question
+            );
 
-        // Include payment response headers if available (v2)
-        const headers: Record<string, string> = {};
-        if (paymentResult.paymentResponseHeader) {
-            headers["PAYMENT-RESPONSE"] = paymentResult.paymentResponseHeader;
-        }
+            // 4. Return Response
+            const responseConfig: any = {
+                success: true,
+                data: { analysis },
+            };
 
-        return NextResponse.json(responseConfig, { headers });
+            return NextResponse.json(responseConfig);
+        });
     } catch (error) {
         console.error("AI Analysis error:", error);
         if (error instanceof z.ZodError) {
@@ -51,6 +44,9 @@ export async function POST(request: NextRequest) {
                 { status: 400 }
             );
         }
+        if (error instanceof ValidationError) {
+            return NextResponse.json(error.toJSON(), { status: error.statusCode });
+        }
         return NextResponse.json(
             { error: "Analysis failed", message: error instanceof Error ? error.message : "Unknown error" },
             { status: 500 }
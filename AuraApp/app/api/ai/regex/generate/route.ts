@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAIService } from "@/lib/services/AIService";
-import { verifyX402Payment } from "@/lib/middleware/x402";
+import { withX402Payment } from "@/lib/middleware/x402";
 import { z } from "zod";
 
 const schema = z.object({ description: z.string().min(1) });
@@ -8,17 +8,13 @@ export const dynamic = "force-dynamic";
 
 export async function POST(request: NextRequest) {
     try {
-        const paymentResult = await verifyX402Payment(request, "POST /api/ai/regex/generate");
-        if (!paymentResult.isValid) return paymentResult.response!;
+        return await withX402Payment(request, "POST /api/ai/regex/generate", async () => {
+            const body = await request.json();
+            const data = schema.parse(body);
+            const result = await getAIService().generateRegex(data.description);
 
-        const body = await request.json();
-        const data = schema.parse(body);
-        const result = await getAIService().generateRegex(data.description);
-
-        const headers: Record<string, string> = {};
-        if (paymentResult.paymentResponseHeader) headers["PAYMENT-RESPONSE"] = paymentResult.paymentResponseHeader;
-
-        return NextResponse.json({ success: true, data: result }, { headers });
+            return NextResponse.json({ success: true, data: result });
+        });
     } catch (error) {
         console.error("Regex generation error:", error);
         return NextResponse.json({ error: "Regex generation failed", message: error instanceof Error ? error.message : "Unknown" }, { status: 500 });
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAIService } from "@/lib/services/AIService";
-import { verifyX402Payment } from "@/lib/middleware/x402";
+import { withX402Payment } from "@/lib/middleware/x402";
 import { z } from "zod";
 
 const schema = z.object({
@@ -12,17 +12,13 @@ export const dynamic = "force-dynamic";
 
 export async function POST(request: NextRequest) {
     try {
-        const paymentResult = await verifyX402Payment(request, "POST /api/ai/simplify");
-        if (!paymentResult.isValid) return paymentResult.response!;
+        return await withX402Payment(request, "POST /api/ai/simplify", async () => {
+            const body = await request.json();
+            const data = schema.parse(body);
+            const result = await getAIService().simplifyText(data.text, data.readingLevel);
 
-        const body = await request.json();
-        const data = schema.parse(body);
-        const result = await getAIService().simplifyText(data.text, data.readingLevel);
-
-        const headers: Record<string, string> = {};
-        if (paymentResult.paymentResponseHeader) headers["PAYMENT-RESPONSE"] = paymentResult.paymentResponseHeader;
-
-        return NextResponse.json({ success: true, data: { simplified: result } }, { headers });
+            return NextResponse.json({ success: true, data: { simplified: result } });
+        });
     } catch (error) {
         console.error("Simplify error:", error);
         return NextResponse.json({ error: "Simplification failed", message: error instanceof Error ? error.message : "Unknown" }, { status: 500 });
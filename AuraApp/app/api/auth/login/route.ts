@@ -0,0 +1,74 @@
+/**
+ * POST /api/auth/login
+ * Verify a signed Sign-In With Ethereum message and start a wallet session
+ *
+ * Body: { message: string, signature: "0x..." }
+ * Sets an httpOnly session cookie; wallet-scoped routes read the wallet from it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { sessionService, sessionPolicy } from "@/lib/services/SessionService";
+import {
+  getSignInOrigin,
+  sessionCookieOptions,
+  SESSION_COOKIE,
+  SIWE_NONCE_COOKIE,
+} from "@/lib/middleware/session";
+import { enforceRateLimit } from "@/lib/middleware/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+const loginSchema = z.object({
+  message: z.string().min(1, "message is required"),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Valid signature is required"),
+});
+
+export async function POST(request: NextRequest) {
+  const limit = await enforceRateLimit(request, "auth");
+  if (!limit.allowed) {
+    return limit.response!;
+  }
+
+  let params: z.infer<typeof loginSchema>;
+  try {
+    params = loginSchema.parse(await request.json());
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), {
+        status: validationError.statusCode,
+      });
+    }
+    return NextResponse.json(
+      { success: false, error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { session, token } = await sessionService.signIn({
+      message: params.message,
+      signature: params.signature as `0x${string}`,
+      nonceToken: request.cookies.get(SIWE_NONCE_COOKIE)?.value,
+      domain: getSignInOrigin().domain,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      walletAddress: session.walletAddress,
+      expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+    });
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(sessionPolicy.ttlSeconds));
+    // The nonce is spent server-side; drop its cookie too
+    response.cookies.delete(SIWE_NONCE_COOKIE);
+    return response;
+  } catch (error) {
+    console.warn("❌ [Auth Login API] Sign-in rejected:", error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Sign-in failed" },
+      { status: 401 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * POST /api/auth/logout
+ * End the wallet session
+ */
+
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/middleware/session";
+
+export const dynamic = "force-dynamic";
+
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
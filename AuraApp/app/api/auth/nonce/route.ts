@@ -0,0 +1,70 @@
+/**
+ * GET /api/auth/nonce
+ * Build a Sign-In With Ethereum (EIP-4361) message for the connected wallet
+ *
+ * Query params:
+ * - address (required): wallet that will sign
+ * - chainId (required): chain the wallet is connected to
+ *
+ * The message is bound to this service's domain (NEXT_PUBLIC_SERVICE_URL). The
+ * nonce is recorded server-side and kept in a short-lived httpOnly cookie;
+ * /api/auth/login accepts it once.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { sessionService, sessionPolicy } from "@/lib/services/SessionService";
+import { getSignInOrigin, sessionCookieOptions, SIWE_NONCE_COOKIE } from "@/lib/middleware/session";
+import { enforceRateLimit } from "@/lib/middleware/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+const nonceQuerySchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid address is required"),
+  chainId: z.coerce.number().int().positive(),
+});
+
+export async function GET(request: NextRequest) {
+  const limit = await enforceRateLimit(request, "auth");
+  if (!limit.allowed) {
+    return limit.response!;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = nonceQuerySchema.parse({
+      address: searchParams.get("address") || undefined,
+      chainId: searchParams.get("chainId") || undefined,
+    });
+
+    const { domain, uri } = getSignInOrigin();
+    const { message, nonceToken, expiresAt } = await sessionService.createSignInMessage({
+      address: params.address,
+      chainId: params.chainId,
+      domain,
+      uri,
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      message,
+      expiresAt: expiresAt.toISOString(),
+    });
+    response.cookies.set(SIWE_NONCE_COOKIE, nonceToken, sessionCookieOptions(sessionPolicy.messageTtlSeconds));
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), {
+        status: validationError.statusCode,
+      });
+    }
+
+    console.error("[Auth Nonce API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to create sign-in message" },
+      { status: 500 }
+    );
+  }
+}
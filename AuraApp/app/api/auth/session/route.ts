@@ -0,0 +1,25 @@
+/**
+ * GET /api/auth/session
+ * Report the signed-in wallet, if any
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { sessionService } from "@/lib/services/SessionService";
+import { SESSION_COOKIE } from "@/lib/middleware/session";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const session = sessionService.getSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    return NextResponse.json({ authenticated: false });
+  }
+
+  return NextResponse.json({
+    authenticated: true,
+    walletAddress: session.walletAddress,
+    chainId: session.chainId,
+    expiresAt: new Date(session.expiresAt * 1000).toISOString(),
+  });
+}
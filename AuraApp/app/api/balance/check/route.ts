@@ -9,7 +9,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { checkUSDCBalance } from "@/lib/utils/balance-checker";
 import { x402Config } from "@/lib/config/x402";
-import { verifyX402Payment } from "@/lib/middleware/x402";
+import { withX402Payment } from "@/lib/middleware/x402";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -20,36 +20,25 @@ const checkBalanceSchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
-  // Verify x402 payment
-  const paymentResult = await verifyX402Payment(request, "GET /api/balance/check");
-  if (!paymentResult.isValid) {
-    return paymentResult.response!;
-  }
+  // Verify x402 payment; settled only if the balance check succeeds
+  return withX402Payment(request, "GET /api/balance/check", async () => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const walletAddress = searchParams.get("walletAddress");
+      const network = searchParams.get("network") || x402Config.network;
 
-  try {
-    const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
-    const network = searchParams.get("network") || x402Config.network;
+      const validated = checkBalanceSchema.parse({
+        walletAddress,
+        network,
+      });
 
-    const validated = checkBalanceSchema.parse({
-      walletAddress,
-      network,
-    });
-
-    const result = await checkUSDCBalance(
-      validated.walletAddress as `0x${string}`,
-      validated.network || x402Config.network
-    );
-
-    // V2: Add PAYMENT-RESPONSE header if payment was successful
-    const headers: HeadersInit = {};
-    if (paymentResult.paymentResponseHeader) {
-      headers["PAYMENT-RESPONSE"] = paymentResult.paymentResponseHeader;
-    }
+      const result = await checkUSDCBalance(
+        validated.walletAddress as `0x${string}`,
+        validated.network || x402Config.network
+      );
 
-    // Convert BigInt to string for JSON serialization
-    return NextResponse.json(
-      {
+      // Convert BigInt to string for JSON serialization
+      return NextResponse.json({
         success: true,
         walletAddress: validated.walletAddress,
         network: validated.network || x402Config.network,
@@ -57,29 +46,27 @@ export async function GET(request: NextRequest) {
         balanceRaw: result.balanceRaw.toString(), // Convert BigInt to string
         hasEnough: result.hasEnough,
         required: result.required,
-      },
-      { headers }
-    );
-  } catch (error) {
-    console.error("Balance check error:", error);
+      });
+    } catch (error) {
+      console.error("Balance check error:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          {
+            error: "Validation error",
+            details: error.errors,
+          },
+          { status: 400 }
+        );
+      }
 
-    if (error instanceof z.ZodError) {
       return NextResponse.json(
         {
-          error: "Validation error",
-          details: error.errors,
+          error: "Failed to check balance",
+          message: error instanceof Error ? error.message : "Unknown error",
         },
-        { status: 400 }
+        { status: 500 }
       );
     }
-
-    return NextResponse.json(
-      {
-        error: "Failed to check balance",
-        message: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 }
-    );
-  }
+  });
 }
-
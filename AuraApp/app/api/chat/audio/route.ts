@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAIService } from "@/lib/services/AIService";
 import { getElizaServiceV2 } from "@/lib/services/ElizaServiceV2";
+import { ValidationError } from "@/lib/errors";
+import { assertSafeUrl, safeFetch } from "@/lib/utils/safe-fetch";
+import { requireWalletSession } from "@/lib/middleware/session";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -10,7 +13,19 @@ export const dynamic = "force-dynamic";
  * Transcribe audio and send to chat in one request
  * No x402 payment required for chat context (chat is free, only direct AI endpoints have payments)
  */
-import { verifyX402Payment } from "@/lib/middleware/x402";
+import {
+  verifyX402Payment,
+  settleX402Payment,
+  abandonX402Payment,
+  refundX402Payment,
+  storeIdempotentResponse,
+  type X402PaymentVerification,
+  type X402PaymentSettlement,
+} from "@/lib/middleware/x402";
+import { toRefundSummary } from "@/lib/services/RefundService";
+
+// Content types accepted from audioUrl (browser recordings are often served as video/webm)
+const AUDIO_CONTENT_TYPES = ["audio/", "video/webm", "video/mp4", "application/ogg"];
 
 // ... existing imports ...
 
@@ -20,9 +35,28 @@ import { verifyX402Payment } from "@/lib/middleware/x402";
  * Requires x402 payment
  */
 export async function POST(request: NextRequest) {
+  let paymentResult: X402PaymentVerification | undefined;
+  let settlement: X402PaymentSettlement | undefined;
+
   try {
-    // 1. Verify Payment (x402)
-    const paymentResult = await verifyX402Payment(request, "POST /api/chat/audio");
+    // Refuse unsafe audio URLs and signed-out callers before asking for payment
+    const preview = await request.clone().formData().catch(() => null);
+
+    // The conversation belongs to the signed-in wallet; a walletAddress field must match it
+    const claimedWallet = preview?.get("walletAddress");
+    const auth = requireWalletSession(request, typeof claimedWallet === "string" ? claimedWallet : null);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+    const walletAddress = auth.walletAddress!;
+
+    const previewUrl = preview?.get("audioUrl");
+    if (typeof previewUrl === "string" && previewUrl) {
+      await assertSafeUrl(previewUrl);
+    }
+
+    // Verify Payment (x402) - settled only once transcription and chat succeed
+    paymentResult = await verifyX402Payment(request, "POST /api/chat/audio");
     if (!paymentResult.isValid) {
       return paymentResult.response!;
     }
@@ -31,25 +65,19 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
     const audioUrl = formData.get("audioUrl") as string | null;
-    const walletAddress = formData.get("walletAddress") as string;
     const conversationId = formData.get("conversationId") as string;
 
     // Validate required fields
     if (!file && !audioUrl) {
+      await abandonX402Payment(paymentResult, "Audio file or URL is required");
       return NextResponse.json(
         { error: "Validation error", message: "Audio file or URL is required" },
         { status: 400 }
       );
     }
 
-    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
-      return NextResponse.json(
-        { error: "Validation error", message: "Valid walletAddress is required" },
-        { status: 400 }
-      );
-    }
-
     if (!conversationId) {
+      await abandonX402Payment(paymentResult, "conversationId is required");
       return NextResponse.json(
         { error: "Validation error", message: "conversationId is required" },
         { status: 400 }
@@ -57,37 +85,99 @@ export async function POST(request: NextRequest) {
     }
 
     // Note: User isolation is handled by the FirebaseAdapter which stores all data
-    // under the user's wallet address path. The wallet address is validated above
-    // and the user proves ownership via their connected wallet.
+    // under the user's wallet address path; the wallet comes from the session.
 
     // 1. Transcribe the audio
     const aiService = getAIService();
-    // Use audioUrl if available, otherwise file (fallback)
-    const transcription = await aiService.transcribeAudio(audioUrl || file!);
+    // Use audioUrl if available, otherwise file (fallback). URLs are fetched here
+    // so the AI provider never requests user-supplied URLs.
+    let audio: File;
+    if (audioUrl) {
+      const fetched = await safeFetch(audioUrl, { allowedContentTypes: AUDIO_CONTENT_TYPES });
+      const name = new URL(fetched.url).pathname.split("/").pop() || "audio";
+      audio = new File([fetched.buffer], name, { type: fetched.contentType });
+    } else {
+      audio = file!;
+    }
+    const transcription = await aiService.transcribeAudio(audio);
 
     if (!transcription || transcription.trim() === "") {
+      await abandonX402Payment(paymentResult, "Could not transcribe audio");
       return NextResponse.json(
         { error: "Transcription failed", message: "Could not transcribe audio" },
         { status: 400 }
       );
     }
 
-    // 2. Send transcription to chat and get AI response
+    // 2. Generate the AI response; nothing is stored until the payment settles
     const elizaService = getElizaServiceV2(walletAddress);
-    const chatResponse = await elizaService.processMessage({
+    const chatResponse = await elizaService.generateReply({
       message: transcription,
       conversationId,
     });
 
-    // 3. Return both transcription and AI response
-    return NextResponse.json({
+    // Settle payment now that the reply exists; withhold the result if it fails
+    paymentResult.conversationId = conversationId;
+    settlement = await settleX402Payment(paymentResult);
+    if (!settlement.success) {
+      return settlement.response!;
+    }
+
+    // 3. Store the transcript and reply in conversation history
+    await elizaService.storeExchange({
+      message: transcription,
+      response: chatResponse.response,
+      conversationId: chatResponse.conversationId,
+      transactionHash: settlement.transactionHash,
+      paymentNetwork: paymentResult.envelope?.network,
+    });
+
+    // 4. Return both transcription and AI response
+    // Include PAYMENT-RESPONSE header so client can extract transaction hash
+    const responseHeaders: Record<string, string> = {};
+    if (settlement.paymentResponseHeader) {
+      responseHeaders["PAYMENT-RESPONSE"] = settlement.paymentResponseHeader;
+    }
+
+    const response = NextResponse.json({
       success: true,
       transcription,
       response: chatResponse.response,
       conversationId: chatResponse.conversationId,
+    }, {
+      headers: responseHeaders,
     });
+    await storeIdempotentResponse(paymentResult, settlement, response);
+    return response;
   } catch (error) {
     console.error("Chat audio error:", error);
+
+    // Settled but nothing delivered: refund the payer
+    if (paymentResult && settlement?.success) {
+      const refund = await refundX402Payment(
+        paymentResult,
+        settlement,
+        error instanceof Error ? error.message : "Audio chat failed after settlement"
+      );
+      return NextResponse.json(
+        {
+          error: "Audio chat failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+          refund: toRefundSummary(refund),
+        },
+        { status: 500 }
+      );
+    }
+
+    // Verified but never settled: release the payment
+    if (paymentResult?.isValid && !settlement) {
+      await abandonX402Payment(paymentResult, error instanceof Error ? error.message : "Audio chat failed");
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json(error.toJSON(), { status: error.statusCode });
+    }
+
     return NextResponse.json(
       {
         error: "Audio chat failed",
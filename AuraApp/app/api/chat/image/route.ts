@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAIService } from "@/lib/services/AIService";
+import { ValidationError } from "@/lib/errors";
+import { assertSafeUrl, fetchImageAsDataUrl } from "@/lib/utils/safe-fetch";
+import { requireWalletSession } from "@/lib/middleware/session";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -9,7 +12,7 @@ const imageRequestSchema = z.object({
   image: z.string().optional(), // base64
   imageUrl: z.string().optional(), // url
   message: z.string().optional(),
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
+  walletAddress: z.string().optional(), // Must match the session if sent
   conversationId: z.string().min(1, "conversationId is required"),
 }).refine(data => data.image || data.imageUrl, {
   message: "Either image (base64) or imageUrl is required",
@@ -21,14 +24,43 @@ const imageRequestSchema = z.object({
  * Analyze image and send to chat with optional message
  * No x402 payment required for chat context (chat is free, only direct AI endpoints have payments)
  */
-import { verifyX402Payment } from "@/lib/middleware/x402";
+import {
+  verifyX402Payment,
+  settleX402Payment,
+  abandonX402Payment,
+  refundX402Payment,
+  storeIdempotentResponse,
+  type X402PaymentVerification,
+  type X402PaymentSettlement,
+} from "@/lib/middleware/x402";
+import { toRefundSummary } from "@/lib/services/RefundService";
 
 // ... existing imports ...
 
 export async function POST(request: NextRequest) {
+  let paymentResult: X402PaymentVerification | undefined;
+  let settlement: X402PaymentSettlement | undefined;
+
   try {
-    // 1. Verify Payment (x402)
-    const paymentResult = await verifyX402Payment(request, "POST /api/chat/image");
+    // Refuse unsafe image URLs and signed-out callers before asking for payment
+    const preview = await request.clone().json().catch(() => null);
+
+    // The conversation belongs to the signed-in wallet; a walletAddress field must match it
+    const auth = requireWalletSession(
+      request,
+      typeof preview?.walletAddress === "string" ? preview.walletAddress : null
+    );
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+    const walletAddress = auth.walletAddress!;
+
+    if (typeof preview?.imageUrl === "string") {
+      await assertSafeUrl(preview.imageUrl);
+    }
+
+    // 1. Verify Payment (x402) - settled only once the analysis succeeds
+    paymentResult = await verifyX402Payment(request, "POST /api/chat/image");
     if (!paymentResult.isValid) {
       return paymentResult.response!;
     }
@@ -37,12 +69,11 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = imageRequestSchema.parse(body);
 
-    const { image, imageUrl, message, walletAddress, conversationId } = validatedData;
+    const { image, imageUrl, message, conversationId } = validatedData;
 
     // Note: User isolation is handled by the FirebaseAdapter which stores all data
-    // under the user's wallet address path. The wallet address is validated by the
-    // schema (must be valid 0x address format) and the user proves ownership via
-    // their connected wallet. No need to validate conversationId format here.
+    // under the user's wallet address path; the wallet comes from the session.
+    // No need to validate conversationId format here.
 
     // Debug: Log what image data we received
     console.log("[Chat Image API] Received image data:", {
@@ -59,20 +90,30 @@ export async function POST(request: NextRequest) {
     const question = message || "Please describe and analyze this image in detail.";
     // Use imageUrl if provided, otherwise image base64
     const imageToAnalyze = imageUrl || image!;
+    // Fetched here so the AI provider never requests user-supplied URLs
+    const imageData = await fetchImageAsDataUrl(imageToAnalyze);
     console.log("[Chat Image API] Calling analyzeImage with:", {
       imageType: imageToAnalyze.startsWith("http") ? "url" : imageToAnalyze.startsWith("data:") ? "data-uri" : "base64",
       imageLength: imageToAnalyze.length,
       question,
     });
-    const analysis = await aiService.analyzeImage(imageToAnalyze, question);
+    const analysis = await aiService.analyzeImage(imageData, question);
 
     if (!analysis || analysis.trim() === "") {
+      await abandonX402Payment(paymentResult, "Could not analyze image");
       return NextResponse.json(
         { error: "Analysis failed", message: "Could not analyze image" },
         { status: 400 }
       );
     }
 
+    // Settle payment now that the analysis succeeded; withhold the result if it fails
+    paymentResult.conversationId = conversationId;
+    settlement = await settleX402Payment(paymentResult);
+    if (!settlement.success) {
+      return settlement.response!;
+    }
+
     // 2. Store the interaction in conversation history
     // We don't send to Eliza for another response - the image analysis IS the response
     const { getAgentRuntime } = await import("@/lib/services/elizaos/AgentRuntimeManager");
@@ -103,20 +144,9 @@ export async function POST(request: NextRequest) {
         createdAt: new Date(),
       });
 
-      // Extract transaction info from payment result for persistence
-      let transactionHash: string | undefined;
-      let paymentNetwork: string | undefined;
-      if (paymentResult.paymentResponseHeader) {
-        try {
-          const paymentResponse = JSON.parse(
-            Buffer.from(paymentResult.paymentResponseHeader, "base64").toString()
-          );
-          transactionHash = paymentResponse.transactionHash;
-          paymentNetwork = paymentResponse.network;
-        } catch (e) {
-          console.warn("[Chat Image API] Failed to parse payment response header:", e);
-        }
-      }
+      // Transaction info from settlement for persistence
+      const transactionHash = settlement.transactionHash;
+      const paymentNetwork = paymentResult.envelope?.network;
 
       // Store the analysis as assistant response (with transaction info for paid badge)
       await adapter.createMemory({
@@ -136,11 +166,11 @@ export async function POST(request: NextRequest) {
     // 3. Return the analysis directly as the response
     // Include PAYMENT-RESPONSE header so client can extract transaction hash
     const responseHeaders: Record<string, string> = {};
-    if (paymentResult.paymentResponseHeader) {
-      responseHeaders["PAYMENT-RESPONSE"] = paymentResult.paymentResponseHeader;
+    if (settlement.paymentResponseHeader) {
+      responseHeaders["PAYMENT-RESPONSE"] = settlement.paymentResponseHeader;
     }
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       analysis,
       response: assistantResponse,
@@ -148,9 +178,34 @@ export async function POST(request: NextRequest) {
     }, {
       headers: responseHeaders,
     });
+    await storeIdempotentResponse(paymentResult, settlement, response);
+    return response;
   } catch (error) {
     console.error("Chat image error:", error);
 
+    // Settled but nothing delivered: refund the payer
+    if (paymentResult && settlement?.success) {
+      const refund = await refundX402Payment(
+        paymentResult,
+        settlement,
+        error instanceof Error ? error.message : "Image chat failed after settlement"
+      );
+      return NextResponse.json(
+        {
+          error: "Image chat failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+          refund: toRefundSummary(refund),
+        },
+        { status: 500 }
+      );
+    }
+
+    // Verified but never settled (invalid body, refused image URL, failed analysis):
+    // nothing was delivered, so release the payment
+    if (paymentResult?.isValid && !settlement) {
+      await abandonX402Payment(paymentResult, error instanceof Error ? error.message : "Image chat failed");
+    }
+
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: "Validation error", details: error.errors },
@@ -158,6 +213,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof ValidationError) {
+      return NextResponse.json(error.toJSON(), { status: error.statusCode });
+    }
+
     return NextResponse.json(
       {
         error: "Image chat failed",
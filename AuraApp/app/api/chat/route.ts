@@ -4,6 +4,8 @@ import { getElizaServiceV2 } from "@/lib/services/ElizaServiceV2";
 import { chatRequestSchema } from "@/lib/validators";
 import { ValidationError } from "@/lib/errors";
 import { creditsService } from "@/lib/services/CreditsService";
+import { requireWalletAuth } from "@/lib/middleware/session";
+import { enforceRateLimit } from "@/lib/middleware/rate-limit";
 import { z } from "zod";
 
 export const dynamic = "force-dynamic";
@@ -14,8 +16,19 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = chatRequestSchema.parse(body);
 
+    const auth = await requireWalletAuth(request, "chat", validatedData.walletAddress);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+    const walletAddress = auth.walletAddress!;
+
+    const limit = await enforceRateLimit(request, "chat", { walletAddress, apiKeyId: auth.apiKey?.id });
+    if (!limit.allowed) {
+      return limit.response!;
+    }
+
     // Use elizaOS V2 (full framework)
-    const elizaServiceV2 = getElizaServiceV2(validatedData.walletAddress);
+    const elizaServiceV2 = getElizaServiceV2(walletAddress);
 
     // Handle storeOnly mode - just store the message without generating a response
     // storeOnly doesn't consume credits as it's just saving a message
@@ -45,50 +58,62 @@ export async function POST(request: NextRequest) {
     }
 
     // Normal mode - process message and generate response
-    // Check if user has credits before processing
-    console.log(`[Chat API] Checking credits for ${validatedData.walletAddress}`);
-    const creditCheck = await creditsService.hasCredits(validatedData.walletAddress);
+    // Hold the credit before processing so parallel messages cannot overdraw
+    const description = `Chat: ${validatedData.message.substring(0, 50)}${validatedData.message.length > 50 ? "..." : ""}`;
+    console.log(`[Chat API] Reserving credits for ${walletAddress}`);
+    const reservation = await creditsService.reserveCredits(walletAddress, "chat", description);
 
-    if (!creditCheck.hasCredits) {
-      console.log(`[Chat API] Insufficient credits: balance=${creditCheck.balance}, cost=${creditCheck.cost}`);
+    if (!reservation.success) {
+      console.log(`[Chat API] Insufficient credits: balance=${reservation.balance}, cost=${reservation.cost}`);
       return NextResponse.json(
         {
           success: false,
           error: "Insufficient credits",
-          message: `You need ${creditCheck.cost} credit(s) to send a message. Current balance: ${creditCheck.balance}`,
+          message: `You need ${reservation.cost} credit(s) to send a message. Current balance: ${reservation.balance}`,
           code: "INSUFFICIENT_CREDITS",
-          balance: creditCheck.balance,
-          cost: creditCheck.cost,
+          serviceId: "chat",
+          balance: reservation.balance,
+          cost: reservation.cost,
         },
         { status: 402 }
       );
     }
 
-    // Process the message
-    const response = await elizaServiceV2.processMessage({
-      message: validatedData.message,
-      conversationId: validatedData.conversationId || undefined,
-      projectId: validatedData.projectId || undefined,
-    });
+    // Process the message, returning the held credit if it fails
+    let response: Awaited<ReturnType<typeof elizaServiceV2.processMessage>>;
+    try {
+      response = await elizaServiceV2.processMessage({
+        message: validatedData.message,
+        conversationId: validatedData.conversationId || undefined,
+        projectId: validatedData.projectId || undefined,
+      });
+    } catch (error) {
+      await creditsService.releaseReservation(walletAddress, reservation.reservationId).catch((releaseError) => {
+        console.error("[Chat API] Failed to release credit reservation:", releaseError);
+      });
+      throw error;
+    }
 
-    // Deduct credit after successful processing
-    const deductResult = await creditsService.deductCredit(
-      validatedData.walletAddress,
-      `Chat: ${validatedData.message.substring(0, 50)}${validatedData.message.length > 50 ? "..." : ""}`
+    // Spend the held credit after successful processing
+    const commitResult = await creditsService.commitReservation(
+      walletAddress,
+      reservation.reservationId,
+      "chat",
+      description
     );
 
-    if (!deductResult.success) {
-      console.warn(`[Chat API] Failed to deduct credit: ${deductResult.error}`);
-      // Don't fail the request if deduction fails after processing
+    if (!commitResult.success) {
+      console.warn(`[Chat API] Failed to commit credit reservation: ${commitResult.error}`);
+      // Don't fail the request if the charge fails after processing
       // The message was already sent
     } else {
-      console.log(`[Chat API] Credit deducted. New balance: ${deductResult.newBalance}`);
+      console.log(`[Chat API] Credit deducted. New balance: ${commitResult.newBalance}`);
     }
 
     return NextResponse.json({
       success: true,
       ...response,
-      creditsRemaining: deductResult.newBalance,
+      creditsRemaining: commitResult.newBalance,
     });
   } catch (error) {
     console.error("Chat error:", error);
@@ -144,17 +169,11 @@ export async function POST(request: NextRequest) {
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
     const conversationId = searchParams.get("conversationId");
 
-    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
-      return NextResponse.json(
-        {
-          error: "Validation error",
-          details: "walletAddress is required and must be a valid address",
-        },
-        { status: 400 }
-      );
+    const auth = await requireWalletAuth(request, "chat", searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
     }
 
     if (!conversationId) {
@@ -168,7 +187,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Use elizaOS V2
-    const elizaServiceV2 = getElizaServiceV2(walletAddress);
+    const elizaServiceV2 = getElizaServiceV2(auth.walletAddress!);
     const history = await elizaServiceV2.getConversationHistory(conversationId);
 
     return NextResponse.json({
@@ -1,14 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getFirestoreInstance, getConversationMessagesPath, getUserCollectionPath, COLLECTIONS } from "@/lib/db/firebase";
-import { z } from "zod";
+import { requireWalletSession } from "@/lib/middleware/session";
 
 export const dynamic = "force-dynamic";
 
-// Validation schema
-const deleteConversationSchema = z.object({
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
-});
-
 /**
  * DELETE /api/conversations/[conversationId]
  * Delete a conversation and all its messages
@@ -22,17 +17,20 @@ export async function DELETE(
     // Decode the conversation ID in case it's URL encoded
     const conversationId = decodeURIComponent(rawConversationId);
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
-    
+
+    const auth = requireWalletSession(request, searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
     console.log("[Delete Conversation] Raw params:", {
       rawConversationId,
       decodedConversationId: conversationId,
-      walletAddress,
+      walletAddress: auth.walletAddress,
     });
 
-    const validated = deleteConversationSchema.parse({ walletAddress });
     const db = getFirestoreInstance();
-    const userWallet = validated.walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
 
     // Get all messages for this conversation
     const messagesPath = getConversationMessagesPath(userWallet, conversationId);
@@ -76,13 +74,6 @@ export async function DELETE(
   } catch (error) {
     console.error("Failed to delete conversation:", error);
 
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: "Validation error", details: error.errors },
-        { status: 400 }
-      );
-    }
-
     return NextResponse.json(
       { error: "Failed to delete conversation", message: error instanceof Error ? error.message : "Unknown error" },
       { status: 500 }
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getFirestoreInstance, getUserCollectionPath, COLLECTIONS, getConversationMessagesPath } from "@/lib/db/firebase";
 import { z } from "zod";
+import { requireWalletAuth } from "@/lib/middleware/session";
 
 export const dynamic = "force-dynamic";
 
 // Validation schema
 const getConversationsSchema = z.object({
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
   projectId: z.string().uuid().optional(),
 });
 
@@ -17,16 +17,19 @@ const getConversationsSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
     const projectId = searchParams.get("projectId");
 
+    const auth = await requireWalletAuth(request, "chat", searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
     const validated = getConversationsSchema.parse({
-      walletAddress,
       projectId: projectId || undefined,
     });
 
     const db = getFirestoreInstance();
-    const userWallet = validated.walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
     const conversationsRef = db.collection(getUserCollectionPath(COLLECTIONS.CONVERSATIONS, userWallet));
 
     // Get all conversations for the user
@@ -74,8 +77,7 @@ export async function GET(request: NextRequest) {
     }
 
     console.log("[Get Conversations] Returning conversations:", {
-      walletAddress: validated.walletAddress,
-      walletLowercase: userWallet,
+      walletAddress: userWallet,
       count: conversations.length,
       conversationIds: conversations.map((c: any) => c.conversation_id),
       conversations: conversations.map((c: any) => ({
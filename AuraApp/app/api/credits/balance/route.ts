@@ -4,7 +4,9 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { creditsService, SUBSCRIPTION_TIERS, CREDIT_COST_PER_INTERACTION } from "@/lib/services/CreditsService";
+import { creditsService, SUBSCRIPTION_TIERS, CREDIT_PACKS } from "@/lib/services/CreditsService";
+import { creditCostService } from "@/lib/services/CreditCostService";
+import { CREDIT_SERVICE_IDS, isCreditServiceId } from "@/lib/config/credit-costs";
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,6 +23,7 @@ export async function GET(request: NextRequest) {
     console.log(`[Credits Balance API] Getting balance for ${walletAddress}`);
 
     const balanceInfo = await creditsService.getBalance(walletAddress);
+    const creditCosts = await creditCostService.list();
 
     return NextResponse.json({
       success: true,
@@ -29,12 +32,17 @@ export async function GET(request: NextRequest) {
       tierInfo: balanceInfo.tierInfo,
       subscriptionActive: balanceInfo.subscriptionActive,
       canClaimMonthly: balanceInfo.canClaimMonthly,
-      creditCostPerInteraction: CREDIT_COST_PER_INTERACTION,
+      usdcBalance: balanceInfo.usdcBalance,
+      autoRenew: balanceInfo.autoRenew,
+      // Credits per interaction, by service ID
+      creditCosts: Object.fromEntries(creditCosts.map((cost) => [cost.serviceId, cost.credits])),
       // Include all available tiers for reference
       availableTiers: Object.entries(SUBSCRIPTION_TIERS).map(([id, info]) => ({
         id,
         ...info,
       })),
+      // One-off credit packs (POST /api/credits/purchase/{id})
+      creditPacks: Object.values(CREDIT_PACKS),
     });
   } catch (error) {
     console.error("[Credits Balance API] Error:", error);
@@ -48,11 +56,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST to check if user has enough credits for an interaction
+// POST to check if user has enough credits for an interaction with a service (default: chat)
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { walletAddress } = body;
+    const { walletAddress, serviceId = "chat" } = body;
 
     if (!walletAddress) {
       return NextResponse.json(
@@ -61,13 +69,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`[Credits Balance API] Checking credits for ${walletAddress}`);
+    if (typeof serviceId !== "string" || !isCreditServiceId(serviceId)) {
+      return NextResponse.json(
+        { success: false, error: `serviceId must be one of: ${CREDIT_SERVICE_IDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Credits Balance API] Checking ${serviceId} credits for ${walletAddress}`);
 
-    const result = await creditsService.hasCredits(walletAddress);
+    const result = await creditsService.hasCredits(walletAddress, serviceId);
 
     return NextResponse.json({
       success: true,
       hasCredits: result.hasCredits,
+      serviceId,
       cost: result.cost,
       balance: result.balance,
       isUnlimited: result.isUnlimited,
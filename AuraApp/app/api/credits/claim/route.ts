@@ -5,18 +5,18 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { creditsService } from "@/lib/services/CreditsService";
+import { requireWalletSession } from "@/lib/middleware/session";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress } = body;
+    // The body is optional; a walletAddress in it must match the session
+    const body = await request.json().catch(() => ({}));
 
-    if (!walletAddress) {
-      return NextResponse.json(
-        { success: false, error: "walletAddress is required" },
-        { status: 400 }
-      );
+    const auth = requireWalletSession(request, body.walletAddress);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
     }
+    const walletAddress = auth.walletAddress!;
 
     console.log(`[Credits Claim API] Claiming monthly credits for ${walletAddress}`);
 
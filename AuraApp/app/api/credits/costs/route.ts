@@ -0,0 +1,26 @@
+/**
+ * GET /api/credits/costs
+ * Credits charged per interaction, by service (chat and the AI services)
+ */
+
+import { NextResponse } from "next/server";
+import { creditCostService } from "@/lib/services/CreditCostService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const costs = await creditCostService.list();
+
+    return NextResponse.json({
+      success: true,
+      costs: Object.fromEntries(costs.map((cost) => [cost.serviceId, cost.credits])),
+    });
+  } catch (error) {
+    console.error("[Credit Costs API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to get credit costs" },
+      { status: 500 }
+    );
+  }
+}
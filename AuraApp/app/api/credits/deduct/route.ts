@@ -1,58 +1,60 @@
 /**
  * Credits Deduction API
- * Deducts credits from user's balance (for x402 service interactions)
+ * Deducts a service's credit cost from user's balance (for x402 service interactions)
+ *
+ * Body: { walletAddress, serviceId, description? } - serviceId from lib/config/credit-costs.ts
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { creditsService } from "@/lib/services/CreditsService";
+import { requireWalletAuth } from "@/lib/middleware/session";
+import { CREDIT_SERVICE_IDS, isCreditServiceId } from "@/lib/config/credit-costs";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { walletAddress, description } = body;
+    const { description, serviceId } = body;
 
-    if (!walletAddress) {
+    const auth = await requireWalletAuth(request, "credits:spend", body.walletAddress);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+    const walletAddress = auth.walletAddress!;
+
+    if (typeof serviceId !== "string" || !isCreditServiceId(serviceId)) {
       return NextResponse.json(
-        { success: false, error: "walletAddress is required" },
+        { success: false, error: `serviceId must be one of: ${CREDIT_SERVICE_IDS.join(", ")}` },
         { status: 400 }
       );
     }
 
-    console.log(`[Credits Deduct API] Deducting credit for ${walletAddress}: ${description || "No description"}`);
+    console.log(`[Credits Deduct API] Deducting ${serviceId} credits for ${walletAddress}: ${description || "No description"}`);
 
-    // First check if user has credits
-    const creditCheck = await creditsService.hasCredits(walletAddress);
+    // Checks the balance and deducts in one transaction
+    const result = await creditsService.deductCredit(walletAddress, serviceId, description || "Service interaction");
 
-    if (!creditCheck.hasCredits) {
+    if (!result.success) {
       return NextResponse.json(
         {
           success: false,
           error: "Insufficient credits",
           code: "INSUFFICIENT_CREDITS",
-          balance: creditCheck.balance,
+          serviceId,
+          cost: result.cost,
+          balance: result.newBalance,
         },
         { status: 402 }
       );
     }
 
-    // Deduct the credit
-    const result = await creditsService.deductCredit(walletAddress, description || "Service interaction");
-
-    if (!result.success) {
-      return NextResponse.json(
-        { success: false, error: result.error },
-        { status: 500 }
-      );
-    }
-
     console.log(`[Credits Deduct API] Credit deducted. New balance: ${result.newBalance}`);
 
     return NextResponse.json({
       success: true,
       newBalance: result.newBalance,
-      deducted: 1,
+      deducted: result.cost,
     });
   } catch (error) {
     console.error("[Credits Deduct API] Error:", error);
@@ -0,0 +1,116 @@
+/**
+ * Prepaid USDC Deposit API
+ * Settles one larger x402 payment into the payer's prepaid USDC balance.
+ * Paid routes draw that balance down before asking for a per-request payment.
+ *
+ * Flow:
+ * 1. Request comes in without payment header -> returns 402 for the deposit amount
+ * 2. User signs payment envelope with wallet
+ * 3. Request retries with PAYMENT-SIGNATURE header
+ * 4. Payment verified, then settled via facilitator
+ * 5. The settled amount is credited to the signing wallet's balance
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyX402Payment, settleX402Payment, refundX402Payment, storeIdempotentResponse } from "@/lib/middleware/x402";
+import { prepaidBalanceService } from "@/lib/services/PrepaidBalanceService";
+import { toRefundSummary } from "@/lib/services/RefundService";
+import { prepaidConfig } from "@/lib/config/x402";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  const paymentResult = await verifyX402Payment(request, "POST /api/credits/deposit");
+  if (!paymentResult.isValid) {
+    return paymentResult.response!;
+  }
+
+  // Settle before crediting so a failed settlement never adds balance
+  const settlement = await settleX402Payment(paymentResult);
+  if (!settlement.success) {
+    return settlement.response!;
+  }
+
+  const envelope = paymentResult.envelope!;
+  const walletAddress = envelope.authorization.from;
+
+  try {
+    // Credit what was actually settled (the signed value)
+    const { balanceAfter } = await prepaidBalanceService.deposit(
+      walletAddress,
+      BigInt(envelope.authorization.value),
+      { transactionHash: settlement.transactionHash, network: envelope.network }
+    );
+
+    const responseHeaders: Record<string, string> = {};
+    if (settlement.paymentResponseHeader) {
+      responseHeaders["PAYMENT-RESPONSE"] = settlement.paymentResponseHeader;
+    }
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        deposited: Number(envelope.authorization.value) / 1_000_000,
+        usdcBalance: Number(balanceAfter) / 1_000_000,
+        transactionHash: settlement.transactionHash,
+      },
+      { headers: responseHeaders }
+    );
+    await storeIdempotentResponse(paymentResult, settlement, response);
+    return response;
+  } catch (error) {
+    // Settled but not credited: refund the deposit
+    console.error("[Deposit API] Payment settled but balance not credited:", {
+      walletAddress,
+      value: envelope.authorization.value,
+      transactionHash: settlement.transactionHash,
+      error,
+    });
+    const refund = await refundX402Payment(
+      paymentResult,
+      settlement,
+      `Deposit not credited: ${error instanceof Error ? error.message : "unknown error"}`
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Payment settled but the deposit could not be recorded. It will be refunded.",
+        transactionHash: settlement.transactionHash,
+        refund: toRefundSummary(refund),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET the prepaid balance for a wallet and the deposit amount
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const walletAddress = searchParams.get("walletAddress");
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return NextResponse.json(
+        { success: false, error: "Valid walletAddress query parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const balance = await prepaidBalanceService.getBalance(walletAddress);
+
+    return NextResponse.json({
+      success: true,
+      usdcBalance: Number(balance) / 1_000_000,
+      depositUsd: prepaidConfig.depositUsd,
+    });
+  } catch (error) {
+    console.error("[Deposit API] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get prepaid balance",
+      },
+      { status: 500 }
+    );
+  }
+}
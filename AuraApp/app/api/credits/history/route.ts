@@ -5,19 +5,18 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { creditsService } from "@/lib/services/CreditsService";
+import { requireWalletSession } from "@/lib/middleware/session";
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
     const limit = parseInt(searchParams.get("limit") || "50", 10);
 
-    if (!walletAddress) {
-      return NextResponse.json(
-        { success: false, error: "walletAddress query parameter is required" },
-        { status: 400 }
-      );
+    const auth = requireWalletSession(request, searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
     }
+    const walletAddress = auth.walletAddress!;
 
     // Validate limit
     const safeLimit = Math.min(Math.max(1, limit), 100); // Between 1 and 100
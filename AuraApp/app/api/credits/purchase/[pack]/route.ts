@@ -0,0 +1,185 @@
+/**
+ * Credit Pack Purchase API
+ * Handles x402 payment for one-off credit packs
+ *
+ * Flow:
+ * 1. User selects a pack (100, 500, 2000)
+ * 2. Request comes in without payment header -> returns 402
+ * 3. User signs payment envelope with wallet
+ * 4. Request retries with PAYMENT-SIGNATURE header
+ * 5. Payment verified, then settled via facilitator
+ * 6. Pack credits (and bonus) added via CreditsService once settlement succeeds
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifyX402Payment,
+  settleX402Payment,
+  refundX402Payment,
+  abandonX402Payment,
+  storeIdempotentResponse,
+} from "@/lib/middleware/x402";
+import { toRefundSummary } from "@/lib/services/RefundService";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+import { creditsService, CREDIT_PACKS, type CreditPackId } from "@/lib/services/CreditsService";
+
+const PACK_IDS = Object.keys(CREDIT_PACKS) as CreditPackId[];
+
+function isCreditPackId(pack: string): pack is CreditPackId {
+  return PACK_IDS.includes(pack as CreditPackId);
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ pack: string }> }
+) {
+  const { pack } = await params;
+
+  // Validate pack
+  if (!isCreditPackId(pack)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid credit pack: ${pack}. Valid packs: ${PACK_IDS.join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const packInfo = CREDIT_PACKS[pack];
+
+  // Extract wallet address from request body
+  let walletAddress: string;
+  try {
+    // Read a clone: the payment middleware hashes the body for Idempotency-Key checks
+    const body = await request.clone().json();
+    walletAddress = body.walletAddress;
+    if (!walletAddress) {
+      return NextResponse.json(
+        { success: false, error: "walletAddress is required in request body" },
+        { status: 400 }
+      );
+    }
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Invalid JSON body. Expected: { walletAddress: string }" },
+      { status: 400 }
+    );
+  }
+
+  console.log(`[Credit Pack API] Processing ${pack} credit pack for ${walletAddress}`);
+
+  // Verify x402 payment
+  // Route is /api/credits/purchase/{pack} - middleware will look up price from paymentRoutes
+  const paymentResult = await verifyX402Payment(request, `POST /api/credits/purchase/${pack}`);
+
+  if (!paymentResult.isValid) {
+    console.log(`[Credit Pack API] Payment required for ${pack} pack: $${packInfo.priceUsd}`);
+    return paymentResult.response!;
+  }
+
+  // Credits go to the wallet that paid for them
+  const payer = paymentResult.envelope?.authorization.from || paymentResult.payer;
+  if (!payer || payer.toLowerCase() !== walletAddress.toLowerCase()) {
+    const reason = `Credit packs must be paid from the receiving wallet ${walletAddress}`;
+    await abandonX402Payment(paymentResult, reason);
+    return NextResponse.json({ success: false, error: reason }, { status: 400 });
+  }
+
+  // Settle before adding credits so a failed settlement never grants them
+  const settlement = await settleX402Payment(paymentResult);
+  if (!settlement.success) {
+    return settlement.response!;
+  }
+
+  console.log(`[Credit Pack API] Payment settled, adding ${pack} pack for ${walletAddress}`);
+
+  try {
+    // Prefer the on-chain transaction hash, fall back to the envelope nonce for record keeping
+    const transactionHash = settlement.transactionHash || (paymentResult.envelope?.authorization
+      ? `${paymentResult.envelope.network}-${paymentResult.envelope.authorization.nonce}`
+      : undefined);
+
+    const result = await creditsService.purchaseCreditPack(
+      walletAddress,
+      pack,
+      createAuditContext(request, payer),
+      transactionHash,
+      paymentResult.envelope?.network
+    );
+
+    console.log(`[Credit Pack API] Credit pack added:`, {
+      pack,
+      walletAddress,
+      creditsAdded: result.creditsAdded,
+      newBalance: result.newBalance,
+    });
+
+    // Build response headers with payment info
+    const responseHeaders: Record<string, string> = {};
+    if (settlement.paymentResponseHeader) {
+      responseHeaders["PAYMENT-RESPONSE"] = settlement.paymentResponseHeader;
+    }
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: `Successfully purchased ${packInfo.name}`,
+        pack: packInfo,
+        creditsAdded: result.creditsAdded,
+        balance: result.newBalance,
+        transactionHash,
+      },
+      { headers: responseHeaders }
+    );
+    await storeIdempotentResponse(paymentResult, settlement, response);
+    return response;
+  } catch (error) {
+    console.error(`[Credit Pack API] Error adding credit pack:`, error);
+    // The payment was settled but no credits were added: refund it
+    const refund = await refundX402Payment(
+      paymentResult,
+      settlement,
+      `Credit pack purchase failed: ${error instanceof Error ? error.message : "unknown error"}`
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to add credit pack",
+        refund: toRefundSummary(refund),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// GET endpoint to list credit packs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ pack: string }> }
+) {
+  const { pack } = await params;
+
+  // If pack is "info" or "packs", return all packs
+  if (pack === "info" || pack === "packs") {
+    return NextResponse.json({
+      success: true,
+      packs: Object.values(CREDIT_PACKS),
+    });
+  }
+
+  if (!isCreditPackId(pack)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid credit pack: ${pack}. Valid packs: ${PACK_IDS.join(", ")}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    pack: CREDIT_PACKS[pack],
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Settlement Reconciliation Cron
+ * GET /api/cron/settlements - Resolve x402 settlements whose outcome was unknown
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`. Schedule it every few minutes;
+ * each run checks up to SETTLEMENT_RECONCILIATION_BATCH_SIZE payments on-chain
+ * (see SettlementReconciliationService).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireCronSecret } from "@/lib/middleware/cron";
+import { settlementReconciliationService } from "@/lib/services/SettlementReconciliationService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const cron = requireCronSecret(request);
+  if (!cron.isAuthorized) {
+    return cron.response!;
+  }
+
+  try {
+    const result = await settlementReconciliationService.run();
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error("[Settlement Cron] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Settlement reconciliation failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Subscription Lifecycle Cron
+ * GET /api/cron/subscriptions - Renew or expire due subscriptions and send renewal reminders
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`. Schedule it hourly; each run
+ * handles up to SUBSCRIPTION_LIFECYCLE_BATCH_SIZE users (see SubscriptionLifecycleService).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireCronSecret } from "@/lib/middleware/cron";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+import { subscriptionLifecycleService } from "@/lib/services/SubscriptionLifecycleService";
+
+export const dynamic = "force-dynamic";
+
+// Audit entries for lifecycle transitions name the job, not a wallet
+const CRON_ACTOR = "system:subscription-lifecycle";
+
+export async function GET(request: NextRequest) {
+  const cron = requireCronSecret(request);
+  if (!cron.isAuthorized) {
+    return cron.response!;
+  }
+
+  try {
+    const result = await subscriptionLifecycleService.run(
+      createAuditContext(request, CRON_ACTOR, "Scheduled subscription lifecycle")
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error("[Subscription Cron] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Subscription lifecycle failed" },
+      { status: 500 }
+    );
+  }
+}
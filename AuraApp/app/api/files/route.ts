@@ -0,0 +1,48 @@
+/**
+ * GET /api/files?path=users/{wallet}/...
+ * Read a private stored file: checks the signed-in wallet owns the path, then
+ * redirects to a short-lived signed URL. Add `format=json` to get the signed
+ * URL instead of a redirect (e.g. to hand it to another service).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ForbiddenError } from "@/lib/errors";
+import { requireWalletSession } from "@/lib/middleware/session";
+import { getStorageService } from "@/lib/services/StorageService";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const auth = requireWalletSession(request);
+  if (!auth.isAuthenticated) {
+    return auth.response!;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const path = searchParams.get("path") || "";
+  const storageService = getStorageService();
+
+  if (!storageService.isOwnedBy(path, auth.walletAddress!)) {
+    const error = new ForbiddenError("You can only read your own files");
+    return NextResponse.json(error.toJSON(), { status: error.statusCode });
+  }
+
+  try {
+    const { url, expiresAt } = await storageService.getSignedUrl(path);
+
+    if (searchParams.get("format") === "json") {
+      return NextResponse.json({ success: true, url, expiresAt: expiresAt.toISOString() });
+    }
+
+    const response = NextResponse.redirect(url, 302);
+    // The signed URL expires, so browsers must come back here rather than cache it
+    response.headers.set("Cache-Control", "private, no-store");
+    return response;
+  } catch (error) {
+    console.error("[Files API] Error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Failed to read file" },
+      { status: 500 }
+    );
+  }
+}
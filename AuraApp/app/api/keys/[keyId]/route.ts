@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireWalletSession } from "@/lib/middleware/session";
+import { apiKeyService, toApiKeySummary } from "@/lib/services/ApiKeyService";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * DELETE /api/keys/[keyId]
+ * Revoke one of the signed-in wallet's API keys
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  try {
+    const { keyId } = await params;
+
+    const auth = requireWalletSession(request);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
+    const apiKey = await apiKeyService.revoke(auth.walletAddress!, keyId);
+    if (!apiKey) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      apiKey: toApiKeySummary(apiKey),
+    });
+  } catch (error) {
+    console.error("Failed to revoke API key:", error);
+
+    return NextResponse.json(
+      { error: "Failed to revoke API key", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
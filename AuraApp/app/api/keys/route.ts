@@ -0,0 +1,80 @@
+/**
+ * API Keys
+ * GET  /api/keys - List the signed-in wallet's API keys
+ * POST /api/keys - Create an API key (the full key is returned only once)
+ *
+ * Keys are managed with a wallet session only; an API key cannot manage keys.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { requireWalletSession } from "@/lib/middleware/session";
+import { apiKeyService, toApiKeySummary, apiKeyPolicy, API_KEY_SCOPES } from "@/lib/services/ApiKeyService";
+
+export const dynamic = "force-dynamic";
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Key name is required").max(64, "Key name too long"),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Select at least one scope"),
+  expiresInDays: z.number().int().min(1).max(apiKeyPolicy.maxExpiryDays).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireWalletSession(request, request.nextUrl.searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
+    const apiKeys = await apiKeyService.list(auth.walletAddress!);
+
+    return NextResponse.json({
+      success: true,
+      apiKeys: apiKeys.map(toApiKeySummary),
+      scopes: API_KEY_SCOPES,
+    });
+  } catch (error) {
+    console.error("Failed to list API keys:", error);
+
+    return NextResponse.json(
+      { error: "Failed to list API keys", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = requireWalletSession(request);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
+    const body = await request.json();
+    const validated = createApiKeySchema.parse(body);
+
+    const created = await apiKeyService.create(auth.walletAddress!, validated);
+    if (!created.success) {
+      return NextResponse.json({ success: false, error: created.error }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      key: created.key,
+      apiKey: toApiKeySummary(created.apiKey),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), { status: validationError.statusCode });
+    }
+
+    console.error("Failed to create API key:", error);
+
+    return NextResponse.json(
+      { error: "Failed to create API key", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * GET /api/payment/history
+ * Returns the signed-in wallet's x402 payments from the local payment ledger
+ *
+ * Query params:
+ * - walletAddress (optional, must match the session)
+ * - period: 24h | 7d | 30d | all (default 7d)
+ * - status: success | failed | pending
+ * - limit (1-100, default 20), offset (default 0)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { paymentLedgerService } from "@/lib/services/PaymentLedgerService";
+import { requireWalletSession } from "@/lib/middleware/session";
+
+export const dynamic = "force-dynamic";
+
+const PERIOD_MS = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+const historyQuerySchema = z.object({
+  period: z.enum(["24h", "7d", "30d", "all"]).default("7d"),
+  status: z.enum(["success", "failed", "pending", "settle_unknown"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const auth = requireWalletSession(request, searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
+    const params = historyQuerySchema.parse({
+      period: searchParams.get("period") || undefined,
+      status: searchParams.get("status") || undefined,
+      limit: searchParams.get("limit") || undefined,
+      offset: searchParams.get("offset") || undefined,
+    });
+
+    const { payments, totalCount } = await paymentLedgerService.query({
+      payer: auth.walletAddress!,
+      status: params.status,
+      startDate: params.period === "all" ? undefined : new Date(Date.now() - PERIOD_MS[params.period]),
+      limit: params.limit,
+      offset: params.offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      transactions: payments.map((payment) => ({
+        id: payment.id,
+        transactionHash: payment.transactionHash,
+        network: payment.network,
+        amountUsd: payment.amountUsd,
+        route: payment.route,
+        status: payment.status,
+        stage: payment.stage,
+        error: payment.error,
+        conversationId: payment.conversationId,
+        refundStatus: payment.refundStatus,
+        createdAt: payment.createdAt.toISOString(),
+      })),
+      totalCount,
+      limit: params.limit,
+      offset: params.offset,
+    });
+  } catch (error) {
+    console.error("[Payment History API] Error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get payment history",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * POST /api/payment/requests/verify
+ * Check payment requests shown in chat were issued by this server
+ *
+ * Body: { paymentRequests: [...] } (up to 50)
+ * Returns one { valid, expired } result per request, in order. The chat UI only
+ * renders a pay button for a request that is valid and not expired.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { paymentRequestService } from "@/lib/services/PaymentRequestService";
+
+export const dynamic = "force-dynamic";
+
+const verifyRequestsSchema = z.object({
+  paymentRequests: z.array(z.unknown()).min(1).max(50),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { paymentRequests } = verifyRequestsSchema.parse(body);
+
+    return NextResponse.json({
+      success: true,
+      results: paymentRequests.map((paymentRequest) => paymentRequestService.verify(paymentRequest)),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation error", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Verify payment requests error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to verify payment requests",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -5,12 +5,23 @@
  *
  * Supports subscription discounts:
  * - Pass walletAddress query param to get discounted price based on tier
+ * - Uses the same pricing as payment verification, so the quoted amount is the enforced amount
+ *
+ * Supports prorated subscription changes:
+ * - For /api/subscription/{tier} with walletAddress, pricing.planChange shows how
+ *   the wallet's plan changes; upgrades are charged less the unused time on the
+ *   current plan, downgrades and renewals start when the current period ends
+ * - Returns 409 while the wallet already has a plan change scheduled
+ *
+ * Supports usage-based pricing:
+ * - Pass characters, audioSeconds or imageSize to quote a usage-priced route
+ * - Without them, usage-priced routes are quoted at their base price
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { paymentRoutes, x402Config, SUPPORTED_NETWORKS, usdcAddresses, getCAIP2Network, getResourceUrl } from "@/lib/config/x402";
-import { parsePriceToUSDC, getTokenName, getDomainVersion } from "@/lib/utils/x402-payment";
-import { creditsService } from "@/lib/services/CreditsService";
+import { x402Config, SUPPORTED_NETWORKS, usdcAddresses, getCAIP2Network, getResourceUrl } from "@/lib/config/x402";
+import { getTokenName, getDomainVersion } from "@/lib/utils/x402-payment";
+import { pricingService } from "@/lib/services/PricingService";
 
 export const dynamic = "force-dynamic";
 
@@ -20,6 +31,9 @@ export async function GET(request: NextRequest) {
     const endpoint = searchParams.get("endpoint");
     const method = searchParams.get("method") || "POST";
     const walletAddress = searchParams.get("walletAddress");
+    const characters = searchParams.get("characters");
+    const audioSeconds = searchParams.get("audioSeconds");
+    const imageSize = searchParams.get("imageSize");
 
     if (!endpoint) {
       return NextResponse.json(
@@ -30,9 +44,16 @@ export async function GET(request: NextRequest) {
 
     const route = `${method} ${endpoint}`;
 
-    // Get route config from paymentRoutes
-    const routePrice = paymentRoutes[endpoint as keyof typeof paymentRoutes];
-    if (!routePrice) {
+    // Quote the price (with subscription discount when walletAddress is given)
+    const usage = characters || audioSeconds || imageSize
+      ? {
+          characters: characters ? Math.max(0, parseInt(characters, 10) || 0) : undefined,
+          audioSeconds: audioSeconds ? Math.max(0, parseFloat(audioSeconds) || 0) : undefined,
+          imageSize: imageSize || undefined,
+        }
+      : undefined;
+    const quote = await pricingService.quote(endpoint, walletAddress, usage);
+    if (!quote) {
       return NextResponse.json(
         {
           x402Version: 2,
@@ -43,25 +64,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check for subscription discount
-    let discountPercent = 0;
-    let finalPrice = routePrice;
-
-    if (walletAddress) {
-      try {
-        discountPercent = await creditsService.getDiscount(walletAddress);
-        if (discountPercent > 0) {
-          finalPrice = routePrice * (1 - discountPercent / 100);
-          console.log(`[Payment Requirements] Applied ${discountPercent}% discount for ${walletAddress}: $${routePrice} → $${finalPrice.toFixed(4)}`);
-        }
-      } catch (error) {
-        console.warn("[Payment Requirements] Failed to get discount, using full price:", error);
-      }
+    if (quote.planChange?.blockedReason) {
+      return NextResponse.json(
+        {
+          x402Version: 2,
+          accepts: [],
+          error: quote.planChange.blockedReason,
+        },
+        { status: 409 }
+      );
     }
 
-    // Parse price to atomic units (same for all networks)
-    const priceStr = `$${finalPrice}`;
-    const priceAmount = parsePriceToUSDC(priceStr);
+    // Quoted price in atomic units (same for all networks)
+    const priceAmount = quote.amount;
     const description = `Payment for ${endpoint}`;
 
     // Build accepts array for all supported networks
@@ -104,10 +119,13 @@ export async function GET(request: NextRequest) {
       defaultNetwork: x402Config.network,
       // Include pricing info for UI display
       pricing: {
-        originalPrice: routePrice,
-        finalPrice,
-        discountPercent,
-        discountApplied: discountPercent > 0,
+        originalPrice: quote.originalPrice,
+        finalPrice: quote.finalPrice,
+        discountPercent: quote.discountPercent,
+        discountApplied: quote.discountPercent > 0,
+        tier: quote.tier,
+        usage: quote.usage,
+        planChange: quote.planChange,
       },
     });
   } catch (error) {
@@ -2,20 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { getFirestoreInstance, getUserCollectionPath, COLLECTIONS, getConversationMessagesPath } from "@/lib/db/firebase";
 import { z } from "zod";
 import { FieldValue } from "firebase-admin/firestore";
+import { requireWalletSession, requireWalletAuth } from "@/lib/middleware/session";
 
 export const dynamic = "force-dynamic";
 
 // Validation schemas
 const updateProjectSchema = z.object({
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
+  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required").optional(),
   name: z.string().min(1, "Project name is required").max(100, "Project name too long"),
   description: z.string().max(500, "Description too long").optional(),
 });
 
-const deleteProjectSchema = z.object({
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
-});
-
 /**
  * GET /api/projects/[projectId]
  * Get a single project by ID
@@ -27,17 +24,14 @@ export async function GET(
   try {
     const { projectId } = await params;
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
 
-    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
-      return NextResponse.json(
-        { error: "Valid walletAddress is required" },
-        { status: 400 }
-      );
+    const auth = await requireWalletAuth(request, "projects:read", searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
     }
 
     const db = getFirestoreInstance();
-    const userWallet = walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
     const projectRef = db
       .collection(getUserCollectionPath(COLLECTIONS.PROJECTS, userWallet))
       .doc(projectId);
@@ -90,8 +84,14 @@ export async function PUT(
     const { projectId } = await params;
     const body = await request.json();
     const validated = updateProjectSchema.parse(body);
+
+    const auth = requireWalletSession(request, validated.walletAddress);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
     const db = getFirestoreInstance();
-    const userWallet = validated.walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
 
     const projectRef = db
       .collection(getUserCollectionPath(COLLECTIONS.PROJECTS, userWallet))
@@ -152,11 +152,14 @@ export async function DELETE(
   try {
     const { projectId } = await params;
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
 
-    const validated = deleteProjectSchema.parse({ walletAddress });
+    const auth = requireWalletSession(request, searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
     const db = getFirestoreInstance();
-    const userWallet = validated.walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
 
     const projectRef = db
       .collection(getUserCollectionPath(COLLECTIONS.PROJECTS, userWallet))
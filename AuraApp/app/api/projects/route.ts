@@ -2,20 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { getFirestoreInstance, getUserCollectionPath, COLLECTIONS } from "@/lib/db/firebase";
 import { z } from "zod";
 import { FieldValue } from "firebase-admin/firestore";
+import { requireWalletSession, requireWalletAuth } from "@/lib/middleware/session";
 
 export const dynamic = "force-dynamic";
 
 // Validation schemas
 const createProjectSchema = z.object({
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
+  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required").optional(),
   name: z.string().min(1, "Project name is required").max(100, "Project name too long"),
   description: z.string().max(500, "Description too long").optional(),
 });
 
-const getProjectsSchema = z.object({
-  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Valid wallet address required"),
-});
-
 /**
  * GET /api/projects
  * Get all projects for a user
@@ -23,11 +20,14 @@ const getProjectsSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
 
-    const validated = getProjectsSchema.parse({ walletAddress });
+    const auth = await requireWalletAuth(request, "projects:read", searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
     const db = getFirestoreInstance();
-    const userWallet = validated.walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
 
     const projectsRef = db
       .collection(getUserCollectionPath(COLLECTIONS.PROJECTS, userWallet))
@@ -76,8 +76,14 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const validated = createProjectSchema.parse(body);
+
+    const auth = requireWalletSession(request, validated.walletAddress);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+
     const db = getFirestoreInstance();
-    const userWallet = validated.walletAddress.toLowerCase();
+    const userWallet = auth.walletAddress!;
 
     const projectsRef = db.collection(getUserCollectionPath(COLLECTIONS.PROJECTS, userWallet));
     const projectRef = projectsRef.doc();
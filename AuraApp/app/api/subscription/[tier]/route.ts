@@ -7,13 +7,25 @@
  * 2. Request comes in without payment header -> returns 402
  * 3. User signs payment envelope with wallet
  * 4. Request retries with PAYMENT-SIGNATURE header
- * 5. Payment verified and settled via facilitator
- * 6. Subscription activated via CreditsService
+ * 5. Payment verified, then settled via facilitator
+ * 6. Subscription activated via CreditsService once settlement succeeds
+ *
+ * While a plan is active the price is a plan change (see CreditsService.getPlanChange):
+ * upgrades start now and are charged less the unused time on the current plan;
+ * downgrades and renewals are charged in full and start when the current period ends.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { verifyX402Payment } from "@/lib/middleware/x402";
-import { creditsService, SUBSCRIPTION_TIERS, SubscriptionTier } from "@/lib/services/CreditsService";
+import {
+  verifyX402Payment,
+  settleX402Payment,
+  refundX402Payment,
+  abandonX402Payment,
+  storeIdempotentResponse,
+} from "@/lib/middleware/x402";
+import { toRefundSummary } from "@/lib/services/RefundService";
+import { createAuditContext } from "@/lib/services/AuditLogService";
+import { creditsService, SUBSCRIPTION_TIERS, SubscriptionTier, type PlanChange } from "@/lib/services/CreditsService";
 
 // Valid subscription tiers (excludes free - can't subscribe to free)
 const PURCHASABLE_TIERS = ["starter", "pro", "unlimited"] as const;
@@ -45,7 +57,8 @@ export async function POST(
   // Extract wallet address from request body
   let walletAddress: string;
   try {
-    const body = await request.json();
+    // Read a clone: the payment middleware hashes the body for Idempotency-Key checks
+    const body = await request.clone().json();
     walletAddress = body.walletAddress;
     if (!walletAddress) {
       return NextResponse.json(
@@ -53,6 +66,12 @@ export async function POST(
         { status: 400 }
       );
     }
+    if (typeof walletAddress !== "string" || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return NextResponse.json(
+        { success: false, error: "walletAddress must be a 0x-prefixed 40-character hex address" },
+        { status: 400 }
+      );
+    }
   } catch {
     return NextResponse.json(
       { success: false, error: "Invalid JSON body. Expected: { walletAddress: string }" },
@@ -62,6 +81,21 @@ export async function POST(
 
   console.log(`[Subscription API] Processing ${tier} subscription for ${walletAddress}`);
 
+  // One plan change at a time: refuse before the user signs a payment
+  let plannedChange: PlanChange;
+  try {
+    plannedChange = await creditsService.getPlanChange(walletAddress, tier);
+  } catch (error) {
+    console.error("[Subscription API] Could not check the current plan:", error);
+    return NextResponse.json(
+      { success: false, error: "Could not check your current plan. Please try again." },
+      { status: 503 }
+    );
+  }
+  if (plannedChange.blockedReason) {
+    return NextResponse.json({ success: false, error: plannedChange.blockedReason }, { status: 409 });
+  }
+
   // Verify x402 payment
   // Route is /api/subscription/{tier} - middleware will look up price from paymentRoutes
   const paymentResult = await verifyX402Payment(request, `POST /api/subscription/${tier}`);
@@ -71,21 +105,62 @@ export async function POST(
     return paymentResult.response!;
   }
 
+  // The price was prorated for the paying wallet's plan, so it must be the subscribing wallet
+  const planChange = paymentResult.quote?.planChange;
+  if (planChange && planChange.walletAddress !== walletAddress.toLowerCase()) {
+    const reason = `Subscriptions must be paid from the subscribing wallet ${walletAddress}`;
+    await abandonX402Payment(paymentResult, reason);
+    return NextResponse.json({ success: false, error: reason }, { status: 400 });
+  }
+  if (planChange?.blockedReason) {
+    await abandonX402Payment(paymentResult, planChange.blockedReason);
+    return NextResponse.json({ success: false, error: planChange.blockedReason }, { status: 409 });
+  }
+
+  // Without a quoted plan change the payment bought a fresh full period, which
+  // would discard the remaining time of an active plan: only allow it without one
+  if (!planChange) {
+    let kind: string;
+    try {
+      kind = (await creditsService.getPlanChange(walletAddress, tier)).kind;
+    } catch (error) {
+      console.error("[Subscription API] Could not check the current plan:", error);
+      await abandonX402Payment(paymentResult, "Could not check the current plan");
+      return NextResponse.json(
+        { success: false, error: "Could not check your current plan. Please try again." },
+        { status: 503 }
+      );
+    }
+    if (kind !== "new") {
+      const reason = "The payment was not priced as a change to your active plan. Please try again.";
+      await abandonX402Payment(paymentResult, reason);
+      return NextResponse.json({ success: false, error: reason }, { status: 409 });
+    }
+  }
+
+  // Settle before activating so a failed settlement never grants a tier
+  const settlement = await settleX402Payment(paymentResult);
+  if (!settlement.success) {
+    return settlement.response!;
+  }
+
   // Payment successful - activate subscription
-  console.log(`[Subscription API] Payment verified, activating ${tier} subscription for ${walletAddress}`);
+  console.log(`[Subscription API] Payment settled, activating ${tier} subscription for ${walletAddress}`);
 
   try {
-    // Extract transaction hash from payment envelope for record keeping
-    const transactionHash = paymentResult.envelope?.authorization
+    // Prefer the on-chain transaction hash, fall back to the envelope nonce for record keeping
+    const transactionHash = settlement.transactionHash || (paymentResult.envelope?.authorization
       ? `${paymentResult.envelope.network}-${paymentResult.envelope.authorization.nonce}`
-      : undefined;
+      : undefined);
 
     // Activate subscription
     const result = await creditsService.activateSubscription(
       walletAddress,
       tier as SubscriptionTier,
+      createAuditContext(request, paymentResult.payer || walletAddress),
       transactionHash,
-      paymentResult.envelope?.network
+      paymentResult.envelope?.network,
+      { planChange }
     );
 
     console.log(`[Subscription API] Subscription activated:`, {
@@ -97,14 +172,16 @@ export async function POST(
 
     // Build response headers with payment info
     const responseHeaders: Record<string, string> = {};
-    if (paymentResult.paymentResponseHeader) {
-      responseHeaders["PAYMENT-RESPONSE"] = paymentResult.paymentResponseHeader;
+    if (settlement.paymentResponseHeader) {
+      responseHeaders["PAYMENT-RESPONSE"] = settlement.paymentResponseHeader;
     }
 
-    return NextResponse.json(
+    const response = NextResponse.json(
       {
         success: true,
-        message: `Successfully subscribed to ${tierInfo.name} plan`,
+        message: result.subscription.startsAt > new Date()
+          ? `${tierInfo.name} plan starts on ${result.subscription.startsAt.toLocaleDateString()}`
+          : `Successfully subscribed to ${tierInfo.name} plan`,
         subscription: {
           tier,
           name: tierInfo.name,
@@ -112,19 +189,38 @@ export async function POST(
           creditsPerMonth: tierInfo.creditsPerMonth,
           discountPercent: tierInfo.discountPercent,
           features: tierInfo.features,
+          startsAt: result.subscription.startsAt.toISOString(),
           expiresAt: result.subscription.expiresAt.toISOString(),
         },
+        ...(planChange && {
+          planChange: {
+            kind: planChange.kind,
+            fromTier: planChange.fromTier,
+            listPriceUsd: planChange.listPriceUsd,
+            prorationCreditUsd: planChange.prorationCreditUsd,
+            chargeUsd: planChange.chargeUsd,
+          },
+        }),
         creditsAdded: result.creditsAdded,
         transactionHash,
       },
       { headers: responseHeaders }
     );
+    await storeIdempotentResponse(paymentResult, settlement, response);
+    return response;
   } catch (error) {
     console.error(`[Subscription API] Error activating subscription:`, error);
+    // The payment was settled but no tier was granted: refund it
+    const refund = await refundX402Payment(
+      paymentResult,
+      settlement,
+      `Subscription activation failed: ${error instanceof Error ? error.message : "unknown error"}`
+    );
     return NextResponse.json(
       {
         success: false,
         error: error instanceof Error ? error.message : "Failed to activate subscription",
+        refund: toRefundSummary(refund),
       },
       { status: 500 }
     );
@@ -0,0 +1,53 @@
+/**
+ * Subscription Auto-Renew API
+ * POST /api/subscription/auto-renew - Opt in or out of renewal from the prepaid USDC balance
+ *
+ * Opted-in subscriptions are renewed by the lifecycle job when they expire, if
+ * the prepaid balance (POST /api/credits/deposit) covers the tier's price.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ValidationError } from "@/lib/errors";
+import { creditsService } from "@/lib/services/CreditsService";
+import { requireWalletSession } from "@/lib/middleware/session";
+
+const autoRenewSchema = z.object({
+  enabled: z.boolean(),
+  walletAddress: z.string().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const { enabled, walletAddress: claimedWallet } = autoRenewSchema.parse(await request.json());
+
+    const auth = requireWalletSession(request, claimedWallet);
+    if (!auth.isAuthenticated) {
+      return auth.response!;
+    }
+    const walletAddress = auth.walletAddress!;
+
+    const result = await creditsService.setAutoRenew(walletAddress, enabled);
+    console.log(`[Auto-Renew API] ${walletAddress} turned auto-renew ${enabled ? "on" : "off"}`);
+
+    return NextResponse.json({
+      success: true,
+      autoRenew: result.autoRenew,
+      subscriptionId: result.subscriptionId,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const validationError = ValidationError.fromZodError(error);
+      return NextResponse.json(validationError.toJSON(), { status: validationError.statusCode });
+    }
+
+    console.error("[Auto-Renew API] Error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update auto-renew",
+      },
+      { status: 500 }
+    );
+  }
+}
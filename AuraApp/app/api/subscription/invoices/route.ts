@@ -1,22 +1,40 @@
 /**
  * User Subscription Invoices API
  * Returns user's subscription payment history (invoices)
+ *
+ * Invoices for plan changes itemize the tier's list price and the credit for
+ * unused time on the previous plan; a change scheduled for the end of the
+ * current period is "pending" until it starts.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { creditsService, SUBSCRIPTION_TIERS } from "@/lib/services/CreditsService";
+import { creditsService, SUBSCRIPTION_TIERS, type Subscription } from "@/lib/services/CreditsService";
+import { requireWalletSession } from "@/lib/middleware/session";
+
+// Invoice line items: the plan at its list price, less any proration credit
+function invoiceLines(sub: Subscription): { description: string; amountUsd: number }[] {
+  const tierName = SUBSCRIPTION_TIERS[sub.tier]?.name || sub.tier;
+  const lines = [{ description: `${tierName} plan (1 month)`, amountUsd: sub.planChange?.listPriceUsd ?? sub.priceUsd }];
+
+  if (sub.planChange && sub.planChange.prorationCreditUsd > 0) {
+    const fromName = SUBSCRIPTION_TIERS[sub.planChange.fromTier]?.name || sub.planChange.fromTier;
+    lines.push({
+      description: `Unused time on ${fromName} plan (${Math.round(sub.planChange.unusedFraction * 100)}% of period)`,
+      amountUsd: -sub.planChange.prorationCreditUsd,
+    });
+  }
+  return lines;
+}
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get("walletAddress");
 
-    if (!walletAddress) {
-      return NextResponse.json(
-        { success: false, error: "walletAddress query parameter is required" },
-        { status: 400 }
-      );
+    const auth = requireWalletSession(request, searchParams.get("walletAddress"));
+    if (!auth.isAuthenticated) {
+      return auth.response!;
     }
+    const walletAddress = auth.walletAddress!;
 
     console.log(`[Subscription Invoices API] Getting invoices for ${walletAddress}`);
 
@@ -30,7 +48,7 @@ export async function GET(request: NextRequest) {
     const invoices = subscriptions.map((sub) => {
       const tierInfo = SUBSCRIPTION_TIERS[sub.tier as keyof typeof SUBSCRIPTION_TIERS];
       const now = new Date();
-      const isActive = sub.expiresAt > now;
+      const isPending = sub.startsAt > now;
       const isExpired = sub.expiresAt <= now;
 
       return {
@@ -38,14 +56,18 @@ export async function GET(request: NextRequest) {
         tier: sub.tier,
         tierName: tierInfo?.name || sub.tier,
         priceUsd: sub.priceUsd,
-        creditsIncluded: tierInfo?.creditsPerMonth || 0,
+        creditsIncluded: Math.max(0, (tierInfo?.creditsPerMonth || 0) - (sub.planChange?.creditsAdjustment || 0)),
         discountPercent: tierInfo?.discountPercent || 0,
         transactionHash: sub.transactionHash,
         paymentNetwork: sub.paymentNetwork,
         startsAt: sub.startsAt.toISOString(),
         expiresAt: sub.expiresAt.toISOString(),
         createdAt: sub.createdAt.toISOString(),
-        status: isActive ? "active" : isExpired ? "expired" : "pending",
+        status: isPending ? "pending" : isExpired ? "expired" : "active",
+        changeKind: sub.planChange?.kind || null,
+        previousTier: sub.planChange?.fromTier || null,
+        replacedBy: sub.replacedBy || null,
+        lines: invoiceLines(sub),
         // Calculate period
         periodStart: sub.startsAt.toISOString(),
         periodEnd: sub.expiresAt.toISOString(),
@@ -63,6 +85,8 @@ export async function GET(request: NextRequest) {
               SUBSCRIPTION_TIERS[activeSubscription.tier as keyof typeof SUBSCRIPTION_TIERS]
                 ?.name || activeSubscription.tier,
             expiresAt: activeSubscription.expiresAt.toISOString(),
+            autoRenew: activeSubscription.autoRenew,
+            renewalReminderSentAt: activeSubscription.renewalReminderSentAt?.toISOString() || null,
           }
         : null,
       count: invoices.length,
@@ -1,63 +1,102 @@
-import { NextResponse } from "next/server";
-import { getStorage } from "firebase-admin/storage";
-import { initializeFirebase } from "@/lib/db/firebase";
+import { NextRequest, NextResponse } from "next/server";
+import { requireWalletSession } from "@/lib/middleware/session";
+import { creditsService } from "@/lib/services/CreditsService";
+import { getStorageService } from "@/lib/services/StorageService";
+import { detectFileType } from "@/lib/utils/file-type";
+import { UPLOAD_SIZE_LIMITS, MAX_UPLOAD_BYTES, formatUploadSize } from "@/lib/config/uploads";
 
-export async function POST(req: Request) {
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/upload
+ * Store a file attached in chat under users/{wallet}/uploads/{conversationId}/
+ *
+ * Form fields: file, conversationId, walletAddress (optional, must match the session)
+ * Only images, audio and PDFs are accepted, identified by their bytes. The size
+ * limit depends on the wallet's subscription tier. Files are private: the
+ * response carries a short-lived signed URL and the path to request new ones
+ * from /api/files.
+ */
+export async function POST(req: NextRequest) {
     try {
+        // Authenticate from the session cookie before reading the body
+        const session = requireWalletSession(req, null);
+        if (!session.isAuthenticated) {
+            return session.response!;
+        }
+
+        // Reject oversized bodies before reading them
+        const contentLength = parseInt(req.headers.get("content-length") || "0", 10);
+        if (contentLength > MAX_UPLOAD_BYTES + 64 * 1024) {
+            return NextResponse.json(
+                { error: `File is too large. The maximum upload size is ${formatUploadSize(MAX_UPLOAD_BYTES)}` },
+                { status: 413 }
+            );
+        }
+
         const formData = await req.formData();
-        const file = formData.get("file") as File;
-        const conversationId = formData.get("conversationId") as string;
-        const walletAddress = formData.get("walletAddress") as string;
+        const file = formData.get("file");
+        const conversationId = formData.get("conversationId");
+
+        // A walletAddress field must name the signed-in wallet
+        const auth = requireWalletSession(req, formData.get("walletAddress") as string | null);
+        if (!auth.isAuthenticated) {
+            return auth.response!;
+        }
+        const walletAddress = auth.walletAddress!;
 
-        if (!file || !conversationId) {
+        if (!(file instanceof File) || typeof conversationId !== "string" || !conversationId) {
             return NextResponse.json(
                 { error: "Missing file or conversationId" },
                 { status: 400 }
             );
         }
 
-        // Initialize Firebase Admin
-        const app = initializeFirebase();
-        const storage = getStorage(app);
+        if (!/^[a-zA-Z0-9_-]{1,128}$/.test(conversationId)) {
+            return NextResponse.json(
+                { error: "Invalid conversationId" },
+                { status: 400 }
+            );
+        }
 
-        // Use default bucket
-        const bucket = storage.bucket();
+        // Size limit for the wallet's active tier
+        const { tier, subscriptionActive } = await creditsService.getBalance(walletAddress);
+        const sizeLimit = UPLOAD_SIZE_LIMITS[subscriptionActive ? tier : "free"];
+        if (file.size > sizeLimit) {
+            return NextResponse.json(
+                { error: `File is too large. Your plan allows uploads up to ${formatUploadSize(sizeLimit)}` },
+                { status: 413 }
+            );
+        }
 
-        // Convert file to buffer
+        // Identify the content from its bytes, not the client's file.type
         const buffer = Buffer.from(await file.arrayBuffer());
+        const detected = detectFileType(buffer);
+        if (!detected) {
+            return NextResponse.json(
+                { error: "Unsupported file type. Upload an image (PNG, JPEG, GIF, WebP), audio (MP3, WAV, OGG, FLAC, WebM, M4A) or a PDF" },
+                { status: 415 }
+            );
+        }
 
-        // Create sanitized filename
-        const safeName = file.name.replace(/[^a-zA-Z0-9.-]/g, "_");
-        const filename = `${Date.now()}_${safeName}`;
-        const path = `chats/${conversationId}/${filename}`;
-
-        const fileRef = bucket.file(path);
-
-        // Upload file
-        await fileRef.save(buffer, {
-            contentType: file.type,
-            metadata: {
-                metadata: {
-                    walletAddress,
-                    originalName: file.name,
-                },
-            },
+        const storageService = getStorageService();
+        const result = await storageService.uploadUserFile(buffer, {
+            walletAddress,
+            conversationId,
+            originalName: file.name,
+            contentType: detected.mimeType,
+            extension: detected.extension,
         });
 
-        // Make the file public so it can be accessed by the frontend
-        // Note: In a production app with private data, you should use signed URLs
-        // specific to the user, but for this implementation we'll use a public URL
-        // or long-lived signed URL for simplicity as requested.
-        await fileRef.makePublic();
-        const publicUrl = `https://storage.googleapis.com/${bucket.name}/${path}`;
-
         return NextResponse.json({
             success: true,
-            url: publicUrl,
-            path,
-            filename,
-            size: file.size,
-            type: file.type
+            url: result.url,
+            expiresAt: result.expiresAt.toISOString(),
+            fileUrl: storageService.getFileUrl(result.path),
+            path: result.path,
+            filename: result.path.split("/").pop(),
+            size: buffer.byteLength,
+            type: detected.mimeType,
         });
     } catch (error) {
         console.error("[Upload API] Error:", error);
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useActiveAccount } from "thirdweb/react";
+import { useWalletSession } from "./WalletSession";
+import { hasAdminRole, type AdminRole } from "@/lib/config/admin";
+
+/**
+ * Admin role of the signed-in wallet, for gating admin pages
+ * The API enforces the same roles; this only decides what to render.
+ */
+
+export interface AdminRoleState {
+  role: AdminRole | null;
+  checking: boolean;
+  canBootstrap: boolean; // Wallet may claim the first owner role
+  refresh: () => Promise<void>;
+}
+
+export function useAdminRole(): AdminRoleState {
+  const account = useActiveAccount();
+  const { status } = useWalletSession();
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [canBootstrap, setCanBootstrap] = useState(false);
+  const [checking, setChecking] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!account?.address || status !== "signed-in") {
+      setRole(null);
+      setCanBootstrap(false);
+      setChecking(status === "checking" || status === "signing-in");
+      return;
+    }
+
+    setChecking(true);
+    try {
+      const response = await fetch(`/api/admin/wallet/check?wallet=${account.address}`);
+      const data = await response.json();
+      setRole(data.role || null);
+      setCanBootstrap(data.canBootstrap || false);
+    } catch (error) {
+      setRole(null);
+      setCanBootstrap(false);
+    } finally {
+      setChecking(false);
+    }
+  }, [account?.address, status]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { role, checking, canBootstrap, refresh };
+}
+
+/**
+ * What an admin page renders instead of its content when the wallet lacks the role
+ */
+export function AdminAccessNotice({
+  title,
+  admin,
+  minimumRole = "viewer",
+}: {
+  title: string;
+  admin: AdminRoleState;
+  minimumRole?: AdminRole;
+}) {
+  const account = useActiveAccount();
+  const session = useWalletSession();
+  const [claiming, setClaiming] = useState(false);
+  const [claimError, setClaimError] = useState<string | null>(null);
+
+  const claimOwner = async () => {
+    setClaiming(true);
+    setClaimError(null);
+    try {
+      const response = await fetch("/api/admin/roles/bootstrap", { method: "POST" });
+      const data = await response.json();
+      if (!data.success) {
+        setClaimError(data.error || "Could not claim the owner role");
+        return;
+      }
+      await admin.refresh();
+    } catch (error) {
+      setClaimError("Network error");
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (!account?.address) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">{title}</h1>
+        <p className="text-muted-foreground">Please connect your wallet.</p>
+      </div>
+    );
+  }
+
+  if (session.status !== "signed-in" && !admin.checking) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">{title}</h1>
+        <p className="text-muted-foreground">Sign in with your wallet to prove you are an admin.</p>
+        <button
+          onClick={() => session.signIn()}
+          className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90"
+        >
+          Sign in
+        </button>
+      </div>
+    );
+  }
+
+  if (admin.checking) {
+    return (
+      <div className="p-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="mt-4 text-muted-foreground">Checking authorization...</p>
+      </div>
+    );
+  }
+
+  if (admin.canBootstrap) {
+    return (
+      <div className="p-8 text-center">
+        <h1 className="text-2xl font-bold mb-4">{title}</h1>
+        <p className="text-muted-foreground">
+          No admin owner has been set up yet. Your wallet is listed in ADMIN_WALLETS and can become the first owner.
+        </p>
+        <button
+          onClick={claimOwner}
+          disabled={claiming}
+          className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50"
+        >
+          {claiming ? "Claiming..." : "Become owner"}
+        </button>
+        {claimError && <p className="mt-2 text-sm text-red-400">{claimError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 text-center">
+      <h1 className="text-2xl font-bold mb-4 text-red-400">Unauthorized</h1>
+      <p className="text-muted-foreground">
+        {admin.role && !hasAdminRole(admin.role, minimumRole)
+          ? `This page requires the ${minimumRole} role. Your role is ${admin.role}.`
+          : "You are not authorized to access this page."}
+      </p>
+      <Link href="/admin" className="mt-4 inline-block text-primary hover:underline">
+        Back to Admin
+      </Link>
+    </div>
+  );
+}
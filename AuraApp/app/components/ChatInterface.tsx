@@ -2,10 +2,13 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useActiveAccount } from "thirdweb/react";
+import { useWalletSession } from "./WalletSession";
 import { PaymentButton, type AcceptOption } from "@perkos/ui-payment";
 import { useThirdwebWallet } from "@perkos/ui-payment-thirdweb";
 import { ServiceSelector, type ServiceSelection } from "./ServiceSelector";
 import type { PaymentRequirements } from "@/lib/utils/x402-payment";
+import type { PaymentRequestCheck } from "@/lib/services/PaymentRequestService";
+import { DEFAULT_CREDIT_COSTS, getCreditServiceIdForEndpoint, type CreditServiceId } from "@/lib/config/credit-costs";
 
 // Pending paid service action that needs x402 payment
 interface PendingPaidService {
@@ -539,6 +542,9 @@ type RecordingState = "idle" | "recording" | "processing";
 // Helper to parse and extract payment request JSON from message content
 interface ParsedPaymentInfo {
   beforeText: string;
+  // The payment request block as written, if the content has one
+  paymentRequest: { signature?: unknown } | null;
+  // Only set once the server has confirmed it issued the request
   paymentInfo: {
     endpoint: string;
     price: string;
@@ -584,13 +590,56 @@ function getBlockExplorerUrl(network: string, txHash: string): string {
   return `${baseUrl}/${txHash}`;
 }
 
-function parsePaymentRequestFromContent(content: string): ParsedPaymentInfo {
+/**
+ * Ask the server whether payment requests were issued by it and are unmodified
+ * Anything that cannot be checked counts as invalid.
+ */
+async function verifyPaymentRequests(paymentRequests: unknown[]): Promise<PaymentRequestCheck[]> {
+  const refused = paymentRequests.map(() => ({ valid: false, expired: false }));
+  try {
+    const response = await fetch("/api/payment/requests/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ paymentRequests }),
+    });
+    if (!response.ok) return refused;
+
+    const data = await response.json();
+    return Array.isArray(data.results) ? data.results : refused;
+  } catch {
+    return refused;
+  }
+}
+
+/**
+ * Key a payment request's server check by its whole content (canonical JSON)
+ * A signature copied onto different fields gets a check of its own.
+ */
+function getPaymentRequestKey(paymentRequest: unknown): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.keys(value as Record<string, unknown>)
+          .sort()
+          .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  };
+  return JSON.stringify(canonical(paymentRequest));
+}
+
+function parsePaymentRequestFromContent(
+  content: string,
+  checks: Record<string, PaymentRequestCheck>
+): ParsedPaymentInfo {
   // Match ```json ... ``` code block containing paymentRequest
   const jsonBlockRegex = /```json\s*\n?\{[\s\S]*?"paymentRequest"[\s\S]*?\}\s*\n?```/;
   const match = content.match(jsonBlockRegex);
 
   if (!match) {
-    return { beforeText: content, paymentInfo: null, afterText: "" };
+    return { beforeText: content, paymentRequest: null, paymentInfo: null, afterText: "" };
   }
 
   const jsonBlock = match[0];
@@ -604,8 +653,16 @@ function parsePaymentRequestFromContent(content: string): ParsedPaymentInfo {
     const parsed = JSON.parse(jsonContent);
 
     if (parsed.paymentRequest) {
+      const signature = parsed.paymentRequest.signature;
+
+      // Unsigned, modified or not yet checked: show the text without the payment request
+      if (typeof signature !== "string" || !checks[getPaymentRequestKey(parsed.paymentRequest)]?.valid) {
+        return { beforeText, paymentRequest: parsed.paymentRequest, paymentInfo: null, afterText };
+      }
+
       return {
         beforeText,
+        paymentRequest: parsed.paymentRequest,
         paymentInfo: {
           endpoint: parsed.paymentRequest.endpoint || "",
           price: parsed.paymentRequest.price || "",
@@ -621,7 +678,7 @@ function parsePaymentRequestFromContent(content: string): ParsedPaymentInfo {
     // JSON parse failed, return original content
   }
 
-  return { beforeText: content, paymentInfo: null, afterText: "" };
+  return { beforeText: content, paymentRequest: null, paymentInfo: null, afterText: "" };
 }
 
 // Component to display paid transaction badge
@@ -669,8 +726,15 @@ function PaidBadge({ paymentInfo }: { paymentInfo: ParsedPaymentInfo["paymentInf
   );
 }
 
+interface InsufficientCreditsInfo {
+  cost: number;
+  balance: number;
+  serviceTitle?: string; // Set for AI services, unset for chat messages
+  priceUsd?: number; // x402 price of the service
+}
+
 // Component to display insufficient credits message with CTA
-function InsufficientCreditsCard({ cost, balance }: { cost: number; balance: number }) {
+function InsufficientCreditsCard({ cost, balance, serviceTitle, priceUsd }: InsufficientCreditsInfo) {
   return (
     <div className="my-3 overflow-hidden rounded-2xl border border-amber-500/30 bg-gradient-to-br from-amber-500/10 via-orange-500/5 to-red-500/10 shadow-lg shadow-amber-500/5">
       {/* Header with icon */}
@@ -690,9 +754,22 @@ function InsufficientCreditsCard({ cost, balance }: { cost: number; balance: num
       {/* Content */}
       <div className="px-5 py-4 space-y-4">
         <p className="text-sm text-foreground/80">
-          You need <span className="font-semibold text-amber-300">{cost} credit{cost > 1 ? "s" : ""}</span> to send a message.
+          You need <span className="font-semibold text-amber-300">{cost} credit{cost === 1 ? "" : "s"}</span>{" "}
+          {serviceTitle ? `to use ${serviceTitle}` : "to send a message"}.
         </p>
 
+        {serviceTitle && (
+          <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-amber-500/5 border border-amber-500/20 text-sm">
+            <span className="text-foreground/80">{serviceTitle}</span>
+            <span className="flex items-center gap-2">
+              <span className="font-medium text-amber-300">{cost} credit{cost === 1 ? "" : "s"}</span>
+              {priceUsd !== undefined && (
+                <span className="text-muted-foreground">+ ${priceUsd.toFixed(2)} USDC</span>
+              )}
+            </span>
+          </div>
+        )}
+
         {/* Options */}
         <div className="space-y-2">
           <div className="flex items-start gap-2 text-sm text-muted-foreground">
@@ -732,7 +809,7 @@ function InsufficientCreditsCard({ cost, balance }: { cost: number; balance: num
 }
 
 // Helper to check if message is an insufficient credits message
-function parseInsufficientCredits(content: string): { cost: number; balance: number } | null {
+function parseInsufficientCredits(content: string): InsufficientCreditsInfo | null {
   if (!content.startsWith("__INSUFFICIENT_CREDITS__:")) return null;
   try {
     const json = content.replace("__INSUFFICIENT_CREDITS__:", "");
@@ -749,6 +826,7 @@ export function ChatInterface({
 }: ChatInterfaceProps) {
   const account = useActiveAccount();
   const wallet = useThirdwebWallet();
+  const sessionStatus = useWalletSession().status;
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
@@ -772,6 +850,8 @@ export function ChatInterface({
 
   // Selected paid service (from ServiceSelector)
   const [selectedPaidService, setSelectedPaidService] = useState<ServiceSelection | null>(null);
+  // Credits per interaction by service, from /api/credits/costs (defaults until loaded)
+  const [creditCosts, setCreditCosts] = useState<Partial<Record<CreditServiceId, number>>>({});
   // Pending paid services waiting for x402 payment
   const pendingPaidServicesRef = useRef<Map<string, PendingPaidService>>(new Map());
 
@@ -788,6 +868,10 @@ export function ChatInterface({
   // Track payment IDs currently being processed to prevent duplicate settlements
   const processingPaymentsRef = useRef<Set<string>>(new Set());
 
+  // Server checks of payment requests found in messages, by getPaymentRequestKey
+  const [paymentRequestChecks, setPaymentRequestChecks] = useState<Record<string, PaymentRequestCheck>>({});
+  const requestedPaymentChecksRef = useRef<Set<string>>(new Set());
+
   // Helper to retry pending action with signature
   const retryPendingAction = async (paymentId: string, envelope: any) => {
     const action = pendingActionsRef.current.get(paymentId);
@@ -870,19 +954,22 @@ export function ChatInterface({
         throw new Error(errorMsg);
       }
 
-      // Payment and service succeeded - deduct 1 credit for the interaction
+      // Payment and service succeeded - deduct the service's credits for the interaction
+      const creditServiceId = getCreditServiceIdForEndpoint(action.url);
       console.log("[ChatInterface] About to deduct credit, account state:", {
         hasAccount: !!account,
         address: account?.address,
+        creditServiceId,
       });
 
-      if (account?.address) {
+      if (account?.address && creditServiceId) {
         try {
           const creditResponse = await fetch("/api/credits/deduct", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
               walletAddress: account.address,
+              serviceId: creditServiceId,
               description: `x402 Service: ${action.description || action.url}`,
             }),
           });
@@ -1187,6 +1274,44 @@ export function ChatInterface({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialConversationId, account?.address]);
 
+  // Check signed payment requests in loaded messages before they are rendered
+  useEffect(() => {
+    const unchecked = new Map<string, unknown>();
+    for (const message of messages) {
+      if (message.role !== "assistant") continue;
+      const { paymentRequest } = parsePaymentRequestFromContent(message.content, {});
+      if (typeof paymentRequest?.signature !== "string") continue;
+      // Each distinct block is checked on its own, even when blocks share a signature
+      const key = getPaymentRequestKey(paymentRequest);
+      if (!requestedPaymentChecksRef.current.has(key)) {
+        unchecked.set(key, paymentRequest);
+      }
+    }
+    if (unchecked.size === 0) return;
+
+    const keys = Array.from(unchecked.keys()).slice(0, 50);
+    keys.forEach((key) => requestedPaymentChecksRef.current.add(key));
+    verifyPaymentRequests(keys.map((key) => unchecked.get(key))).then((results) => {
+      setPaymentRequestChecks((prev) => {
+        const next = { ...prev };
+        keys.forEach((key, i) => {
+          next[key] = results[i] || { valid: false, expired: false };
+        });
+        return next;
+      });
+    });
+  }, [messages]);
+
+  // Load current credit costs once
+  useEffect(() => {
+    fetch("/api/credits/costs")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setCreditCosts(data.costs);
+      })
+      .catch((error) => console.warn("[ChatInterface] Failed to load credit costs:", error));
+  }, []);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -1213,8 +1338,8 @@ export function ChatInterface({
       conversationIdToUse,
     });
 
-    if (!conversationIdToUse || !account?.address) {
-      console.log("[ChatInterface] loadConversationHistory - no conversationId or account, skipping");
+    if (!conversationIdToUse || !account?.address || sessionStatus !== "signed-in") {
+      console.log("[ChatInterface] loadConversationHistory - no conversationId, account or session, skipping");
       return;
     }
 
@@ -1238,6 +1363,14 @@ export function ChatInterface({
     }
   };
 
+  // History is skipped until the wallet is signed in; load it once the session is ready
+  useEffect(() => {
+    if (sessionStatus === "signed-in" && currentConversationId && messages.length === 0) {
+      loadConversationHistory(currentConversationId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionStatus]);
+
   // Start microphone recording
   const startRecording = async () => {
     try {
@@ -1332,9 +1465,11 @@ export function ChatInterface({
       }
 
       // Call chat API with audio URL
+      // X-Payer-Address lets the 402 quote this wallet's subscription discount
       const url = "/api/chat/audio";
       const response = await fetch(url, {
         method: "POST",
+        headers: { "X-Payer-Address": account.address },
         body: formData,
       });
 
@@ -1525,15 +1660,17 @@ export function ChatInterface({
     const isPaidServiceCall = selectedPaidService?.endpoint && !attachedFile;
 
     // Create user message with credit cost indicator
-    // Every interaction costs 1 credit (for agent processing)
-    // x402 services cost additional money via x402 payment on top of the 1 credit
+    // Each interaction costs its service's credits (chat, or the selected AI service)
+    // x402 services cost additional money via x402 payment on top of the credits
+    const creditServiceId: CreditServiceId = selectedPaidService?.serviceId || (hasAttachment ? "analyze_image" : "chat");
+    const creditCost = creditCosts[creditServiceId] ?? DEFAULT_CREDIT_COSTS[creditServiceId];
     const userMessage: Message = {
       role: "user",
       content: messageText || (hasAttachment ? "📎 [Image attached]" : ""),
       timestamp: new Date().toISOString(),
       attachmentType: hasAttachment ? "image" : undefined,
       attachmentPreview: attachedPreview || undefined,
-      creditsCost: 1, // Every interaction costs 1 credit
+      creditsCost: creditCost,
     };
 
     setMessages((prev) => [...prev, userMessage]);
@@ -1552,7 +1689,8 @@ export function ChatInterface({
       let url = "";
       let body: any;
       let method = "POST";
-      let headers: Record<string, string> = { "Content-Type": "application/json" };
+      // X-Payer-Address lets the 402 quote this wallet's subscription discount
+      let headers: Record<string, string> = { "Content-Type": "application/json", "X-Payer-Address": account.address };
 
       if (fileToSend) {
         // Check if a specific paid service that requires a file is selected
@@ -1586,12 +1724,13 @@ export function ChatInterface({
 
           // For transcription, we need to use FormData instead of JSON
           url = "/api/ai/transcribe";
-          headers = {}; // Remove Content-Type to let browser set multipart/form-data
+          headers = { "X-Payer-Address": account.address }; // Remove Content-Type to let browser set multipart/form-data
           method = "POST";
 
           // Special handling for FormData - will be handled below
           response = await fetch(url, {
             method,
+            headers,
             body: formData,
           });
 
@@ -1659,6 +1798,33 @@ export function ChatInterface({
         }
         // fetch call below will use url/body (except for transcribe which returns early)
       } else if (isPaidServiceCall && selectedPaidService && selectedPaidService.endpoint) {
+        // Check the service's credit cost first, so a short balance stops before x402 payment
+        try {
+          const creditsResponse = await fetch("/api/credits/balance", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ walletAddress: account.address, serviceId: creditServiceId }),
+          });
+          const credits = await creditsResponse.json();
+          if (credits.success && !credits.hasCredits) {
+            setMessages((prev) => [...prev, {
+              role: "assistant",
+              content: `__INSUFFICIENT_CREDITS__:${JSON.stringify({
+                cost: creditCost,
+                balance: credits.balance || 0,
+                serviceTitle: selectedPaidService.serviceTitle,
+                priceUsd: selectedPaidService.priceUsd,
+              })}`,
+              timestamp: new Date().toISOString(),
+            }]);
+            setSelectedPaidService(null);
+            return;
+          }
+        } catch (error) {
+          // The deduction after payment checks again
+          console.warn("[ChatInterface] Credit check failed:", error);
+        }
+
         // Route to paid AI service endpoint (x402 protected)
         url = selectedPaidService.endpoint;
         // Build endpoint-specific request body using helper function
@@ -1749,7 +1915,7 @@ export function ChatInterface({
         if (data.code === "INSUFFICIENT_CREDITS") {
           const creditMessage: Message = {
             role: "assistant",
-            content: `__INSUFFICIENT_CREDITS__:${JSON.stringify({ cost: data.cost || 1, balance: data.balance || 0 })}`,
+            content: `__INSUFFICIENT_CREDITS__:${JSON.stringify({ cost: data.cost || creditCost, balance: data.balance || 0 })}`,
             timestamp: new Date().toISOString(),
           };
           setMessages((prev) => [...prev, creditMessage]);
@@ -1856,19 +2022,31 @@ export function ChatInterface({
               const pr = paymentData.paymentRequest;
               console.log("[ChatInterface] Found paymentRequest:", pr);
 
-              // Store the pending action so we can execute it after payment
-              if (pr.paymentId && pr.endpoint && pr.requestData) {
-                pendingActionsRef.current.set(pr.paymentId, {
-                  url: pr.endpoint,
-                  method: pr.method || "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: pr.requestData,
-                  description: pr.description || "AI Service Request",
-                });
-                console.log("[ChatInterface] Stored pending action for paymentId:", pr.paymentId);
+              // Only server-issued, unmodified and unexpired requests get a pay button
+              const [check] = await verifyPaymentRequests([pr]);
+              if (typeof pr.signature === "string") {
+                const key = getPaymentRequestKey(pr);
+                requestedPaymentChecksRef.current.add(key);
+                setPaymentRequestChecks((prev) => ({ ...prev, [key]: check }));
+              }
+              if (!check?.valid || check.expired) {
+                console.warn("[ChatInterface] Refused unsigned or modified payment request:", pr.paymentId);
+              } else {
+                // Store the pending action so we can execute it after payment
+                if (pr.paymentId && pr.endpoint && pr.requestData) {
+                  pendingActionsRef.current.set(pr.paymentId, {
+                    url: pr.endpoint,
+                    method: pr.method || "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: pr.requestData,
+                    description: pr.description || "AI Service Request",
+                  });
+                  console.log("[ChatInterface] Stored pending action for paymentId:", pr.paymentId);
+                }
+
+                paymentRequest = pr;
               }
 
-              paymentRequest = pr;
               // Remove the JSON block from response content
               responseContent = data.response.replace(/```json\s*[\s\S]*?\s*```/g, "").trim();
             }
@@ -2055,7 +2233,7 @@ export function ChatInterface({
 
           {/* Service Selector */}
           <div className="pt-8">
-            <ServiceSelector onSelect={(selection) => {
+            <ServiceSelector creditCosts={creditCosts} onSelect={(selection) => {
               setInput(selection.prompt);
               // Track if this is a paid service that needs x402 payment
               if (selection.endpoint) {
@@ -2109,7 +2287,7 @@ export function ChatInterface({
                           <path d="M12 6v12" />
                           <path d="M6 12h12" />
                         </svg>
-                        <span>{message.creditsCost} credit</span>
+                        <span>{message.creditsCost} credit{message.creditsCost === 1 ? "" : "s"}</span>
                       </div>
                     </div>
                   )}
@@ -2212,11 +2390,11 @@ export function ChatInterface({
                     // Check for insufficient credits message first
                     const creditsData = parseInsufficientCredits(message.content);
                     if (creditsData) {
-                      return <InsufficientCreditsCard cost={creditsData.cost} balance={creditsData.balance} />;
+                      return <InsufficientCreditsCard {...creditsData} />;
                     }
 
-                    const parsed = parsePaymentRequestFromContent(message.content);
-                    if (parsed.paymentInfo) {
+                    const parsed = parsePaymentRequestFromContent(message.content, paymentRequestChecks);
+                    if (parsed.paymentRequest) {
                       return (
                         <>
                           {parsed.beforeText && (
@@ -19,6 +19,7 @@ interface CreditsState {
   tierInfo: TierInfo;
   subscriptionActive: boolean;
   canClaimMonthly: boolean;
+  usdcBalance: number;
   loading: boolean;
   error: string | null;
 }
@@ -38,6 +39,7 @@ export function CreditsDisplay() {
     },
     subscriptionActive: false,
     canClaimMonthly: false,
+    usdcBalance: 0,
     loading: true,
     error: null,
   });
@@ -59,6 +61,7 @@ export function CreditsDisplay() {
           tierInfo: data.tierInfo,
           subscriptionActive: data.subscriptionActive,
           canClaimMonthly: data.canClaimMonthly,
+          usdcBalance: data.usdcBalance || 0,
           loading: false,
           error: null,
         });
@@ -162,6 +165,13 @@ export function CreditsDisplay() {
         {credits.tierInfo.name}
       </span>
 
+      {/* Prepaid USDC balance */}
+      {credits.usdcBalance > 0 && (
+        <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-green-500/20 text-green-300">
+          ${credits.usdcBalance.toFixed(2)} USDC
+        </span>
+      )}
+
       {/* Claim indicator */}
       {credits.canClaimMonthly && !isUnlimited && (
         <span className="relative flex h-2 w-2">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { ConnectButton, useActiveAccount, useActiveWalletChain } from "thirdweb/react";
@@ -9,6 +9,7 @@ import { inAppWallet } from "thirdweb/wallets";
 import { avalanche, avalancheFuji, base, baseSepolia, celo, celoSepoliaTestnet, ethereum } from "thirdweb/chains";
 import { unichain } from "@/app/providers";
 import { client } from "@/lib/client";
+import { useWalletSession } from "./WalletSession";
 
 // Supported chains (Unichain is now the primary network)
 const supportedChains = [
@@ -260,9 +261,36 @@ function NetworkBadge() {
   );
 }
 
+// Sign-in state for the connected wallet, with a retry when signing was declined
+function SessionButton() {
+  const account = useActiveAccount();
+  const { status, error, signIn } = useWalletSession();
+
+  if (!account || status === "signed-in" || status === "checking") return null;
+
+  if (status === "signing-in") {
+    return (
+      <span className="flex items-center px-3 py-1.5 rounded-lg bg-muted/50 border border-border text-xs font-medium text-muted-foreground animate-pulse">
+        Signing in...
+      </span>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => signIn()}
+      title={error || "Sign a message to prove you own this wallet"}
+      className="flex items-center px-3 py-1.5 rounded-lg bg-aura-cyan/10 border border-aura-cyan/30 text-xs font-medium text-aura-cyan hover:bg-aura-cyan/20 transition-colors"
+    >
+      Sign in
+    </button>
+  );
+}
+
 export function Header() {
   const pathname = usePathname();
   const account = useActiveAccount();
+  const session = useWalletSession();
   const [isAdmin, setIsAdmin] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [scrolled, setScrolled] = useState(false);
@@ -274,10 +302,10 @@ export function Header() {
     return () => window.removeEventListener("scroll", handleScroll);
   }, []);
 
-  // Check admin status
+  // Check admin status (roles are read for the signed-in wallet)
   useEffect(() => {
     const checkAdmin = async () => {
-      if (!account) {
+      if (!account || session.status !== "signed-in") {
         setIsAdmin(false);
         return;
       }
@@ -285,14 +313,24 @@ export function Header() {
         const response = await fetch(`/api/admin/wallet/check?wallet=${account.address}`);
         if (response.ok) {
           const data = await response.json();
-          setIsAdmin(data.isAdmin || false);
+          // Wallets that may claim the first owner role need the admin link too
+          setIsAdmin(data.isAdmin || data.canBootstrap || false);
         }
       } catch {
         setIsAdmin(false);
       }
     };
     checkAdmin();
-  }, [account]);
+  }, [account, session.status]);
+
+  // Sign in with the wallet as soon as it connects (once per wallet; retry via SessionButton)
+  const signInAttempted = useRef<string | null>(null);
+  useEffect(() => {
+    if (!account || session.status !== "signed-out") return;
+    if (signInAttempted.current === account.address) return;
+    signInAttempted.current = account.address;
+    session.signIn();
+  }, [account, session.status, session.signIn]);
 
   // Close mobile menu on route change
   useEffect(() => {
@@ -396,7 +434,8 @@ export function Header() {
             </div>
 
             {/* Wallet Connect - Desktop */}
-            <div className="hidden md:block">
+            <div className="hidden md:flex items-center gap-2">
+              <SessionButton />
               <ConnectButton
                 client={client}
                 wallets={supportedWallets}
@@ -489,7 +528,8 @@ export function Header() {
           )}
 
           {/* Mobile Wallet Connect */}
-          <div className="pt-3 border-t border-border/50">
+          <div className="pt-3 border-t border-border/50 flex items-center gap-2">
+            <SessionButton />
             <ConnectButton
               client={client}
               wallets={supportedWallets}
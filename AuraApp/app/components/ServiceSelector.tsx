@@ -2,9 +2,10 @@
 
 import { useState } from "react";
 import { aiServiceConfig } from "@/lib/config/x402";
+import { DEFAULT_CREDIT_COSTS, type CreditServiceId } from "@/lib/config/credit-costs";
 
 interface ServiceOption {
-    id: string;
+    id: CreditServiceId;
     title: string;
     description: string;
     icon: React.ReactNode;
@@ -41,15 +42,17 @@ export interface ServiceSelection {
     prompt: string;
     endpoint?: string;
     priceUsd?: number;
-    serviceId: string;
+    creditCost: number; // Credits charged on top of the x402 price
+    serviceId: CreditServiceId;
     serviceTitle: string;
 }
 
 interface ServiceSelectorProps {
     onSelect: (selection: ServiceSelection) => void;
+    creditCosts?: Partial<Record<CreditServiceId, number>>; // From /api/credits/costs, defaults until loaded
 }
 
-export function ServiceSelector({ onSelect }: ServiceSelectorProps) {
+export function ServiceSelector({ onSelect, creditCosts }: ServiceSelectorProps) {
     const [selectedCategory, setSelectedCategory] = useState<string>("All");
 
     const services: ServiceOption[] = [
@@ -369,7 +372,9 @@ export function ServiceSelector({ onSelect }: ServiceSelectorProps) {
             </div>
 
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                {filteredServices.map((service) => (
+                {filteredServices.map((service) => {
+                    const creditCost = creditCosts?.[service.id] ?? DEFAULT_CREDIT_COSTS[service.id];
+                    return (
                     <button
                         key={service.id}
                         onClick={() => {
@@ -380,6 +385,7 @@ export function ServiceSelector({ onSelect }: ServiceSelectorProps) {
                                 prompt,
                                 endpoint: service.endpoint,
                                 priceUsd: service.priceUsd,
+                                creditCost,
                                 serviceId: service.id,
                                 serviceTitle: service.title,
                             });
@@ -390,16 +396,22 @@ export function ServiceSelector({ onSelect }: ServiceSelectorProps) {
                             <div className="p-2 bg-muted rounded-lg text-aura-purple group-hover:scale-110 transition-transform duration-300">
                                 {service.icon}
                             </div>
-                            {service.priceUsd && (
-                                <span className="text-xs font-medium text-aura-cyan bg-aura-cyan/10 px-2 py-0.5 rounded-full">
-                                    ${service.priceUsd.toFixed(2)}
+                            <div className="flex items-center gap-1">
+                                <span className="text-xs font-medium text-aura-purple bg-aura-purple/10 px-2 py-0.5 rounded-full">
+                                    {creditCost} {creditCost === 1 ? "credit" : "credits"}
                                 </span>
-                            )}
+                                {service.priceUsd && (
+                                    <span className="text-xs font-medium text-aura-cyan bg-aura-cyan/10 px-2 py-0.5 rounded-full">
+                                        ${service.priceUsd.toFixed(2)}
+                                    </span>
+                                )}
+                            </div>
                         </div>
                         <h3 className="font-semibold text-foreground mb-1">{service.title}</h3>
                         <p className="text-xs text-muted-foreground line-clamp-2">{service.description}</p>
                     </button>
-                ))}
+                    );
+                })}
             </div>
         </div>
     );
@@ -0,0 +1,119 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { useActiveAccount, useActiveWalletChain } from "thirdweb/react";
+
+/**
+ * Sign-In With Ethereum session for the connected wallet
+ * The session lives in an httpOnly cookie set by /api/auth/login; wallet-scoped
+ * API routes read the wallet from it. Header starts sign-in when a wallet connects.
+ */
+
+export type WalletSessionStatus = "signed-out" | "checking" | "signing-in" | "signed-in" | "error";
+
+interface WalletSessionContextValue {
+  status: WalletSessionStatus;
+  walletAddress: string | null; // Signed-in wallet (lowercase)
+  error: string | null;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const WalletSessionContext = createContext<WalletSessionContextValue>({
+  status: "signed-out",
+  walletAddress: null,
+  error: null,
+  signIn: async () => {},
+  signOut: async () => {},
+});
+
+export function WalletSessionProvider({ children }: { children: ReactNode }) {
+  const account = useActiveAccount();
+  const chain = useActiveWalletChain();
+  const [status, setStatus] = useState<WalletSessionStatus>("signed-out");
+  const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previousAddress = useRef<string | undefined>(undefined);
+
+  // Check for an existing session whenever the connected wallet changes
+  useEffect(() => {
+    const address = account?.address?.toLowerCase();
+    const wasConnected = previousAddress.current;
+    previousAddress.current = address;
+
+    if (!address) {
+      setStatus("signed-out");
+      setWalletAddress(null);
+      // Wallet disconnected: end its session too
+      if (wasConnected) {
+        fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+      }
+      return;
+    }
+
+    setStatus("checking");
+    fetch("/api/auth/session")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.authenticated && data.walletAddress === address) {
+          setWalletAddress(address);
+          setStatus("signed-in");
+        } else {
+          setWalletAddress(null);
+          setStatus("signed-out");
+        }
+      })
+      .catch(() => setStatus("signed-out"));
+  }, [account?.address]);
+
+  const signIn = useCallback(async () => {
+    if (!account) return;
+
+    setStatus("signing-in");
+    setError(null);
+    try {
+      const nonceResponse = await fetch(
+        `/api/auth/nonce?address=${account.address}&chainId=${chain?.id ?? 1}`
+      );
+      const nonceData = await nonceResponse.json();
+      if (!nonceData.success) {
+        throw new Error(nonceData.error || "Could not start sign-in");
+      }
+
+      const signature = await account.signMessage({ message: nonceData.message });
+
+      const loginResponse = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: nonceData.message, signature }),
+      });
+      const loginData = await loginResponse.json();
+      if (!loginData.success) {
+        throw new Error(loginData.error || "Sign-in failed");
+      }
+
+      setWalletAddress(loginData.walletAddress);
+      setStatus("signed-in");
+    } catch (err) {
+      console.error("Sign-in failed:", err);
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+      setStatus("error");
+    }
+  }, [account, chain?.id]);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    setWalletAddress(null);
+    setStatus("signed-out");
+  }, []);
+
+  return (
+    <WalletSessionContext.Provider value={{ status, walletAddress, error, signIn, signOut }}>
+      {children}
+    </WalletSessionContext.Provider>
+  );
+}
+
+export function useWalletSession(): WalletSessionContextValue {
+  return useContext(WalletSessionContext);
+}
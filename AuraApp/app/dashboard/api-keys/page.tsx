@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useActiveAccount } from "thirdweb/react";
+import { useWalletSession } from "@/app/components/WalletSession";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  scopes: string[];
+  keyHint: string;
+  status: "active" | "expired" | "revoked";
+  expiresAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  chat: "Send chat messages and read conversations",
+  "projects:read": "List and read projects",
+  "credits:spend": "Spend credits",
+  "ai:*": "Call the AI services, paid from your prepaid USDC balance",
+};
+
+const EXPIRY_OPTIONS = [30, 90, 365];
+
+export default function ApiKeysPage() {
+  const account = useActiveAccount();
+  const signedIn = useWalletSession().status === "signed-in";
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<string[]>(Object.keys(SCOPE_DESCRIPTIONS));
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[]>(["chat"]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchApiKeys = useCallback(async () => {
+    if (!account?.address || !signedIn) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch("/api/keys");
+      const data = await response.json();
+      if (data.success) {
+        setApiKeys(data.apiKeys);
+        setScopes(data.scopes);
+      }
+    } catch (error) {
+      console.error("Failed to fetch API keys:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [account?.address, signedIn]);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    setNewKey(null);
+
+    try {
+      const response = await fetch("/api/keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes: selectedScopes, expiresInDays }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.message || data.error || "Failed to create API key");
+        return;
+      }
+
+      setNewKey(data.key);
+      setCopied(false);
+      setName("");
+      await fetchApiKeys();
+    } catch (error) {
+      console.error("Failed to create API key:", error);
+      setError("Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Integrations using it will stop working.`)) return;
+
+    try {
+      const response = await fetch(`/api/keys/${apiKey.id}`, { method: "DELETE" });
+      if (response.ok) {
+        await fetchApiKeys();
+      }
+    } catch (error) {
+      console.error("Failed to revoke API key:", error);
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const copyNewKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="p-4 sm:p-6 lg:p-8 max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">API Keys</h1>
+            <p className="text-muted-foreground mt-1 text-sm sm:text-base">
+              Call Aura from your own servers with <code className="text-xs">Authorization: Bearer &lt;key&gt;</code>
+            </p>
+          </div>
+          <Link
+            href="/dashboard/subscription"
+            className="inline-flex items-center justify-center px-4 py-2 text-sm bg-muted hover:bg-muted/80 rounded-lg transition-colors w-full sm:w-auto"
+          >
+            Back to Subscription
+          </Link>
+        </div>
+
+        {!signedIn ? (
+          <div className="bg-slate-800/50 border border-blue-500/30 rounded-xl p-12 text-center">
+            <p className="text-gray-400">Sign in with your wallet to manage API keys</p>
+          </div>
+        ) : (
+          <>
+            {/* New key (shown once) */}
+            {newKey && (
+              <div className="rounded-xl p-4 border border-green-500/30 bg-green-500/10 space-y-3">
+                <p className="text-sm text-green-400 font-medium">
+                  Copy your new key now. It will not be shown again.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <code className="flex-1 px-3 py-2 rounded-lg bg-slate-900/70 text-gray-200 text-xs font-mono break-all">
+                    {newKey}
+                  </code>
+                  <button
+                    onClick={copyNewKey}
+                    className="px-4 py-2 text-sm rounded-lg bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors"
+                  >
+                    {copied ? "Copied" : "Copy"}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Create */}
+            <div className="bg-slate-800/50 border border-blue-500/30 rounded-xl p-4 sm:p-6 space-y-4">
+              <h2 className="text-lg font-semibold">Create a key</h2>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Key name, e.g. Backend worker"
+                maxLength={64}
+                className="w-full bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder:text-gray-500"
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {scopes.map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex items-start gap-3 p-3 rounded-lg bg-slate-900/40 border border-slate-700 cursor-pointer hover:border-blue-500/40"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedScopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <code className="text-sm text-cyan-400">{scope}</code>
+                      <span className="block text-xs text-gray-400">{SCOPE_DESCRIPTIONS[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className="bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2 text-sm text-gray-300"
+                >
+                  {EXPIRY_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      Expires in {days} days
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleCreate}
+                  disabled={creating || !name.trim() || selectedScopes.length === 0}
+                  className="px-4 py-2 text-sm font-medium rounded-lg bg-gradient-to-r from-blue-500 to-cyan-500 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {creating ? "Creating..." : "Create key"}
+                </button>
+                {error && <span className="text-sm text-red-400">{error}</span>}
+              </div>
+            </div>
+
+            {/* Keys */}
+            {loading ? (
+              <div className="text-center py-12 text-gray-400">Loading API keys...</div>
+            ) : apiKeys.length === 0 ? (
+              <div className="bg-slate-800/50 border border-blue-500/30 rounded-xl p-12 text-center">
+                <p className="text-gray-400">No API keys yet</p>
+              </div>
+            ) : (
+              <div className="bg-slate-800/50 border border-blue-500/30 rounded-xl overflow-hidden backdrop-blur-sm">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-slate-900/50 border-b border-slate-700">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Key</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Scopes</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Last used</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Expires</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                        <th className="px-6 py-3" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                      {apiKeys.map((apiKey) => (
+                        <tr key={apiKey.id} className="hover:bg-slate-800/50 transition-colors">
+                          <td className="px-6 py-4">
+                            <p className="text-gray-100 text-sm font-medium">{apiKey.name}</p>
+                            <code className="text-gray-500 text-xs">aura_sk_…{apiKey.keyHint}</code>
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="flex flex-wrap gap-1">
+                              {apiKey.scopes.map((scope) => (
+                                <code key={scope} className="px-2 py-0.5 rounded bg-slate-900/60 text-cyan-400 text-xs">
+                                  {scope}
+                                </code>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 text-gray-400 text-sm">
+                            {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                          </td>
+                          <td className="px-6 py-4 text-gray-400 text-sm">
+                            {new Date(apiKey.expiresAt).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span
+                              className={`px-2 py-1 rounded text-xs font-medium ${
+                                apiKey.status === "active"
+                                  ? "bg-green-500/20 text-green-400"
+                                  : apiKey.status === "expired"
+                                  ? "bg-yellow-500/20 text-yellow-400"
+                                  : "bg-red-500/20 text-red-400"
+                              }`}
+                            >
+                              {apiKey.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 text-right">
+                            {apiKey.status === "active" && (
+                              <button
+                                onClick={() => handleRevoke(apiKey)}
+                                className="px-3 py-1 rounded-md text-xs text-red-400 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                              >
+                                Revoke
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useActiveAccount } from "thirdweb/react";
+import { useWalletSession } from "@/app/components/WalletSession";
 import { ChatInterface } from "../components/ChatInterface";
 import {
   AlertDialog,
@@ -58,6 +59,8 @@ function formatRelativeTime(dateString: string): string {
 
 export default function DashboardPage() {
   const account = useActiveAccount();
+  // Projects and conversations are read from the signed-in wallet's session
+  const signedIn = useWalletSession().status === "signed-in";
   const [copied, setCopied] = useState(false);
 
   // Wallet connection loading state - gives wallet time to auto-reconnect after hot reload
@@ -221,7 +224,7 @@ export default function DashboardPage() {
 
   // Fetch projects
   const fetchProjects = useCallback(async () => {
-    if (!account?.address) return;
+    if (!account?.address || !signedIn) return;
 
     setLoadingProjects(true);
     try {
@@ -235,7 +238,7 @@ export default function DashboardPage() {
     } finally {
       setLoadingProjects(false);
     }
-  }, [account?.address]);
+  }, [account?.address, signedIn]);
 
   // Fetch conversations for selected project (with caching)
   const fetchConversations = useCallback(async (options: { preserveOptimistic?: boolean; forceRefresh?: boolean } = {}) => {
@@ -249,7 +252,7 @@ export default function DashboardPage() {
       forceRefresh,
     });
 
-    if (!account?.address) return;
+    if (!account?.address || !signedIn) return;
 
     // Check cache first (unless force refresh)
     if (!forceRefresh && !preserveOptimistic) {
@@ -344,7 +347,7 @@ export default function DashboardPage() {
     } finally {
       setLoadingConversations(false);
     }
-  }, [account?.address, selectedProject, getCachedConversations, setCachedConversations]);
+  }, [account?.address, signedIn, selectedProject, getCachedConversations, setCachedConversations]);
 
   // Track previous project to detect actual changes
   const prevProjectIdRef = useRef<string | null | undefined>(undefined);
@@ -358,6 +361,8 @@ export default function DashboardPage() {
 
   // Load conversations when section is expanded or project changes
   useEffect(() => {
+    if (!signedIn) return;
+
     const currentProjectId = selectedProject?.id || null;
     const prevProjectId = prevProjectIdRef.current;
 
@@ -395,7 +400,7 @@ export default function DashboardPage() {
     prevProjectIdRef.current = currentProjectId;
     initialLoadDoneRef.current = true;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedProject?.id, account?.address, recentSectionExpanded, selectedConversation]);
+  }, [selectedProject?.id, account?.address, signedIn, recentSectionExpanded, selectedConversation]);
 
   // Keyboard navigation for modals (Escape key to close)
   useEffect(() => {
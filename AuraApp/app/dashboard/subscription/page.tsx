@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useActiveAccount } from "thirdweb/react";
+import { useWalletSession } from "@/app/components/WalletSession";
 import { PaymentButton, type AcceptOption } from "@perkos/ui-payment";
 import { useThirdwebWallet } from "@perkos/ui-payment-thirdweb";
 import Link from "next/link";
@@ -15,6 +16,31 @@ interface TierInfo {
   features: string[];
 }
 
+interface CreditPackInfo {
+  id: string;
+  name: string;
+  credits: number;
+  bonusCredits: number;
+  priceUsd: number;
+}
+
+// How buying a tier changes the current plan, as quoted by /api/payment/requirements
+interface PlanChangeQuote {
+  kind: "new" | "upgrade" | "downgrade" | "renewal";
+  fromTier: string;
+  listPriceUsd: number;
+  prorationCreditUsd: number;
+  unusedFraction: number;
+  creditsAdjustment: number;
+  chargeUsd: number;
+  startsAt: string;
+}
+
+// What a payment modal is paying for
+type PaymentItem =
+  | { kind: "tier"; tier: TierInfo; planChange?: PlanChangeQuote }
+  | { kind: "pack"; pack: CreditPackInfo };
+
 interface CreditsState {
   balance: number;
   tier: string;
@@ -22,6 +48,9 @@ interface CreditsState {
   subscriptionActive: boolean;
   canClaimMonthly: boolean;
   availableTiers: TierInfo[];
+  creditPacks: CreditPackInfo[];
+  usdcBalance: number;
+  autoRenew: boolean;
   loading: boolean;
   error: string | null;
 }
@@ -39,10 +68,23 @@ interface SubscriptionInvoice {
   expiresAt: string;
   createdAt: string;
   status: "active" | "expired" | "pending";
+  changeKind: PlanChangeQuote["kind"] | null;
+  previousTier: string | null;
+  replacedBy: string | null;
+  lines: { description: string; amountUsd: number }[];
   periodStart: string;
   periodEnd: string;
 }
 
+interface ActiveSubscription {
+  id: string;
+  tier: string;
+  tierName: string;
+  expiresAt: string;
+  autoRenew: boolean;
+  renewalReminderSentAt: string | null;
+}
+
 // Helper function to get block explorer URL based on network
 function getExplorerUrl(transactionHash: string, network?: string): string {
   const chainId = network?.split(":")[1];
@@ -78,20 +120,25 @@ function getNetworkName(network?: string): string {
 
 // Payment Modal Component
 function PaymentModal({
-  tier,
+  item,
   accepts,
   wallet,
   onSuccess,
   onError,
   onClose,
 }: {
-  tier: TierInfo;
+  item: PaymentItem;
   accepts: AcceptOption[];
   wallet: ReturnType<typeof useThirdwebWallet>;
   onSuccess: (envelope: unknown) => void;
   onError: (error: Error) => void;
   onClose: () => void;
 }) {
+  // Downgrades and renewals bought mid-period start when the current period ends
+  const scheduled = item.kind === "tier" &&
+    (item.planChange?.kind === "downgrade" || item.planChange?.kind === "renewal");
+  const prorated = item.kind === "tier" && item.planChange?.kind === "upgrade" && item.planChange.prorationCreditUsd > 0;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -106,9 +153,15 @@ function PaymentModal({
         <div className="px-6 py-4 border-b border-border bg-muted/30">
           <div className="flex items-center justify-between">
             <div>
-              <h3 className="text-lg font-semibold">Subscribe to {tier.name}</h3>
+              <h3 className="text-lg font-semibold">
+                {item.kind === "tier" ? `Subscribe to ${item.tier.name}` : `Buy ${item.pack.name}`}
+              </h3>
               <p className="text-sm text-muted-foreground mt-0.5">
-                Complete payment to activate your subscription
+                {item.kind === "pack"
+                  ? "Complete payment to add the credits to your balance"
+                  : scheduled
+                    ? `Your new plan starts on ${new Date(item.planChange!.startsAt).toLocaleDateString()}`
+                    : "Complete payment to activate your subscription"}
               </p>
             </div>
             <button
@@ -132,28 +185,69 @@ function PaymentModal({
         {/* Content */}
         <div className="p-6 space-y-6">
           {/* Plan Summary */}
-          <div className="bg-muted/30 rounded-xl p-4 space-y-3">
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Plan</span>
-              <span className="font-medium">{tier.name}</span>
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-sm text-muted-foreground">Credits</span>
-              <span className="font-medium">
-                {tier.creditsPerMonth === -1 ? "Unlimited" : `${tier.creditsPerMonth}/month`}
-              </span>
+          {item.kind === "tier" ? (
+            <div className="bg-muted/30 rounded-xl p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Plan</span>
+                <span className="font-medium">{item.tier.name}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Credits</span>
+                <span className="font-medium">
+                  {item.tier.creditsPerMonth === -1 ? "Unlimited" : `${item.tier.creditsPerMonth}/month`}
+                </span>
+              </div>
+              {prorated && item.planChange!.creditsAdjustment > 0 && item.tier.creditsPerMonth !== -1 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Credits now</span>
+                  <span className="font-medium">
+                    {Math.max(0, item.tier.creditsPerMonth - item.planChange!.creditsAdjustment)}
+                  </span>
+                </div>
+              )}
+              {item.tier.discountPercent > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">x402 Discount</span>
+                  <span className="font-medium text-green-400">{item.tier.discountPercent}% off</span>
+                </div>
+              )}
+              {prorated && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Plan price</span>
+                    <span className="font-medium">${item.planChange!.listPriceUsd.toFixed(2)}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">
+                      Unused time on current plan ({Math.round(item.planChange!.unusedFraction * 100)}%)
+                    </span>
+                    <span className="font-medium text-green-400">-${item.planChange!.prorationCreditUsd.toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+              <div className="pt-3 border-t border-border flex items-center justify-between">
+                <span className="font-medium">Total</span>
+                <span className="text-2xl font-bold">${item.planChange?.chargeUsd ?? item.tier.priceUsd}</span>
+              </div>
             </div>
-            {tier.discountPercent > 0 && (
+          ) : (
+            <div className="bg-muted/30 rounded-xl p-4 space-y-3">
               <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">x402 Discount</span>
-                <span className="font-medium text-green-400">{tier.discountPercent}% off</span>
+                <span className="text-sm text-muted-foreground">Credits</span>
+                <span className="font-medium">{item.pack.credits}</span>
+              </div>
+              {item.pack.bonusCredits > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Bonus</span>
+                  <span className="font-medium text-green-400">+{item.pack.bonusCredits}</span>
+                </div>
+              )}
+              <div className="pt-3 border-t border-border flex items-center justify-between">
+                <span className="font-medium">Total</span>
+                <span className="text-2xl font-bold">${item.pack.priceUsd}</span>
               </div>
-            )}
-            <div className="pt-3 border-t border-border flex items-center justify-between">
-              <span className="font-medium">Total</span>
-              <span className="text-2xl font-bold">${tier.priceUsd}</span>
             </div>
-          </div>
+          )}
 
           {/* Payment Button */}
           <div className="space-y-3">
@@ -177,6 +271,7 @@ function PaymentModal({
 export default function SubscriptionPage() {
   const account = useActiveAccount();
   const wallet = useThirdwebWallet();
+  const signedIn = useWalletSession().status === "signed-in";
   const [credits, setCredits] = useState<CreditsState>({
     balance: 0,
     tier: "free",
@@ -191,15 +286,20 @@ export default function SubscriptionPage() {
     subscriptionActive: false,
     canClaimMonthly: false,
     availableTiers: [],
+    creditPacks: [],
+    usdcBalance: 0,
+    autoRenew: false,
     loading: true,
     error: null,
   });
   const [invoices, setInvoices] = useState<SubscriptionInvoice[]>([]);
+  const [activeSubscription, setActiveSubscription] = useState<ActiveSubscription | null>(null);
+  const [updatingAutoRenew, setUpdatingAutoRenew] = useState(false);
   const [claiming, setClaiming] = useState(false);
   const [claimResult, setClaimResult] = useState<string | null>(null);
   const [subscribing, setSubscribing] = useState<string | null>(null);
   const [paymentRequirements, setPaymentRequirements] = useState<{
-    tier: TierInfo;
+    item: PaymentItem;
     accepts: AcceptOption[];
   } | null>(null);
 
@@ -222,6 +322,9 @@ export default function SubscriptionPage() {
           subscriptionActive: data.subscriptionActive,
           canClaimMonthly: data.canClaimMonthly,
           availableTiers: data.availableTiers || [],
+          creditPacks: data.creditPacks || [],
+          usdcBalance: data.usdcBalance || 0,
+          autoRenew: !!data.autoRenew,
           loading: false,
           error: null,
         });
@@ -243,7 +346,7 @@ export default function SubscriptionPage() {
 
   // Fetch user's subscription invoices
   const fetchInvoices = useCallback(async () => {
-    if (!account?.address) return;
+    if (!account?.address || !signedIn) return;
 
     try {
       const response = await fetch(`/api/subscription/invoices?walletAddress=${account.address}`);
@@ -251,11 +354,12 @@ export default function SubscriptionPage() {
 
       if (data.success) {
         setInvoices(data.invoices);
+        setActiveSubscription(data.activeSubscription);
       }
     } catch (error) {
       console.error("Failed to fetch invoices:", error);
     }
-  }, [account?.address]);
+  }, [account?.address, signedIn]);
 
   useEffect(() => {
     fetchCredits();
@@ -291,6 +395,32 @@ export default function SubscriptionPage() {
     }
   };
 
+  // Opt in or out of renewal from the prepaid balance
+  const handleToggleAutoRenew = async () => {
+    if (!account?.address) return;
+
+    setUpdatingAutoRenew(true);
+    try {
+      const response = await fetch("/api/subscription/auto-renew", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ walletAddress: account.address, enabled: !credits.autoRenew }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setCredits(prev => ({ ...prev, autoRenew: data.autoRenew }));
+        fetchInvoices();
+      } else {
+        alert(data.error || data.message || "Failed to update auto-renew");
+      }
+    } catch (error) {
+      alert("Network error while updating auto-renew");
+    } finally {
+      setUpdatingAutoRenew(false);
+    }
+  };
+
   // Start subscription upgrade
   const handleSubscribe = async (tier: TierInfo) => {
     if (!account?.address) return;
@@ -304,7 +434,34 @@ export default function SubscriptionPage() {
       const data = await response.json();
 
       if (data.accepts && data.accepts.length > 0) {
-        setPaymentRequirements({ tier, accepts: data.accepts });
+        setPaymentRequirements({
+          item: { kind: "tier", tier, planChange: data.pricing?.planChange },
+          accepts: data.accepts,
+        });
+      } else {
+        setSubscribing(null);
+        alert(data.error || "Failed to get payment requirements");
+      }
+    } catch (error) {
+      setSubscribing(null);
+      alert("Network error while getting payment requirements");
+    }
+  };
+
+  // Start credit pack purchase
+  const handleBuyPack = async (pack: CreditPackInfo) => {
+    if (!account?.address) return;
+
+    setSubscribing(`pack-${pack.id}`);
+
+    try {
+      const response = await fetch(
+        `/api/payment/requirements?endpoint=/api/credits/purchase/${pack.id}&walletAddress=${account.address}`
+      );
+      const data = await response.json();
+
+      if (data.accepts && data.accepts.length > 0) {
+        setPaymentRequirements({ item: { kind: "pack", pack }, accepts: data.accepts });
       } else {
         setSubscribing(null);
         alert("Failed to get payment requirements");
@@ -319,6 +476,7 @@ export default function SubscriptionPage() {
   const handlePaymentSuccess = async (envelope: unknown) => {
     if (!subscribing || !account?.address || !paymentRequirements) return;
 
+    const { item } = paymentRequirements;
     try {
       const paymentPayload = {
         x402Version: 2,
@@ -327,7 +485,10 @@ export default function SubscriptionPage() {
         payload: envelope,
       };
 
-      const response = await fetch(`/api/subscription/${subscribing}`, {
+      const endpoint = item.kind === "tier"
+        ? `/api/subscription/${item.tier.id}`
+        : `/api/credits/purchase/${item.pack.id}`;
+      const response = await fetch(endpoint, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -339,14 +500,18 @@ export default function SubscriptionPage() {
       const data = await response.json();
 
       if (data.success) {
-        alert(`Successfully subscribed to ${data.subscription.name} plan!`);
+        alert(item.kind === "tier"
+          ? data.message
+          : `Added ${data.creditsAdded} credits to your balance!`);
         fetchCredits();
         fetchInvoices();
       } else {
-        alert(data.error || "Subscription failed");
+        alert(data.error || (item.kind === "tier" ? "Subscription failed" : "Purchase failed"));
       }
     } catch (error) {
-      alert("Network error while processing subscription");
+      alert(item.kind === "tier"
+        ? "Network error while processing subscription"
+        : "Network error while processing purchase");
     } finally {
       setSubscribing(null);
       setPaymentRequirements(null);
@@ -424,13 +589,16 @@ export default function SubscriptionPage() {
   }
 
   const currentStyle = tierStyles[credits.tier] || tierStyles.free;
+  // Plan change paid for the end of the current period
+  const scheduledInvoice = invoices.find((invoice) => invoice.status === "pending");
+  const currentTierIndex = credits.availableTiers.findIndex((tier) => tier.id === credits.tier);
 
   return (
     <div className="min-h-screen">
       {/* Payment Modal */}
       {paymentRequirements && (
         <PaymentModal
-          tier={paymentRequirements.tier}
+          item={paymentRequirements.item}
           accepts={paymentRequirements.accepts}
           wallet={wallet}
           onSuccess={handlePaymentSuccess}
@@ -451,15 +619,23 @@ export default function SubscriptionPage() {
               Manage your membership and credits
             </p>
           </div>
-          <Link
-            href="/dashboard"
-            className="inline-flex items-center justify-center px-4 py-2 text-sm bg-muted hover:bg-muted/80 rounded-lg transition-colors w-full sm:w-auto"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 mr-2">
-              <path fillRule="evenodd" d="M17 10a.75.75 0 01-.75.75H5.612l4.158 3.96a.75.75 0 11-1.04 1.08l-5.5-5.25a.75.75 0 010-1.08l5.5-5.25a.75.75 0 111.04 1.08L5.612 9.25H16.25A.75.75 0 0117 10z" clipRule="evenodd" />
-            </svg>
-            Back to Dashboard
-          </Link>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Link
+              href="/dashboard/api-keys"
+              className="inline-flex items-center justify-center px-4 py-2 text-sm bg-muted hover:bg-muted/80 rounded-lg transition-colors w-full sm:w-auto"
+            >
+              API Keys
+            </Link>
+            <Link
+              href="/dashboard"
+              className="inline-flex items-center justify-center px-4 py-2 text-sm bg-muted hover:bg-muted/80 rounded-lg transition-colors w-full sm:w-auto"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 mr-2">
+                <path fillRule="evenodd" d="M17 10a.75.75 0 01-.75.75H5.612l4.158 3.96a.75.75 0 11-1.04 1.08l-5.5-5.25a.75.75 0 010-1.08l5.5-5.25a.75.75 0 111.04 1.08L5.612 9.25H16.25A.75.75 0 0117 10z" clipRule="evenodd" />
+              </svg>
+              Back to Dashboard
+            </Link>
+          </div>
         </div>
 
         {/* Current Status Card */}
@@ -522,6 +698,48 @@ export default function SubscriptionPage() {
                 {claimResult}
               </p>
             )}
+
+            {/* Renewal */}
+            {credits.subscriptionActive && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-4 border-t border-border/50">
+                <div>
+                  <p className="text-sm font-medium">Auto-renew</p>
+                  <p className="text-xs text-muted-foreground">
+                    {activeSubscription
+                      ? `${credits.autoRenew ? "Renews" : "Expires"} on ${new Date(activeSubscription.expiresAt).toLocaleDateString()}. `
+                      : ""}
+                    Renewals are paid from your prepaid USDC balance (${credits.usdcBalance.toFixed(2)}).
+                  </p>
+                </div>
+                <button
+                  onClick={handleToggleAutoRenew}
+                  disabled={updatingAutoRenew || !signedIn}
+                  title={signedIn ? undefined : "Sign in with your wallet to change auto-renew"}
+                  className={`px-4 py-2 rounded-xl text-sm font-medium transition-all disabled:opacity-50 flex-shrink-0 ${
+                    credits.autoRenew ? "bg-green-600/20 text-green-400 hover:bg-green-600/30" : "bg-muted hover:bg-muted/80"
+                  }`}
+                >
+                  {credits.autoRenew ? "On" : "Off"}
+                </button>
+              </div>
+            )}
+
+            {scheduledInvoice && (
+              <p className="text-sm text-muted-foreground">
+                {scheduledInvoice.tier === credits.tier
+                  ? `Renewed: your next ${scheduledInvoice.tierName} period starts`
+                  : `Switching to ${scheduledInvoice.tierName}`}{" "}
+                on {new Date(scheduledInvoice.startsAt).toLocaleDateString()}.
+              </p>
+            )}
+
+            {credits.autoRenew && activeSubscription?.renewalReminderSentAt && !scheduledInvoice && (
+              <p className="text-sm text-amber-400">
+                Your prepaid balance will not cover the {activeSubscription.tierName} renewal. Add USDC to your
+                prepaid balance before {new Date(activeSubscription.expiresAt).toLocaleDateString()} or the plan
+                moves to Free.
+              </p>
+            )}
           </div>
         </div>
 
@@ -531,6 +749,9 @@ export default function SubscriptionPage() {
           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
             {credits.availableTiers.map((tier) => {
               const isCurrentTier = tier.id === credits.tier;
+              const isScheduledTier = scheduledInvoice?.tier === tier.id && !isCurrentTier;
+              const isDowngrade = credits.subscriptionActive &&
+                credits.availableTiers.findIndex((t) => t.id === tier.id) < currentTierIndex;
               const style = tierStyles[tier.id] || tierStyles.free;
               const isLoading = subscribing === tier.id && !paymentRequirements;
 
@@ -608,6 +829,13 @@ export default function SubscriptionPage() {
                       >
                         Default
                       </button>
+                    ) : isScheduledTier ? (
+                      <button
+                        disabled
+                        className="w-full py-2.5 bg-muted/50 text-muted-foreground rounded-xl text-sm font-medium border border-border"
+                      >
+                        Starts {new Date(scheduledInvoice!.startsAt).toLocaleDateString()}
+                      </button>
                     ) : (
                       <button
                         onClick={() => handleSubscribe(tier)}
@@ -619,6 +847,8 @@ export default function SubscriptionPage() {
                             <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
                             Loading...
                           </span>
+                        ) : isDowngrade ? (
+                          `Switch to ${tier.name} at period end`
                         ) : (
                           `Upgrade to ${tier.name}`
                         )}
@@ -631,6 +861,65 @@ export default function SubscriptionPage() {
           </div>
         </div>
 
+        {/* Credit Packs */}
+        {credits.creditPacks.length > 0 && (
+          <div>
+            <h3 className="text-lg sm:text-xl font-semibold">Credit Packs</h3>
+            <p className="text-sm text-muted-foreground mt-1 mb-4">
+              One-off credits on top of your plan. They never expire.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {credits.creditPacks.map((pack) => {
+                const isLoading = subscribing === `pack-${pack.id}` && !paymentRequirements;
+                const bonusPercent = Math.round((pack.bonusCredits / pack.credits) * 100);
+
+                return (
+                  <div
+                    key={pack.id}
+                    className="relative rounded-2xl p-4 sm:p-5 border-2 border-border hover:border-muted-foreground/50 bg-gradient-to-br from-emerald-950/40 to-teal-900/20 transition-all duration-300 hover:shadow-lg"
+                  >
+                    {bonusPercent > 0 && (
+                      <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-3 py-1 bg-emerald-600 text-white text-xs font-medium rounded-full">
+                        +{bonusPercent}% bonus
+                      </div>
+                    )}
+
+                    <div className="mb-4">
+                      <h4 className="text-base sm:text-lg font-bold text-emerald-400">{pack.name}</h4>
+                      <div className="flex items-baseline gap-1 mt-2">
+                        <span className="text-2xl sm:text-3xl font-bold">${pack.priceUsd}</span>
+                        <span className="text-sm text-muted-foreground">USDC</span>
+                      </div>
+                    </div>
+
+                    <p className="text-sm mb-5">
+                      <span className="font-medium">{pack.credits + pack.bonusCredits}</span> credits
+                      {pack.bonusCredits > 0 && (
+                        <span className="text-green-400 ml-1">({pack.credits} + {pack.bonusCredits} bonus)</span>
+                      )}
+                    </p>
+
+                    <button
+                      onClick={() => handleBuyPack(pack)}
+                      disabled={isLoading}
+                      className="w-full py-2.5 bg-emerald-600 hover:bg-emerald-500 rounded-xl text-sm font-medium transition-all disabled:opacity-50 shadow-lg hover:shadow-xl"
+                    >
+                      {isLoading ? (
+                        <span className="flex items-center justify-center gap-2">
+                          <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                          Loading...
+                        </span>
+                      ) : (
+                        `Buy ${pack.credits} Credits`
+                      )}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Subscription History / Invoices */}
         <div>
           <div className="flex items-center justify-between mb-4">
@@ -689,6 +978,11 @@ export default function SubscriptionPage() {
                         <div>
                           <p className="text-xs text-muted-foreground">Amount</p>
                           <p className="font-semibold">${invoice.priceUsd.toFixed(2)}</p>
+                          {invoice.lines.length > 1 && invoice.lines.map((line) => (
+                            <p key={line.description} className="text-xs text-muted-foreground">
+                              {line.amountUsd < 0 ? "-" : ""}${Math.abs(line.amountUsd).toFixed(2)} {line.description}
+                            </p>
+                          ))}
                         </div>
                         <div>
                           <p className="text-xs text-muted-foreground">Credits</p>
@@ -782,6 +1076,11 @@ export default function SubscriptionPage() {
                             </td>
                             <td className="px-4 py-3">
                               <div className="text-sm font-semibold">${invoice.priceUsd.toFixed(2)}</div>
+                              {invoice.lines.length > 1 && invoice.lines.map((line) => (
+                                <div key={line.description} className="text-xs text-muted-foreground">
+                                  {line.amountUsd < 0 ? "-" : ""}${Math.abs(line.amountUsd).toFixed(2)} {line.description}
+                                </div>
+                              ))}
                               {invoice.paymentNetwork && (
                                 <div className="text-xs text-muted-foreground">
                                   {getNetworkName(invoice.paymentNetwork)}
@@ -2,53 +2,57 @@
 
 import { useState, useEffect } from "react";
 import { useActiveAccount } from "thirdweb/react";
+import { useWalletSession } from "@/app/components/WalletSession";
 
 interface Transaction {
   id: string;
-  transaction_hash: string;
-  payer_address: string;
-  recipient_address: string;
-  amount_usd: number;
-  asset_symbol: string;
+  transactionHash?: string;
   network: string;
-  status: string;
-  created_at: string;
-  endpoint_path?: string;
+  amountUsd: number;
+  route: string;
+  status: "success" | "failed" | "pending" | "settle_unknown";
+  error?: string;
+  refundStatus?: "pending" | "approved" | "completed" | "rejected";
+  createdAt: string;
 }
 
+const PAGE_SIZE = 20;
+
 export default function TransactionsPage() {
   const account = useActiveAccount();
+  const signedIn = useWalletSession().status === "signed-in";
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [period, setPeriod] = useState<"24h" | "7d" | "30d">("7d");
+  const [status, setStatus] = useState<"" | Transaction["status"]>("");
+  const [page, setPage] = useState(0);
 
   useEffect(() => {
-    if (account?.address) {
+    if (account?.address && signedIn) {
       fetchTransactions();
     }
-  }, [account?.address, period]);
+  }, [account?.address, signedIn, period, status, page]);
 
   const fetchTransactions = async () => {
-    if (!account?.address) return;
+    if (!account?.address || !signedIn) return;
 
     try {
       setLoading(true);
-      // Query PerkOS-Stack facilitator API for transactions
-      const facilitatorUrl = process.env.NEXT_PUBLIC_FACILITATOR_URL || "https://stack.perkos.xyz";
-      const response = await fetch(
-        `${facilitatorUrl}/api/x402/transactions?payer=${account.address}&period=${period}&limit=50`
-      );
-      
+      // Query Aura's payment ledger for this wallet
+      const params = new URLSearchParams({
+        walletAddress: account.address,
+        period,
+        limit: String(PAGE_SIZE),
+        offset: String(page * PAGE_SIZE),
+      });
+      if (status) params.set("status", status);
+
+      const response = await fetch(`/api/payment/history?${params.toString()}`);
       if (response.ok) {
         const data = await response.json();
         setTransactions(data.transactions || []);
-      } else {
-        // Fallback: query local cache if available
-        const localResponse = await fetch(`/api/transactions?owner=${account.address}`);
-        if (localResponse.ok) {
-          const localData = await localResponse.json();
-          setTransactions(localData.transactions || []);
-        }
+        setTotalCount(data.totalCount || 0);
       }
     } catch (error) {
       console.error("Failed to fetch transactions:", error);
@@ -57,6 +61,8 @@ export default function TransactionsPage() {
     }
   };
 
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
   const getExplorerUrl = (network: string, hash: string): string => {
     const explorers: Record<string, string> = {
       avalanche: "https://snowtrace.io/tx/",
@@ -64,6 +70,7 @@ export default function TransactionsPage() {
       base: "https://basescan.org/tx/",
       "base-sepolia": "https://sepolia.basescan.org/tx/",
       celo: "https://celoscan.io/tx/",
+      unichain: "https://uniscan.xyz/tx/",
     };
     return `${explorers[network] || "https://etherscan.io/tx/"}${hash}`;
   };
@@ -79,13 +86,30 @@ export default function TransactionsPage() {
         </p>
       </div>
 
-      {/* Period Filter */}
-      <div className="mb-6 flex justify-end">
+      {/* Filters */}
+      <div className="mb-6 flex justify-end gap-3">
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as typeof status);
+            setPage(0);
+          }}
+          className="bg-slate-800/50 border border-blue-500/30 rounded-lg px-3 py-2 text-sm text-gray-300 backdrop-blur-sm"
+        >
+          <option value="">All statuses</option>
+          <option value="success">Success</option>
+          <option value="pending">Pending</option>
+          <option value="failed">Failed</option>
+          <option value="settle_unknown">Unconfirmed</option>
+        </select>
         <div className="inline-flex bg-slate-800/50 border border-blue-500/30 rounded-lg p-1 backdrop-blur-sm">
           {(["24h", "7d", "30d"] as const).map((p) => (
             <button
               key={p}
-              onClick={() => setPeriod(p)}
+              onClick={() => {
+                setPeriod(p);
+                setPage(0);
+              }}
               className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${
                 period === p
                   ? "bg-gradient-to-r from-blue-500 to-cyan-500 text-white"
@@ -138,14 +162,20 @@ export default function TransactionsPage() {
                 {transactions.map((tx) => (
                   <tr key={tx.id} className="hover:bg-slate-800/50 transition-colors">
                     <td className="px-6 py-4">
-                      <a
-                        href={getExplorerUrl(tx.network, tx.transaction_hash)}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-cyan-400 hover:text-cyan-300 font-mono text-sm"
-                      >
-                        {tx.transaction_hash.slice(0, 10)}...
-                      </a>
+                      {tx.transactionHash ? (
+                        <a
+                          href={getExplorerUrl(tx.network, tx.transactionHash)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-cyan-400 hover:text-cyan-300 font-mono text-sm"
+                        >
+                          {tx.transactionHash.slice(0, 10)}...
+                        </a>
+                      ) : (
+                        <span className="text-gray-500 text-sm" title={tx.error}>
+                          Not settled
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <span className="text-gray-300 capitalize text-sm">
@@ -154,12 +184,12 @@ export default function TransactionsPage() {
                     </td>
                     <td className="px-6 py-4">
                       <span className="text-gray-100 font-medium">
-                        ${tx.amount_usd?.toFixed(4) || "0.0000"} {tx.asset_symbol}
+                        ${tx.amountUsd?.toFixed(4) || "0.0000"} USDC
                       </span>
                     </td>
                     <td className="px-6 py-4">
                       <code className="text-gray-400 text-xs">
-                        {tx.endpoint_path || "N/A"}
+                        {tx.route || "N/A"}
                       </code>
                     </td>
                     <td className="px-6 py-4">
@@ -167,15 +197,28 @@ export default function TransactionsPage() {
                         className={`px-2 py-1 rounded text-xs font-medium ${
                           tx.status === "success"
                             ? "bg-green-500/20 text-green-400"
+                            : tx.status === "pending" || tx.status === "settle_unknown"
+                            ? "bg-yellow-500/20 text-yellow-400"
                             : "bg-red-500/20 text-red-400"
                         }`}
                       >
-                        {tx.status}
+                        {tx.status === "settle_unknown" ? "unconfirmed" : tx.status}
                       </span>
+                      {tx.refundStatus && tx.refundStatus !== "rejected" && (
+                        <span
+                          className={`ml-2 px-2 py-1 rounded text-xs font-medium ${
+                            tx.refundStatus === "completed"
+                              ? "bg-blue-500/20 text-blue-400"
+                              : "bg-yellow-500/20 text-yellow-400"
+                          }`}
+                        >
+                          {tx.refundStatus === "completed" ? "refunded" : "refund pending"}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <span className="text-gray-400 text-sm">
-                        {new Date(tx.created_at).toLocaleDateString()}
+                        {new Date(tx.createdAt).toLocaleDateString()}
                       </span>
                     </td>
                   </tr>
@@ -183,6 +226,29 @@ export default function TransactionsPage() {
               </tbody>
             </table>
           </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between px-6 py-3 border-t border-slate-700 text-sm text-gray-400">
+            <span>
+              {totalCount} transaction{totalCount === 1 ? "" : "s"} · Page {page + 1} of {pageCount}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage((p) => Math.max(0, p - 1))}
+                disabled={page === 0}
+                className="px-3 py-1 rounded-md bg-slate-900/50 hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page + 1 >= pageCount}
+                className="px-3 py-1 rounded-md bg-slate-900/50 hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -4,6 +4,7 @@ import { ThirdwebProvider } from "thirdweb/react";
 import type { ReactNode } from "react";
 import { createThirdwebClient } from "thirdweb";
 import { avalanche, avalancheFuji, base, baseSepolia, celo, celoSepoliaTestnet, defineChain } from "thirdweb/chains";
+import { WalletSessionProvider } from "@/app/components/WalletSession";
 
 // Define Unichain mainnet (Chain ID: 130)
 export const unichain = defineChain({
@@ -25,7 +26,9 @@ export const unichain = defineChain({
 export function Providers({ children }: { children: ReactNode }) {
   return (
     <ThirdwebProvider>
-      {children}
+      <WalletSessionProvider>
+        {children}
+      </WalletSessionProvider>
     </ThirdwebProvider>
   );
 }
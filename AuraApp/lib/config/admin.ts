@@ -0,0 +1,30 @@
+/**
+ * Admin Role Configuration
+ * Roles are ordered: each role can do everything the roles before it can.
+ * - viewer: read admin pages (stats, users, transactions, refunds, registration status)
+ * - operator: act on users and payments (grant credits, set tiers, edit credit costs, review refunds)
+ * - owner: manage admin roles and the facilitator registration
+ */
+
+export const ADMIN_ROLES = ["viewer", "operator", "owner"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/**
+ * Check whether a role meets the minimum role for an action
+ */
+export function hasAdminRole(role: AdminRole | null | undefined, minimum: AdminRole): boolean {
+  return !!role && ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(minimum);
+}
+
+/**
+ * Wallets allowed to claim the first owner role while no owner exists
+ * Format: "0x123...,0x456..." (comma-separated). Once an owner exists, roles
+ * are managed from /admin/roles and this list is no longer consulted.
+ */
+export function getBootstrapAdminWallets(): string[] {
+  return (process.env.ADMIN_WALLETS || "")
+    .split(",")
+    .map((w) => w.trim().toLowerCase())
+    .filter(Boolean);
+}
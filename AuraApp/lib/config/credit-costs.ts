@@ -0,0 +1,105 @@
+/**
+ * Credit Cost Configuration
+ * Credits charged per interaction, by service: a chat turn plus the 20 AI
+ * services. These are the defaults; admins override them from /admin/credit-costs
+ * (stored in the credit_costs collection, see CreditCostService).
+ *
+ * Credits are frontend access control only - x402 payments still apply.
+ */
+
+export const CREDIT_SERVICE_IDS = [
+  "chat",
+  // Vision & Audio
+  "analyze_image",
+  "generate_image",
+  "transcribe_audio",
+  "synthesize_speech",
+  // NLP
+  "summarize",
+  "translate",
+  "sentiment",
+  "moderate",
+  "simplify",
+  "extract",
+  // Business
+  "email",
+  "product",
+  "seo",
+  // Developer
+  "code",
+  "code_review",
+  "sql",
+  "regex",
+  "docs",
+  // Advanced
+  "ocr",
+  "quiz",
+] as const;
+
+export type CreditServiceId = (typeof CREDIT_SERVICE_IDS)[number];
+
+export const DEFAULT_CREDIT_COSTS: Record<CreditServiceId, number> = {
+  chat: 1,
+  analyze_image: 3,
+  generate_image: 5,
+  transcribe_audio: 3,
+  synthesize_speech: 3,
+  summarize: 1,
+  translate: 1,
+  sentiment: 1,
+  moderate: 1,
+  simplify: 1,
+  extract: 1,
+  email: 2,
+  product: 2,
+  seo: 2,
+  code: 2,
+  code_review: 2,
+  sql: 2,
+  regex: 1,
+  docs: 2,
+  ocr: 3,
+  quiz: 2,
+};
+
+// Highest cost an admin can set for one interaction
+export const MAX_CREDIT_COST = 1000;
+
+// Paid endpoints and the service they are charged as
+const ENDPOINT_SERVICE_IDS: Record<string, CreditServiceId> = {
+  "/api/ai/analyze": "analyze_image",
+  "/api/ai/generate": "generate_image",
+  "/api/ai/transcribe": "transcribe_audio",
+  "/api/ai/synthesize": "synthesize_speech",
+  "/api/ai/summarize": "summarize",
+  "/api/ai/translate": "translate",
+  "/api/ai/sentiment": "sentiment",
+  "/api/ai/moderate": "moderate",
+  "/api/ai/simplify": "simplify",
+  "/api/ai/extract": "extract",
+  "/api/ai/email/generate": "email",
+  "/api/ai/product/describe": "product",
+  "/api/ai/seo/optimize": "seo",
+  "/api/ai/code/generate": "code",
+  "/api/ai/code/review": "code_review",
+  "/api/ai/sql/generate": "sql",
+  "/api/ai/regex/generate": "regex",
+  "/api/ai/docs/generate": "docs",
+  "/api/ai/ocr": "ocr",
+  "/api/ai/quiz/generate": "quiz",
+  // Chat Integration
+  "/api/chat/image": "analyze_image",
+  "/api/chat/audio": "transcribe_audio",
+};
+
+export function isCreditServiceId(id: string): id is CreditServiceId {
+  return (CREDIT_SERVICE_IDS as readonly string[]).includes(id);
+}
+
+/**
+ * Service a paid endpoint is charged as, from a path or full URL
+ */
+export function getCreditServiceIdForEndpoint(endpoint: string): CreditServiceId | null {
+  const path = endpoint.replace(/^https?:\/\/[^/]+/, "").split("?")[0];
+  return ENDPOINT_SERVICE_IDS[path] || null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Rate Limit Configuration
+ * Token buckets per route group: each caller (API key, wallet or IP) gets
+ * `capacity` requests at once, refilled at `refillPerMinute`.
+ * - chat: /api/chat messages (each one spends LLM tokens against a 1-credit charge)
+ * - paid: every route behind x402 payment, checked before the facilitator is called
+ * - auth: Sign-In With Ethereum nonce and login
+ *
+ * Override a group with RATE_LIMIT_<GROUP>="<capacity>/<refillPerMinute>",
+ * e.g. RATE_LIMIT_CHAT="10/20".
+ */
+
+export const RATE_LIMIT_GROUPS = ["chat", "paid", "auth"] as const;
+
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+export interface RateLimitPolicy {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+const DEFAULT_POLICIES: Record<RateLimitGroup, RateLimitPolicy> = {
+  chat: { capacity: 10, refillPerMinute: 20 },
+  paid: { capacity: 30, refillPerMinute: 60 },
+  auth: { capacity: 10, refillPerMinute: 10 },
+};
+
+/**
+ * Policy for a route group, with any environment override applied
+ */
+export function getRateLimitPolicy(group: RateLimitGroup): RateLimitPolicy {
+  const override = process.env[`RATE_LIMIT_${group.toUpperCase()}`]?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (!override) {
+    return DEFAULT_POLICIES[group];
+  }
+  return { capacity: parseInt(override[1], 10), refillPerMinute: parseInt(override[2], 10) };
+}
+
+/**
+ * Where buckets are kept
+ * - memory: per process, for development and single-instance deployments
+ * - firestore: shared by every instance (rate_limits collection)
+ * Defaults to firestore in production and memory otherwise.
+ */
+export function getRateLimitBackend(): "memory" | "firestore" {
+  const backend = process.env.RATE_LIMIT_BACKEND;
+  if (backend === "memory" || backend === "firestore") {
+    return backend;
+  }
+  return process.env.NODE_ENV === "production" ? "firestore" : "memory";
+}
+
+/**
+ * Number of proxies in front of the app that append to X-Forwarded-For
+ * (TRUSTED_PROXY_HOPS, default 1: the platform's edge proxy). See getClientIp.
+ */
+export function getTrustedProxyHops(): number {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || "1", 10);
+  return Number.isInteger(hops) && hops >= 1 ? hops : 1;
+}
+
+export function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED !== "false";
+}
@@ -0,0 +1,32 @@
+/**
+ * Upload Configuration
+ * Uploads are private: they are stored under users/{wallet}/ and read through
+ * short-lived signed URLs (see StorageService and /api/files).
+ */
+
+import type { SubscriptionTier } from "@/lib/services/CreditsService";
+
+const MB = 1024 * 1024;
+
+// Largest upload per subscription tier
+export const UPLOAD_SIZE_LIMITS: Record<SubscriptionTier, number> = {
+  free: 5 * MB,
+  starter: 10 * MB,
+  pro: 25 * MB,
+  unlimited: 50 * MB,
+};
+
+// Requests larger than this are rejected before the body is read
+export const MAX_UPLOAD_BYTES = Math.max(...Object.values(UPLOAD_SIZE_LIMITS));
+
+export const uploadPolicy = {
+  // Lifetime of a signed read URL
+  signedUrlTtlSeconds: parseInt(process.env.UPLOAD_SIGNED_URL_TTL_SECONDS || "900", 10),
+};
+
+/**
+ * Format a byte count for error messages (e.g. "25 MB")
+ */
+export function formatUploadSize(bytes: number): string {
+  return `${Math.round((bytes / MB) * 10) / 10} MB`;
+}
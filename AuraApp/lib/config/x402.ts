@@ -5,9 +5,17 @@
 
 export type NetworkName = "base" | "base-sepolia" | "avalanche" | "avalanche-fuji" | "celo" | "celo-sepolia" | "ethereum" | "unichain";
 
+// remote: PerkOS-Stack verifies and settles
+// local: signatures verified in-process, PerkOS-Stack settles
+// offline: signatures verified in-process, settlement mocked (no funds move)
+// mock: everything accepted and mocked (development only)
+export type FacilitatorMode = "remote" | "local" | "offline" | "mock";
+
 export interface PaymentConfig {
   payTo: `0x${string}`;
-  facilitatorUrl: string;
+  facilitatorUrl: string; // Primary facilitator (first of facilitatorUrls)
+  facilitatorUrls: string[]; // Ordered failover list
+  facilitatorMode: FacilitatorMode;
   network: NetworkName;
   priceUsd: string;
   serviceUrl: string; // Full URL of this service (for x402 resource field)
@@ -24,6 +32,7 @@ export const SUPPORTED_NETWORKS: NetworkName[] = (
 const requiredEnvVars = {
   PAY_TO_ADDRESS: process.env.NEXT_PUBLIC_PAY_TO_ADDRESS || process.env.PAYMENT_WALLET_ADDRESS,
   FACILITATOR_URL: process.env.FACILITATOR_URL || process.env.NEXT_PUBLIC_FACILITATOR_URL || "https://stack.perkos.xyz",
+  FACILITATOR_MODE: process.env.FACILITATOR_MODE || "remote",
   NETWORK: process.env.NEXT_PUBLIC_NETWORK || "avalanche",
   PAYMENT_PRICE_USD: process.env.NEXT_PUBLIC_PAYMENT_PRICE_USD || "0.01",
   SERVICE_URL: process.env.NEXT_PUBLIC_SERVICE_URL || "https://aura.perkos.xyz", // Full URL of this service
@@ -45,15 +54,66 @@ if (!validNetworks.includes(requiredEnvVars.NETWORK)) {
   console.warn(`⚠️  Invalid network: ${requiredEnvVars.NETWORK}. Valid: ${validNetworks.join(", ")}`);
 }
 
+// FACILITATOR_URL accepts an ordered, comma-separated list (first = primary)
+const facilitatorUrls = requiredEnvVars.FACILITATOR_URL
+  .split(",")
+  .map((url) => url.trim().replace(/\/$/, ""))
+  .filter(Boolean);
+
+// Validate facilitator mode
+const validFacilitatorModes = ["remote", "local", "offline", "mock"];
+if (!validFacilitatorModes.includes(requiredEnvVars.FACILITATOR_MODE)) {
+  console.warn(`⚠️  Invalid FACILITATOR_MODE: ${requiredEnvVars.FACILITATOR_MODE}. Valid: ${validFacilitatorModes.join(", ")}. Using remote.`);
+}
+
+/**
+ * Refuse a facilitator mode that mocks settlement outside development and test
+ * "offline" and "mock" report every payment as settled, so a mistyped
+ * FACILITATOR_MODE in production would make every paid endpoint free.
+ */
+export function assertFacilitatorModeAllowed(mode: FacilitatorMode): void {
+  const env = process.env.NODE_ENV;
+  if ((mode === "offline" || mode === "mock") && env !== "development" && env !== "test") {
+    throw new Error(
+      `FACILITATOR_MODE=${mode} mocks settlement and is only allowed in development or test (NODE_ENV=${env})`
+    );
+  }
+}
+
 // Export configuration
 export const x402Config: PaymentConfig = {
   payTo: (requiredEnvVars.PAY_TO_ADDRESS || "0x0000000000000000000000000000000000000000") as `0x${string}`,
-  facilitatorUrl: requiredEnvVars.FACILITATOR_URL,
+  facilitatorUrl: facilitatorUrls[0] || "https://stack.perkos.xyz",
+  facilitatorUrls: facilitatorUrls.length > 0 ? facilitatorUrls : ["https://stack.perkos.xyz"],
+  facilitatorMode: (validFacilitatorModes.includes(requiredEnvVars.FACILITATOR_MODE)
+    ? requiredEnvVars.FACILITATOR_MODE
+    : "remote") as FacilitatorMode,
   network: requiredEnvVars.NETWORK as PaymentConfig["network"],
   priceUsd: requiredEnvVars.PAYMENT_PRICE_USD,
   serviceUrl: requiredEnvVars.SERVICE_URL,
 };
 
+// Fail at server startup rather than on the first paid request
+if (typeof window === "undefined") {
+  assertFacilitatorModeAllowed(x402Config.facilitatorMode);
+}
+
+// Local authorization checks applied before the facilitator is called
+// Clients sign EIP-3009 authorizations valid for 1 hour by default
+export const authorizationPolicy = {
+  maxValiditySeconds: parseInt(process.env.PAYMENT_MAX_VALIDITY_SECONDS || "3600", 10),
+  clockSkewSeconds: parseInt(process.env.PAYMENT_CLOCK_SKEW_SECONDS || "300", 10),
+};
+
+// Per-facilitator timeout and circuit breaker settings
+// A facilitator's circuit opens after failureThreshold consecutive failures and
+// is retried (half-open) once cooldownSeconds have passed
+export const facilitatorPolicy = {
+  timeoutMs: parseInt(process.env.FACILITATOR_TIMEOUT_MS || "10000", 10),
+  failureThreshold: parseInt(process.env.FACILITATOR_FAILURE_THRESHOLD || "3", 10),
+  cooldownSeconds: parseInt(process.env.FACILITATOR_COOLDOWN_SECONDS || "30", 10),
+};
+
 // Helper to build full resource URL from path
 export function getResourceUrl(path: string): string {
   // Remove leading slash if present for consistent joining
@@ -78,6 +138,51 @@ export const subscriptionPricing = {
   unlimited: parsePrice(process.env.NEXT_PUBLIC_SUBSCRIPTION_UNLIMITED_PRICE_USD, 49.99),
 };
 
+// Subscription lifecycle job (GET /api/cron/subscriptions, see SubscriptionLifecycleService)
+// Opted-in subscriptions the prepaid balance cannot renew get a reminder
+// reminderDays before they expire; each run handles up to batchSize users, and
+// users whose processing failed are skipped for retryDelayMinutes
+export const subscriptionLifecycleConfig = {
+  reminderDays: parseInt(process.env.SUBSCRIPTION_RENEWAL_REMINDER_DAYS || "3", 10),
+  batchSize: parseInt(process.env.SUBSCRIPTION_LIFECYCLE_BATCH_SIZE || "200", 10),
+  retryDelayMinutes: parseInt(process.env.SUBSCRIPTION_LIFECYCLE_RETRY_DELAY_MINUTES || "360", 10),
+};
+
+// Settlement reconciliation job (GET /api/cron/settlements, see SettlementReconciliationService)
+// Each run checks up to batchSize settlements whose outcome was unknown
+export const settlementReconciliationConfig = {
+  batchSize: parseInt(process.env.SETTLEMENT_RECONCILIATION_BATCH_SIZE || "100", 10),
+};
+
+// Credit Pack Pricing Configuration
+// Keyed by pack ID (see CREDIT_PACKS in CreditsService.ts)
+export const creditPackPricing = {
+  "100": parsePrice(process.env.NEXT_PUBLIC_CREDIT_PACK_100_PRICE_USD, 1.99),
+  "500": parsePrice(process.env.NEXT_PUBLIC_CREDIT_PACK_500_PRICE_USD, 8.99),
+  "2000": parsePrice(process.env.NEXT_PUBLIC_CREDIT_PACK_2000_PRICE_USD, 29.99),
+};
+
+// Prepaid USDC balance configuration
+// Deposits settle one larger x402 payment into the payer's balance; paid routes
+// draw it down before falling back to per-request settlement
+export const prepaidConfig = {
+  depositUsd: parsePrice(process.env.NEXT_PUBLIC_PREPAID_DEPOSIT_USD, 5),
+  // Routes that must always settle on-chain
+  excludedRoutes: ["/api/credits/deposit"],
+};
+
+// Refunds for paid calls that fail after settlement (see RefundService)
+// Amounts up to onchainAboveUsd are returned as credits straight away; larger
+// ones (or all, with REFUND_METHOD=onchain) are queued for an operator to
+// approve and send back in USDC from the payTo wallet
+export type RefundMethodPolicy = "credits" | "onchain";
+
+export const refundPolicy = {
+  method: (process.env.REFUND_METHOD === "onchain" ? "onchain" : "credits") as RefundMethodPolicy,
+  creditsPerUsd: parseInt(process.env.REFUND_CREDITS_PER_USD || "60", 10),
+  onchainAboveUsd: parsePrice(process.env.REFUND_ONCHAIN_ABOVE_USD, 1),
+};
+
 // AI Service Pricing Configuration (ALL 20 SERVICES)
 // All prices configurable via environment variables with sensible defaults
 export const aiServiceConfig = {
@@ -208,4 +313,64 @@ export const paymentRoutes = {
   "/api/subscription/starter": subscriptionPricing.starter,
   "/api/subscription/pro": subscriptionPricing.pro,
   "/api/subscription/unlimited": subscriptionPricing.unlimited,
+  // Credit Packs
+  "/api/credits/purchase/100": creditPackPricing["100"],
+  "/api/credits/purchase/500": creditPackPricing["500"],
+  "/api/credits/purchase/2000": creditPackPricing["2000"],
+  // Prepaid Balance
+  "/api/credits/deposit": prepaidConfig.depositUsd,
+};
+
+// Request usage measured by the payment middleware for usage-priced routes
+export interface RequestUsage {
+  characters?: number; // Total characters of the text fields in a JSON body
+  audioSeconds?: number; // Duration of an uploaded audio file
+  imageSize?: string; // Requested image dimensions, e.g. "1792x1024"
+}
+
+export interface UsagePriceRule {
+  measure: keyof RequestUsage;
+  // Price in USD for the measured usage, given the route's paymentRoutes price
+  price: (basePrice: number, usage: RequestUsage) => number;
+}
+
+// Each started block of usage costs the route's base price
+const textBlockCharacters = parseInt(process.env.USAGE_TEXT_BLOCK_CHARACTERS || "4000", 10); // ~1,000 tokens
+const audioBlockSeconds = parseInt(process.env.USAGE_AUDIO_BLOCK_SECONDS || "60", 10);
+
+const perTextBlock: UsagePriceRule = {
+  measure: "characters",
+  price: (basePrice, usage) =>
+    basePrice * Math.max(1, Math.ceil((usage.characters || 0) / textBlockCharacters)),
+};
+
+// DALL-E 3 sizes relative to the square base price
+// Quality is fixed by AIService.generateImage(prompt, size), so only size is priced
+const imageSizeMultipliers: Record<string, number> = {
+  "1024x1024": 1,
+  "1792x1024": 2,
+  "1024x1792": 2,
+};
+
+// Usage-based pricing (routes not listed here are flat-priced from paymentRoutes)
+export const usagePricing: Record<string, UsagePriceRule> = {
+  // NLP Services: priced per block of input text
+  "/api/ai/summarize": perTextBlock,
+  "/api/ai/translate": perTextBlock,
+  "/api/ai/sentiment": perTextBlock,
+  "/api/ai/moderate": perTextBlock,
+  "/api/ai/simplify": perTextBlock,
+  "/api/ai/extract": perTextBlock,
+  // Audio: priced per started block of audio duration
+  "/api/ai/transcribe": {
+    measure: "audioSeconds",
+    price: (basePrice, usage) =>
+      basePrice * Math.max(1, Math.ceil((usage.audioSeconds || 0) / audioBlockSeconds)),
+  },
+  // Image generation: priced by requested size
+  "/api/ai/generate": {
+    measure: "imageSize",
+    price: (basePrice, usage) =>
+      basePrice * (imageSizeMultipliers[usage.imageSize || "1024x1024"] || 1),
+  },
 };
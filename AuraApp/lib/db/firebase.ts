@@ -110,6 +110,20 @@ export const COLLECTIONS = {
   USER_CREDITS: "user_credits",
   CREDIT_TRANSACTIONS: "credit_transactions",
   SUBSCRIPTIONS: "subscriptions",
+  CREDIT_COSTS: "credit_costs",
+  // Payments
+  PAYMENT_NONCES: "payment_nonces",
+  PAYMENTS: "payments",
+  IDEMPOTENCY_KEYS: "idempotency_keys",
+  REFUNDS: "refunds",
+  SETTLEMENT_RECONCILIATIONS: "settlement_reconciliations",
+  // Access
+  API_KEYS: "api_keys",
+  API_KEY_WALLETS: "api_key_wallets",
+  SIWE_NONCES: "siwe_nonces",
+  ADMIN_ROLES: "admin_roles",
+  RATE_LIMITS: "rate_limits",
+  AUDIT_LOG: "audit_log",
 } as const;
 
 /**
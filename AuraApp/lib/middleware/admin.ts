@@ -0,0 +1,55 @@
+/**
+ * Admin Middleware for Next.js API Routes
+ * Admin routes take the admin wallet from the signed SIWE session (see
+ * session.ts), never from an adminWallet query or body parameter, and check its
+ * role in admin_roles (see AdminRoleService).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ForbiddenError } from "@/lib/errors";
+import { requireWalletSession } from "@/lib/middleware/session";
+import { adminRoleService } from "@/lib/services/AdminRoleService";
+import { hasAdminRole, type AdminRole } from "@/lib/config/admin";
+
+export interface AdminAuthResult {
+  isAuthorized: boolean;
+  response?: NextResponse;
+  walletAddress?: string; // Lowercase, from the session
+  role?: AdminRole;
+}
+
+/**
+ * Require a signed-in admin with at least the given role
+ * Usage:
+ * ```typescript
+ * export async function POST(request: NextRequest) {
+ *   const admin = await requireAdmin(request, "operator");
+ *   if (!admin.isAuthorized) {
+ *     return admin.response!;
+ *   }
+ *   // Use admin.walletAddress...
+ * }
+ * ```
+ */
+export async function requireAdmin(request: NextRequest, minimumRole: AdminRole = "viewer"): Promise<AdminAuthResult> {
+  const auth = requireWalletSession(request);
+  if (!auth.isAuthenticated) {
+    return { isAuthorized: false, response: auth.response };
+  }
+
+  const walletAddress = auth.walletAddress!;
+  const role = await adminRoleService.getRole(walletAddress);
+
+  if (!hasAdminRole(role, minimumRole)) {
+    console.warn(`❌ [Admin] ${walletAddress} (${role || "not an admin"}) denied, requires ${minimumRole}`);
+    const error = new ForbiddenError(
+      role ? `This action requires the ${minimumRole} role` : "Not an admin"
+    );
+    return {
+      isAuthorized: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  return { isAuthorized: true, walletAddress, role: role! };
+}
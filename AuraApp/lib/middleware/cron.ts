@@ -0,0 +1,54 @@
+/**
+ * Cron Middleware for Next.js API Routes
+ * Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>`, the
+ * header Vercel Cron sends. Without CRON_SECRET every cron request is refused.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { UnauthorizedError } from "@/lib/errors";
+
+export interface CronAuthResult {
+  isAuthorized: boolean;
+  response?: NextResponse;
+}
+
+/**
+ * Require the cron secret
+ * Usage:
+ * ```typescript
+ * export async function GET(request: NextRequest) {
+ *   const cron = requireCronSecret(request);
+ *   if (!cron.isAuthorized) {
+ *     return cron.response!;
+ *   }
+ *   // Run the job...
+ * }
+ * ```
+ */
+export function requireCronSecret(request: NextRequest): CronAuthResult {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("❌ [Cron] CRON_SECRET not set, refusing cron request");
+    return {
+      isAuthorized: false,
+      response: NextResponse.json(
+        { success: false, error: "Cron jobs are not configured" },
+        { status: 503 }
+      ),
+    };
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") || "");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    console.warn("❌ [Cron] Invalid cron secret");
+    const error = new UnauthorizedError("Invalid cron secret");
+    return {
+      isAuthorized: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  return { isAuthorized: true };
+}
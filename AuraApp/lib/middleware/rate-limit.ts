@@ -0,0 +1,89 @@
+/**
+ * Rate Limit Middleware for Next.js API Routes
+ * Limits each caller per route group (see lib/config/rate-limit.ts), keyed by
+ * the most specific identity that has been authenticated: API key, then
+ * signed-in wallet, then client IP. Claimed but unverified identities (a
+ * walletAddress in the body, the payer of an unverified payment) are never
+ * used, so nobody can exhaust another wallet's bucket.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { RateLimitError } from "@/lib/errors";
+import { rateLimitService } from "@/lib/services/RateLimitService";
+import { sessionService, SESSION_COOKIE } from "@/lib/services/SessionService";
+import { isRateLimitEnabled, getTrustedProxyHops, type RateLimitGroup } from "@/lib/config/rate-limit";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  response?: NextResponse; // 429 with Retry-After when not allowed
+}
+
+/**
+ * Take one request from the caller's bucket
+ * Usage:
+ * ```typescript
+ * const limit = await enforceRateLimit(request, "chat", { walletAddress: auth.walletAddress, apiKeyId: auth.apiKey?.id });
+ * if (!limit.allowed) {
+ *   return limit.response!;
+ * }
+ * ```
+ * Without an identity the session wallet is used if there is one, else the IP.
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  group: RateLimitGroup,
+  identity: { walletAddress?: string; apiKeyId?: string } = {}
+): Promise<RateLimitResult> {
+  if (!isRateLimitEnabled()) {
+    return { allowed: true };
+  }
+
+  const subject = getRateLimitSubject(request, identity);
+  const decision = await rateLimitService.consume(group, subject);
+  if (decision.allowed) {
+    return { allowed: true };
+  }
+
+  console.warn(`🚦 [RateLimit] ${subject} exceeded the ${group} limit, retry in ${decision.retryAfterSeconds}s`);
+  const error = new RateLimitError(`Too many requests. Try again in ${decision.retryAfterSeconds} seconds.`);
+  return {
+    allowed: false,
+    response: NextResponse.json(
+      { ...error.toJSON(), retryAfter: decision.retryAfterSeconds },
+      {
+        status: error.statusCode,
+        headers: { "Retry-After": String(decision.retryAfterSeconds) },
+      }
+    ),
+  };
+}
+
+function getRateLimitSubject(
+  request: NextRequest,
+  identity: { walletAddress?: string; apiKeyId?: string }
+): string {
+  if (identity.apiKeyId) {
+    return `key:${identity.apiKeyId}`;
+  }
+
+  const walletAddress =
+    identity.walletAddress || sessionService.getSession(request.cookies.get(SESSION_COOKIE)?.value)?.walletAddress;
+  if (walletAddress) {
+    return `wallet:${walletAddress.toLowerCase()}`;
+  }
+
+  return `ip:${getClientIp(request)}`;
+}
+
+/**
+ * Client IP as recorded by the trusted proxy in front of the app
+ * Each proxy appends the address it saw to X-Forwarded-For, so entries left of
+ * the ones added by our own proxies are client-supplied and never used: with
+ * trustedProxyHops proxies the client is that many entries from the right.
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = getTrustedProxyHops();
+  const forwardedFor = request.headers.get("x-forwarded-for")?.split(",").map((entry) => entry.trim()).filter(Boolean);
+  const clientIp = forwardedFor && forwardedFor.length >= hops ? forwardedFor[forwardedFor.length - hops] : undefined;
+  return clientIp || request.headers.get("x-real-ip") || "unknown";
+}
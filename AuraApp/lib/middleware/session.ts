@@ -0,0 +1,159 @@
+/**
+ * Session Middleware for Next.js API Routes
+ * Derives the caller's wallet from the SIWE session cookie (see SessionService),
+ * or from an API key sent as `Authorization: Bearer` (see ApiKeyService),
+ * instead of trusting a walletAddress sent in the query or body.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { UnauthorizedError, ForbiddenError } from "@/lib/errors";
+import { sessionService, SESSION_COOKIE, SIWE_NONCE_COOKIE, type WalletSession } from "@/lib/services/SessionService";
+import { apiKeyService, API_KEY_PREFIX, type ApiKeyRecord, type ApiKeyScope } from "@/lib/services/ApiKeyService";
+import { x402Config } from "@/lib/config/x402";
+
+export interface SessionAuthResult {
+  isAuthenticated: boolean;
+  response?: NextResponse;
+  walletAddress?: string; // Lowercase, from the session
+  session?: WalletSession;
+  apiKey?: ApiKeyRecord; // Set when the caller authenticated with an API key
+}
+
+/**
+ * Require a signed-in wallet
+ * Clients may still send a walletAddress; if they do it must match the session.
+ * Usage:
+ * ```typescript
+ * export async function GET(request: NextRequest) {
+ *   const auth = requireWalletSession(request, searchParams.get("walletAddress"));
+ *   if (!auth.isAuthenticated) {
+ *     return auth.response!;
+ *   }
+ *   // Use auth.walletAddress...
+ * }
+ * ```
+ */
+export function requireWalletSession(
+  request: NextRequest,
+  claimedWalletAddress?: string | null
+): SessionAuthResult {
+  const session = sessionService.getSession(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    const error = new UnauthorizedError("Sign in with your wallet to continue");
+    return {
+      isAuthenticated: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  if (claimedWalletAddress && claimedWalletAddress.toLowerCase() !== session.walletAddress) {
+    console.warn("❌ [Session] Wallet mismatch:", { session: session.walletAddress, claimed: claimedWalletAddress });
+    const error = new ForbiddenError("walletAddress does not match the signed-in wallet");
+    return {
+      isAuthenticated: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  return { isAuthenticated: true, walletAddress: session.walletAddress, session };
+}
+
+/**
+ * Require a signed-in wallet or an API key granting the scope
+ * API keys act as their owning wallet; a walletAddress the caller sends must
+ * match it just as with a session. Routes that must not be reachable with an
+ * API key use requireWalletSession instead.
+ * Usage:
+ * ```typescript
+ * const auth = await requireWalletAuth(request, "projects:read", searchParams.get("walletAddress"));
+ * ```
+ */
+export async function requireWalletAuth(
+  request: NextRequest,
+  scope: ApiKeyScope,
+  claimedWalletAddress?: string | null
+): Promise<SessionAuthResult> {
+  if (!request.headers.get("authorization")) {
+    return requireWalletSession(request, claimedWalletAddress);
+  }
+
+  const auth = await authenticateApiKey(request, scope);
+  if (!auth.isAuthenticated) {
+    return auth;
+  }
+
+  if (claimedWalletAddress && claimedWalletAddress.toLowerCase() !== auth.walletAddress) {
+    console.warn("❌ [ApiKeys] Wallet mismatch:", { apiKey: auth.apiKey!.id, claimed: claimedWalletAddress });
+    const error = new ForbiddenError("walletAddress does not match the API key's wallet");
+    return {
+      isAuthenticated: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  return auth;
+}
+
+/**
+ * Authenticate the API key in the Authorization header and check its scope
+ */
+export async function authenticateApiKey(request: NextRequest, scope: string): Promise<SessionAuthResult> {
+  const key = getBearerToken(request);
+  const apiKey = key ? await apiKeyService.authenticate(key) : null;
+
+  if (!apiKey) {
+    const error = new UnauthorizedError("Invalid, expired or revoked API key");
+    return {
+      isAuthenticated: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  if (!apiKeyService.hasScope(apiKey, scope)) {
+    const error = new ForbiddenError(`API key is missing the "${scope}" scope`);
+    return {
+      isAuthenticated: false,
+      response: NextResponse.json(error.toJSON(), { status: error.statusCode }),
+    };
+  }
+
+  return { isAuthenticated: true, walletAddress: apiKey.walletAddress, apiKey };
+}
+
+/**
+ * Whether the request carries an Aura API key
+ */
+export function hasApiKey(request: NextRequest): boolean {
+  return getBearerToken(request)?.startsWith(API_KEY_PREFIX) ?? false;
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const match = request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Domain and URI sign-in messages are bound to: this service's configured URL
+ * (NEXT_PUBLIC_SERVICE_URL). Never taken from the Host or X-Forwarded-Host
+ * headers, which a phishing site could use to get its own domain accepted.
+ */
+export function getSignInOrigin(): { domain: string; uri: string } {
+  const url = new URL(x402Config.serviceUrl);
+  return { domain: url.host, uri: url.origin };
+}
+
+/**
+ * Cookie options for the session and nonce cookies
+ */
+export function sessionCookieOptions(maxAgeSeconds: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: maxAgeSeconds,
+  };
+}
+
+export { SESSION_COOKIE, SIWE_NONCE_COOKIE };
@@ -1,11 +1,24 @@
 /**
  * x402 Payment Middleware for Next.js API Routes
- * Verifies and settles x402 v2 payments via PerkOS-Stack facilitator
+ * Verifies x402 v2 payments via the configured facilitator (PerkOS-Stack by
+ * default, see FACILITATOR_MODE) and settles them only after the paid handler succeeds
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { x402Config, paymentRoutes, SUPPORTED_NETWORKS, usdcAddresses, getCAIP2Network, networkMappings, getResourceUrl } from "@/lib/config/x402";
-import { toCAIP2Network, parsePriceToUSDC, getDomainVersion, getTokenName } from "@/lib/utils/x402-payment";
+import { createHash } from "crypto";
+import { x402Config, SUPPORTED_NETWORKS, usdcAddresses, getCAIP2Network, networkMappings, getResourceUrl, authorizationPolicy, prepaidConfig, type RequestUsage } from "@/lib/config/x402";
+import { toCAIP2Network, getDomainVersion, getTokenName } from "@/lib/utils/x402-payment";
+import { pricingService, type PriceQuote } from "@/lib/services/PricingService";
+import { paymentNonceService } from "@/lib/services/PaymentNonceService";
+import { paymentLedgerService } from "@/lib/services/PaymentLedgerService";
+import { getFacilitator } from "@/lib/services/facilitator";
+import { idempotencyService, type IdempotencyRecord } from "@/lib/services/IdempotencyService";
+import { prepaidBalanceService } from "@/lib/services/PrepaidBalanceService";
+import { refundService, type RefundRecord } from "@/lib/services/RefundService";
+import { settlementReconciliationService } from "@/lib/services/SettlementReconciliationService";
+import { authenticateApiKey, hasApiKey, requireWalletSession } from "@/lib/middleware/session";
+import { enforceRateLimit } from "@/lib/middleware/rate-limit";
+import { ValidationError } from "@/lib/errors";
 
 export interface PaymentEnvelope {
   network: string;
@@ -14,6 +27,7 @@ export interface PaymentEnvelope {
     to: string;
     value: string;
     nonce: string;
+    validAfter?: string;
     validBefore: string;
   };
   signature: string;
@@ -24,6 +38,8 @@ export interface PaymentVerificationResult {
   payer?: string;
   invalidReason?: string;
   transactionHash?: string;
+  quote?: PriceQuote; // Price the envelope was verified against
+  facilitator?: string; // Facilitator that verified the payment
 }
 
 /**
@@ -88,12 +104,61 @@ export function extractPaymentEnvelope(request: NextRequest): PaymentEnvelope |
 }
 
 /**
- * Verify payment with PerkOS-Stack facilitator
+ * Get the wallet a client intends to pay from, before it has signed anything
+ * Used only to quote the discounted price in the 402 response; verification
+ * always re-quotes against the signed authorization.from.
+ */
+export function getPayerHint(request: NextRequest): string | null {
+  return request.headers.get("x-payer-address") || request.nextUrl.searchParams.get("walletAddress");
+}
+
+/**
+ * Check an authorization locally before spending a facilitator round trip
+ * Rejects malformed, expired, not-yet-valid, over-long and underpaying authorizations.
+ * Returns the reason the authorization is invalid, or null if it passes.
+ */
+export function checkAuthorization(envelope: PaymentEnvelope, quote: PriceQuote): string | null {
+  const { value, nonce, validAfter, validBefore } = envelope.authorization || {};
+  if (!envelope.authorization?.from || !value || !nonce || !validBefore || !envelope.signature) {
+    return "Malformed payment authorization";
+  }
+
+  let amount: bigint;
+  let notAfter: number;
+  try {
+    amount = BigInt(value);
+    notAfter = Number(BigInt(validBefore));
+  } catch {
+    return "Malformed payment authorization";
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (notAfter <= now) {
+    return "Payment authorization has expired. Please sign a new payment.";
+  }
+  if (notAfter - now > authorizationPolicy.maxValiditySeconds + authorizationPolicy.clockSkewSeconds) {
+    return `Payment authorization is valid for too long. Maximum validity is ${authorizationPolicy.maxValiditySeconds} seconds.`;
+  }
+  if (validAfter !== undefined && Number(validAfter) > now + authorizationPolicy.clockSkewSeconds) {
+    return "Payment authorization is not valid yet";
+  }
+
+  if (amount < quote.amount) {
+    return `Payment amount ${amount} is below the required ${quote.amount} for ${quote.route}`;
+  }
+
+  return null;
+}
+
+/**
+ * Verify payment with the configured facilitator
+ * The expected amount is quoted for the envelope's payer, so subscription
+ * discounts are enforced here rather than only displayed to the client.
  */
 export async function verifyPayment(
   envelope: PaymentEnvelope,
   route: string,
-  expectedPrice: string
+  payerQuote?: PriceQuote // Quoted for envelope.authorization.from when omitted
 ): Promise<PaymentVerificationResult> {
   try {
     console.log("🔍 Verifying payment:", {
@@ -104,20 +169,16 @@ export async function verifyPayment(
       network: envelope.network,
     });
 
-    const routePrice = paymentRoutes[route as keyof typeof paymentRoutes];
-    if (routePrice === undefined) { // Check for undefined, as 0 is a valid price
+    // Quote the price for this payer (applies subscription tier discount)
+    const quote = payerQuote || await pricingService.quote(route, envelope.authorization.from);
+    if (!quote) {
       return {
         isValid: false,
         invalidReason: `Route ${route} not configured for payment`,
       };
     }
 
-    // Create route config from price
-    const routeConfig = {
-      price: routePrice, // Store as number
-      priceString: `$${routePrice}`, // Store as formatted string
-      description: `Payment for ${route}`,
-    };
+    const description = `Payment for ${route}`;
 
     // Verify network is in supported networks list
     // envelope.network can be in legacy format (e.g., "avalanche") or CAIP-2 (e.g., "eip155:43114")
@@ -155,11 +216,8 @@ export async function verifyPayment(
       };
     }
 
-    // Call facilitator verify endpoint
-    const verifyUrl = `${x402Config.facilitatorUrl}/api/v2/x402/verify`;
-
-    // Parse price to atomic units (USDC has 6 decimals)
-    const priceAmount = parsePriceToUSDC(routeConfig.priceString);
+    // Quoted price in atomic units (USDC has 6 decimals)
+    const priceAmount = quote.amount;
 
     // Get USDC address for the payment network (user's selected network)
     const usdcAddress = usdcAddresses[normalizedEnvelopeNetwork] || usdcAddresses["avalanche"];
@@ -175,65 +233,29 @@ export async function verifyPayment(
       tokenName,
       tokenVersion,
       priceAmount: priceAmount.toString(),
+      discountPercent: quote.discountPercent,
     });
 
-    let verifyResponse: Response;
-    try {
-      verifyResponse = await fetch(verifyUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          x402Version: 2, // Use x402 V2 protocol
-          paymentRequirements: {
-            scheme: "exact", // Required: exact or deferred
-            network: getCAIP2Network(normalizedEnvelopeNetwork), // Use envelope's network in CAIP-2 format
-            maxAmountRequired: priceAmount.toString(), // Atomic units as string (e.g., "1000" for $0.001)
-            resource: getResourceUrl(route), // Full URL of resource (per x402 v2 spec)
-            description: routeConfig.description || "Payment required",
-            mimeType: "application/json", // Response MIME type (per x402 v2 spec)
-            payTo: x402Config.payTo,
-            maxTimeoutSeconds: 30, // Maximum time for server to respond (per x402 v2 spec)
-            asset: usdcAddress, // Token contract address (required for signature verification)
-            extra: {
-              // For exact scheme on EVM: token name and version for EIP-712 domain (per x402 v2 spec)
-              // Facilitator uses this to construct the correct EIP-712 domain
-              name: tokenName,
-              version: tokenVersion
-            }
-          },
-          paymentPayload: {
-            x402Version: 2, // V2 protocol
-            network: toCAIP2Network(envelope.network), // V2 uses CAIP-2 format
-            scheme: "exact", // Required: exact or deferred
-            payload: envelope,
-          },
-        }),
-      });
-    } catch (fetchError) {
-      // Connection error - facilitator not running or unreachable
-      const errorMessage = fetchError instanceof Error ? fetchError.message : "Unknown error";
-      console.error(`❌ Facilitator connection failed: ${verifyUrl}`, {
-        error: errorMessage,
-        facilitatorUrl: x402Config.facilitatorUrl,
-        hint: "Make sure the x402 facilitator is running on the configured port",
-      });
-      return {
-        isValid: false,
-        invalidReason: `Facilitator unavailable at ${x402Config.facilitatorUrl}. Please ensure the facilitator service is running.`,
-      };
-    }
-
-    if (!verifyResponse.ok) {
-      const errorData = await verifyResponse.json().catch(() => ({}));
-      return {
-        isValid: false,
-        invalidReason: errorData.invalidReason || `Verification failed: ${verifyResponse.statusText}`,
-      };
-    }
-
-    const verifyResult = await verifyResponse.json();
+    const verifyResult = await getFacilitator().verify({
+      envelope,
+      requirements: {
+        scheme: "exact", // Required: exact or deferred
+        network: getCAIP2Network(normalizedEnvelopeNetwork), // Use envelope's network in CAIP-2 format
+        maxAmountRequired: priceAmount.toString(), // Atomic units as string (e.g., "1000" for $0.001)
+        resource: getResourceUrl(route), // Full URL of resource (per x402 v2 spec)
+        description,
+        mimeType: "application/json", // Response MIME type (per x402 v2 spec)
+        payTo: x402Config.payTo,
+        maxTimeoutSeconds: 30, // Maximum time for server to respond (per x402 v2 spec)
+        asset: usdcAddress as `0x${string}`, // Token contract address (required for signature verification)
+        extra: {
+          // For exact scheme on EVM: token name and version for EIP-712 domain (per x402 v2 spec)
+          // Facilitator uses this to construct the correct EIP-712 domain
+          name: tokenName,
+          version: tokenVersion
+        }
+      },
+    });
 
     if (verifyResult.isValid) {
       console.log("✅ Payment verification succeeded:", {
@@ -247,9 +269,11 @@ export async function verifyPayment(
     }
 
     return {
-      isValid: verifyResult.isValid || false,
+      isValid: verifyResult.isValid,
       payer: verifyResult.payer,
       invalidReason: verifyResult.invalidReason,
+      quote,
+      facilitator: verifyResult.facilitator,
     };
   } catch (error) {
     console.error("Payment verification error:", error);
@@ -261,15 +285,13 @@ export async function verifyPayment(
 }
 
 /**
- * Settle payment with PerkOS-Stack facilitator
+ * Settle payment with the configured facilitator
  */
 export async function settlePayment(
   envelope: PaymentEnvelope,
   resourceUrl: string // Full URL of the resource being accessed (required for vendor domain extraction)
-): Promise<{ success: boolean; transactionHash?: string; error?: string }> {
+): Promise<{ success: boolean; transactionHash?: string; error?: string; facilitator?: string; outcomeUnknown?: boolean }> {
   try {
-    const settleUrl = `${x402Config.facilitatorUrl}/api/v2/x402/settle`;
-
     // Build reverse mapping from CAIP-2 to legacy network names
     const caip2ToLegacy: Record<string, string> = {};
     for (const [legacy, caip2] of Object.entries(networkMappings)) {
@@ -294,112 +316,25 @@ export async function settlePayment(
       tokenVersion,
     });
 
-    let settleResponse: Response;
-    try {
-      settleResponse = await fetch(settleUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          x402Version: 2, // Use x402 V2 protocol
-          paymentPayload: {
-            x402Version: 2, // V2 protocol
-            network: toCAIP2Network(envelope.network), // V2 uses CAIP-2 format
-            scheme: "exact", // Required: exact or deferred
-            payload: envelope,
-          },
-          paymentRequirements: {
-            scheme: "exact", // Must match paymentPayload scheme
-            network: toCAIP2Network(envelope.network), // V2 uses CAIP-2 format
-            maxAmountRequired: envelope.authorization.value, // Use value from authorization
-            resource: resourceUrl, // Full URL for vendor domain extraction
-            description: "Payment settlement",
-            mimeType: "application/json",
-            payTo: envelope.authorization.to,
-            maxTimeoutSeconds: 30,
-            asset: usdcAddress, // Token contract address (required for signature verification)
-            extra: {
-              // Facilitator uses this to construct the correct EIP-712 domain
-              name: tokenName,
-              version: tokenVersion
-            }
-          },
-        }),
-      });
-    } catch (fetchError) {
-      // Connection error - facilitator not running or unreachable
-      const errorMessage = fetchError instanceof Error ? fetchError.message : "Unknown error";
-      console.error(`❌ Facilitator connection failed during settlement: ${settleUrl}`, {
-        error: errorMessage,
-        facilitatorUrl: x402Config.facilitatorUrl,
-        hint: "Make sure the x402 facilitator is running on the configured port",
-      });
-      return {
-        success: false,
-        error: `Facilitator unavailable at ${x402Config.facilitatorUrl}. Please ensure the facilitator service is running.`,
-      };
-    }
-
-    if (!settleResponse.ok) {
-      const errorData = await settleResponse.json().catch(() => ({}));
-      const errorReason = errorData.errorReason || errorData.error || `Settlement failed: ${settleResponse.statusText}`;
-
-      console.error("❌ Payment settlement failed:", {
-        status: settleResponse.status,
-        errorReason,
-        payer: envelope.authorization.from,
-        network: envelope.network,
-      });
-
-      return {
-        success: false,
-        error: errorReason,
-      };
-    }
-
-    const settleResult = await settleResponse.json();
-
-    // Log the full response for debugging
-    console.log("🔍 Facilitator settle response:", JSON.stringify(settleResult, null, 2));
-
-    if (!settleResult.success) {
-      const errorReason = settleResult.errorReason || settleResult.error || "Settlement failed";
-      console.error("❌ Payment settlement returned success: false:", {
-        errorReason,
-        payer: settleResult.payer,
-        network: settleResult.network,
-      });
-
-      return {
-        success: false,
-        error: errorReason,
-      };
-    }
-
-    // Extract transaction hash from various possible response formats
-    // Facilitator returns transaction as a string or in receipt.settlement.transaction
-    const transactionHash =
-      (typeof settleResult.transaction === "string" ? settleResult.transaction : undefined) ||
-      settleResult.transaction?.hash ||
-      settleResult.transaction?.transactionHash ||
-      settleResult.receipt?.settlement?.transaction ||
-      settleResult.transactionHash ||
-      settleResult.hash ||
-      undefined;
-
-    console.log("✅ Payment settled successfully:", {
-      transactionHash,
-      payer: settleResult.payer,
-      network: settleResult.network,
-      responseKeys: Object.keys(settleResult),
+    return await getFacilitator().settle({
+      envelope,
+      requirements: {
+        scheme: "exact", // Must match paymentPayload scheme
+        network: toCAIP2Network(envelope.network), // V2 uses CAIP-2 format
+        maxAmountRequired: envelope.authorization.value, // Use value from authorization
+        resource: resourceUrl, // Full URL for vendor domain extraction
+        description: "Payment settlement",
+        mimeType: "application/json",
+        payTo: envelope.authorization.to,
+        maxTimeoutSeconds: 30,
+        asset: usdcAddress as `0x${string}`, // Token contract address (required for signature verification)
+        extra: {
+          // Facilitator uses this to construct the correct EIP-712 domain
+          name: tokenName,
+          version: tokenVersion
+        }
+      },
     });
-
-    return {
-      success: true,
-      transactionHash,
-      error: undefined,
-    };
   } catch (error) {
     console.error("Payment settlement error:", error);
     return {
@@ -414,23 +349,25 @@ export async function settlePayment(
  * Per spec: https://www.x402.org/writing/x402-v2-launch
  * V2 uses PAYMENT-REQUIRED header and moves payment data to headers
  * Returns all supported networks in accepts array for multi-chain support
+ * Quotes the discounted price when the payer is known, and the exact price
+ * for the request's usage on usage-priced routes
  */
-export function create402Response(
+export async function create402Response(
   route: string,
-  price: string,
-  _network?: string // Deprecated - we now return all supported networks
-): NextResponse {
+  payer?: string | null,
+  usage?: RequestUsage
+): Promise<NextResponse> {
   // Extract just the path if route includes method prefix
   const routePath = route.includes(" ") ? route.split(" ")[1] : route;
 
-  const routePrice = paymentRoutes[routePath as keyof typeof paymentRoutes];
-  if (!routePrice) {
+  const quote = await pricingService.quote(routePath, payer, usage);
+  if (!quote) {
     // No payment required for this route
     return NextResponse.json({ error: "Route not configured for payment" }, { status: 500 });
   }
 
-  // Parse price to atomic units (USDC has 6 decimals)
-  const priceAmount = parsePriceToUSDC(`$${routePrice}`);
+  // Quoted price in atomic units (USDC has 6 decimals)
+  const priceAmount = quote.amount;
   const description = `Payment required for ${routePath}`;
 
   // Build accepts array for all supported networks (multi-chain support)
@@ -467,6 +404,13 @@ export function create402Response(
       x402Version: 2,
       accepts,
       defaultNetwork: x402Config.network, // Hint for default selection
+      pricing: {
+        originalPrice: quote.originalPrice,
+        finalPrice: quote.finalPrice,
+        discountPercent: quote.discountPercent,
+        usage: quote.usage,
+        planChange: quote.planChange,
+      },
     })
   ).toString("base64");
 
@@ -486,74 +430,346 @@ export function create402Response(
   );
 }
 
+export interface X402PaymentVerification {
+  isValid: boolean;
+  response?: NextResponse;
+  payer?: string;
+  envelope?: PaymentEnvelope;
+  routePath?: string; // Set when the route is configured for payment
+  quote?: PriceQuote; // Final (discounted) price the payment was verified against
+  paymentId?: string; // Payment ledger record for this attempt
+  startedAt?: number; // Epoch ms when verification started (for ledger latency)
+  conversationId?: string; // Set by handlers to link the payment to a conversation
+  idempotencyId?: string; // Idempotency record held by this request (Idempotency-Key header)
+  apiKeyId?: string; // Paid from the key owner's prepaid balance with an ai:* API key (no envelope)
+  prepaid?: boolean; // Paid from the payer's prepaid balance; no authorization was signed
+}
+
+export interface X402PaymentSettlement {
+  success: boolean;
+  response?: NextResponse;
+  transactionHash?: string;
+  paymentResponseHeader?: string; // V2: PAYMENT-RESPONSE header value
+  prepaid?: boolean; // Paid from the prepaid USDC balance instead of settling on-chain
+}
+
 /**
- * Middleware function to verify x402 payment in Next.js API routes
+ * Phase 1: verify the x402 payment for a route without settling it
+ * Settlement is deferred until the handler has produced a successful result,
+ * so validation errors and upstream AI failures never take the user's USDC.
  * Usage:
  * ```typescript
  * export async function POST(request: NextRequest) {
  *   const paymentResult = await verifyX402Payment(request, "POST /api/tokens/create");
  *   if (!paymentResult.isValid) {
- *     return paymentResult.response;
+ *     return paymentResult.response!;
  *   }
  *   // Process request...
+ *   const settlement = await settleX402Payment(paymentResult);
+ *   if (!settlement.success) {
+ *     return settlement.response!;
+ *   }
  * }
  * ```
+ * Prefer withX402Payment, which runs both phases around a handler.
  */
 export async function verifyX402Payment(
   request: NextRequest,
   route: string
-): Promise<{
-  isValid: boolean;
-  response?: NextResponse;
-  payer?: string;
-  envelope?: PaymentEnvelope;
-  paymentResponseHeader?: string; // V2: PAYMENT-RESPONSE header value
-}> {
+): Promise<X402PaymentVerification> {
   // Extract just the path if route includes method prefix (e.g., "POST /api/chat/image" -> "/api/chat/image")
   const routePath = route.includes(" ") ? route.split(" ")[1] : route;
+  const startedAt = Date.now();
+
+  // Limit callers before any pricing, key lookup or facilitator work. An API key
+  // is unauthenticated here, so it is limited by IP too; once it authenticates
+  // its calls are also limited per key (verifyApiKeyPayment)
+  const limit = await enforceRateLimit(request, "paid");
+  if (!limit.allowed) {
+    return { isValid: false, response: limit.response };
+  }
 
-  const routePrice = paymentRoutes[routePath as keyof typeof paymentRoutes];
-  if (routePrice === undefined) {
+  // Usage-priced routes are quoted against the request body (read from a clone)
+  let usage: RequestUsage | undefined;
+  try {
+    usage = await pricingService.measureUsage(routePath, request);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return {
+        isValid: false,
+        response: NextResponse.json({ success: false, error: error.message }, { status: 400 }),
+      };
+    }
+    throw error;
+  }
+
+  const basePrice = await pricingService.quote(routePath, undefined, usage);
+  if (!basePrice) {
     // Route not configured for payment, allow through
     console.log(`🔍 Route ${routePath} not configured for payment, allowing through`);
     return { isValid: true };
   }
 
-  console.log(`💰 Route ${routePath} requires payment: $${routePrice}`);
-
-  // Build route config from price
-  const priceString = `$${routePrice}`;
+  console.log(`💰 Route ${routePath} requires payment: $${basePrice.originalPrice}`, usage || "");
 
   // Extract payment envelope
   const envelope = extractPaymentEnvelope(request);
   if (!envelope) {
+    // Server-to-server callers with an API key pay from the key owner's prepaid balance
+    if (hasApiKey(request) && routePath.startsWith("/api/ai/")) {
+      return verifyApiKeyPayment(request, routePath, usage, startedAt);
+    }
+
+    // Signed-in wallets whose prepaid balance covers the price are never asked to sign
+    const prepaid = await verifySessionPrepaidPayment(request, routePath, usage, startedAt);
+    if (prepaid) {
+      return prepaid;
+    }
+
     return {
       isValid: false,
-      response: create402Response(route, priceString, x402Config.network),
+      response: await create402Response(route, getPayerHint(request), usage),
     };
   }
 
+  // A retry with a known Idempotency-Key replays the stored result instead of paying again
+  const idempotency = await beginIdempotentRequest(
+    request,
+    routePath,
+    envelope.authorization?.from,
+    hashAuthorization(envelope)
+  );
+  if (idempotency.response) {
+    return { isValid: false, response: idempotency.response };
+  }
+
+  const paymentRejected = async (reason?: string, verifiedBy?: string): Promise<X402PaymentVerification> => {
+    await idempotencyService.release(idempotency.id);
+    await paymentLedgerService.record(envelope, {
+      route: routePath,
+      status: "failed",
+      stage: "verify",
+      error: reason,
+      latencyMs: Date.now() - startedAt,
+      verifiedBy,
+    });
+
+    return {
+      isValid: false,
+      response: NextResponse.json(
+        {
+          error: "Payment verification failed",
+          reason,
+        },
+        { status: 402 }
+      ),
+    };
+  };
+
+  // Quote for the signing wallet and reject obvious garbage before calling the facilitator
+  const payerQuote = await pricingService.quote(routePath, envelope.authorization?.from, usage);
+  const authorizationError = checkAuthorization(envelope, payerQuote!);
+  if (authorizationError) {
+    console.error("❌ Payment authorization rejected locally:", authorizationError);
+    return paymentRejected(authorizationError);
+  }
+
+  // Reserve the nonce so a replayed PAYMENT-SIGNATURE never reaches the facilitator twice
+  const reservation = await paymentNonceService.reserve(envelope, routePath);
+  if (!reservation.reserved) {
+    return paymentRejected(reservation.reason);
+  }
+
   // Verify payment (use routePath, not route with method prefix)
-  const verification = await verifyPayment(envelope, routePath, priceString);
+  const verification = await verifyPayment(envelope, routePath, payerQuote!);
   if (!verification.isValid) {
+    await paymentNonceService.markRejected(envelope, verification.invalidReason || "Verification failed");
+    return paymentRejected(verification.invalidReason, verification.facilitator);
+  }
+
+  // Verified but not yet settled: the ledger record stays pending until the handler finishes
+  const paymentId = await paymentLedgerService.record(envelope, {
+    route: routePath,
+    status: "pending",
+    stage: "verify",
+    latencyMs: Date.now() - startedAt,
+    verifiedBy: verification.facilitator,
+  });
+
+  return {
+    isValid: true,
+    payer: verification.payer,
+    envelope,
+    routePath,
+    quote: verification.quote,
+    paymentId,
+    startedAt,
+    idempotencyId: idempotency.id,
+  };
+}
+
+/**
+ * Verify an AI call made with an API key instead of a signed payment
+ * The key needs an ai:* scope and its wallet's prepaid balance must cover the price.
+ */
+async function verifyApiKeyPayment(
+  request: NextRequest,
+  routePath: string,
+  usage: RequestUsage | undefined,
+  startedAt: number
+): Promise<X402PaymentVerification> {
+  const auth = await authenticateApiKey(request, `ai:${routePath.split("/")[3]}`);
+  if (!auth.isAuthenticated) {
+    return { isValid: false, response: auth.response };
+  }
+
+  const limit = await enforceRateLimit(request, "paid", { apiKeyId: auth.apiKey!.id });
+  if (!limit.allowed) {
+    return { isValid: false, response: limit.response };
+  }
+
+  const payer = auth.walletAddress!;
+  const quote = (await pricingService.quote(routePath, payer, usage))!;
+  const balance = await prepaidBalanceService.getBalance(payer);
+  if (balance < quote.amount) {
     return {
       isValid: false,
       response: NextResponse.json(
         {
-          error: "Payment verification failed",
-          reason: verification.invalidReason,
+          error: "Insufficient prepaid balance",
+          reason: `API key calls are paid from the prepaid USDC balance. Balance: $${Number(balance) / 1_000_000}, price: $${quote.finalPrice}. Deposit with POST /api/credits/deposit.`,
         },
         { status: 402 }
       ),
     };
   }
 
+  // Retries of a drawn-down call replay its result instead of drawing the balance again
+  const idempotency = await beginIdempotentRequest(
+    request,
+    routePath,
+    payer,
+    hashPrepaidCredential(payer, auth.apiKey!.id)
+  );
+  if (idempotency.response) {
+    return { isValid: false, response: idempotency.response };
+  }
+
+  const paymentId = await paymentLedgerService.recordPrepaid(payer, quote.amount, {
+    route: routePath,
+    status: "pending",
+    stage: "verify",
+    latencyMs: Date.now() - startedAt,
+    verifiedBy: "prepaid",
+  });
+
+  return {
+    isValid: true,
+    payer,
+    routePath,
+    quote,
+    paymentId,
+    startedAt,
+    idempotencyId: idempotency.id,
+    apiKeyId: auth.apiKey!.id,
+    prepaid: true,
+  };
+}
+
+/**
+ * Verify a call from a signed-in wallet against its prepaid balance
+ * Returns undefined when the caller must pay with a signed authorization instead:
+ * no session, an on-chain-only route, or a balance that does not cover the price.
+ * Drawing the balance without a signature leaves no authorization that could
+ * still be settled on-chain and charge the payer twice.
+ */
+async function verifySessionPrepaidPayment(
+  request: NextRequest,
+  routePath: string,
+  usage: RequestUsage | undefined,
+  startedAt: number
+): Promise<X402PaymentVerification | undefined> {
+  if (prepaidConfig.excludedRoutes.includes(routePath)) {
+    return undefined;
+  }
+
+  const auth = requireWalletSession(request);
+  if (!auth.isAuthenticated) {
+    return undefined;
+  }
+
+  const payer = auth.walletAddress!;
+  const quote = (await pricingService.quote(routePath, payer, usage))!;
+  const balance = await prepaidBalanceService.getBalance(payer);
+  if (balance < quote.amount) {
+    return undefined;
+  }
+
+  // Retries of a drawn-down call replay its result instead of drawing the balance again
+  const idempotency = await beginIdempotentRequest(request, routePath, payer, hashPrepaidCredential(payer));
+  if (idempotency.response) {
+    return { isValid: false, response: idempotency.response };
+  }
+
+  const paymentId = await paymentLedgerService.recordPrepaid(payer, quote.amount, {
+    route: routePath,
+    status: "pending",
+    stage: "verify",
+    latencyMs: Date.now() - startedAt,
+    verifiedBy: "prepaid",
+  });
+
+  return {
+    isValid: true,
+    payer,
+    routePath,
+    quote,
+    paymentId,
+    startedAt,
+    idempotencyId: idempotency.id,
+    prepaid: true,
+  };
+}
+
+/**
+ * Phase 2: settle a previously verified x402 payment
+ * Call only once the paid work has succeeded. Routes that are not configured
+ * for payment settle trivially with no PAYMENT-RESPONSE header.
+ * Calls verified against the prepaid balance (API key or signed-in session)
+ * draw it down; signed authorizations always settle on-chain.
+ */
+export async function settleX402Payment(
+  verification: X402PaymentVerification
+): Promise<X402PaymentSettlement> {
+  if (verification.prepaid) {
+    return settlePrepaidPayment(verification);
+  }
+
+  if (!verification.envelope || !verification.routePath) {
+    return { success: true };
+  }
+
+  const { envelope, routePath } = verification;
+
   // Settle payment
   const resourceUrl = getResourceUrl(routePath);
   console.log("💰 Attempting to settle payment...", { resourceUrl });
   const settlement = await settlePayment(envelope, resourceUrl);
+  if (!settlement.success && settlement.outcomeUnknown) {
+    return holdUnknownSettlement(verification, envelope, settlement);
+  }
   if (!settlement.success) {
     console.error("❌ Payment settlement failed:", settlement.error);
+    await paymentNonceService.markRejected(envelope, settlement.error || "Settlement failed");
+    await idempotencyService.release(verification.idempotencyId);
+    await paymentLedgerService.update(verification.paymentId, {
+      status: "failed",
+      stage: "settle",
+      error: settlement.error || "Settlement failed",
+      latencyMs: verification.startedAt ? Date.now() - verification.startedAt : undefined,
+      conversationId: verification.conversationId,
+      settledBy: settlement.facilitator,
+    });
 
     // Provide helpful error messages for common issues
     let errorMessage = settlement.error || "Payment settlement failed";
@@ -570,12 +786,14 @@ export async function verifyX402Payment(
     }
 
     return {
-      isValid: false,
+      success: false,
       response: NextResponse.json(
         {
           error: "Payment settlement failed",
           reason: errorMessage,
           details: settlement.error,
+          // The request itself succeeded, but its result is withheld until payment settles
+          resultWithheld: true,
         },
         { status: 402 }
       ),
@@ -586,23 +804,434 @@ export async function verifyX402Payment(
     transactionHash: settlement.transactionHash,
     payer: verification.payer,
   });
+  await paymentNonceService.markSettled(envelope, settlement.transactionHash);
+  await paymentLedgerService.update(verification.paymentId, {
+    status: "success",
+    stage: "settle",
+    transactionHash: settlement.transactionHash,
+    latencyMs: verification.startedAt ? Date.now() - verification.startedAt : undefined,
+    conversationId: verification.conversationId,
+    settledBy: settlement.facilitator,
+  });
 
-  // V2: Return payment response in PAYMENT-RESPONSE header
-  // Per spec: https://www.x402.org/writing/x402-v2-launch
-  const paymentResponse = {
+  return {
     success: true,
     transactionHash: settlement.transactionHash,
-    network: envelope.network,
+    paymentResponseHeader: buildPaymentResponseHeader(verification, {
+      transactionHash: settlement.transactionHash,
+      amount: envelope.authorization.value,
+    }), // Include for response headers
   };
-  const paymentResponseHeader = Buffer.from(
-    JSON.stringify(paymentResponse)
-  ).toString("base64");
+}
 
-  return {
-    isValid: true,
+/**
+ * Withhold the result of a payment whose settlement outcome is unknown
+ * The facilitator did not answer, so the transfer may still land: the nonce
+ * stays consumed, the ledger records settle_unknown and the payment is queued
+ * for SettlementReconciliationService, which refunds it if it did land.
+ */
+async function holdUnknownSettlement(
+  verification: X402PaymentVerification,
+  envelope: PaymentEnvelope,
+  settlement: { error?: string; facilitator?: string }
+): Promise<X402PaymentSettlement> {
+  const reason = settlement.error || "Settlement outcome unknown";
+  console.error("⚠️ Payment settlement outcome unknown, queued for reconciliation:", {
+    reason,
     payer: verification.payer,
+    settledBy: settlement.facilitator,
+  });
+
+  await paymentNonceService.markUnknown(envelope, reason);
+  await idempotencyService.release(verification.idempotencyId);
+  await paymentLedgerService.update(verification.paymentId, {
+    status: "settle_unknown",
+    stage: "settle",
+    error: reason,
+    latencyMs: verification.startedAt ? Date.now() - verification.startedAt : undefined,
+    conversationId: verification.conversationId,
+    settledBy: settlement.facilitator,
+  });
+  await settlementReconciliationService.queue({
     envelope,
-    paymentResponseHeader, // Include for response headers
+    route: verification.routePath!,
+    reason,
+    paymentId: verification.paymentId,
+  });
+
+  return {
+    success: false,
+    response: NextResponse.json(
+      {
+        error: "Payment settlement could not be confirmed",
+        reason: "The payment facilitator did not respond in time. If your payment goes through it will be refunded automatically; please try again.",
+        details: reason,
+        resultWithheld: true,
+        settlementUnknown: true,
+      },
+      { status: 504 }
+    ),
   };
 }
 
+/**
+ * Draw down the prepaid balance for a call verified against it
+ * The ledger records the amount actually drawn (the quote), not a signed value.
+ */
+async function settlePrepaidPayment(verification: X402PaymentVerification): Promise<X402PaymentSettlement> {
+  const { payer, routePath, quote, apiKeyId, paymentId } = verification;
+
+  const drawdown = await prepaidBalanceService.spend(payer!, quote!.amount, { route: routePath!, paymentId, apiKeyId });
+  if (!drawdown.success) {
+    await idempotencyService.release(verification.idempotencyId);
+    await paymentLedgerService.update(paymentId, {
+      status: "failed",
+      stage: "settle",
+      error: "Prepaid balance no longer covers this call",
+      latencyMs: verification.startedAt ? Date.now() - verification.startedAt : undefined,
+      conversationId: verification.conversationId,
+      settledBy: "prepaid",
+    });
+    return {
+      success: false,
+      response: NextResponse.json(
+        {
+          error: "Payment settlement failed",
+          reason: "Prepaid balance no longer covers this call",
+          resultWithheld: true,
+        },
+        { status: 402 }
+      ),
+    };
+  }
+
+  console.log("✅ Payment drawn from prepaid balance:", {
+    payer,
+    apiKeyId,
+    amount: quote!.amount.toString(),
+    balanceRemaining: drawdown.balanceAfter?.toString(),
+  });
+  await paymentLedgerService.update(paymentId, {
+    status: "success",
+    stage: "settle",
+    latencyMs: verification.startedAt ? Date.now() - verification.startedAt : undefined,
+    conversationId: verification.conversationId,
+    settledBy: "prepaid",
+  });
+
+  return {
+    success: true,
+    prepaid: true,
+    paymentResponseHeader: buildPaymentResponseHeader(verification, {
+      amount: quote!.amount.toString(),
+      prepaid: {
+        balanceRemaining: Number(drawdown.balanceAfter ?? BigInt(0)) / 1_000_000,
+      },
+    }),
+  };
+}
+
+/**
+ * Build the PAYMENT-RESPONSE header for a paid request
+ * V2: Return payment response in PAYMENT-RESPONSE header
+ * Per spec: https://www.x402.org/writing/x402-v2-launch
+ * Echoes the final price so clients can see the applied subscription discount
+ */
+function buildPaymentResponseHeader(
+  verification: X402PaymentVerification,
+  payment: { transactionHash?: string; amount: string; prepaid?: { balanceRemaining: number } }
+): string {
+  const paymentResponse = {
+    success: true,
+    transactionHash: payment.transactionHash,
+    network: verification.envelope?.network,
+    amount: payment.amount,
+    prepaid: payment.prepaid,
+    pricing: verification.quote && {
+      originalPrice: verification.quote.originalPrice,
+      finalPrice: verification.quote.finalPrice,
+      discountPercent: verification.quote.discountPercent,
+      tier: verification.quote.tier,
+      usage: verification.quote.usage,
+    },
+  };
+  return Buffer.from(JSON.stringify(paymentResponse)).toString("base64");
+}
+
+/**
+ * Record that a verified payment will not be settled because the paid work failed
+ * The user is not charged; the ledger keeps the attempt for diagnostics.
+ */
+export async function abandonX402Payment(
+  verification: X402PaymentVerification,
+  reason: string
+): Promise<void> {
+  await idempotencyService.release(verification.idempotencyId);
+  await paymentLedgerService.update(verification.paymentId, {
+    status: "failed",
+    stage: "handler",
+    error: reason,
+    latencyMs: verification.startedAt ? Date.now() - verification.startedAt : undefined,
+    conversationId: verification.conversationId,
+  });
+}
+
+/**
+ * Refund a settled payment because the paid work failed afterwards
+ * Routes that do work after settleX402Payment call this when that work fails.
+ * The payer gets back what was charged: the drawn-down amount for prepaid
+ * payments, otherwise the settled value (see RefundService for how).
+ */
+export async function refundX402Payment(
+  verification: X402PaymentVerification,
+  settlement: X402PaymentSettlement,
+  reason: string
+): Promise<RefundRecord | undefined> {
+  const { envelope } = verification;
+  const payer = envelope?.authorization.from || (verification.prepaid ? verification.payer : undefined);
+  if (!payer || !verification.routePath) {
+    return undefined;
+  }
+
+  // Nothing was delivered, so a retry with the same Idempotency-Key must run again
+  await idempotencyService.release(verification.idempotencyId);
+
+  return refundService.issue({
+    payer,
+    network: envelope?.network || x402Config.network,
+    route: verification.routePath,
+    amount: settlement.prepaid && verification.quote
+      ? verification.quote.amount
+      : BigInt(envelope!.authorization.value),
+    reason,
+    paymentId: verification.paymentId,
+    transactionHash: settlement.transactionHash,
+    prepaid: settlement.prepaid,
+  });
+}
+
+/**
+ * Run a paid route handler between x402 verification and settlement
+ * - Verification failures return the 402 response without running the handler
+ * - Error responses (status >= 400) and thrown errors are never settled
+ * - If settlement fails, the handler's result is withheld and a 402 is returned
+ *   (504 if the settlement outcome is unknown, see holdUnknownSettlement)
+ * Usage:
+ * ```typescript
+ * export async function POST(request: NextRequest) {
+ *   return withX402Payment(request, "POST /api/ai/summarize", async () => {
+ *     // Process request...
+ *     return NextResponse.json({ success: true, data });
+ *   });
+ * }
+ * ```
+ */
+export async function withX402Payment(
+  request: NextRequest,
+  route: string,
+  handler: (payment: X402PaymentVerification) => Promise<NextResponse>
+): Promise<NextResponse> {
+  const paymentResult = await verifyX402Payment(request, route);
+  if (!paymentResult.isValid) {
+    return paymentResult.response!;
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler(paymentResult);
+  } catch (error) {
+    await abandonX402Payment(paymentResult, error instanceof Error ? error.message : "Handler failed");
+    throw error;
+  }
+
+  if (response.status >= 400) {
+    console.log(`🔍 Handler for ${route} returned ${response.status}, payment not settled`);
+    await abandonX402Payment(paymentResult, `Handler returned ${response.status}`);
+    return response;
+  }
+
+  const settlement = await settleX402Payment(paymentResult);
+  if (!settlement.success) {
+    return settlement.response!;
+  }
+
+  if (settlement.paymentResponseHeader) {
+    response.headers.set("PAYMENT-RESPONSE", settlement.paymentResponseHeader);
+  }
+
+  await storeIdempotentResponse(paymentResult, settlement, response);
+
+  return response;
+}
+
+/**
+ * Store a settled response for replay under the request's Idempotency-Key
+ * withX402Payment does this automatically; routes that call
+ * verifyX402Payment/settleX402Payment directly call it after settling.
+ */
+export async function storeIdempotentResponse(
+  verification: X402PaymentVerification,
+  settlement: X402PaymentSettlement,
+  response: NextResponse
+): Promise<void> {
+  if (!verification.idempotencyId) return;
+
+  const authorizationHash = verification.envelope
+    ? hashAuthorization(verification.envelope)
+    : verification.prepaid && verification.payer
+    ? hashPrepaidCredential(verification.payer, verification.apiKeyId)
+    : undefined;
+  if (!authorizationHash) return;
+
+  await idempotencyService.complete(verification.idempotencyId, {
+    responseStatus: response.status,
+    responseBody: await response.clone().text(),
+    responseContentType: response.headers.get("content-type") || undefined,
+    paymentResponseHeader: settlement.paymentResponseHeader,
+    transactionHash: settlement.transactionHash,
+    authorizationHash,
+  });
+}
+
+// Keys must be long enough that they cannot be guessed to read another request's result
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_\-:.]{16,255}$/;
+
+/**
+ * Claim the request's Idempotency-Key for the payer, if it sent one
+ * Returns a response when the request must not proceed: an invalid key,
+ * a conflicting or in-flight request, or a replay of a completed one.
+ * authorizationHash identifies what pays: for envelopes this runs before
+ * verification, so a replay requires the exact authorization (nonce and
+ * signature) that settled the stored result; prepaid calls must come from the
+ * same authenticated API key or session wallet (see hashPrepaidCredential).
+ */
+async function beginIdempotentRequest(
+  request: NextRequest,
+  routePath: string,
+  payer: string | undefined,
+  authorizationHash: string
+): Promise<{ id?: string; response?: NextResponse }> {
+  const key = request.headers.get("idempotency-key");
+  if (!key) {
+    return {};
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return {
+      response: NextResponse.json(
+        {
+          error: "Invalid Idempotency-Key",
+          reason: "Idempotency-Key must be 16-255 characters of letters, digits, '-', '_', ':' or '.'",
+        },
+        { status: 400 }
+      ),
+    };
+  }
+
+  // Malformed authorizations are rejected by checkAuthorization
+  if (!payer || !/^0x[a-fA-F0-9]{40}$/.test(payer)) {
+    return {};
+  }
+
+  const result = await idempotencyService.begin({
+    key,
+    payer,
+    route: routePath,
+    requestHash: await hashRequestBody(request),
+    authorizationHash,
+  });
+
+  if (result.outcome === "conflict") {
+    console.warn("❌ Idempotency conflict:", { route: routePath, payer, reason: result.reason });
+    return {
+      response: NextResponse.json(
+        { error: "Idempotency conflict", reason: result.reason },
+        { status: 409 }
+      ),
+    };
+  }
+
+  if (result.outcome === "replay") {
+    console.log("🔁 Replaying idempotent response:", {
+      route: routePath,
+      payer,
+      transactionHash: result.record.transactionHash,
+    });
+    return { response: replayIdempotentResponse(result.record) };
+  }
+
+  return { id: result.id };
+}
+
+/**
+ * Rebuild the stored response, including its PAYMENT-RESPONSE header
+ */
+function replayIdempotentResponse(record: IdempotencyRecord): NextResponse {
+  const headers: Record<string, string> = { "Idempotent-Replayed": "true" };
+  if (record.paymentResponseHeader) {
+    headers["PAYMENT-RESPONSE"] = record.paymentResponseHeader;
+  }
+
+  if (record.responseBody === undefined) {
+    return NextResponse.json(
+      {
+        error: "Result not available",
+        reason: "This request already completed and was paid for, but its result was too large to store for replay.",
+        transactionHash: record.transactionHash,
+      },
+      { status: 409, headers }
+    );
+  }
+
+  headers["Content-Type"] = record.responseContentType || "application/json";
+  return new NextResponse(record.responseBody, {
+    status: record.responseStatus || 200,
+    headers,
+  });
+}
+
+/**
+ * Hash the credential behind a prepaid call: the API key, else the session wallet
+ * Keys idempotent prepaid results to the caller that drew the balance.
+ */
+function hashPrepaidCredential(payer: string, apiKeyId?: string): string {
+  return createHash("sha256")
+    .update(apiKeyId ? `apikey:${apiKeyId}` : `session:${payer.toLowerCase()}`)
+    .digest("hex");
+}
+
+/**
+ * Hash a signed payment authorization
+ * Only the payer can produce the signature, so a forged envelope never matches.
+ */
+function hashAuthorization(envelope: PaymentEnvelope): string {
+  const { authorization, signature, network } = envelope;
+  return createHash("sha256")
+    .update(`${network}:${authorization?.from?.toLowerCase()}:${authorization?.nonce}:${signature?.toLowerCase()}`)
+    .digest("hex");
+}
+
+/**
+ * Hash the request body without consuming it
+ * Multipart boundaries change on every retry, so form fields are hashed instead.
+ * Routes must not read the body before verification (or must read a clone).
+ */
+async function hashRequestBody(request: NextRequest): Promise<string> {
+  const hash = createHash("sha256");
+  const contentType = request.headers.get("content-type") || "";
+  const body = request.clone();
+
+  if (contentType.includes("multipart/form-data")) {
+    const formData = await body.formData();
+    const entries = Array.from(formData.entries()).sort(([a], [b]) => a.localeCompare(b));
+    for (const [name, value] of entries) {
+      hash.update(`${name}\0`);
+      hash.update(typeof value === "string" ? value : Buffer.from(await value.arrayBuffer()));
+      hash.update("\0");
+    }
+  } else {
+    hash.update(await body.text());
+  }
+
+  return hash.digest("hex");
+}
@@ -0,0 +1,194 @@
+/**
+ * Admin Role Service
+ * Admin access is granted per wallet in the admin_roles collection (one
+ * document per wallet, see lib/config/admin.ts for what each role allows).
+ *
+ * Bootstrap: while no owner exists, a wallet listed in ADMIN_WALLETS may claim
+ * the owner role once. After that, owners grant and revoke roles.
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type DocumentData, type Transaction } from "firebase-admin/firestore";
+import { getBootstrapAdminWallets, type AdminRole } from "@/lib/config/admin";
+import { auditLogService, type AuditContext } from "@/lib/services/AuditLogService";
+
+export interface AdminRoleRecord {
+  walletAddress: string; // Lowercase, also the document ID
+  role: AdminRole;
+  grantedBy: string; // Wallet that granted the role ("bootstrap" for the first owner)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class AdminRoleService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Get a wallet's admin role, or null if it is not an admin
+   */
+  async getRole(walletAddress: string): Promise<AdminRole | null> {
+    const doc = await this.db.collection(COLLECTIONS.ADMIN_ROLES).doc(walletAddress.toLowerCase()).get();
+    return doc.exists ? (doc.data()!.role as AdminRole) : null;
+  }
+
+  /**
+   * List all admins
+   */
+  async list(): Promise<AdminRoleRecord[]> {
+    const snapshot = await this.db.collection(COLLECTIONS.ADMIN_ROLES).orderBy("createdAt", "asc").get();
+    return snapshot.docs.map((doc) => this.fromFirestore(doc.id, doc.data()));
+  }
+
+  /**
+   * Whether any owner exists yet
+   */
+  async hasOwner(): Promise<boolean> {
+    const snapshot = await this.db.collection(COLLECTIONS.ADMIN_ROLES).where("role", "==", "owner").limit(1).get();
+    return !snapshot.empty;
+  }
+
+  /**
+   * Whether a wallet may claim the first owner role
+   */
+  async canBootstrap(walletAddress: string): Promise<boolean> {
+    return getBootstrapAdminWallets().includes(walletAddress.toLowerCase()) && !(await this.hasOwner());
+  }
+
+  /**
+   * Make a wallet the first owner
+   * Throws if the wallet is not in ADMIN_WALLETS or an owner already exists.
+   */
+  async bootstrap(walletAddress: string, audit: AuditContext): Promise<AdminRoleRecord> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    if (!getBootstrapAdminWallets().includes(normalizedAddress)) {
+      throw new Error("Wallet is not listed in ADMIN_WALLETS");
+    }
+
+    const collection = this.db.collection(COLLECTIONS.ADMIN_ROLES);
+    const now = new Date();
+
+    // Checked and written together so two wallets cannot both become the first owner
+    await this.db.runTransaction(async (transaction) => {
+      const owners = await transaction.get(collection.where("role", "==", "owner").limit(1));
+      if (!owners.empty) {
+        throw new Error("An owner already exists");
+      }
+
+      transaction.set(collection.doc(normalizedAddress), {
+        role: "owner",
+        grantedBy: "bootstrap",
+        createdAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      auditLogService.write(transaction, audit, {
+        action: "admin.bootstrap",
+        targetWallet: normalizedAddress,
+        before: null,
+        after: { role: "owner" },
+      });
+    });
+
+    console.log(`🛡️ [AdminRoles] Bootstrapped first owner ${normalizedAddress}`);
+    return { walletAddress: normalizedAddress, role: "owner", grantedBy: "bootstrap", createdAt: now, updatedAt: now };
+  }
+
+  /**
+   * Grant or change a wallet's role
+   */
+  async setRole(walletAddress: string, role: AdminRole, audit: AuditContext): Promise<AdminRoleRecord> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const docRef = this.db.collection(COLLECTIONS.ADMIN_ROLES).doc(normalizedAddress);
+    const now = new Date();
+
+    const createdAt = await this.db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(docRef);
+      const previousRole = existing.exists ? (existing.data()!.role as AdminRole) : null;
+      if (previousRole === "owner" && role !== "owner") {
+        await this.assertNotLastOwner(transaction);
+      }
+
+      transaction.set(
+        docRef,
+        {
+          role,
+          grantedBy: audit.actor,
+          updatedAt: Timestamp.fromDate(now),
+          ...(!existing.exists && { createdAt: Timestamp.fromDate(now) }),
+        },
+        { merge: true }
+      );
+      auditLogService.write(transaction, audit, {
+        action: "admin.grant",
+        targetWallet: normalizedAddress,
+        before: previousRole ? { role: previousRole } : null,
+        after: { role },
+      });
+
+      return existing.exists ? existing.data()!.createdAt?.toDate() || now : now;
+    });
+
+    console.log(`🛡️ [AdminRoles] ${audit.actor} set ${normalizedAddress} to ${role}`);
+    return {
+      walletAddress: normalizedAddress,
+      role,
+      grantedBy: audit.actor,
+      createdAt,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Remove a wallet's admin role
+   */
+  async removeRole(walletAddress: string, audit: AuditContext): Promise<void> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const docRef = this.db.collection(COLLECTIONS.ADMIN_ROLES).doc(normalizedAddress);
+
+    await this.db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(docRef);
+      if (!existing.exists) {
+        return;
+      }
+
+      const previousRole = existing.data()!.role as AdminRole;
+      if (previousRole === "owner") {
+        await this.assertNotLastOwner(transaction);
+      }
+
+      transaction.delete(docRef);
+      auditLogService.write(transaction, audit, {
+        action: "admin.remove",
+        targetWallet: normalizedAddress,
+        before: { role: previousRole },
+        after: { role: null },
+      });
+    });
+
+    console.log(`🛡️ [AdminRoles] ${audit.actor} removed ${normalizedAddress}`);
+  }
+
+  // There must always be an owner left to manage roles
+  private async assertNotLastOwner(transaction: Transaction): Promise<void> {
+    const owners = await transaction.get(
+      this.db.collection(COLLECTIONS.ADMIN_ROLES).where("role", "==", "owner").limit(2)
+    );
+    if (owners.size < 2) {
+      throw new Error("Cannot remove the last owner");
+    }
+  }
+
+  private fromFirestore(id: string, data: DocumentData): AdminRoleRecord {
+    return {
+      walletAddress: id,
+      role: data.role,
+      grantedBy: data.grantedBy,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    };
+  }
+}
+
+// Export singleton instance
+export const adminRoleService = new AdminRoleService();
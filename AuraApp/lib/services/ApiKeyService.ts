@@ -0,0 +1,221 @@
+/**
+ * API Key Service
+ * Wallet-owned API keys for server-to-server integrations.
+ *
+ * Keys look like aura_sk_<keyId>.<secret>. Only a SHA-256 hash of the secret is
+ * stored (api_keys/<keyId>); the full key is shown once, when it is created.
+ * Each key acts as its owning wallet, limited to its scopes:
+ * - chat: send messages and read chat history (/api/chat, /api/conversations)
+ * - projects:read: list and read projects
+ * - credits:spend: deduct credits
+ * - ai:*: call the paid /api/ai/* services, paid from the prepaid USDC balance
+ *
+ * Keys expire, record when they were last used, and can be revoked.
+ * Creating a key also touches api_key_wallets/<wallet>, so concurrent creates
+ * for one wallet conflict and the active-key cap holds.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type DocumentData } from "firebase-admin/firestore";
+
+export const API_KEY_SCOPES = ["chat", "projects:read", "credits:spend", "ai:*"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_PREFIX = "aura_sk_";
+
+export const apiKeyPolicy = {
+  maxKeysPerWallet: 10,
+  defaultExpiryDays: 90,
+  maxExpiryDays: 365,
+  // lastUsedAt is written at most this often per key
+  lastUsedResolutionMs: 60 * 1000,
+};
+
+export interface ApiKeyRecord {
+  id: string;
+  walletAddress: string; // Owning wallet (lowercase)
+  name: string;
+  scopes: ApiKeyScope[];
+  keyHash: string; // SHA-256 of the secret part
+  keyHint: string; // Last characters of the key, for display
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// What the dashboard sees for a key (never the hash)
+export function toApiKeySummary(apiKey: ApiKeyRecord) {
+  const { keyHash, ...summary } = apiKey;
+  return {
+    ...summary,
+    status: apiKey.revokedAt ? "revoked" : apiKey.expiresAt <= new Date() ? "expired" : "active",
+  };
+}
+
+export class ApiKeyService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Create a key for a wallet
+   * Returns the full key, which cannot be recovered afterwards, or an error
+   * when the wallet already has maxKeysPerWallet active keys.
+   */
+  async create(
+    walletAddress: string,
+    options: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }
+  ): Promise<{ success: true; key: string; apiKey: ApiKeyRecord } | { success: false; error: string }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const expiresInDays = Math.min(options.expiresInDays || apiKeyPolicy.defaultExpiryDays, apiKeyPolicy.maxExpiryDays);
+    const docRef = this.db.collection(COLLECTIONS.API_KEYS).doc();
+    const secret = randomBytes(32).toString("base64url");
+    const key = `${API_KEY_PREFIX}${docRef.id}.${secret}`;
+    const now = new Date();
+
+    const apiKey: ApiKeyRecord = {
+      id: docRef.id,
+      walletAddress: normalizedAddress,
+      name: options.name,
+      scopes: [...new Set(options.scopes)],
+      keyHash: this.hash(secret),
+      keyHint: key.slice(-4),
+      expiresAt: new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000),
+      createdAt: now,
+    };
+
+    // Count and write in one transaction; the wallet document makes parallel creates retry
+    const walletRef = this.db.collection(COLLECTIONS.API_KEY_WALLETS).doc(normalizedAddress);
+    const limitReached = await this.db.runTransaction(async (transaction) => {
+      await transaction.get(walletRef);
+      const snapshot = await transaction.get(
+        this.db.collection(COLLECTIONS.API_KEYS).where("walletAddress", "==", normalizedAddress)
+      );
+      const active = snapshot.docs
+        .map((doc) => toApiKeySummary(this.fromFirestore(doc.id, doc.data())))
+        .filter((summary) => summary.status === "active");
+      if (active.length >= apiKeyPolicy.maxKeysPerWallet) {
+        return true;
+      }
+
+      transaction.set(walletRef, { walletAddress: normalizedAddress, lastCreatedAt: Timestamp.fromDate(now) });
+      transaction.create(docRef, {
+        walletAddress: apiKey.walletAddress,
+        name: apiKey.name,
+        scopes: apiKey.scopes,
+        keyHash: apiKey.keyHash,
+        keyHint: apiKey.keyHint,
+        expiresAt: Timestamp.fromDate(apiKey.expiresAt),
+        createdAt: Timestamp.fromDate(now),
+      });
+      return false;
+    });
+
+    if (limitReached) {
+      return { success: false, error: `A wallet can have at most ${apiKeyPolicy.maxKeysPerWallet} active API keys` };
+    }
+
+    console.log(`🔑 [ApiKeys] Created key ${apiKey.id} for ${normalizedAddress}:`, apiKey.scopes);
+    return { success: true, key, apiKey };
+  }
+
+  /**
+   * Look up the key presented by a caller
+   * Returns null for a malformed, unknown, revoked or expired key.
+   */
+  async authenticate(key: string): Promise<ApiKeyRecord | null> {
+    if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+    const [keyId, secret] = key.slice(API_KEY_PREFIX.length).split(".");
+    if (!keyId || !secret || keyId.includes("/")) return null;
+
+    const doc = await this.db.collection(COLLECTIONS.API_KEYS).doc(keyId).get();
+    if (!doc.exists) return null;
+
+    const apiKey = this.fromFirestore(doc.id, doc.data()!);
+    const expected = Buffer.from(apiKey.keyHash, "hex");
+    const actual = Buffer.from(this.hash(secret), "hex");
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    if (apiKey.revokedAt || apiKey.expiresAt <= new Date()) {
+      return null;
+    }
+
+    // Best effort: a failed timestamp write must not fail the call
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > apiKeyPolicy.lastUsedResolutionMs) {
+      doc.ref.update({ lastUsedAt: Timestamp.fromDate(now) }).catch((error) => {
+        console.error("[ApiKeys] Failed to record last use:", error);
+      });
+      apiKey.lastUsedAt = now;
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Check whether a key grants a scope ("ai:*" covers every "ai:" scope)
+   */
+  hasScope(apiKey: ApiKeyRecord, scope: string): boolean {
+    return apiKey.scopes.some((granted) =>
+      granted === scope || (granted.endsWith(":*") && scope.startsWith(granted.slice(0, -1)))
+    );
+  }
+
+  /**
+   * List a wallet's keys, newest first
+   */
+  async list(walletAddress: string): Promise<ApiKeyRecord[]> {
+    const snapshot = await this.db
+      .collection(COLLECTIONS.API_KEYS)
+      .where("walletAddress", "==", walletAddress.toLowerCase())
+      .get();
+
+    return snapshot.docs
+      .map((doc) => this.fromFirestore(doc.id, doc.data()))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Revoke one of a wallet's keys
+   * Returns null if the key does not exist or belongs to another wallet.
+   */
+  async revoke(walletAddress: string, keyId: string): Promise<ApiKeyRecord | null> {
+    const docRef = this.db.collection(COLLECTIONS.API_KEYS).doc(keyId);
+    const doc = await docRef.get();
+    if (!doc.exists) return null;
+
+    const apiKey = this.fromFirestore(doc.id, doc.data()!);
+    if (apiKey.walletAddress !== walletAddress.toLowerCase()) return null;
+    if (apiKey.revokedAt) return apiKey;
+
+    const revokedAt = new Date();
+    await docRef.update({ revokedAt: Timestamp.fromDate(revokedAt) });
+
+    console.log(`🔑 [ApiKeys] Revoked key ${keyId} for ${apiKey.walletAddress}`);
+    return { ...apiKey, revokedAt };
+  }
+
+  private hash(secret: string): string {
+    return createHash("sha256").update(secret).digest("hex");
+  }
+
+  private fromFirestore(id: string, data: DocumentData): ApiKeyRecord {
+    return {
+      ...data,
+      id,
+      expiresAt: data.expiresAt?.toDate() || new Date(0),
+      lastUsedAt: data.lastUsedAt?.toDate(),
+      revokedAt: data.revokedAt?.toDate(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+    } as ApiKeyRecord;
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,178 @@
+/**
+ * Audit Log Service
+ * Append-only record of admin and billing mutations, stored in the audit_log
+ * collection. Entries are only ever added: this service has no update or delete.
+ *
+ * Services that change money-relevant state take an AuditContext from the route
+ * that triggered the change and write the before/after values in the same
+ * Firestore transaction as the change, so a mutation cannot commit
+ * without its entry. Changes outside Firestore (facilitator registration) are
+ * recorded once they have been made.
+ */
+
+import { randomUUID } from "crypto";
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type Query, type Transaction } from "firebase-admin/firestore";
+
+export const AUDIT_ACTIONS = [
+  "credits.grant",
+  "credits.cost.set",
+  "credits.purchase",
+  "tier.set",
+  "subscription.activate",
+  "subscription.expire",
+  "facilitator.register",
+  "admin.bootstrap",
+  "admin.grant",
+  "admin.remove",
+  "refund.approve",
+  "refund.reject",
+  "refund.complete",
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Snapshot of the fields a mutation changed (dates as ISO strings)
+export type AuditValues = Record<string, string | number | boolean | null>;
+
+// Who triggered a mutation and why, passed from the route down to the service
+export interface AuditContext {
+  actor: string; // Lowercase wallet of the admin or paying user
+  requestId: string;
+  reason?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  actor: string;
+  action: AuditAction;
+  targetWallet: string;
+  before: AuditValues | null; // Null when the target did not exist yet
+  after: AuditValues;
+  reason?: string;
+  requestId: string;
+  createdAt: Date;
+}
+
+type AuditEntryInput = {
+  action: AuditAction;
+  targetWallet: string;
+  before: AuditValues | null;
+  after: AuditValues;
+};
+
+export interface AuditQuery {
+  actor?: string;
+  action?: AuditAction;
+  targetWallet?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Request ID for correlating an audit entry with logs
+ * Uses the proxy's X-Request-Id (or Vercel's X-Vercel-Id) when present.
+ */
+export function getRequestId(request: Request): string {
+  return request.headers.get("x-request-id") || request.headers.get("x-vercel-id") || randomUUID();
+}
+
+/**
+ * Build the audit context for a mutation triggered by a request
+ */
+export function createAuditContext(request: Request, actor: string, reason?: string): AuditContext {
+  return {
+    actor: actor.toLowerCase(),
+    requestId: getRequestId(request),
+    reason: reason?.trim() || undefined,
+  };
+}
+
+export class AuditLogService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Append an entry as part of the transaction that applies the mutation
+   * The entry commits together with the mutation, or neither does.
+   */
+  write(transaction: Transaction, context: AuditContext, entry: AuditEntryInput): void {
+    transaction.set(this.db.collection(COLLECTIONS.AUDIT_LOG).doc(), this.toFirestore(context, entry));
+  }
+
+  /**
+   * Append an entry for a change made outside Firestore
+   * Runs after the change has been applied; a failed write is logged and
+   * never undoes or fails the change itself.
+   */
+  async record(context: AuditContext, entry: AuditEntryInput): Promise<void> {
+    try {
+      await this.db.collection(COLLECTIONS.AUDIT_LOG).add(this.toFirestore(context, entry));
+    } catch (error) {
+      console.error(`[AuditLog] Failed to record ${entry.action} on ${entry.targetWallet} by ${context.actor}:`, error);
+    }
+  }
+
+  /**
+   * Query the log, newest first
+   * Equality filters combined with a date range need matching composite indexes in Firestore.
+   */
+  async query(filters: AuditQuery = {}): Promise<{
+    entries: AuditEntry[];
+    totalCount: number;
+  }> {
+    let query: Query = this.db.collection(COLLECTIONS.AUDIT_LOG);
+
+    if (filters.actor) query = query.where("actor", "==", filters.actor.toLowerCase());
+    if (filters.action) query = query.where("action", "==", filters.action);
+    if (filters.targetWallet) query = query.where("targetWallet", "==", filters.targetWallet.toLowerCase());
+    if (filters.startDate) query = query.where("createdAt", ">=", Timestamp.fromDate(filters.startDate));
+    if (filters.endDate) query = query.where("createdAt", "<=", Timestamp.fromDate(filters.endDate));
+
+    const countSnapshot = await query.count().get();
+    const limit = Math.min(Math.max(1, filters.limit || 50), 1000);
+
+    const snapshot = await query
+      .orderBy("createdAt", "desc")
+      .offset(Math.max(0, filters.offset || 0))
+      .limit(limit)
+      .get();
+
+    return {
+      entries: snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          actor: data.actor,
+          action: data.action,
+          targetWallet: data.targetWallet,
+          before: data.before ?? null,
+          after: data.after,
+          reason: data.reason || undefined,
+          requestId: data.requestId,
+          createdAt: data.createdAt?.toDate() || new Date(),
+        };
+      }),
+      totalCount: countSnapshot.data().count,
+    };
+  }
+
+  private toFirestore(context: AuditContext, entry: AuditEntryInput) {
+    return {
+      actor: context.actor.toLowerCase(),
+      action: entry.action,
+      targetWallet: entry.targetWallet.toLowerCase(),
+      before: entry.before,
+      after: entry.after,
+      reason: context.reason || null,
+      requestId: context.requestId,
+      createdAt: Timestamp.fromDate(new Date()),
+    };
+  }
+}
+
+// Export singleton instance
+export const auditLogService = new AuditLogService();
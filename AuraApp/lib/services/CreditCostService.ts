@@ -0,0 +1,146 @@
+/**
+ * Credit Cost Service
+ * Credits charged per service: the defaults in lib/config/credit-costs.ts with
+ * admin overrides from the credit_costs collection (one document per service ID).
+ * Costs are cached per instance for a short time, so an edit applies everywhere
+ * within CACHE_TTL_MS.
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type Transaction } from "firebase-admin/firestore";
+import { x402Config } from "@/lib/config/x402";
+import { DEFAULT_CREDIT_COSTS, CREDIT_SERVICE_IDS, type CreditServiceId } from "@/lib/config/credit-costs";
+import { auditLogService, type AuditContext } from "@/lib/services/AuditLogService";
+
+export interface CreditCost {
+  serviceId: CreditServiceId;
+  credits: number;
+  defaultCredits: number;
+  updatedBy?: string; // Admin wallet, when overridden
+  updatedAt?: Date;
+}
+
+const CACHE_TTL_MS = 60 * 1000;
+
+export class CreditCostService {
+  private cache: { costs: CreditCost[]; expiresAt: number } | null = null;
+
+  // Resolved lazily so routes load without Firestore credentials
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Cost of every service, overrides applied
+   */
+  async list(): Promise<CreditCost[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.costs;
+    }
+
+    const snapshot = await this.db.collection(COLLECTIONS.CREDIT_COSTS).get();
+    const overrides = new Map(snapshot.docs.map((doc) => [doc.id, doc.data()]));
+
+    const costs = CREDIT_SERVICE_IDS.map((serviceId): CreditCost => {
+      const override = overrides.get(serviceId);
+      return {
+        serviceId,
+        credits: typeof override?.credits === "number" ? override.credits : DEFAULT_CREDIT_COSTS[serviceId],
+        defaultCredits: DEFAULT_CREDIT_COSTS[serviceId],
+        ...(override && {
+          updatedBy: override.updatedBy,
+          updatedAt: override.updatedAt?.toDate(),
+        }),
+      };
+    });
+
+    this.cache = { costs, expiresAt: Date.now() + CACHE_TTL_MS };
+    return costs;
+  }
+
+  /**
+   * Credits charged for one interaction with a service
+   * Falls back to the default cost if the overrides cannot be read.
+   */
+  async getCost(serviceId: CreditServiceId): Promise<number> {
+    try {
+      const costs = await this.list();
+      return costs.find((cost) => cost.serviceId === serviceId)!.credits;
+    } catch (error) {
+      console.error(`[CreditCosts] Failed to load costs, using default for ${serviceId}:`, error);
+      return DEFAULT_CREDIT_COSTS[serviceId];
+    }
+  }
+
+  /**
+   * Admin: set a service's cost
+   */
+  async setCost(serviceId: CreditServiceId, credits: number, audit: AuditContext): Promise<CreditCost> {
+    const docRef = this.db.collection(COLLECTIONS.CREDIT_COSTS).doc(serviceId);
+    const now = new Date();
+
+    await this.db.runTransaction(async (transaction) => {
+      const previous = await this.readCost(transaction, serviceId);
+      transaction.set(docRef, {
+        credits,
+        updatedBy: audit.actor,
+        updatedAt: Timestamp.fromDate(now),
+      });
+      this.recordChange(transaction, audit, serviceId, previous, credits);
+    });
+    this.cache = null;
+
+    console.log(`🪙 [CreditCosts] ${audit.actor} set ${serviceId} to ${credits} credits`);
+
+    return {
+      serviceId,
+      credits,
+      defaultCredits: DEFAULT_CREDIT_COSTS[serviceId],
+      updatedBy: audit.actor,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Admin: return a service to its default cost
+   */
+  async resetCost(serviceId: CreditServiceId, audit: AuditContext): Promise<CreditCost> {
+    const docRef = this.db.collection(COLLECTIONS.CREDIT_COSTS).doc(serviceId);
+
+    await this.db.runTransaction(async (transaction) => {
+      const previous = await this.readCost(transaction, serviceId);
+      transaction.delete(docRef);
+      this.recordChange(transaction, audit, serviceId, previous, DEFAULT_CREDIT_COSTS[serviceId]);
+    });
+    this.cache = null;
+
+    console.log(`🪙 [CreditCosts] ${audit.actor} reset ${serviceId} to the default`);
+
+    return { serviceId, credits: DEFAULT_CREDIT_COSTS[serviceId], defaultCredits: DEFAULT_CREDIT_COSTS[serviceId] };
+  }
+
+  private async readCost(transaction: Transaction, serviceId: CreditServiceId): Promise<number> {
+    const doc = await transaction.get(this.db.collection(COLLECTIONS.CREDIT_COSTS).doc(serviceId));
+    const credits = doc.data()?.credits;
+    return typeof credits === "number" ? credits : DEFAULT_CREDIT_COSTS[serviceId];
+  }
+
+  // Costs apply to the whole service, so entries target the service wallet
+  private recordChange(
+    transaction: Transaction,
+    audit: AuditContext,
+    serviceId: CreditServiceId,
+    before: number,
+    after: number
+  ): void {
+    auditLogService.write(transaction, audit, {
+      action: "credits.cost.set",
+      targetWallet: x402Config.payTo,
+      before: { serviceId, credits: before },
+      after: { serviceId, credits: after },
+    });
+  }
+}
+
+// Export singleton instance
+export const creditCostService = new CreditCostService();
@@ -1,10 +1,25 @@
 /**
  * Credits Service
  * Manages user credits, subscriptions, and transaction history
+ *
+ * Every balance change runs in a Firestore transaction that also writes its
+ * credit_transactions entry, so concurrent requests cannot overdraw and the
+ * ledger always matches the balance.
  */
 
 import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
-import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import {
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type QueryDocumentSnapshot,
+  type Transaction,
+  type UpdateData,
+} from "firebase-admin/firestore";
+import { auditLogService, type AuditContext, type AuditValues } from "@/lib/services/AuditLogService";
+import { creditCostService } from "@/lib/services/CreditCostService";
+import type { CreditServiceId } from "@/lib/config/credit-costs";
+import { creditPackPricing, subscriptionPricing } from "@/lib/config/x402";
 
 // Subscription tiers and their benefits
 export const SUBSCRIPTION_TIERS = {
@@ -44,9 +59,41 @@ export const SUBSCRIPTION_TIERS = {
 
 export type SubscriptionTier = keyof typeof SUBSCRIPTION_TIERS;
 
-// Credit cost per interaction (1 credit = 1 AI interaction)
-// This is for frontend access control only - x402 payments still apply
-export const CREDIT_COST_PER_INTERACTION = 1;
+// Tiers from lowest to highest; moving to a later tier is an upgrade
+const TIER_ORDER = Object.keys(SUBSCRIPTION_TIERS) as SubscriptionTier[];
+
+// Smallest charge for an upgrade, since x402 cannot settle a zero amount
+const MIN_PLAN_CHANGE_CHARGE_USD = 0.01;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One-off credit packs, bought with x402 on top of any subscription
+// Prices come from creditPackPricing; larger packs include bonus credits
+export const CREDIT_PACKS = {
+  "100": {
+    id: "100",
+    name: "100 Credits",
+    credits: 100,
+    bonusCredits: 0,
+    priceUsd: creditPackPricing["100"],
+  },
+  "500": {
+    id: "500",
+    name: "500 Credits",
+    credits: 500,
+    bonusCredits: 50,
+    priceUsd: creditPackPricing["500"],
+  },
+  "2000": {
+    id: "2000",
+    name: "2000 Credits",
+    credits: 2000,
+    bonusCredits: 400,
+    priceUsd: creditPackPricing["2000"],
+  },
+} as const;
+
+export type CreditPackId = keyof typeof CREDIT_PACKS;
 
 export interface UserCredits {
   walletAddress: string;
@@ -56,6 +103,11 @@ export interface UserCredits {
   lastMonthlyClaim: Date | null;
   lifetimeEarned: number;
   lifetimeSpent: number;
+  usdcBalance?: number; // Prepaid USDC in atomic units (6 decimals), see PrepaidBalanceService
+  creditHolds?: Record<string, CreditHold>; // Reservation ID -> hold
+  autoRenew?: boolean; // Opted in to renewal from the prepaid balance (see SubscriptionLifecycleService)
+  scheduledSubscriptionId?: string | null; // Paid plan that starts when the current period ends
+  lifecycleRetryAt?: Date | null; // Skipped by the lifecycle job until then after it failed (see getSubscriptionsDue)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,8 +117,19 @@ export interface CreditTransaction {
   walletAddress: string;
   amount: number;
   balanceAfter: number;
-  type: "claim" | "spend" | "purchase" | "subscription" | "bonus" | "refund";
-  serviceId?: string;
+  type:
+    | "claim"
+    | "spend"
+    | "purchase"
+    | "subscription"
+    | "expiry"
+    | "renewal_reminder"
+    | "bonus"
+    | "refund"
+    | "deposit"
+    | "usdc_spend";
+  unit?: "credits" | "usdc"; // amount/balanceAfter are in USD for "usdc" (default credits)
+  serviceId?: string; // Credit service ID for spends (see lib/config/credit-costs.ts)
   description: string;
   metadata?: Record<string, unknown>;
   createdAt: Date;
@@ -82,9 +145,75 @@ export interface Subscription {
   startsAt: Date;
   expiresAt: Date;
   autoRenew: boolean;
+  renewalReminderSentAt?: Date;
+  planChange?: StoredPlanChange; // Set when bought as a change from another plan
+  replacedBy?: string; // Subscription that upgraded this one before its period ended
   createdAt: Date;
 }
 
+// How buying a tier changes a wallet's current plan (see getPlanChange)
+// - new: no active plan, the tier starts now at its full price
+// - upgrade: a higher tier starts now, less the value of the unused time on the current plan
+// - downgrade, renewal: a lower or the same tier, paid now, starts when the current period ends
+export type PlanChangeKind = "new" | "upgrade" | "downgrade" | "renewal";
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  walletAddress: string;
+  fromTier: SubscriptionTier;
+  toTier: SubscriptionTier;
+  fromSubscriptionId?: string;
+  listPriceUsd: number; // Full price of toTier (subscriptionPricing)
+  prorationCreditUsd: number; // Value of the unused time on the current plan, upgrades only
+  unusedFraction: number; // Share of the current period left (0-1), upgrades only
+  creditsAdjustment: number; // Current plan's credits for the unused time, not granted again
+  chargeUsd: number; // What the change costs now
+  startsAt: Date;
+  blockedReason?: string; // Why the change cannot be bought right now
+}
+
+// The part of a PlanChange kept on the subscription it bought, for invoices
+export type StoredPlanChange = Pick<
+  PlanChange,
+  "kind" | "fromTier" | "fromSubscriptionId" | "listPriceUsd" | "prorationCreditUsd" | "unusedFraction" | "creditsAdjustment"
+>;
+
+// Subscription state changes, stored as metadata.transition on their ledger entries
+export type SubscriptionTransition =
+  | "activated"
+  | "renewed"
+  | "expired"
+  | "renewal_reminder"
+  | "auto_renew_on"
+  | "auto_renew_off"
+  | "upgraded"
+  | "downgraded"
+  | "change_scheduled";
+
+// Credits held for an in-flight interaction (see reserveCredits)
+export interface CreditHold {
+  amount: number;
+  serviceId: CreditServiceId;
+  description: string;
+  expiresAt: Date;
+}
+
+// A hold not committed or released by then stops counting against the balance,
+// so a request that crashed mid-way cannot lock credits
+const CREDIT_HOLD_TTL_MS = 5 * 60 * 1000;
+
+// Pages of due subscriptions read past deferred users before a lifecycle batch gives up
+const MAX_DUE_PAGES = 5;
+
+// A user_credits document read inside a Firestore transaction
+interface UserCreditsRecord {
+  ref: DocumentReference;
+  exists: boolean;
+  user: UserCredits;
+}
+
+type LedgerEntry = Omit<CreditTransaction, "id" | "createdAt">;
+
 class CreditsService {
   private db = getFirestoreInstance();
 
@@ -93,46 +222,25 @@ class CreditsService {
    */
   async getOrCreateUser(walletAddress: string): Promise<UserCredits> {
     const normalizedAddress = walletAddress.toLowerCase();
-    const docRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
-    const doc = await docRef.get();
+    const doc = await this.userRef(normalizedAddress).get();
 
     if (doc.exists) {
-      const data = doc.data()!;
-      return {
-        ...data,
-        walletAddress: normalizedAddress,
-        subscriptionExpiresAt: data.subscriptionExpiresAt?.toDate() || null,
-        lastMonthlyClaim: data.lastMonthlyClaim?.toDate() || null,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-      } as UserCredits;
+      return this.fromFirestore(normalizedAddress, doc.data()!);
     }
 
-    // Create new user with free tier
-    const now = new Date();
-    const newUser: UserCredits = {
-      walletAddress: normalizedAddress,
-      balance: 0,
-      tier: "free",
-      subscriptionExpiresAt: null,
-      lastMonthlyClaim: null,
-      lifetimeEarned: 0,
-      lifetimeSpent: 0,
-      createdAt: now,
-      updatedAt: now,
-    };
-
-    await docRef.set({
-      ...newUser,
-      createdAt: Timestamp.fromDate(now),
-      updatedAt: Timestamp.fromDate(now),
+    // Create new user with free tier, unless a concurrent write just did
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      if (!record.exists) {
+        this.writeUser(transaction, record, {});
+      }
+      return record.user;
     });
-
-    return newUser;
   }
 
   /**
    * Get user's credit balance
+   * The balance excludes credits held for in-flight interactions.
    */
   async getBalance(walletAddress: string): Promise<{
     balance: number;
@@ -140,6 +248,8 @@ class CreditsService {
     tierInfo: typeof SUBSCRIPTION_TIERS[SubscriptionTier];
     subscriptionActive: boolean;
     canClaimMonthly: boolean;
+    usdcBalance: number; // Prepaid USDC balance in USD
+    autoRenew: boolean;
   }> {
     const user = await this.getOrCreateUser(walletAddress);
     const tierInfo = SUBSCRIPTION_TIERS[user.tier];
@@ -154,11 +264,13 @@ class CreditsService {
     const canClaimMonthly = this.canClaimMonthly(user);
 
     return {
-      balance: user.balance,
+      balance: this.availableBalance(user),
       tier: user.tier,
       tierInfo,
       subscriptionActive,
       canClaimMonthly,
+      usdcBalance: (user.usdcBalance || 0) / 1_000_000,
+      autoRenew: !!user.autoRenew,
     };
   }
 
@@ -187,82 +299,84 @@ class CreditsService {
     error?: string;
   }> {
     const normalizedAddress = walletAddress.toLowerCase();
-    const user = await this.getOrCreateUser(normalizedAddress);
 
-    if (!this.canClaimMonthly(user)) {
-      const nextClaimDate = new Date(user.lastMonthlyClaim!);
-      nextClaimDate.setMonth(nextClaimDate.getMonth() + 1);
-      return {
-        success: false,
-        creditsAdded: 0,
-        newBalance: user.balance,
-        nextClaimDate,
-        error: `Cannot claim yet. Next claim available on ${nextClaimDate.toLocaleDateString()}`,
-      };
-    }
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+
+      if (!this.canClaimMonthly(user)) {
+        const nextClaimDate = new Date(user.lastMonthlyClaim!);
+        nextClaimDate.setMonth(nextClaimDate.getMonth() + 1);
+        return {
+          success: false,
+          creditsAdded: 0,
+          newBalance: user.balance,
+          nextClaimDate,
+          error: `Cannot claim yet. Next claim available on ${nextClaimDate.toLocaleDateString()}`,
+        };
+      }
 
-    // Determine credits based on tier
-    const tierInfo = SUBSCRIPTION_TIERS[user.tier];
-    const creditsToAdd = tierInfo.creditsPerMonth;
+      // Determine credits based on tier
+      const tierInfo = SUBSCRIPTION_TIERS[user.tier];
+      const creditsToAdd = tierInfo.creditsPerMonth;
+
+      // Unlimited tier doesn't need to claim
+      if (creditsToAdd === -1) {
+        return {
+          success: true,
+          creditsAdded: 0,
+          newBalance: -1, // Unlimited
+          nextClaimDate: new Date(),
+          error: "Unlimited tier - no claim needed",
+        };
+      }
+
+      const now = new Date();
+      const newBalance = user.balance + creditsToAdd;
+
+      // Update user credits and record the claim together
+      this.writeUser(transaction, record, {
+        balance: newBalance,
+        lastMonthlyClaim: Timestamp.fromDate(now),
+        lifetimeEarned: user.lifetimeEarned + creditsToAdd,
+        updatedAt: Timestamp.fromDate(now),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: creditsToAdd,
+        balanceAfter: newBalance,
+        type: "claim",
+        description: `Monthly ${tierInfo.name} tier claim`,
+      });
+
+      const nextClaimDate = new Date(now);
+      nextClaimDate.setMonth(nextClaimDate.getMonth() + 1);
 
-    // Unlimited tier doesn't need to claim
-    if (creditsToAdd === -1) {
       return {
         success: true,
-        creditsAdded: 0,
-        newBalance: -1, // Unlimited
-        nextClaimDate: new Date(),
-        error: "Unlimited tier - no claim needed",
+        creditsAdded: creditsToAdd,
+        newBalance,
+        nextClaimDate,
       };
-    }
-
-    const now = new Date();
-    const newBalance = user.balance + creditsToAdd;
-
-    // Update user credits
-    const docRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
-    await docRef.update({
-      balance: newBalance,
-      lastMonthlyClaim: Timestamp.fromDate(now),
-      lifetimeEarned: FieldValue.increment(creditsToAdd),
-      updatedAt: Timestamp.fromDate(now),
-    });
-
-    // Record transaction
-    await this.recordTransaction({
-      walletAddress: normalizedAddress,
-      amount: creditsToAdd,
-      balanceAfter: newBalance,
-      type: "claim",
-      description: `Monthly ${tierInfo.name} tier claim`,
     });
-
-    const nextClaimDate = new Date(now);
-    nextClaimDate.setMonth(nextClaimDate.getMonth() + 1);
-
-    return {
-      success: true,
-      creditsAdded: creditsToAdd,
-      newBalance,
-      nextClaimDate,
-    };
   }
 
   /**
-   * Check if user has enough credits for an interaction
-   * This is for frontend access control only - x402 payments still apply
+   * Check if user has enough credits for an interaction with a service
+   * This is for frontend access control only - x402 payments still apply.
+   * Advisory only: use reserveCredits or deductCredit to actually spend.
    */
-  async hasCredits(walletAddress: string): Promise<{
+  async hasCredits(walletAddress: string, serviceId: CreditServiceId): Promise<{
     hasCredits: boolean;
     cost: number;
     balance: number;
     isUnlimited: boolean;
   }> {
     const user = await this.getOrCreateUser(walletAddress);
-    const cost = CREDIT_COST_PER_INTERACTION;
+    const cost = await creditCostService.getCost(serviceId);
 
     // Check for unlimited tier
-    if (user.tier === "unlimited" && user.subscriptionExpiresAt && user.subscriptionExpiresAt > new Date()) {
+    if (this.hasUnlimitedCredits(user)) {
       return {
         hasCredits: true,
         cost,
@@ -271,80 +385,226 @@ class CreditsService {
       };
     }
 
+    const balance = this.availableBalance(user);
     return {
-      hasCredits: user.balance >= cost,
+      hasCredits: balance >= cost,
       cost,
-      balance: user.balance,
+      balance,
       isUnlimited: false,
     };
   }
 
   /**
-   * Deduct 1 credit for an interaction
+   * Deduct a service's credit cost for an interaction
    * This is for frontend access control only - x402 payments still apply
    */
-  async deductCredit(walletAddress: string, description: string = "AI interaction"): Promise<{
+  async deductCredit(
+    walletAddress: string,
+    serviceId: CreditServiceId,
+    description: string = "AI interaction"
+  ): Promise<{
     success: boolean;
     newBalance: number;
     cost: number;
     error?: string;
   }> {
     const normalizedAddress = walletAddress.toLowerCase();
-    const user = await this.getOrCreateUser(normalizedAddress);
-    const cost = CREDIT_COST_PER_INTERACTION;
+    const cost = await creditCostService.getCost(serviceId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+
+      // Check for unlimited tier
+      if (this.hasUnlimitedCredits(user)) {
+        // Record usage but don't deduct
+        this.recordTransaction(transaction, {
+          walletAddress: normalizedAddress,
+          amount: 0,
+          balanceAfter: -1,
+          type: "spend",
+          serviceId,
+          description: `${description} (Unlimited tier)`,
+        });
+        return { success: true, newBalance: -1, cost: 0 };
+      }
 
-    // Check for unlimited tier
-    if (user.tier === "unlimited" && user.subscriptionExpiresAt && user.subscriptionExpiresAt > new Date()) {
-      // Record usage but don't deduct
-      await this.recordTransaction({
+      const available = this.availableBalance(user);
+      if (available < cost) {
+        return {
+          success: false,
+          newBalance: available,
+          cost,
+          error: `Insufficient credits. Need ${cost}, have ${available}`,
+        };
+      }
+
+      const newBalance = user.balance - cost;
+      this.writeUser(transaction, record, {
+        balance: newBalance,
+        lifetimeSpent: user.lifetimeSpent + cost,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      this.recordTransaction(transaction, {
         walletAddress: normalizedAddress,
-        amount: 0,
-        balanceAfter: -1,
+        amount: -cost,
+        balanceAfter: newBalance,
         type: "spend",
-        description: `${description} (Unlimited tier)`,
+        serviceId,
+        description,
       });
 
-      return {
-        success: true,
-        newBalance: -1,
-        cost: 0,
-      };
-    }
+      return { success: true, newBalance, cost };
+    });
+  }
 
-    if (user.balance < cost) {
-      return {
-        success: false,
-        newBalance: user.balance,
-        cost,
-        error: `Insufficient credits. Need ${cost}, have ${user.balance}`,
-      };
-    }
+  /**
+   * Hold the credits for an interaction before doing the work
+   * The held credits are unavailable to other requests until the hold is
+   * committed (spent) with commitReservation or returned with releaseReservation.
+   */
+  async reserveCredits(
+    walletAddress: string,
+    serviceId: CreditServiceId,
+    description: string = "AI interaction"
+  ): Promise<{
+    success: boolean;
+    reservationId: string;
+    cost: number;
+    balance: number; // Available after the hold, -1 for unlimited
+    isUnlimited: boolean;
+    error?: string;
+  }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const cost = await creditCostService.getCost(serviceId);
+    const reservationId = `hold_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
 
-    const newBalance = user.balance - cost;
-    const now = new Date();
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+
+      // Nothing to hold: commitReservation records the usage
+      if (this.hasUnlimitedCredits(user)) {
+        return { success: true, reservationId, cost, balance: -1, isUnlimited: true };
+      }
+
+      const available = this.availableBalance(user);
+      if (available < cost) {
+        return {
+          success: false,
+          reservationId,
+          cost,
+          balance: available,
+          isUnlimited: false,
+          error: `Insufficient credits. Need ${cost}, have ${available}`,
+        };
+      }
 
-    // Update balance
-    const docRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
-    await docRef.update({
-      balance: newBalance,
-      lifetimeSpent: FieldValue.increment(cost),
-      updatedAt: Timestamp.fromDate(now),
+      const holds = {
+        ...this.activeHolds(user),
+        [reservationId]: { amount: cost, serviceId, description, expiresAt: new Date(Date.now() + CREDIT_HOLD_TTL_MS) },
+      };
+      this.writeUser(transaction, record, {
+        creditHolds: this.holdsToFirestore(holds),
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+
+      return { success: true, reservationId, cost, balance: available - cost, isUnlimited: false };
     });
+  }
 
-    // Record transaction
-    await this.recordTransaction({
-      walletAddress: normalizedAddress,
-      amount: -cost,
-      balanceAfter: newBalance,
-      type: "spend",
-      description,
+  /**
+   * Spend the credits held by reserveCredits
+   * Removes the hold and deducts its amount in one transaction with the ledger
+   * entry. A hold that already expired is charged at the service's current cost
+   * if the balance still covers it.
+   */
+  async commitReservation(
+    walletAddress: string,
+    reservationId: string,
+    serviceId: CreditServiceId,
+    description: string
+  ): Promise<{
+    success: boolean;
+    newBalance: number;
+    cost: number;
+    error?: string;
+  }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const currentCost = await creditCostService.getCost(serviceId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+      const { [reservationId]: hold, ...otherHolds } = user.creditHolds || {};
+      const remainingHolds = this.activeHolds({ ...user, creditHolds: otherHolds });
+      const now = new Date();
+
+      if (this.hasUnlimitedCredits(user)) {
+        if (hold) {
+          this.writeUser(transaction, record, { creditHolds: this.holdsToFirestore(remainingHolds) });
+        }
+        this.recordTransaction(transaction, {
+          walletAddress: normalizedAddress,
+          amount: 0,
+          balanceAfter: -1,
+          type: "spend",
+          serviceId,
+          description: `${description} (Unlimited tier)`,
+          metadata: { reservationId },
+        });
+        return { success: true, newBalance: -1, cost: 0 };
+      }
+
+      const cost = hold?.amount ?? currentCost;
+      const available = this.availableBalance({ ...user, creditHolds: remainingHolds });
+      if (available < cost) {
+        this.writeUser(transaction, record, { creditHolds: this.holdsToFirestore(remainingHolds) });
+        return {
+          success: false,
+          newBalance: available,
+          cost,
+          error: `Reservation ${reservationId} expired and the balance no longer covers it`,
+        };
+      }
+
+      const newBalance = user.balance - cost;
+      this.writeUser(transaction, record, {
+        balance: newBalance,
+        lifetimeSpent: user.lifetimeSpent + cost,
+        creditHolds: this.holdsToFirestore(remainingHolds),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: -cost,
+        balanceAfter: newBalance,
+        type: "spend",
+        serviceId,
+        description,
+        metadata: { reservationId },
+      });
+
+      return { success: true, newBalance: available - cost, cost };
     });
+  }
 
-    return {
-      success: true,
-      newBalance,
-      cost,
-    };
+  /**
+   * Return the credits held by reserveCredits without spending them
+   */
+  async releaseReservation(walletAddress: string, reservationId: string): Promise<void> {
+    const normalizedAddress = walletAddress.toLowerCase();
+
+    await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { [reservationId]: hold, ...otherHolds } = record.user.creditHolds || {};
+      if (!hold) return;
+
+      this.writeUser(transaction, record, {
+        creditHolds: this.holdsToFirestore(this.activeHolds({ ...record.user, creditHolds: otherHolds })),
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+    });
   }
 
   /**
@@ -358,45 +618,193 @@ class CreditsService {
     metadata?: Record<string, unknown>
   ): Promise<{ success: boolean; newBalance: number }> {
     const normalizedAddress = walletAddress.toLowerCase();
-    const user = await this.getOrCreateUser(normalizedAddress);
-    const newBalance = user.balance + amount;
-    const now = new Date();
 
-    // Update balance
-    const docRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
-    await docRef.update({
-      balance: newBalance,
-      lifetimeEarned: FieldValue.increment(amount),
-      updatedAt: Timestamp.fromDate(now),
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const newBalance = record.user.balance + amount;
+
+      this.writeUser(transaction, record, {
+        balance: newBalance,
+        lifetimeEarned: record.user.lifetimeEarned + amount,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount,
+        balanceAfter: newBalance,
+        type,
+        description,
+        ...(metadata && { metadata }),
+      });
+
+      return { success: true, newBalance };
     });
+  }
 
-    // Record transaction
-    await this.recordTransaction({
-      walletAddress: normalizedAddress,
-      amount,
-      balanceAfter: newBalance,
-      type,
-      description,
-      metadata,
+  /**
+   * Add a purchased credit pack, bonus included
+   */
+  async purchaseCreditPack(
+    walletAddress: string,
+    packId: CreditPackId,
+    audit: AuditContext,
+    transactionHash?: string,
+    paymentNetwork?: string
+  ): Promise<{ success: boolean; creditsAdded: number; newBalance: number }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const pack = CREDIT_PACKS[packId];
+    const creditsToAdd = pack.credits + pack.bonusCredits;
+
+    const newBalance = await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const newBalance = record.user.balance + creditsToAdd;
+
+      this.writeUser(transaction, record, {
+        balance: newBalance,
+        lifetimeEarned: record.user.lifetimeEarned + creditsToAdd,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: creditsToAdd,
+        balanceAfter: newBalance,
+        type: "purchase",
+        description: pack.bonusCredits > 0
+          ? `Purchased ${pack.name} (+${pack.bonusCredits} bonus)`
+          : `Purchased ${pack.name}`,
+        metadata: {
+          packId,
+          priceUsd: pack.priceUsd,
+          bonusCredits: pack.bonusCredits,
+          ...(transactionHash && { transactionHash }),
+          ...(paymentNetwork && { paymentNetwork }),
+        },
+      });
+      auditLogService.write(transaction, audit, {
+        action: "credits.purchase",
+        targetWallet: normalizedAddress,
+        before: { balance: record.user.balance },
+        after: {
+          balance: newBalance,
+          packId,
+          transactionHash: transactionHash || null,
+          paymentNetwork: paymentNetwork || null,
+        },
+      });
+
+      return newBalance;
     });
 
-    return { success: true, newBalance };
+    return { success: true, creditsAdded: creditsToAdd, newBalance };
+  }
+
+  /**
+   * Quote buying a tier against the wallet's current plan
+   * Upgrades are credited the unused share (in whole days) of what the current
+   * subscription was worth; tiers set by an admin without a payment get no credit.
+   */
+  async getPlanChange(
+    walletAddress: string,
+    tier: Exclude<SubscriptionTier, "free">,
+    now: Date = new Date()
+  ): Promise<PlanChange> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const user = await this.getOrCreateUser(normalizedAddress);
+    const listPriceUsd = subscriptionPricing[tier];
+    const change = {
+      walletAddress: normalizedAddress,
+      fromTier: user.tier,
+      toTier: tier,
+      listPriceUsd,
+      prorationCreditUsd: 0,
+      unusedFraction: 0,
+      creditsAdjustment: 0,
+      chargeUsd: listPriceUsd,
+    };
+
+    const subscriptionActive = user.tier !== "free" &&
+      user.subscriptionExpiresAt !== null &&
+      user.subscriptionExpiresAt > now;
+    if (!subscriptionActive) {
+      return { ...change, kind: "new", startsAt: now };
+    }
+
+    const blockedReason = user.scheduledSubscriptionId
+      ? `A plan change already starts on ${user.subscriptionExpiresAt!.toLocaleDateString()}`
+      : undefined;
+
+    if (TIER_ORDER.indexOf(tier) <= TIER_ORDER.indexOf(user.tier)) {
+      return {
+        ...change,
+        kind: tier === user.tier ? "renewal" : "downgrade",
+        startsAt: user.subscriptionExpiresAt!,
+        ...(blockedReason && { blockedReason }),
+      };
+    }
+
+    const current = await this.getActiveSubscription(normalizedAddress);
+    if (!current) {
+      return { ...change, kind: "upgrade", startsAt: now, ...(blockedReason && { blockedReason }) };
+    }
+
+    // Whole unused days, so the quote a payer signs still holds when it is verified
+    const periodDays = Math.round((current.expiresAt.getTime() - current.startsAt.getTime()) / DAY_MS);
+    const unusedDays = Math.floor((current.expiresAt.getTime() - now.getTime()) / DAY_MS);
+    const unusedFraction = periodDays > 0
+      ? Math.round(Math.min(1, Math.max(0, unusedDays / periodDays)) * 1e4) / 1e4
+      : 0;
+    // A subscription bought as an upgrade was worth its full price, not the prorated charge
+    const periodValueUsd = current.planChange?.listPriceUsd ?? current.priceUsd;
+    const prorationCreditUsd = Math.round(periodValueUsd * unusedFraction * 1e6) / 1e6;
+    const fromCredits = SUBSCRIPTION_TIERS[user.tier].creditsPerMonth;
+
+    return {
+      ...change,
+      kind: "upgrade",
+      fromSubscriptionId: current.id,
+      prorationCreditUsd,
+      unusedFraction,
+      creditsAdjustment: fromCredits > 0 ? Math.round(fromCredits * unusedFraction) : 0,
+      chargeUsd: Math.max(MIN_PLAN_CHANGE_CHARGE_USD, Math.round((listPriceUsd - prorationCreditUsd) * 1e6) / 1e6),
+      startsAt: now,
+      ...(blockedReason && { blockedReason }),
+    };
   }
 
   /**
    * Activate subscription
+   * Renewals (from SubscriptionLifecycleService) start a new period the same way;
+   * the subscription keeps the user's auto-renew preference. A renewal draws its
+   * charge from the prepaid balance in the same transaction, and does nothing
+   * (success: false with a reason) unless the balance covers it and the expired
+   * subscription is still the one being renewed.
+   * With a planChange from getPlanChange, an upgrade ends the current subscription
+   * now and does not grant its unused credits again; a downgrade or renewal is
+   * scheduled for the end of the current period instead (see scheduleSubscription).
    */
   async activateSubscription(
     walletAddress: string,
     tier: SubscriptionTier,
+    audit: AuditContext,
     transactionHash?: string,
-    paymentNetwork?: string
+    paymentNetwork?: string,
+    options: { renewal?: { amount: bigint; route: string }; planChange?: PlanChange } = {}
   ): Promise<{
     success: boolean;
     subscription: Subscription;
     creditsAdded: number;
+    reason?: "subscription_changed" | "insufficient_prepaid_balance";
   }> {
     const normalizedAddress = walletAddress.toLowerCase();
+    const { renewal, planChange } = options;
+    if (planChange && (planChange.walletAddress !== normalizedAddress || planChange.toTier !== tier)) {
+      throw new Error(`Plan change was quoted for ${planChange.walletAddress} (${planChange.toTier})`);
+    }
+    if (planChange?.kind === "downgrade" || planChange?.kind === "renewal") {
+      return this.scheduleSubscription(normalizedAddress, planChange, audit, transactionHash, paymentNetwork);
+    }
+
+    const upgrade = planChange?.kind === "upgrade" ? planChange : undefined;
     const tierInfo = SUBSCRIPTION_TIERS[tier];
     const now = new Date();
     const expiresAt = new Date(now);
@@ -407,47 +815,126 @@ class CreditsService {
       id: `sub_${Date.now()}`,
       walletAddress: normalizedAddress,
       tier,
-      priceUsd: tierInfo.priceUsd,
-      transactionHash,
-      paymentNetwork,
+      priceUsd: upgrade ? upgrade.chargeUsd : tierInfo.priceUsd,
+      ...(transactionHash && { transactionHash }),
+      ...(paymentNetwork && { paymentNetwork }),
       startsAt: now,
       expiresAt,
       autoRenew: false,
+      ...(upgrade && { planChange: this.toStoredPlanChange(upgrade) }),
       createdAt: now,
     };
+    const creditsToAdd = tierInfo.creditsPerMonth > 0
+      ? Math.max(0, tierInfo.creditsPerMonth - (upgrade?.creditsAdjustment || 0))
+      : 0;
+    const transition: SubscriptionTransition = renewal ? "renewed" : upgrade ? "upgraded" : "activated";
+    const description = renewal
+      ? `Renewed ${tierInfo.name} plan`
+      : upgrade
+        ? `Upgraded from ${SUBSCRIPTION_TIERS[upgrade.fromTier].name} to ${tierInfo.name} plan`
+        : `Subscribed to ${tierInfo.name} plan`;
+    const upgradeDetails: AuditValues = upgrade
+      ? {
+          previousTier: upgrade.fromTier,
+          prorationCreditUsd: upgrade.prorationCreditUsd,
+          creditsAdjustment: upgrade.creditsAdjustment,
+        }
+      : {};
+
+    // Subscription, tier, monthly credits, renewal charge, ledger and audit entries are written together
+    const skipped = await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      if (upgrade && (record.user.tier !== upgrade.fromTier || record.user.scheduledSubscriptionId)) {
+        throw new Error("Subscription changed since the upgrade was quoted");
+      }
 
-    // Save subscription
-    await this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(subscription.id).set({
-      ...subscription,
-      startsAt: Timestamp.fromDate(now),
-      expiresAt: Timestamp.fromDate(expiresAt),
-      createdAt: Timestamp.fromDate(now),
-    });
+      const usdcBalance = BigInt(record.user.usdcBalance || 0);
+      if (renewal) {
+        const { user } = record;
+        if (user.tier !== tier || user.scheduledSubscriptionId || !user.subscriptionExpiresAt || user.subscriptionExpiresAt > now) {
+          return "subscription_changed" as const;
+        }
+        if (usdcBalance < renewal.amount) {
+          return "insufficient_prepaid_balance" as const;
+        }
+      }
 
-    // Update user tier and add monthly credits
-    const creditsToAdd = tierInfo.creditsPerMonth > 0 ? tierInfo.creditsPerMonth : 0;
-    const user = await this.getOrCreateUser(normalizedAddress);
-    const newBalance = user.balance + creditsToAdd;
+      const newBalance = record.user.balance + creditsToAdd;
+      subscription.autoRenew = !!record.user.autoRenew;
 
-    const docRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
-    await docRef.update({
-      tier,
-      subscriptionExpiresAt: Timestamp.fromDate(expiresAt),
-      balance: newBalance,
-      lifetimeEarned: FieldValue.increment(creditsToAdd),
-      lastMonthlyClaim: Timestamp.fromDate(now),
-      updatedAt: Timestamp.fromDate(now),
+      transaction.set(this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(subscription.id), {
+        ...subscription,
+        startsAt: Timestamp.fromDate(now),
+        expiresAt: Timestamp.fromDate(expiresAt),
+        createdAt: Timestamp.fromDate(now),
+      });
+      if (upgrade?.fromSubscriptionId) {
+        transaction.update(this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(upgrade.fromSubscriptionId), {
+          expiresAt: Timestamp.fromDate(now),
+          replacedBy: subscription.id,
+        });
+      }
+      this.writeUser(transaction, record, {
+        tier,
+        subscriptionExpiresAt: Timestamp.fromDate(expiresAt),
+        balance: newBalance,
+        lifetimeEarned: record.user.lifetimeEarned + creditsToAdd,
+        lastMonthlyClaim: Timestamp.fromDate(now),
+        ...(renewal && { usdcBalance: Number(usdcBalance - renewal.amount), lifecycleRetryAt: null }),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      if (renewal) {
+        this.recordTransaction(transaction, {
+          walletAddress: normalizedAddress,
+          amount: -Number(renewal.amount) / 1_000_000,
+          balanceAfter: Number(usdcBalance - renewal.amount) / 1_000_000,
+          type: "usdc_spend",
+          unit: "usdc",
+          serviceId: renewal.route,
+          description: `Prepaid balance: ${renewal.route}`,
+          metadata: { amountAtomic: renewal.amount.toString(), subscriptionId: subscription.id },
+        });
+      }
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: creditsToAdd,
+        balanceAfter: newBalance,
+        type: "subscription",
+        description,
+        metadata: {
+          tier,
+          transition,
+          subscriptionId: subscription.id,
+          ...upgradeDetails,
+          ...(transactionHash && { transactionHash }),
+          ...(paymentNetwork && { paymentNetwork }),
+        },
+      });
+      auditLogService.write(transaction, audit, {
+        action: "subscription.activate",
+        targetWallet: normalizedAddress,
+        before: {
+          tier: record.user.tier,
+          balance: record.user.balance,
+          subscriptionExpiresAt: record.user.subscriptionExpiresAt?.toISOString() || null,
+        },
+        after: {
+          tier,
+          balance: newBalance,
+          subscriptionExpiresAt: expiresAt.toISOString(),
+          subscriptionId: subscription.id,
+          transactionHash: transactionHash || null,
+          paymentNetwork: paymentNetwork || null,
+          transition,
+          ...upgradeDetails,
+        },
+      });
+      return undefined;
     });
 
-    // Record transaction
-    await this.recordTransaction({
-      walletAddress: normalizedAddress,
-      amount: creditsToAdd,
-      balanceAfter: newBalance,
-      type: "subscription",
-      description: `Subscribed to ${tierInfo.name} plan`,
-      metadata: { tier, transactionHash, paymentNetwork },
-    });
+    if (skipped) {
+      return { success: false, subscription, creditsAdded: 0, reason: skipped };
+    }
 
     return {
       success: true,
@@ -456,6 +943,113 @@ class CreditsService {
     };
   }
 
+  /**
+   * Record a downgrade or renewal paid during the current period
+   * The new subscription starts when the current one expires;
+   * startScheduledSubscription switches the tier then.
+   */
+  private async scheduleSubscription(
+    normalizedAddress: string,
+    planChange: PlanChange,
+    audit: AuditContext,
+    transactionHash?: string,
+    paymentNetwork?: string
+  ): Promise<{
+    success: boolean;
+    subscription: Subscription;
+    creditsAdded: number;
+  }> {
+    const tier = planChange.toTier;
+    const tierInfo = SUBSCRIPTION_TIERS[tier];
+    const now = new Date();
+
+    const subscription = await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+      if (user.scheduledSubscriptionId || !user.subscriptionExpiresAt || user.subscriptionExpiresAt <= now) {
+        throw new Error("Subscription changed since the plan change was quoted");
+      }
+
+      const startsAt = user.subscriptionExpiresAt;
+      const expiresAt = new Date(startsAt);
+      expiresAt.setMonth(expiresAt.getMonth() + 1);
+      const subscription: Subscription = {
+        id: `sub_${Date.now()}`,
+        walletAddress: normalizedAddress,
+        tier,
+        priceUsd: planChange.chargeUsd,
+        ...(transactionHash && { transactionHash }),
+        ...(paymentNetwork && { paymentNetwork }),
+        startsAt,
+        expiresAt,
+        autoRenew: !!user.autoRenew,
+        planChange: this.toStoredPlanChange(planChange),
+        createdAt: now,
+      };
+
+      transaction.set(this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(subscription.id), {
+        ...subscription,
+        startsAt: Timestamp.fromDate(startsAt),
+        expiresAt: Timestamp.fromDate(expiresAt),
+        createdAt: Timestamp.fromDate(now),
+      });
+      this.writeUser(transaction, record, {
+        scheduledSubscriptionId: subscription.id,
+        updatedAt: Timestamp.fromDate(now),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: 0,
+        balanceAfter: user.balance,
+        type: "subscription",
+        description: `${tierInfo.name} plan starts on ${startsAt.toLocaleDateString()}`,
+        metadata: {
+          tier,
+          previousTier: user.tier,
+          transition: "change_scheduled",
+          subscriptionId: subscription.id,
+          startsAt: startsAt.toISOString(),
+          ...(transactionHash && { transactionHash }),
+          ...(paymentNetwork && { paymentNetwork }),
+        },
+      });
+      auditLogService.write(transaction, audit, {
+        action: "subscription.activate",
+        targetWallet: normalizedAddress,
+        before: {
+          tier: user.tier,
+          subscriptionExpiresAt: user.subscriptionExpiresAt.toISOString(),
+        },
+        after: {
+          tier: user.tier,
+          scheduledTier: tier,
+          subscriptionId: subscription.id,
+          startsAt: startsAt.toISOString(),
+          subscriptionExpiresAt: expiresAt.toISOString(),
+          transactionHash: transactionHash || null,
+          paymentNetwork: paymentNetwork || null,
+          transition: "change_scheduled",
+        },
+      });
+
+      return subscription;
+    });
+
+    return { success: true, subscription, creditsAdded: 0 };
+  }
+
+  private toStoredPlanChange(planChange: PlanChange): StoredPlanChange {
+    return {
+      kind: planChange.kind,
+      fromTier: planChange.fromTier,
+      ...(planChange.fromSubscriptionId && { fromSubscriptionId: planChange.fromSubscriptionId }),
+      listPriceUsd: planChange.listPriceUsd,
+      prorationCreditUsd: planChange.prorationCreditUsd,
+      unusedFraction: planChange.unusedFraction,
+      creditsAdjustment: planChange.creditsAdjustment,
+    };
+  }
+
   /**
    * Get transaction history
    */
@@ -483,41 +1077,146 @@ class CreditsService {
 
   /**
    * Record a credit transaction
+   * Written in the same Firestore transaction as the balance change it describes.
+   */
+  private recordTransaction(transaction: Transaction, entry: LedgerEntry): void {
+    transaction.set(this.db.collection(COLLECTIONS.CREDIT_TRANSACTIONS).doc(), {
+      ...entry,
+      createdAt: Timestamp.fromDate(new Date()),
+    });
+  }
+
+  private userRef(normalizedAddress: string): DocumentReference {
+    return this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
+  }
+
+  /**
+   * Read a user inside a transaction; a missing user reads as a new free-tier user
    */
-  private async recordTransaction(
-    transaction: Omit<CreditTransaction, "id" | "createdAt">
-  ): Promise<void> {
+  private async readUser(transaction: Transaction, normalizedAddress: string): Promise<UserCreditsRecord> {
+    const ref = this.userRef(normalizedAddress);
+    const doc = await transaction.get(ref);
+
+    if (doc.exists) {
+      return { ref, exists: true, user: this.fromFirestore(normalizedAddress, doc.data()!) };
+    }
+
     const now = new Date();
-    await this.db.collection(COLLECTIONS.CREDIT_TRANSACTIONS).add({
-      ...transaction,
-      createdAt: Timestamp.fromDate(now),
+    return {
+      ref,
+      exists: false,
+      user: {
+        walletAddress: normalizedAddress,
+        balance: 0,
+        tier: "free",
+        subscriptionExpiresAt: null,
+        lastMonthlyClaim: null,
+        lifetimeEarned: 0,
+        lifetimeSpent: 0,
+        createdAt: now,
+        updatedAt: now,
+      },
+    };
+  }
+
+  /**
+   * Apply changes to a user read with readUser, creating the document if needed
+   */
+  private writeUser(transaction: Transaction, record: UserCreditsRecord, changes: UpdateData<DocumentData>): void {
+    if (record.exists) {
+      transaction.update(record.ref, changes);
+      return;
+    }
+
+    const { user } = record;
+    transaction.set(record.ref, {
+      walletAddress: user.walletAddress,
+      balance: user.balance,
+      tier: user.tier,
+      subscriptionExpiresAt: null,
+      lastMonthlyClaim: null,
+      lifetimeEarned: user.lifetimeEarned,
+      lifetimeSpent: user.lifetimeSpent,
+      createdAt: Timestamp.fromDate(user.createdAt),
+      updatedAt: Timestamp.fromDate(user.updatedAt),
+      ...changes,
     });
   }
 
+  private fromFirestore(walletAddress: string, data: DocumentData): UserCredits {
+    const creditHolds: Record<string, CreditHold> = {};
+    for (const [id, hold] of Object.entries(data.creditHolds || {}) as [string, DocumentData][]) {
+      creditHolds[id] = {
+        amount: hold.amount,
+        serviceId: hold.serviceId,
+        description: hold.description,
+        expiresAt: hold.expiresAt.toDate(),
+      };
+    }
+
+    return {
+      ...data,
+      walletAddress,
+      subscriptionExpiresAt: data.subscriptionExpiresAt?.toDate() || null,
+      lastMonthlyClaim: data.lastMonthlyClaim?.toDate() || null,
+      lifecycleRetryAt: data.lifecycleRetryAt?.toDate() || null,
+      creditHolds,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as UserCredits;
+  }
+
+  private hasUnlimitedCredits(user: UserCredits): boolean {
+    return user.tier === "unlimited" && !!user.subscriptionExpiresAt && user.subscriptionExpiresAt > new Date();
+  }
+
+  // Holds that have not expired
+  private activeHolds(user: UserCredits): Record<string, CreditHold> {
+    const now = new Date();
+    return Object.fromEntries(
+      Object.entries(user.creditHolds || {}).filter(([, hold]) => hold.expiresAt > now)
+    );
+  }
+
+  // Balance minus credits held for in-flight interactions
+  private availableBalance(user: UserCredits): number {
+    const held = Object.values(this.activeHolds(user)).reduce((sum, hold) => sum + hold.amount, 0);
+    return user.balance - held;
+  }
+
+  private holdsToFirestore(holds: Record<string, CreditHold>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(holds).map(([id, hold]) => [id, { ...hold, expiresAt: Timestamp.fromDate(hold.expiresAt) }])
+    );
+  }
+
   /**
    * Get user's active subscription
+   * A scheduled plan change (see scheduleSubscription) is not active until it starts.
    */
   async getActiveSubscription(walletAddress: string): Promise<Subscription | null> {
     const normalizedAddress = walletAddress.toLowerCase();
     const now = new Date();
 
+    // At most one subscription is scheduled after the active one
     const snapshot = await this.db
       .collection(COLLECTIONS.SUBSCRIPTIONS)
       .where("walletAddress", "==", normalizedAddress)
       .where("expiresAt", ">", Timestamp.fromDate(now))
       .orderBy("expiresAt", "desc")
-      .limit(1)
+      .limit(2)
       .get();
 
-    if (snapshot.empty) return null;
+    const doc = snapshot.docs.find((candidate) => candidate.data().startsAt?.toDate() <= now);
+    if (!doc) return null;
 
-    const doc = snapshot.docs[0];
     const data = doc.data();
     return {
       ...data,
       id: doc.id,
       startsAt: data.startsAt?.toDate(),
       expiresAt: data.expiresAt?.toDate(),
+      renewalReminderSentAt: data.renewalReminderSentAt?.toDate(),
       createdAt: data.createdAt?.toDate(),
     } as Subscription;
   }
@@ -536,6 +1235,288 @@ class CreditsService {
     return 0;
   }
 
+  // ============================================
+  // Subscription Lifecycle
+  // ============================================
+
+  /**
+   * Opt in or out of renewing the subscription from the prepaid USDC balance
+   * Applies to the active subscription and every later one.
+   */
+  async setAutoRenew(walletAddress: string, enabled: boolean): Promise<{
+    success: boolean;
+    autoRenew: boolean;
+    subscriptionId: string | null;
+  }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const active = await this.getActiveSubscription(normalizedAddress);
+    const transition: SubscriptionTransition = enabled ? "auto_renew_on" : "auto_renew_off";
+
+    await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      if (!!record.user.autoRenew === enabled) return;
+
+      const now = Timestamp.fromDate(new Date());
+      this.writeUser(transaction, record, { autoRenew: enabled, updatedAt: now });
+      if (active) {
+        transaction.update(this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(active.id), { autoRenew: enabled });
+      }
+      if (record.user.scheduledSubscriptionId) {
+        transaction.update(
+          this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(record.user.scheduledSubscriptionId),
+          { autoRenew: enabled }
+        );
+      }
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: 0,
+        balanceAfter: record.user.balance,
+        type: "subscription",
+        description: enabled ? "Auto-renew turned on" : "Auto-renew turned off",
+        metadata: {
+          tier: record.user.tier,
+          transition,
+          ...(active && { subscriptionId: active.id }),
+        },
+      });
+    });
+
+    return { success: true, autoRenew: enabled, subscriptionId: active?.id || null };
+  }
+
+  /**
+   * Users whose subscription expires by the given date, soonest first
+   * Includes already expired ones that have not been moved back to free.
+   * Users the lifecycle job deferred after a failure (deferLifecycle) are skipped
+   * until their retry time, so they cannot fill every batch and starve the rest.
+   */
+  async getSubscriptionsDue(before: Date, limit: number = 100): Promise<UserCredits[]> {
+    const now = new Date();
+    const query = this.db
+      .collection(COLLECTIONS.USER_CREDITS)
+      .where("subscriptionExpiresAt", "<=", Timestamp.fromDate(before))
+      .orderBy("subscriptionExpiresAt", "asc")
+      .limit(limit);
+
+    const due: UserCredits[] = [];
+    let last: QueryDocumentSnapshot | undefined;
+    for (let page = 0; page < MAX_DUE_PAGES && due.length < limit; page++) {
+      const snapshot = await (last ? query.startAfter(last) : query).get();
+      for (const doc of snapshot.docs) {
+        const user = this.fromFirestore(doc.id, doc.data());
+        if (!user.lifecycleRetryAt || user.lifecycleRetryAt <= now) {
+          due.push(user);
+        }
+      }
+      if (snapshot.size < limit) break;
+      last = snapshot.docs[snapshot.size - 1];
+    }
+
+    return due.slice(0, limit);
+  }
+
+  /**
+   * Skip a user in lifecycle runs until the given time (after a failed run)
+   */
+  async deferLifecycle(walletAddress: string, until: Date): Promise<void> {
+    await this.db.collection(COLLECTIONS.USER_CREDITS).doc(walletAddress.toLowerCase()).update({
+      lifecycleRetryAt: Timestamp.fromDate(until),
+    });
+  }
+
+  /**
+   * Move a user whose subscription has expired back to the free tier
+   * Applies the free tier's monthly credits if a monthly claim is due. Does
+   * nothing if the subscription was renewed in the meantime or a plan change is
+   * scheduled to follow it (see startScheduledSubscription).
+   */
+  async expireSubscription(
+    walletAddress: string,
+    audit: AuditContext,
+    details: Record<string, string | number | boolean> = {}
+  ): Promise<{ expired: boolean; creditsAdded: number; newBalance: number }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const freeTier = SUBSCRIPTION_TIERS.free;
+    const now = new Date();
+
+    const result = await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+
+      if (!user.subscriptionExpiresAt || user.subscriptionExpiresAt > now || user.scheduledSubscriptionId) {
+        return { expired: false, creditsAdded: 0, newBalance: user.balance };
+      }
+
+      // Free users with a leftover expiry (set via setUserTier) have nothing to downgrade
+      if (user.tier === "free") {
+        this.writeUser(transaction, record, { subscriptionExpiresAt: null, updatedAt: Timestamp.fromDate(now) });
+        return { expired: false, creditsAdded: 0, newBalance: user.balance };
+      }
+
+      const creditsToAdd = this.canClaimMonthly(user) ? freeTier.creditsPerMonth : 0;
+      const newBalance = user.balance + creditsToAdd;
+
+      this.writeUser(transaction, record, {
+        tier: "free",
+        subscriptionExpiresAt: null,
+        balance: newBalance,
+        lifetimeEarned: user.lifetimeEarned + creditsToAdd,
+        ...(creditsToAdd > 0 && { lastMonthlyClaim: Timestamp.fromDate(now) }),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: creditsToAdd,
+        balanceAfter: newBalance,
+        type: "expiry",
+        description: `${SUBSCRIPTION_TIERS[user.tier].name} plan expired, moved to ${freeTier.name}`,
+        metadata: {
+          tier: "free",
+          previousTier: user.tier,
+          transition: "expired",
+          expiredAt: user.subscriptionExpiresAt.toISOString(),
+          ...details,
+        },
+      });
+      auditLogService.write(transaction, audit, {
+        action: "subscription.expire",
+        targetWallet: normalizedAddress,
+        before: {
+          tier: user.tier,
+          balance: user.balance,
+          subscriptionExpiresAt: user.subscriptionExpiresAt.toISOString(),
+        },
+        after: { tier: "free", balance: newBalance, subscriptionExpiresAt: null, ...details },
+      });
+
+      return { expired: true, creditsAdded: creditsToAdd, newBalance };
+    });
+
+    return result;
+  }
+
+  /**
+   * Start the plan change scheduled for when the current subscription expired
+   * Switches the tier and grants the new tier's monthly credits. Does nothing if
+   * no change is scheduled or it has not started yet.
+   */
+  async startScheduledSubscription(
+    walletAddress: string,
+    audit: AuditContext
+  ): Promise<{ started: boolean; tier?: SubscriptionTier; creditsAdded: number }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const now = new Date();
+
+    const result = await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const { user } = record;
+      if (!user.scheduledSubscriptionId) {
+        return { started: false as const };
+      }
+
+      const subscriptionId = user.scheduledSubscriptionId;
+      const subscription = (await transaction.get(this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(subscriptionId))).data();
+      if (!subscription) {
+        this.writeUser(transaction, record, { scheduledSubscriptionId: null, updatedAt: Timestamp.fromDate(now) });
+        return { started: false as const };
+      }
+      if (subscription.startsAt.toDate() > now) {
+        return { started: false as const };
+      }
+
+      const tier = subscription.tier as SubscriptionTier;
+      const tierInfo = SUBSCRIPTION_TIERS[tier];
+      const creditsToAdd = tierInfo.creditsPerMonth > 0 ? tierInfo.creditsPerMonth : 0;
+      const newBalance = user.balance + creditsToAdd;
+      const transition: SubscriptionTransition = tier === user.tier ? "renewed" : "downgraded";
+      const expiresAt: Date = subscription.expiresAt.toDate();
+
+      this.writeUser(transaction, record, {
+        tier,
+        subscriptionExpiresAt: subscription.expiresAt,
+        scheduledSubscriptionId: null,
+        balance: newBalance,
+        lifetimeEarned: user.lifetimeEarned + creditsToAdd,
+        lastMonthlyClaim: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: creditsToAdd,
+        balanceAfter: newBalance,
+        type: "subscription",
+        description: transition === "renewed"
+          ? `Renewed ${tierInfo.name} plan`
+          : `Switched from ${SUBSCRIPTION_TIERS[user.tier].name} to ${tierInfo.name} plan`,
+        metadata: { tier, previousTier: user.tier, transition, subscriptionId },
+      });
+      auditLogService.write(transaction, audit, {
+        action: "subscription.activate",
+        targetWallet: normalizedAddress,
+        before: {
+          tier: user.tier,
+          balance: user.balance,
+          subscriptionExpiresAt: user.subscriptionExpiresAt?.toISOString() || null,
+        },
+        after: {
+          tier,
+          balance: newBalance,
+          subscriptionExpiresAt: expiresAt.toISOString(),
+          subscriptionId,
+          transition,
+        },
+      });
+
+      return { started: true as const, tier, creditsToAdd };
+    });
+
+    if (!result.started) {
+      return { started: false, creditsAdded: 0 };
+    }
+
+    return { started: true, tier: result.tier, creditsAdded: result.creditsToAdd };
+  }
+
+  /**
+   * Record a renewal reminder for a subscription the prepaid balance cannot renew
+   * Sent once per subscription; returns false if it already was.
+   */
+  async recordRenewalReminder(
+    walletAddress: string,
+    subscriptionId: string,
+    details: { renewalPriceUsd: number; usdcBalance: number }
+  ): Promise<boolean> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const subscriptionRef = this.db.collection(COLLECTIONS.SUBSCRIPTIONS).doc(subscriptionId);
+
+    return this.db.runTransaction(async (transaction) => {
+      const subscriptionDoc = await transaction.get(subscriptionRef);
+      const record = await this.readUser(transaction, normalizedAddress);
+      const subscription = subscriptionDoc.data();
+      if (!subscription || subscription.renewalReminderSentAt) {
+        return false;
+      }
+
+      const now = Timestamp.fromDate(new Date());
+      transaction.update(subscriptionRef, { renewalReminderSentAt: now });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount: 0,
+        balanceAfter: record.user.balance,
+        type: "renewal_reminder",
+        description: `${SUBSCRIPTION_TIERS[subscription.tier as SubscriptionTier].name} plan renews on ${subscription.expiresAt.toDate().toLocaleDateString()}: add $${details.renewalPriceUsd} to your prepaid balance`,
+        metadata: {
+          tier: subscription.tier,
+          transition: "renewal_reminder",
+          subscriptionId,
+          expiresAt: subscription.expiresAt.toDate().toISOString(),
+          ...details,
+        },
+      });
+      return true;
+    });
+  }
+
   // ============================================
   // Admin Methods
   // ============================================
@@ -557,6 +1538,7 @@ class CreditsService {
         id: doc.id,
         startsAt: data.startsAt?.toDate(),
         expiresAt: data.expiresAt?.toDate(),
+        renewalReminderSentAt: data.renewalReminderSentAt?.toDate(),
         createdAt: data.createdAt?.toDate(),
       } as Subscription;
     });
@@ -581,6 +1563,7 @@ class CreditsService {
         id: doc.id,
         startsAt: data.startsAt?.toDate(),
         expiresAt: data.expiresAt?.toDate(),
+        renewalReminderSentAt: data.renewalReminderSentAt?.toDate(),
         createdAt: data.createdAt?.toDate(),
       } as Subscription;
     });
@@ -596,17 +1579,7 @@ class CreditsService {
       .limit(limit)
       .get();
 
-    return snapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        ...data,
-        walletAddress: doc.id,
-        subscriptionExpiresAt: data.subscriptionExpiresAt?.toDate() || null,
-        lastMonthlyClaim: data.lastMonthlyClaim?.toDate() || null,
-        createdAt: data.createdAt?.toDate() || new Date(),
-        updatedAt: data.updatedAt?.toDate() || new Date(),
-      } as UserCredits;
-    });
+    return snapshot.docs.map((doc) => this.fromFirestore(doc.id, doc.data()));
   }
 
   /**
@@ -648,9 +1621,36 @@ class CreditsService {
   async grantBonusCredits(
     walletAddress: string,
     amount: number,
-    reason: string
+    audit: AuditContext
   ): Promise<{ success: boolean; newBalance: number }> {
-    return this.addCredits(walletAddress, amount, "bonus", `Admin bonus: ${reason}`);
+    const normalizedAddress = walletAddress.toLowerCase();
+
+    return this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      const newBalance = record.user.balance + amount;
+
+      this.writeUser(transaction, record, {
+        balance: newBalance,
+        lifetimeEarned: record.user.lifetimeEarned + amount,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      this.recordTransaction(transaction, {
+        walletAddress: normalizedAddress,
+        amount,
+        balanceAfter: newBalance,
+        type: "bonus",
+        description: `Admin bonus: ${audit.reason || "Admin grant"}`,
+        metadata: { grantedBy: audit.actor, requestId: audit.requestId },
+      });
+      auditLogService.write(transaction, audit, {
+        action: "credits.grant",
+        targetWallet: normalizedAddress,
+        before: { balance: record.user.balance },
+        after: { balance: newBalance, amount },
+      });
+
+      return { success: true, newBalance };
+    });
   }
 
   /**
@@ -659,18 +1659,33 @@ class CreditsService {
   async setUserTier(
     walletAddress: string,
     tier: SubscriptionTier,
+    audit: AuditContext,
     expiresAt?: Date
   ): Promise<{ success: boolean }> {
     const normalizedAddress = walletAddress.toLowerCase();
     const now = new Date();
     const defaultExpiry = new Date(now);
     defaultExpiry.setMonth(defaultExpiry.getMonth() + 1);
-
-    const docRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
-    await docRef.update({
-      tier,
-      subscriptionExpiresAt: Timestamp.fromDate(expiresAt || defaultExpiry),
-      updatedAt: Timestamp.fromDate(now),
+    const subscriptionExpiresAt = expiresAt || defaultExpiry;
+
+    await this.db.runTransaction(async (transaction) => {
+      const record = await this.readUser(transaction, normalizedAddress);
+      this.writeUser(transaction, record, {
+        tier,
+        subscriptionExpiresAt: Timestamp.fromDate(subscriptionExpiresAt),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      auditLogService.write(transaction, audit, {
+        action: "tier.set",
+        targetWallet: normalizedAddress,
+        before: record.exists
+          ? {
+              tier: record.user.tier,
+              subscriptionExpiresAt: record.user.subscriptionExpiresAt?.toISOString() || null,
+            }
+          : null,
+        after: { tier, subscriptionExpiresAt: subscriptionExpiresAt.toISOString() },
+      });
     });
 
     return { success: true };
@@ -14,6 +14,7 @@ import { getAgentRuntime } from "./elizaos/AgentRuntimeManager";
 import OpenAI from "openai";
 import { aiServiceConfig } from "@/lib/config/x402";
 import { getStorageService } from "./StorageService";
+import { paymentRequestService } from "./PaymentRequestService";
 
 // Type definitions
 export interface ChatMessage {
@@ -117,7 +118,10 @@ export class ElizaServiceV2 {
       console.log("[ElizaServiceV2] User message memory stored successfully");
 
       // Generate response using OpenRouter directly (bypasses elizaOS model handlers)
-      const responseText = await this.generateResponse(runtime, userMemory, conversationId, projectId);
+      // Payment requests in the reply are re-issued and signed by the server
+      const responseText = paymentRequestService.signPaymentBlocks(
+        await this.generateResponse(runtime, userMemory, conversationId, projectId)
+      );
 
       // Create memory for assistant response via adapter (with project context)
       console.log("[ElizaServiceV2] Storing assistant response memory via adapter", {
@@ -145,6 +149,68 @@ export class ElizaServiceV2 {
     }
   }
 
+  /**
+   * Generate a reply without storing anything in conversation history
+   * Paid routes call this before settlement and storeExchange after it.
+   */
+  async generateReply(request: ChatRequest): Promise<ChatResponse> {
+    const conversationId = request.conversationId || `conv_${this.userWalletAddress}_${Date.now()}`;
+    const runtime = await getAgentRuntime(this.userWalletAddress);
+
+    const userMemory = {
+      content: { text: request.message },
+      roomId: conversationId,
+      userId: this.userWalletAddress,
+      createdAt: new Date(),
+    };
+
+    const responseText = paymentRequestService.signPaymentBlocks(
+      await this.generateResponse(runtime, userMemory, conversationId, request.projectId)
+    );
+
+    return {
+      response: responseText,
+      conversationId,
+      projectId: request.projectId,
+    };
+  }
+
+  /**
+   * Store a user message and the reply generated for it
+   */
+  async storeExchange(request: {
+    message: string;
+    response: string;
+    conversationId: string;
+    projectId?: string;
+    transactionHash?: string;
+    paymentNetwork?: string;
+  }): Promise<void> {
+    const runtime = await getAgentRuntime(this.userWalletAddress);
+    const adapter = (runtime as any).adapter;
+    if (!adapter) {
+      throw new Error("Runtime adapter not available");
+    }
+
+    await adapter.createMemory({
+      content: { text: request.message },
+      roomId: request.conversationId,
+      userId: this.userWalletAddress,
+      createdAt: new Date(),
+    }, request.projectId);
+
+    await adapter.createMemory({
+      content: {
+        text: request.response,
+        ...(request.transactionHash && { transactionHash: request.transactionHash }),
+        ...(request.paymentNetwork && { paymentNetwork: request.paymentNetwork }),
+      },
+      roomId: request.conversationId,
+      agentId: runtime.agentId,
+      createdAt: new Date(),
+    }, request.projectId);
+  }
+
   /**
    * Generate response using OpenRouter directly
    * Bypasses elizaOS useModel which requires model handler registration
@@ -399,9 +465,12 @@ For CODE GENERATION requests:
               : new Date().toISOString(),
           };
 
-          // Include attachment data if present
+          // Include attachment data if present (stored files resolve to a session-checked URL)
           if (contentObj?.attachmentUrl) {
-            message.attachmentPreview = contentObj.attachmentUrl;
+            message.attachmentPreview = getStorageService().resolveAttachmentUrl(
+              contentObj.attachmentUrl,
+              this.userWalletAddress
+            );
             message.attachmentType = contentObj.attachmentType || "image";
           }
 
@@ -470,18 +539,25 @@ For CODE GENERATION requests:
       }
 
       // Build content object with optional attachment
+      // Clients can store any text here, so only server-issued payment requests are kept
       const content: any = {
-        text: request.message,
+        text: paymentRequestService.removeUnsignedPaymentBlocks(request.message),
       };
 
       // Process attachment: upload to Firebase Storage if needed
+      // Stored files are kept as their storage path; signed URLs expire
       if (request.attachment) {
         const storageService = getStorageService();
         let permanentUrl = request.attachment.data;
 
-        // Check if we need to upload to Firebase Storage
-        // Skip if it's already a Firebase Storage URL
-        if (!storageService.isFirebaseStorageUrl(request.attachment.data)) {
+        // Skip the upload if it's already one of this wallet's stored files
+        const storedPath = storageService.isFirebaseStorageUrl(request.attachment.data)
+          ? storageService.getPathFromUrl(request.attachment.data)
+          : null;
+
+        if (storedPath && storageService.isOwnedBy(storedPath, this.userWalletAddress)) {
+          permanentUrl = storedPath;
+        } else if (!storageService.isFirebaseStorageUrl(request.attachment.data)) {
           console.log("[ElizaServiceV2] Uploading attachment to Firebase Storage", {
             type: request.attachment.type,
             isBase64: request.attachment.data.startsWith("data:"),
@@ -495,9 +571,8 @@ For CODE GENERATION requests:
               type: request.attachment.type,
             });
 
-            permanentUrl = uploadResult.url;
+            permanentUrl = uploadResult.path;
             console.log("[ElizaServiceV2] Attachment uploaded to Firebase Storage", {
-              permanentUrl: permanentUrl.substring(0, 80) + "...",
               path: uploadResult.path,
             });
           } catch (uploadError) {
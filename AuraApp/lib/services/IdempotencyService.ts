@@ -0,0 +1,201 @@
+/**
+ * Idempotency Service
+ * Stores the first successful result of a paid request against its
+ * Idempotency-Key, so client retries replay it instead of paying twice.
+ *
+ * Records are keyed by payer + route + key. A record is "processing" while the
+ * first request runs (concurrent retries get a conflict) and "completed" once
+ * it has settled. Processing locks expire so a crashed request never blocks a
+ * key forever; records carry expiresAt for a Firestore TTL policy.
+ *
+ * A completed result is only replayed to a request carrying the same signed
+ * payment authorization that paid for it (authorizationHash; for prepaid calls,
+ * the same API key or session), so knowing a payer's address, key and body is
+ * not enough to read their result.
+ */
+
+import { createHash } from "crypto";
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type DocumentData } from "firebase-admin/firestore";
+
+export type IdempotencyStatus = "processing" | "completed";
+
+export interface IdempotencyRecord {
+  id: string;
+  key: string;
+  payer: string;
+  route: string;
+  requestHash: string; // SHA-256 of the request body
+  authorizationHash?: string; // SHA-256 of the settled payment authorization (or prepaid credential), set on completion
+  status: IdempotencyStatus;
+  responseStatus?: number;
+  responseBody?: string; // Omitted when too large to store
+  responseContentType?: string;
+  paymentResponseHeader?: string;
+  transactionHash?: string;
+  lockedUntil: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type IdempotencyBeginResult =
+  | { outcome: "proceed"; id?: string } // id is undefined if the store is unavailable
+  | { outcome: "replay"; record: IdempotencyRecord }
+  | { outcome: "conflict"; reason: string };
+
+// Longest a paid request may hold a key before a retry can take it over
+const PROCESSING_LOCK_MS = 5 * 60 * 1000;
+// How long completed results can be replayed
+const RECORD_TTL_MS = 24 * 60 * 60 * 1000;
+// Stay well under Firestore's 1 MiB document limit
+const MAX_STORED_BODY_BYTES = 900 * 1024;
+
+export class IdempotencyService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Build the record ID for a payer, route and key
+   */
+  getRecordId(payer: string, route: string, key: string): string {
+    return createHash("sha256").update(`${payer.toLowerCase()}:${route}:${key}`).digest("hex");
+  }
+
+  /**
+   * Claim a key for a request, or find its earlier result
+   * - proceed: no usable record exists; the caller now holds the key
+   * - replay: the same request already completed
+   * - conflict: the key was used with a different body, is still processing,
+   *   or completed under a different payment authorization
+   */
+  async begin(entry: {
+    key: string;
+    payer: string;
+    route: string;
+    requestHash: string;
+    authorizationHash: string;
+  }): Promise<IdempotencyBeginResult> {
+    const id = this.getRecordId(entry.payer, entry.route, entry.key);
+    const docRef = this.db.collection(COLLECTIONS.IDEMPOTENCY_KEYS).doc(id);
+
+    try {
+      return await this.db.runTransaction(async (transaction) => {
+        const now = new Date();
+        const doc = await transaction.get(docRef);
+        const existing = doc.exists ? this.toRecord(doc.id, doc.data()!) : null;
+
+        const usable = existing &&
+          existing.expiresAt > now &&
+          (existing.status === "completed" || existing.lockedUntil > now);
+
+        if (existing && usable) {
+          if (existing.requestHash !== entry.requestHash) {
+            return {
+              outcome: "conflict" as const,
+              reason: "Idempotency-Key has already been used with a different request body",
+            };
+          }
+          if (existing.status === "processing") {
+            return {
+              outcome: "conflict" as const,
+              reason: "A request with this Idempotency-Key is still being processed",
+            };
+          }
+          if (existing.authorizationHash !== entry.authorizationHash) {
+            return {
+              outcome: "conflict" as const,
+              reason: "Idempotency-Key was completed with a different payment authorization; retry with the original PAYMENT-SIGNATURE or credentials",
+            };
+          }
+          return { outcome: "replay" as const, record: existing };
+        }
+
+        transaction.set(docRef, {
+          key: entry.key,
+          payer: entry.payer.toLowerCase(),
+          route: entry.route,
+          requestHash: entry.requestHash,
+          status: "processing" as IdempotencyStatus,
+          lockedUntil: Timestamp.fromDate(new Date(now.getTime() + PROCESSING_LOCK_MS)),
+          expiresAt: Timestamp.fromDate(new Date(now.getTime() + RECORD_TTL_MS)),
+          createdAt: Timestamp.fromDate(now),
+          updatedAt: Timestamp.fromDate(now),
+        });
+        return { outcome: "proceed" as const, id };
+      });
+    } catch (error) {
+      console.error("[Idempotency] Failed to claim key, processing without idempotency:", error);
+      return { outcome: "proceed" };
+    }
+  }
+
+  /**
+   * Store the successful result of a request
+   */
+  async complete(
+    id: string | undefined,
+    result: {
+      responseStatus: number;
+      responseBody: string;
+      responseContentType?: string;
+      paymentResponseHeader?: string;
+      transactionHash?: string;
+      authorizationHash: string;
+    }
+  ): Promise<void> {
+    if (!id) return;
+
+    const bodyTooLarge = Buffer.byteLength(result.responseBody) > MAX_STORED_BODY_BYTES;
+    if (bodyTooLarge) {
+      console.warn("[Idempotency] Response too large to store, retries will only see the payment result:", { id });
+    }
+
+    try {
+      await this.db.collection(COLLECTIONS.IDEMPOTENCY_KEYS).doc(id).update(
+        Object.fromEntries(
+          Object.entries({
+            status: "completed" as IdempotencyStatus,
+            responseStatus: result.responseStatus,
+            responseBody: bodyTooLarge ? undefined : result.responseBody,
+            responseContentType: result.responseContentType,
+            paymentResponseHeader: result.paymentResponseHeader,
+            transactionHash: result.transactionHash,
+            authorizationHash: result.authorizationHash,
+            updatedAt: Timestamp.fromDate(new Date()),
+          }).filter(([, value]) => value !== undefined)
+        )
+      );
+    } catch (error) {
+      console.error("[Idempotency] Failed to store result:", error);
+    }
+  }
+
+  /**
+   * Release a key whose request failed, so it can be retried
+   */
+  async release(id: string | undefined): Promise<void> {
+    if (!id) return;
+
+    try {
+      await this.db.collection(COLLECTIONS.IDEMPOTENCY_KEYS).doc(id).delete();
+    } catch (error) {
+      console.error("[Idempotency] Failed to release key:", error);
+    }
+  }
+
+  private toRecord(id: string, data: DocumentData): IdempotencyRecord {
+    return {
+      ...data,
+      id,
+      lockedUntil: data.lockedUntil?.toDate() || new Date(0),
+      expiresAt: data.expiresAt?.toDate() || new Date(0),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as IdempotencyRecord;
+  }
+}
+
+// Export singleton instance
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,194 @@
+/**
+ * Payment Ledger Service
+ * First-party record of every x402 verify/settle outcome, stored in the payments collection
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type Query } from "firebase-admin/firestore";
+import { toLegacyNetwork } from "@/lib/utils/x402-payment";
+import { x402Config } from "@/lib/config/x402";
+import type { PaymentEnvelope } from "@/lib/middleware/x402";
+import type { RefundStatus } from "@/lib/services/RefundService";
+
+// settle_unknown: the facilitator did not answer the settle request, so the
+// transfer may still land; SettlementReconciliationService resolves it later
+export type PaymentStatus = "pending" | "success" | "failed" | "settle_unknown";
+
+// Where in the payment lifecycle the record last changed
+export type PaymentStage = "verify" | "handler" | "settle";
+
+export interface PaymentRecord {
+  id: string;
+  route: string;
+  payer: string;
+  recipient: string;
+  network: string; // Legacy network name (e.g. "base")
+  amount: string; // Signed value (or prepaid drawdown) in atomic USDC units
+  amountUsd: number;
+  nonce: string;
+  transactionHash?: string;
+  status: PaymentStatus;
+  stage: PaymentStage;
+  error?: string;
+  latencyMs?: number; // From start of verification to the last recorded outcome
+  conversationId?: string;
+  verifiedBy?: string; // Facilitator that verified the authorization
+  settledBy?: string; // Facilitator that settled (or failed to settle) it
+  refundId?: string; // Set when the paid work failed after settlement (see RefundService)
+  refundStatus?: RefundStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Outcome of a payment attempt when it is first recorded
+interface PaymentEntry {
+  route: string;
+  status: PaymentStatus;
+  stage: PaymentStage;
+  error?: string;
+  latencyMs?: number;
+  verifiedBy?: string;
+}
+
+export interface PaymentQuery {
+  payer?: string;
+  network?: string;
+  status?: PaymentStatus;
+  route?: string;
+  transactionHash?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export class PaymentLedgerService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Record a payment attempt for an envelope
+   * Ledger failures are logged and never fail the payment itself.
+   * Returns the record ID, or undefined if the write failed.
+   */
+  async record(envelope: PaymentEnvelope, entry: PaymentEntry): Promise<string | undefined> {
+    return this.add({
+      payer: envelope.authorization?.from?.toLowerCase() || "",
+      recipient: envelope.authorization?.to?.toLowerCase() || "",
+      network: toLegacyNetwork(envelope.network) || envelope.network,
+      amount: envelope.authorization?.value || "0",
+      nonce: envelope.authorization?.nonce || "",
+    }, entry);
+  }
+
+  /**
+   * Record a payment drawn from a prepaid balance (no signed authorization)
+   * The amount is what will be drawn down, not a signed value.
+   */
+  async recordPrepaid(payer: string, amount: bigint, entry: PaymentEntry): Promise<string | undefined> {
+    return this.add({
+      payer: payer.toLowerCase(),
+      recipient: x402Config.payTo.toLowerCase(),
+      network: x402Config.network,
+      amount: amount.toString(),
+      nonce: "",
+    }, entry);
+  }
+
+  private async add(
+    payment: Pick<PaymentRecord, "payer" | "recipient" | "network" | "amount" | "nonce">,
+    entry: PaymentEntry
+  ): Promise<string | undefined> {
+    const now = new Date();
+
+    try {
+      const docRef = await this.db.collection(COLLECTIONS.PAYMENTS).add(this.compact({
+        route: entry.route,
+        ...payment,
+        amountUsd: Number(payment.amount) / 1_000_000,
+        status: entry.status,
+        stage: entry.stage,
+        error: entry.error,
+        latencyMs: entry.latencyMs,
+        verifiedBy: entry.verifiedBy,
+        createdAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      }));
+      return docRef.id;
+    } catch (error) {
+      console.error("[PaymentLedger] Failed to record payment:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Update the outcome of a recorded payment
+   */
+  async update(
+    paymentId: string | undefined,
+    update: Partial<Pick<PaymentRecord, "status" | "stage" | "error" | "transactionHash" | "latencyMs" | "conversationId" | "settledBy" | "refundId" | "refundStatus">>
+  ): Promise<void> {
+    if (!paymentId) return;
+
+    try {
+      await this.db.collection(COLLECTIONS.PAYMENTS).doc(paymentId).update(this.compact({
+        ...update,
+        updatedAt: Timestamp.fromDate(new Date()),
+      }));
+    } catch (error) {
+      console.error("[PaymentLedger] Failed to update payment:", error);
+    }
+  }
+
+  /**
+   * Query the ledger, newest first
+   * Equality filters combined with a date range need matching composite indexes in Firestore.
+   */
+  async query(filters: PaymentQuery = {}): Promise<{
+    payments: PaymentRecord[];
+    totalCount: number;
+  }> {
+    let query: Query = this.db.collection(COLLECTIONS.PAYMENTS);
+
+    if (filters.payer) query = query.where("payer", "==", filters.payer.toLowerCase());
+    if (filters.network) query = query.where("network", "==", filters.network);
+    if (filters.status) query = query.where("status", "==", filters.status);
+    if (filters.route) query = query.where("route", "==", filters.route);
+    if (filters.transactionHash) query = query.where("transactionHash", "==", filters.transactionHash);
+    if (filters.startDate) query = query.where("createdAt", ">=", Timestamp.fromDate(filters.startDate));
+    if (filters.endDate) query = query.where("createdAt", "<=", Timestamp.fromDate(filters.endDate));
+
+    const countSnapshot = await query.count().get();
+    const limit = Math.min(Math.max(1, filters.limit || 50), 1000);
+
+    const snapshot = await query
+      .orderBy("createdAt", "desc")
+      .offset(Math.max(0, filters.offset || 0))
+      .limit(limit)
+      .get();
+
+    return {
+      payments: snapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date(),
+        } as PaymentRecord;
+      }),
+      totalCount: countSnapshot.data().count,
+    };
+  }
+
+  // Firestore rejects undefined field values
+  private compact<T extends Record<string, unknown>>(data: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
+}
+
+// Export singleton instance
+export const paymentLedgerService = new PaymentLedgerService();
@@ -0,0 +1,137 @@
+/**
+ * Payment Nonce Service
+ * Local replay ledger for EIP-3009 authorizations, keyed by network + payer + nonce
+ *
+ * A nonce is reserved atomically (Firestore create) before the facilitator is
+ * called, so two requests carrying the same PAYMENT-SIGNATURE can never both
+ * reach verification. Records carry expiresAt (the authorization's validBefore)
+ * so a Firestore TTL policy on that field can purge them once they are unusable.
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp } from "firebase-admin/firestore";
+import { toCAIP2Network } from "@/lib/utils/x402-payment";
+import type { PaymentEnvelope } from "@/lib/middleware/x402";
+
+export type PaymentNonceStatus = "reserved" | "settled" | "rejected" | "settle_unknown";
+
+export interface PaymentNonceRecord {
+  id: string;
+  network: string; // CAIP-2
+  payer: string;
+  nonce: string;
+  route: string;
+  value: string;
+  status: PaymentNonceStatus;
+  transactionHash?: string;
+  reason?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Firestore gRPC status code for a create() on an existing document
+const ALREADY_EXISTS = 6;
+
+export class PaymentNonceService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Build the ledger document ID for an envelope
+   */
+  getNonceId(envelope: PaymentEnvelope): string {
+    const network = toCAIP2Network(envelope.network);
+    return `${network}:${envelope.authorization.from.toLowerCase()}:${envelope.authorization.nonce.toLowerCase()}`;
+  }
+
+  /**
+   * Reserve an authorization nonce
+   * Returns reserved: false if the nonce has been seen before.
+   * If the ledger itself is unavailable the reservation is skipped and the
+   * facilitator remains the final authority on nonce reuse.
+   */
+  async reserve(envelope: PaymentEnvelope, route: string): Promise<{
+    reserved: boolean;
+    reason?: string;
+  }> {
+    const id = this.getNonceId(envelope);
+    const now = new Date();
+    const expiresAt = new Date(Number(envelope.authorization.validBefore) * 1000);
+
+    try {
+      await this.db.collection(COLLECTIONS.PAYMENT_NONCES).doc(id).create({
+        network: toCAIP2Network(envelope.network),
+        payer: envelope.authorization.from.toLowerCase(),
+        nonce: envelope.authorization.nonce.toLowerCase(),
+        route,
+        value: envelope.authorization.value,
+        status: "reserved" as PaymentNonceStatus,
+        expiresAt: Timestamp.fromDate(expiresAt),
+        createdAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      });
+      return { reserved: true };
+    } catch (error) {
+      if ((error as { code?: number }).code === ALREADY_EXISTS) {
+        console.warn("❌ Replayed payment authorization:", { id, route });
+        return {
+          reserved: false,
+          reason: "Payment authorization has already been used. Please sign a new payment.",
+        };
+      }
+
+      console.error("[PaymentNonce] Failed to reserve nonce, deferring to facilitator:", error);
+      return { reserved: true };
+    }
+  }
+
+  /**
+   * Mark a reserved nonce as settled on-chain
+   */
+  async markSettled(envelope: PaymentEnvelope, transactionHash?: string): Promise<void> {
+    await this.updateStatus(envelope, { status: "settled", transactionHash });
+  }
+
+  /**
+   * Mark a reserved nonce as rejected (verification or settlement failed)
+   * The nonce stays consumed: the client must sign a fresh authorization.
+   */
+  async markRejected(envelope: PaymentEnvelope, reason: string): Promise<void> {
+    await this.updateStatus(envelope, { status: "rejected", reason });
+  }
+
+  /**
+   * Mark a reserved nonce whose settlement outcome is unknown (see SettlementReconciliationService)
+   */
+  async markUnknown(envelope: PaymentEnvelope, reason: string): Promise<void> {
+    await this.updateStatus(envelope, { status: "settle_unknown", reason });
+  }
+
+  /**
+   * Record the reconciled outcome of a settle_unknown nonce, by nonce ID
+   * The record may already have been purged by its TTL, which is not an error.
+   */
+  async markReconciled(id: string, settled: boolean, reason: string): Promise<void> {
+    await this.updateStatus(id, { status: settled ? "settled" : "rejected", reason });
+  }
+
+  private async updateStatus(
+    envelopeOrId: PaymentEnvelope | string,
+    update: { status: PaymentNonceStatus; transactionHash?: string; reason?: string }
+  ): Promise<void> {
+    const id = typeof envelopeOrId === "string" ? envelopeOrId : this.getNonceId(envelopeOrId);
+    try {
+      await this.db.collection(COLLECTIONS.PAYMENT_NONCES).doc(id).update({
+        ...Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)),
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+    } catch (error) {
+      console.error("[PaymentNonce] Failed to update nonce status:", error);
+    }
+  }
+}
+
+// Export singleton instance
+export const paymentNonceService = new PaymentNonceService();
@@ -0,0 +1,199 @@
+/**
+ * Payment Request Service
+ * Server-issued payment requests for chat.
+ *
+ * The chat UI shows a pay button for a ```json block holding a `paymentRequest`.
+ * Model output and stored assistant messages can contain anything, so a request
+ * is only trusted when the server issued it: endpoint, price, payTo, network and
+ * expiry come from the payment config (never from the model) and are signed with
+ * HMAC-SHA256. The client asks /api/payment/requests/verify before rendering one.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { x402Config, paymentRoutes } from "@/lib/config/x402";
+
+// How long an issued payment request can be paid
+export const paymentRequestPolicy = {
+  ttlSeconds: parseInt(process.env.PAYMENT_REQUEST_TTL_SECONDS || "900", 10),
+};
+
+export interface SignedPaymentRequest {
+  paymentId: string;
+  endpoint: string;
+  method: string;
+  price: string; // e.g. "$0.05"
+  network: string;
+  payTo: string;
+  facilitator: string;
+  description: string;
+  requestData: Record<string, unknown>;
+  expiresAt: number; // Epoch seconds
+  signature: string;
+}
+
+export interface PaymentRequestCheck {
+  valid: boolean; // Issued by this server and not modified
+  expired: boolean;
+}
+
+// ```json blocks, as the chat UI finds them
+const JSON_BLOCK_PATTERN = /```json\s*([\s\S]*?)\s*```/g;
+
+export class PaymentRequestService {
+  private devSecret: string | undefined;
+
+  /**
+   * Issue a signed payment request for a paid endpoint
+   * Returns null when the endpoint is not a paid route.
+   */
+  issue(params: {
+    endpoint: string;
+    paymentId?: string;
+    description?: string;
+    requestData?: Record<string, unknown>;
+  }): SignedPaymentRequest | null {
+    const priceUsd = paymentRoutes[params.endpoint as keyof typeof paymentRoutes];
+    if (priceUsd === undefined) {
+      return null;
+    }
+
+    const unsigned: Omit<SignedPaymentRequest, "signature"> = {
+      paymentId: params.paymentId && /^pay_\w{1,64}$/.test(params.paymentId)
+        ? params.paymentId
+        : `pay_${Date.now()}_${randomBytes(4).toString("hex")}`,
+      endpoint: params.endpoint,
+      method: "POST",
+      price: `$${priceUsd}`,
+      network: x402Config.network,
+      payTo: x402Config.payTo,
+      facilitator: x402Config.facilitatorUrl,
+      description: params.description || "AI Service Request",
+      requestData: params.requestData || {},
+      expiresAt: Math.floor(Date.now() / 1000) + paymentRequestPolicy.ttlSeconds,
+    };
+
+    return { ...unsigned, signature: this.sign(unsigned) };
+  }
+
+  /**
+   * Check a payment request's signature and expiry
+   */
+  verify(request: unknown): PaymentRequestCheck {
+    const candidate = request as Partial<SignedPaymentRequest> | null;
+    if (!candidate || typeof candidate !== "object" || typeof candidate.signature !== "string") {
+      return { valid: false, expired: false };
+    }
+
+    const { signature, ...unsigned } = candidate as SignedPaymentRequest;
+    const expected = Buffer.from(this.sign(unsigned));
+    const actual = Buffer.from(signature);
+    const valid = expected.length === actual.length && timingSafeEqual(expected, actual);
+
+    return {
+      valid,
+      expired: !(typeof unsigned.expiresAt === "number" && unsigned.expiresAt > Date.now() / 1000),
+    };
+  }
+
+  /**
+   * Replace the payment request the model wrote with a server-issued one
+   * Only the endpoint, paymentId, description and requestData are taken from the
+   * model. Blocks for unknown endpoints, and any after the first, are removed.
+   */
+  signPaymentBlocks(content: string): string {
+    let issued = false;
+
+    return this.replacePaymentBlocks(content, (paymentRequest) => {
+      if (issued || typeof paymentRequest.endpoint !== "string") {
+        return "";
+      }
+
+      const signed = this.issue({
+        endpoint: paymentRequest.endpoint,
+        paymentId: typeof paymentRequest.paymentId === "string" ? paymentRequest.paymentId : undefined,
+        description: typeof paymentRequest.description === "string" ? paymentRequest.description : undefined,
+        requestData: isRecord(paymentRequest.requestData) ? paymentRequest.requestData : undefined,
+      });
+      if (!signed) {
+        console.warn(`[PaymentRequestService] Dropped payment request for unpaid endpoint ${paymentRequest.endpoint}`);
+        return "";
+      }
+
+      issued = true;
+      return toJsonBlock(signed);
+    });
+  }
+
+  /**
+   * Remove payment request blocks this server did not issue
+   * Used for assistant messages stored on a client's behalf.
+   */
+  removeUnsignedPaymentBlocks(content: string): string {
+    return this.replacePaymentBlocks(content, (paymentRequest, block) =>
+      this.verify(paymentRequest).valid ? block : ""
+    );
+  }
+
+  private replacePaymentBlocks(
+    content: string,
+    replace: (paymentRequest: Record<string, unknown>, block: string) => string
+  ): string {
+    const replaced = content.replace(JSON_BLOCK_PATTERN, (block, json: string) => {
+      if (!json.includes("paymentRequest")) return block;
+
+      try {
+        const parsed = JSON.parse(json);
+        return isRecord(parsed?.paymentRequest) ? replace(parsed.paymentRequest, block) : "";
+      } catch {
+        // Unparseable blocks that mention paymentRequest are not shown either
+        return "";
+      }
+    });
+
+    return replaced === content ? content : replaced.replace(/\n{3,}/g, "\n\n").trim();
+  }
+
+  private sign(request: Omit<SignedPaymentRequest, "signature">): string {
+    // Fixed field order so the signature does not depend on how the JSON was serialized
+    const payload = JSON.stringify([
+      request.paymentId,
+      request.endpoint,
+      request.method,
+      request.price,
+      request.network,
+      request.payTo,
+      request.facilitator,
+      request.description,
+      request.requestData,
+      request.expiresAt,
+    ]);
+    return createHmac("sha256", this.secret).update(`payment-request:${payload}`).digest("base64url");
+  }
+
+  private get secret(): string {
+    const secret = process.env.PAYMENT_REQUEST_SECRET || process.env.SESSION_SECRET;
+    if (secret) return secret;
+
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("PAYMENT_REQUEST_SECRET or SESSION_SECRET must be set in production");
+    }
+
+    // Development: issued requests stop verifying when the server restarts
+    if (!this.devSecret) {
+      console.warn("⚠️ PAYMENT_REQUEST_SECRET not set, using a random per-process secret");
+      this.devSecret = randomBytes(32).toString("hex");
+    }
+    return this.devSecret;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toJsonBlock(paymentRequest: SignedPaymentRequest): string {
+  return `\`\`\`json\n${JSON.stringify({ paymentRequest }, null, 2)}\n\`\`\``;
+}
+
+// Export singleton instance
+export const paymentRequestService = new PaymentRequestService();
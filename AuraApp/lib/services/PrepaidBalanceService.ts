@@ -0,0 +1,172 @@
+/**
+ * Prepaid Balance Service
+ * Per-wallet USDC balance stored on the user_credits document (usdcBalance,
+ * atomic units). Deposits are settled x402 payments; paid routes draw the
+ * balance down instead of settling each call on-chain. Every change is
+ * recorded in credit_transactions with unit "usdc".
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp } from "firebase-admin/firestore";
+
+export class PrepaidBalanceService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Get a wallet's prepaid balance in atomic USDC units
+   */
+  async getBalance(walletAddress: string): Promise<bigint> {
+    const doc = await this.db.collection(COLLECTIONS.USER_CREDITS).doc(walletAddress.toLowerCase()).get();
+    return BigInt(doc.data()?.usdcBalance || 0);
+  }
+
+  /**
+   * Credit a settled deposit to a wallet's balance
+   */
+  async deposit(
+    walletAddress: string,
+    amount: bigint,
+    payment: { transactionHash?: string; network?: string }
+  ): Promise<{ balanceAfter: bigint }> {
+    const balanceAfter = await this.credit(walletAddress, amount, {
+      type: "deposit",
+      description: "Prepaid USDC deposit",
+      metadata: {
+        ...(payment.transactionHash && { transactionHash: payment.transactionHash }),
+        ...(payment.network && { paymentNetwork: payment.network }),
+      },
+    });
+
+    console.log(`💰 [Prepaid] Deposited ${Number(amount) / 1_000_000} USDC for ${walletAddress.toLowerCase()}`);
+    return { balanceAfter };
+  }
+
+  /**
+   * Return a drawn-down amount to a wallet's balance (see RefundService)
+   */
+  async refund(
+    walletAddress: string,
+    amount: bigint,
+    refund: { refundId: string; route: string }
+  ): Promise<{ balanceAfter: bigint }> {
+    const balanceAfter = await this.credit(walletAddress, amount, {
+      type: "refund",
+      serviceId: refund.route,
+      description: `Refund: ${refund.route}`,
+      metadata: { refundId: refund.refundId },
+    });
+
+    console.log(`🔁 [Prepaid] Refunded ${Number(amount) / 1_000_000} USDC to ${walletAddress.toLowerCase()}`);
+    return { balanceAfter };
+  }
+
+  /**
+   * Draw down a wallet's balance for a paid call
+   * Returns success: false without changing anything if the balance does not
+   * cover the amount; the paid call's result is then withheld with a 402
+   * (see settlePrepaidPayment in lib/middleware/x402.ts).
+   */
+  async spend(
+    walletAddress: string,
+    amount: bigint,
+    call: { route: string; paymentId?: string; apiKeyId?: string }
+  ): Promise<{ success: boolean; balanceAfter?: bigint }> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const userRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
+    const transactionRef = this.db.collection(COLLECTIONS.CREDIT_TRANSACTIONS).doc();
+
+    try {
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(userRef);
+        const balance = BigInt(doc.data()?.usdcBalance || 0);
+        if (!doc.exists || balance < amount) {
+          return { success: false };
+        }
+
+        const newBalance = balance - amount;
+        const now = Timestamp.fromDate(new Date());
+
+        transaction.update(userRef, {
+          usdcBalance: Number(newBalance),
+          updatedAt: now,
+        });
+
+        transaction.set(transactionRef, {
+          walletAddress: normalizedAddress,
+          amount: -Number(amount) / 1_000_000,
+          balanceAfter: Number(newBalance) / 1_000_000,
+          type: "usdc_spend",
+          unit: "usdc",
+          serviceId: call.route,
+          description: `Prepaid balance: ${call.route}`,
+          metadata: {
+            amountAtomic: amount.toString(),
+            ...(call.paymentId && { paymentId: call.paymentId }),
+            ...(call.apiKeyId && { apiKeyId: call.apiKeyId }),
+          },
+          createdAt: now,
+        });
+
+        return { success: true, balanceAfter: newBalance };
+      });
+    } catch (error) {
+      // Reported as not drawn: the caller withholds the result rather than serve it unpaid
+      console.error("[Prepaid] Failed to draw down balance:", error);
+      return { success: false };
+    }
+  }
+
+  /**
+   * Add to a wallet's balance and record the transaction atomically
+   */
+  private async credit(
+    walletAddress: string,
+    amount: bigint,
+    entry: { type: "deposit" | "refund"; description: string; serviceId?: string; metadata: Record<string, unknown> }
+  ): Promise<bigint> {
+    const normalizedAddress = walletAddress.toLowerCase();
+    const userRef = this.db.collection(COLLECTIONS.USER_CREDITS).doc(normalizedAddress);
+    const transactionRef = this.db.collection(COLLECTIONS.CREDIT_TRANSACTIONS).doc();
+
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(userRef);
+      const newBalance = BigInt(doc.data()?.usdcBalance || 0) + amount;
+      const now = Timestamp.fromDate(new Date());
+
+      // merge: the user_credits document may not exist yet
+      transaction.set(userRef, {
+        walletAddress: normalizedAddress,
+        usdcBalance: Number(newBalance),
+        updatedAt: now,
+        ...(!doc.exists && {
+          balance: 0,
+          tier: "free",
+          subscriptionExpiresAt: null,
+          lastMonthlyClaim: null,
+          lifetimeEarned: 0,
+          lifetimeSpent: 0,
+          createdAt: now,
+        }),
+      }, { merge: true });
+
+      transaction.set(transactionRef, {
+        walletAddress: normalizedAddress,
+        amount: Number(amount) / 1_000_000,
+        balanceAfter: Number(newBalance) / 1_000_000,
+        type: entry.type,
+        unit: "usdc",
+        ...(entry.serviceId && { serviceId: entry.serviceId }),
+        description: entry.description,
+        metadata: { amountAtomic: amount.toString(), ...entry.metadata },
+        createdAt: now,
+      });
+
+      return newBalance;
+    });
+  }
+}
+
+// Export singleton instance
+export const prepaidBalanceService = new PrepaidBalanceService();
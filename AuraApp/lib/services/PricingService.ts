@@ -0,0 +1,224 @@
+/**
+ * Pricing Service
+ * Single source of truth for x402 route prices, including usage-based pricing,
+ * subscription discounts and prorated plan changes
+ */
+
+import { paymentRoutes, subscriptionPricing, usagePricing, type RequestUsage } from "@/lib/config/x402";
+import { parsePriceToUSDC } from "@/lib/utils/x402-payment";
+import { getAudioDurationSeconds } from "@/lib/utils/audio-duration";
+import { ValidationError } from "@/lib/errors";
+import type { PlanChange, SubscriptionTier } from "@/lib/services/CreditsService";
+
+export interface PriceQuote {
+  route: string;
+  originalPrice: number; // USD, from paymentRoutes (scaled by usage for usage-priced routes)
+  finalPrice: number; // USD, after subscription discount
+  discountPercent: number;
+  tier: SubscriptionTier;
+  amount: bigint; // Atomic USDC units (6 decimals) of finalPrice
+  usage?: RequestUsage; // Measured usage the price was computed from
+  planChange?: PlanChange; // Subscription routes: how the payer's plan changes, finalPrice is its charge
+}
+
+// Subscription purchases are /api/subscription/{tier}
+const SUBSCRIPTION_ROUTE_PREFIX = "/api/subscription/";
+
+// Credit packs are /api/credits/purchase/{pack}; their bonus credits are the discount
+const CREDIT_PACK_ROUTE_PREFIX = "/api/credits/purchase/";
+
+export class PricingService {
+  /**
+   * Quote the price of a paid route for a payer
+   * Returns null when the route is not configured for payment.
+   * Without a payer (e.g. an unsigned 402 request) the full price is quoted.
+   * Usage-priced routes are quoted at their base price unless usage is given.
+   * Subscription routes are prorated against the payer's current plan instead
+   * of discounted (see quotePlanChange), and credit packs are sold at list price.
+   */
+  async quote(
+    route: string,
+    payer?: string | null,
+    usage?: RequestUsage
+  ): Promise<PriceQuote | null> {
+    // Extract just the path if route includes method prefix
+    const routePath = route.includes(" ") ? route.split(" ")[1] : route;
+
+    const basePrice = paymentRoutes[routePath as keyof typeof paymentRoutes];
+    if (basePrice === undefined) {
+      return null;
+    }
+
+    const subscriptionTier = routePath.startsWith(SUBSCRIPTION_ROUTE_PREFIX)
+      ? routePath.slice(SUBSCRIPTION_ROUTE_PREFIX.length)
+      : null;
+    if (subscriptionTier && subscriptionTier in subscriptionPricing) {
+      return this.quotePlanChange(routePath, basePrice, subscriptionTier as keyof typeof subscriptionPricing, payer);
+    }
+
+    const rule = usagePricing[routePath];
+    const originalPrice = rule && usage
+      ? Math.round(rule.price(basePrice, usage) * 1e6) / 1e6
+      : basePrice;
+
+    const { tier, discountPercent } = routePath.startsWith(CREDIT_PACK_ROUTE_PREFIX)
+      ? { tier: "free" as SubscriptionTier, discountPercent: 0 }
+      : await this.resolveDiscount(payer);
+
+    // Round to USDC precision so float artifacts never leak into atomic amounts
+    const finalPrice = discountPercent > 0
+      ? Math.round(originalPrice * (1 - discountPercent / 100) * 1e6) / 1e6
+      : originalPrice;
+
+    if (discountPercent > 0) {
+      console.log(`[Pricing] Applied ${discountPercent}% ${tier} discount for ${payer}: $${originalPrice} → $${finalPrice}`);
+    }
+
+    return {
+      route: routePath,
+      originalPrice,
+      finalPrice,
+      discountPercent,
+      tier,
+      amount: parsePriceToUSDC(`$${finalPrice}`),
+      usage: rule && usage ? usage : undefined,
+    };
+  }
+
+  /**
+   * Measure the usage of a request to a usage-priced route
+   * Reads a clone, so the handler can still consume the body. Returns undefined
+   * for flat-priced routes and for JSON bodies that cannot be parsed (the handler
+   * rejects those, so they are never settled). Audio is measured on the "file"
+   * field the handler transcribes; a missing or unreadable file throws a
+   * ValidationError rather than being quoted at the base price.
+   */
+  async measureUsage(route: string, request: Request): Promise<RequestUsage | undefined> {
+    const routePath = route.includes(" ") ? route.split(" ")[1] : route;
+    const rule = usagePricing[routePath];
+    if (!rule || request.bodyUsed) {
+      return undefined;
+    }
+
+    if (rule.measure === "audioSeconds") {
+      return { audioSeconds: await this.measureAudioSeconds(request) };
+    }
+
+    try {
+      switch (rule.measure) {
+        case "characters": {
+          const body = await request.clone().json();
+          return { characters: this.countCharacters(body) };
+        }
+        case "imageSize": {
+          const body = await request.clone().json();
+          return { imageSize: typeof body?.size === "string" ? body.size : "1024x1024" };
+        }
+      }
+    } catch (error) {
+      console.warn(`[Pricing] Could not measure usage for ${routePath}, using base price:`, error);
+      return undefined;
+    }
+  }
+
+  // Duration of the "file" field of a multipart body, the one the transcribe handler reads
+  private async measureAudioSeconds(request: Request): Promise<number> {
+    let file: FormDataEntryValue | null;
+    try {
+      file = (await request.clone().formData()).get("file");
+    } catch {
+      throw new ValidationError("Expected a multipart/form-data body with an audio \"file\" field");
+    }
+    if (!file || typeof file === "string") {
+      throw new ValidationError("No audio file provided in the \"file\" field");
+    }
+
+    const seconds = getAudioDurationSeconds(new Uint8Array(await file.arrayBuffer()));
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      throw new ValidationError("Could not determine the duration of the audio file");
+    }
+    return Math.ceil(seconds);
+  }
+
+  // Total length of every string value in a JSON body
+  private countCharacters(value: unknown): number {
+    if (typeof value === "string") return value.length;
+    if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + this.countCharacters(item), 0);
+    if (value && typeof value === "object") {
+      return Object.values(value).reduce((sum: number, item) => sum + this.countCharacters(item), 0);
+    }
+    return 0;
+  }
+
+  /**
+   * Quote a subscription purchase as a change to the payer's current plan
+   * Upgrades are charged the list price less the unused time on the current
+   * plan; downgrades and renewals are charged in full. Falls back to the full
+   * price if the credits store is unavailable.
+   */
+  private async quotePlanChange(
+    routePath: string,
+    basePrice: number,
+    tier: keyof typeof subscriptionPricing,
+    payer?: string | null
+  ): Promise<PriceQuote> {
+    let planChange: PlanChange | undefined;
+    if (payer && /^0x[a-fA-F0-9]{40}$/.test(payer)) {
+      try {
+        const { creditsService } = await import("@/lib/services/CreditsService");
+        planChange = await creditsService.getPlanChange(payer, tier);
+      } catch (error) {
+        console.warn("[Pricing] Failed to resolve plan change, using full price:", error);
+      }
+    }
+
+    const finalPrice = planChange ? planChange.chargeUsd : basePrice;
+    if (planChange?.kind === "upgrade") {
+      console.log(`[Pricing] Prorated ${planChange.fromTier} → ${tier} upgrade for ${payer}: $${basePrice} → $${finalPrice}`);
+    }
+
+    return {
+      route: routePath,
+      originalPrice: basePrice,
+      finalPrice,
+      discountPercent: 0,
+      tier: planChange && planChange.kind !== "new" ? planChange.fromTier : "free",
+      amount: parsePriceToUSDC(`$${finalPrice}`),
+      planChange,
+    };
+  }
+
+  /**
+   * Resolve the payer's subscription tier and discount
+   * Falls back to full price if the credits store is unavailable.
+   */
+  private async resolveDiscount(payer?: string | null): Promise<{
+    tier: SubscriptionTier;
+    discountPercent: number;
+  }> {
+    if (!payer || !/^0x[a-fA-F0-9]{40}$/.test(payer)) {
+      return { tier: "free", discountPercent: 0 };
+    }
+
+    try {
+      // Lazy import keeps Firestore out of the module graph of routes that never get a payer
+      const { creditsService, SUBSCRIPTION_TIERS } = await import("@/lib/services/CreditsService");
+      const user = await creditsService.getOrCreateUser(payer);
+      const subscriptionActive = user.tier !== "free" &&
+        user.subscriptionExpiresAt !== null &&
+        user.subscriptionExpiresAt > new Date();
+
+      if (!subscriptionActive) {
+        return { tier: "free", discountPercent: 0 };
+      }
+
+      return { tier: user.tier, discountPercent: SUBSCRIPTION_TIERS[user.tier].discountPercent };
+    } catch (error) {
+      console.warn("[Pricing] Failed to resolve subscription discount, using full price:", error);
+      return { tier: "free", discountPercent: 0 };
+    }
+  }
+}
+
+// Export singleton instance
+export const pricingService = new PricingService();
@@ -0,0 +1,179 @@
+/**
+ * Rate Limit Service
+ * Token-bucket rate limiting per route group and caller (see lib/config/rate-limit.ts).
+ *
+ * Buckets live in process memory in development and in the rate_limits
+ * collection when several instances must share them. Firestore buckets carry
+ * expiresAt (when the bucket would be full again) for a Firestore TTL policy.
+ * A bucket update that loses to concurrent requests for the same caller is a
+ * denial, since that contention is what a flood from one caller looks like.
+ * If the store is otherwise unavailable, "paid" requests are denied (the
+ * limiter protects spend) and other groups are allowed, so the limiter does
+ * not take the rest of the API down with it.
+ */
+
+import { createHash } from "crypto";
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  getRateLimitBackend,
+  getRateLimitPolicy,
+  type RateLimitGroup,
+  type RateLimitPolicy,
+} from "@/lib/config/rate-limit";
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this request
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // Epoch ms
+}
+
+interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision>;
+}
+
+// Past this many buckets the memory store drops the ones that have refilled
+// completely, then the least recently used down to MEMORY_BUCKETS_AFTER_PRUNE
+const MAX_MEMORY_BUCKETS = 10_000;
+const MEMORY_BUCKETS_AFTER_PRUNE = 9_000;
+
+// Firestore gRPC status code for a transaction aborted by contention
+const ABORTED = 10;
+
+// Retry-After for requests denied because the store could not decide
+const UNDECIDED_RETRY_SECONDS = 5;
+
+/**
+ * Refill a bucket up to now and take one token from it if there is one
+ */
+function takeToken(
+  bucket: Bucket | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { bucket: Bucket; decision: RateLimitDecision } {
+  const refillPerMs = policy.refillPerMinute / 60_000;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket ? Math.min(policy.capacity, bucket.tokens + elapsed * refillPerMs) : policy.capacity;
+
+  if (tokens >= 1) {
+    return {
+      bucket: { tokens: tokens - 1, updatedAt: now },
+      decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 },
+    };
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    decision: {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: refillPerMs > 0 ? Math.ceil((1 - tokens) / refillPerMs / 1000) : 60,
+    },
+  };
+}
+
+/**
+ * When a bucket will be full again (nothing to remember after that)
+ */
+function fullAt(bucket: Bucket, policy: RateLimitPolicy): number {
+  const refillPerMs = policy.refillPerMinute / 60_000;
+  return refillPerMs > 0 ? bucket.updatedAt + (policy.capacity - bucket.tokens) / refillPerMs : Infinity;
+}
+
+class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision> {
+    const { bucket, decision } = takeToken(this.buckets.get(key), policy, now);
+    // Re-insert so the map stays in least recently used order
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+
+    if (this.buckets.size > MAX_MEMORY_BUCKETS) {
+      this.prune(policy, now);
+    }
+    return decision;
+  }
+
+  private prune(policy: RateLimitPolicy, now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (fullAt(bucket, policy) <= now) {
+        this.buckets.delete(key);
+      }
+    }
+    // Still full of active buckets: evict the least recently used so the next
+    // requests do not each scan the whole map again
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size <= MEMORY_BUCKETS_AFTER_PRUNE) break;
+      this.buckets.delete(key);
+    }
+  }
+}
+
+class FirestoreRateLimitStore implements RateLimitStore {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision> {
+    const docRef = this.db
+      .collection(COLLECTIONS.RATE_LIMITS)
+      .doc(createHash("sha256").update(key).digest("hex"));
+
+    // Few retries: repeated contention means one caller is flooding, and is denied
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const data = doc.exists ? doc.data()! : null;
+      const { bucket, decision } = takeToken(
+        data ? { tokens: data.tokens, updatedAt: data.updatedAt.toMillis() } : undefined,
+        policy,
+        now
+      );
+
+      transaction.set(docRef, {
+        key,
+        tokens: bucket.tokens,
+        updatedAt: Timestamp.fromMillis(bucket.updatedAt),
+        expiresAt: Timestamp.fromMillis(Math.min(fullAt(bucket, policy), now + 24 * 60 * 60 * 1000)),
+      });
+      return decision;
+    }, { maxAttempts: 2 });
+  }
+}
+
+export class RateLimitService {
+  private memory = new MemoryRateLimitStore();
+  private firestore = new FirestoreRateLimitStore();
+
+  /**
+   * Take one request from a caller's bucket for a route group
+   * @param subject Caller key, e.g. "wallet:0xabc...", "key:<apiKeyId>" or "ip:203.0.113.7"
+   */
+  async consume(group: RateLimitGroup, subject: string): Promise<RateLimitDecision> {
+    const policy = getRateLimitPolicy(group);
+    const store = getRateLimitBackend() === "firestore" ? this.firestore : this.memory;
+
+    try {
+      return await store.consume(`${group}:${subject}`, policy, Date.now());
+    } catch (error) {
+      if ((error as { code?: number }).code === ABORTED) {
+        console.warn(`[RateLimit] Contention on the ${group} bucket for ${subject}, denying request`);
+        return { allowed: false, remaining: 0, retryAfterSeconds: UNDECIDED_RETRY_SECONDS };
+      }
+      if (group === "paid") {
+        console.error(`[RateLimit] Failed to check ${group} limit for ${subject}, denying request:`, error);
+        return { allowed: false, remaining: 0, retryAfterSeconds: UNDECIDED_RETRY_SECONDS };
+      }
+      console.error(`[RateLimit] Failed to check ${group} limit for ${subject}, allowing request:`, error);
+      return { allowed: true, remaining: policy.capacity, retryAfterSeconds: 0 };
+    }
+  }
+}
+
+// Export singleton instance
+export const rateLimitService = new RateLimitService();
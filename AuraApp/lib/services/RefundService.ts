@@ -0,0 +1,349 @@
+/**
+ * Refund Service
+ * Compensates payers when paid work fails after their payment was settled.
+ *
+ * Each refund is stored in the refunds collection (one per ledger payment) and
+ * returned one of three ways:
+ * - prepaid: the drawn-down amount goes back to the prepaid USDC balance
+ * - credits: compensating credits (CreditTransaction type "refund")
+ * - onchain: queued for an operator to approve and send back in USDC from the payTo wallet
+ *
+ * Lifecycle: pending -> approved -> completed, or pending/approved -> rejected.
+ * Prepaid and credit refunds are approved and completed automatically; if that
+ * fails they stay pending in the admin review queue with the error recorded.
+ * The refund's status is mirrored onto the payment ledger record.
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type Query, type DocumentData } from "firebase-admin/firestore";
+import { refundPolicy } from "@/lib/config/x402";
+import { toLegacyNetwork } from "@/lib/utils/x402-payment";
+import { paymentLedgerService } from "@/lib/services/PaymentLedgerService";
+import { prepaidBalanceService } from "@/lib/services/PrepaidBalanceService";
+import { auditLogService, type AuditAction, type AuditContext } from "@/lib/services/AuditLogService";
+
+export type RefundMethod = "prepaid" | "credits" | "onchain";
+
+export type RefundStatus = "pending" | "approved" | "completed" | "rejected";
+
+export interface RefundRecord {
+  id: string;
+  paymentId?: string; // Payment ledger record being refunded
+  route: string;
+  payer: string;
+  network: string; // Legacy network name (e.g. "base")
+  amount: string; // Charged amount in atomic USDC units
+  amountUsd: number;
+  transactionHash?: string; // Settlement being refunded (none for prepaid draw-downs)
+  reason: string;
+  method: RefundMethod;
+  status: RefundStatus;
+  credits?: number; // Credits granted, for method "credits"
+  refundTransactionHash?: string; // USDC payout, for method "onchain"
+  error?: string; // Last automatic or payout failure
+  reviewedBy?: string;
+  reviewNote?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RefundQuery {
+  status?: RefundStatus;
+  payer?: string;
+  limit?: number;
+}
+
+// What a paid route tells the client about a refund it issued
+export function toRefundSummary(refund: RefundRecord | undefined) {
+  return refund && {
+    id: refund.id,
+    method: refund.method,
+    status: refund.status,
+    amountUsd: refund.amountUsd,
+    credits: refund.credits,
+  };
+}
+
+// Reviewer recorded for refunds completed without an operator
+const SYSTEM_REVIEWER = "system";
+
+export class RefundService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Record a refund for a settled payment whose work failed, and issue it
+   * straight away unless it must go through operator review.
+   * Never throws: a refund that cannot be recorded is logged for manual follow-up.
+   */
+  async issue(entry: {
+    payer: string;
+    network: string; // CAIP-2 or legacy network name
+    route: string;
+    amount: bigint; // What the payer was charged
+    reason: string;
+    paymentId?: string;
+    transactionHash?: string;
+    prepaid?: boolean;
+  }): Promise<RefundRecord | undefined> {
+    const amountUsd = Number(entry.amount) / 1_000_000;
+    const method: RefundMethod = entry.prepaid
+      ? "prepaid"
+      : refundPolicy.method === "onchain" || amountUsd > refundPolicy.onchainAboveUsd
+      ? "onchain"
+      : "credits";
+
+    const now = new Date();
+    const collection = this.db.collection(COLLECTIONS.REFUNDS);
+    // Keyed by the ledger payment so a payment is never refunded twice
+    const docRef = entry.paymentId ? collection.doc(entry.paymentId) : collection.doc();
+
+    const refund: RefundRecord = {
+      id: docRef.id,
+      paymentId: entry.paymentId,
+      route: entry.route,
+      payer: entry.payer.toLowerCase(),
+      network: toLegacyNetwork(entry.network) || entry.network,
+      amount: entry.amount.toString(),
+      amountUsd,
+      transactionHash: entry.transactionHash,
+      reason: entry.reason,
+      method,
+      status: "pending",
+      credits: method === "credits" ? Math.max(1, Math.ceil(amountUsd * refundPolicy.creditsPerUsd)) : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await docRef.create(this.toFirestore(refund));
+    } catch (error) {
+      console.error("❌ [Refunds] Failed to record refund, manual follow-up required:", {
+        paymentId: entry.paymentId,
+        payer: refund.payer,
+        amountUsd,
+        transactionHash: entry.transactionHash,
+        error,
+      });
+      return undefined;
+    }
+
+    console.log(`🔁 [Refunds] Recorded ${method} refund of $${amountUsd} for ${refund.payer}:`, entry.reason);
+    await paymentLedgerService.update(entry.paymentId, { refundId: refund.id, refundStatus: "pending" });
+
+    if (method === "onchain") {
+      return refund;
+    }
+
+    try {
+      return await this.approve(refund.id, {
+        actor: SYSTEM_REVIEWER,
+        requestId: refund.paymentId || refund.id,
+        reason: entry.reason,
+      });
+    } catch (error) {
+      // Left pending for review; approve() recorded the error
+      return (await this.get(refund.id)) || refund;
+    }
+  }
+
+  /**
+   * Approve a pending refund
+   * Prepaid and credit refunds are issued immediately and completed; on-chain
+   * refunds move to approved until the payout is recorded with complete().
+   * The audit context's actor is the reviewer and its reason the review note.
+   */
+  async approve(refundId: string, audit: AuditContext): Promise<RefundRecord> {
+    const reviewer = audit.actor;
+    const note = audit.reason;
+    const docRef = this.db.collection(COLLECTIONS.REFUNDS).doc(refundId);
+
+    // Claim the refund so concurrent approvals cannot issue it twice
+    const refund = await this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      if (!doc.exists) {
+        throw new Error(`Refund ${refundId} not found`);
+      }
+      const current = this.fromFirestore(doc.id, doc.data()!);
+      if (current.status !== "pending") {
+        throw new Error(`Refund ${refundId} is ${current.status}, not pending`);
+      }
+
+      transaction.update(docRef, {
+        status: "approved",
+        reviewedBy: reviewer,
+        ...(note && { reviewNote: note }),
+        reviewedAt: Timestamp.fromDate(new Date()),
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      auditLogService.write(transaction, audit, this.auditEntry("refund.approve", current, "approved"));
+      return current;
+    });
+
+    if (refund.method === "onchain") {
+      await paymentLedgerService.update(refund.paymentId, { refundStatus: "approved" });
+      return (await this.get(refundId))!;
+    }
+
+    try {
+      if (refund.method === "prepaid") {
+        await prepaidBalanceService.refund(refund.payer, BigInt(refund.amount), {
+          refundId,
+          route: refund.route,
+        });
+      } else {
+        const { creditsService } = await import("@/lib/services/CreditsService");
+        await creditsService.addCredits(refund.payer, refund.credits || 0, "refund", `Refund: ${refund.route}`, {
+          refundId,
+          paymentId: refund.paymentId,
+          transactionHash: refund.transactionHash,
+          amountUsd: refund.amountUsd,
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Refund failed";
+      console.error(`❌ [Refunds] Failed to issue ${refund.method} refund ${refundId}:`, message);
+      // Back to the review queue
+      await docRef.update({
+        status: "pending",
+        error: message,
+        updatedAt: Timestamp.fromDate(new Date()),
+      });
+      throw error;
+    }
+
+    return this.setStatus({ ...refund, reviewedBy: reviewer }, "completed", audit);
+  }
+
+  /**
+   * Record the USDC payout of an approved on-chain refund
+   */
+  async complete(refundId: string, audit: AuditContext, refundTransactionHash: string): Promise<RefundRecord> {
+    const refund = await this.get(refundId);
+    if (!refund) {
+      throw new Error(`Refund ${refundId} not found`);
+    }
+    if (refund.method !== "onchain" || refund.status !== "approved") {
+      throw new Error(`Only approved on-chain refunds can be completed (refund is ${refund.method}, ${refund.status})`);
+    }
+
+    return this.setStatus(refund, "completed", audit, { refundTransactionHash, reviewedBy: audit.actor });
+  }
+
+  /**
+   * Reject a pending or approved refund
+   * The audit context's reason is kept as the review note.
+   */
+  async reject(refundId: string, audit: AuditContext): Promise<RefundRecord> {
+    const refund = await this.get(refundId);
+    if (!refund) {
+      throw new Error(`Refund ${refundId} not found`);
+    }
+    if (refund.status !== "pending" && refund.status !== "approved") {
+      throw new Error(`Refund ${refundId} is already ${refund.status}`);
+    }
+
+    return this.setStatus(refund, "rejected", audit, { reviewedBy: audit.actor, reviewNote: audit.reason });
+  }
+
+  /**
+   * Get a refund by ID
+   */
+  async get(refundId: string): Promise<RefundRecord | null> {
+    const doc = await this.db.collection(COLLECTIONS.REFUNDS).doc(refundId).get();
+    return doc.exists ? this.fromFirestore(doc.id, doc.data()!) : null;
+  }
+
+  /**
+   * List refunds, newest first
+   */
+  async query(filters: RefundQuery = {}): Promise<RefundRecord[]> {
+    let query: Query = this.db.collection(COLLECTIONS.REFUNDS);
+
+    if (filters.status) query = query.where("status", "==", filters.status);
+    if (filters.payer) query = query.where("payer", "==", filters.payer.toLowerCase());
+
+    const snapshot = await query
+      .orderBy("createdAt", "desc")
+      .limit(Math.min(Math.max(1, filters.limit || 50), 500))
+      .get();
+
+    return snapshot.docs.map((doc) => this.fromFirestore(doc.id, doc.data()));
+  }
+
+  private async setStatus(
+    refund: RefundRecord,
+    status: "completed" | "rejected",
+    audit: AuditContext,
+    update: Partial<Pick<RefundRecord, "refundTransactionHash" | "reviewedBy" | "reviewNote">> = {}
+  ): Promise<RefundRecord> {
+    const now = new Date();
+    const reviewed = update.reviewedBy ? { reviewedAt: Timestamp.fromDate(now) } : {};
+
+    await this.db.runTransaction(async (transaction) => {
+      transaction.update(this.db.collection(COLLECTIONS.REFUNDS).doc(refund.id), this.compact({
+        ...update,
+        ...reviewed,
+        status,
+        updatedAt: Timestamp.fromDate(now),
+      }));
+      auditLogService.write(
+        transaction,
+        audit,
+        this.auditEntry(status === "completed" ? "refund.complete" : "refund.reject", refund, status, update.refundTransactionHash)
+      );
+    });
+    await paymentLedgerService.update(refund.paymentId, { refundStatus: status });
+
+    console.log(`🔁 [Refunds] Refund ${refund.id} ${status}`);
+    return { ...refund, ...update, status, updatedAt: now };
+  }
+
+  private auditEntry(action: AuditAction, refund: RefundRecord, status: RefundStatus, refundTransactionHash?: string) {
+    return {
+      action,
+      targetWallet: refund.payer,
+      before: { status: refund.status },
+      after: {
+        status,
+        refundId: refund.id,
+        method: refund.method,
+        amountUsd: refund.amountUsd,
+        paymentId: refund.paymentId || null,
+        ...(refundTransactionHash && { refundTransactionHash }),
+      },
+    };
+  }
+
+  private toFirestore(refund: RefundRecord): Record<string, unknown> {
+    const { id, ...data } = refund;
+    return this.compact({
+      ...data,
+      reviewedAt: refund.reviewedAt ? Timestamp.fromDate(refund.reviewedAt) : undefined,
+      createdAt: Timestamp.fromDate(refund.createdAt),
+      updatedAt: Timestamp.fromDate(refund.updatedAt),
+    });
+  }
+
+  private fromFirestore(id: string, data: DocumentData): RefundRecord {
+    return {
+      ...data,
+      id,
+      reviewedAt: data.reviewedAt?.toDate(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as RefundRecord;
+  }
+
+  // Firestore rejects undefined field values
+  private compact<T extends Record<string, unknown>>(data: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
+}
+
+// Export singleton instance
+export const refundService = new RefundService();
@@ -5,6 +5,7 @@
  */
 
 import { x402Config, aiServiceConfig, serviceDiscovery } from "@/lib/config/x402";
+import { auditLogService, type AuditContext } from "@/lib/services/AuditLogService";
 
 export interface RegistrationStatus {
     registered: boolean;
@@ -547,10 +548,12 @@ export class RegistrationService {
 
     /**
      * Register vendor service with PerkOS-Stack facilitator
+     * Successful registrations and updates are recorded in the audit log.
      */
-    async register(request?: Partial<RegistrationRequest>): Promise<RegistrationResult> {
+    async register(audit: AuditContext, request?: Partial<RegistrationRequest>): Promise<RegistrationResult> {
         try {
             const endpoints = this.buildEndpoints();
+            const previous = await this.checkStatus();
 
             const registrationPayload: RegistrationRequest = {
                 url: request?.url || this.serviceUrl,
@@ -609,6 +612,7 @@ export class RegistrationService {
                         );
 
                         if (updateResponse.ok) {
+                            await this.recordRegistration(audit, previous, registrationPayload, status.vendorId);
                             return {
                                 success: true,
                                 vendor: { id: status.vendorId, name: registrationPayload.name },
@@ -631,6 +635,7 @@ export class RegistrationService {
             }
 
             console.log("✅ Successfully registered with Stack!");
+            await this.recordRegistration(audit, previous, registrationPayload, result.vendor?.id);
             return {
                 success: true,
                 vendor: result.vendor,
@@ -700,9 +705,34 @@ export class RegistrationService {
         }
     }
 
-    async checkFacilitatorHealth(): Promise<boolean> {
+    private async recordRegistration(
+        audit: AuditContext,
+        previous: RegistrationStatus,
+        payload: RegistrationRequest,
+        vendorId?: string
+    ): Promise<void> {
+        await auditLogService.record(audit, {
+            action: "facilitator.register",
+            targetWallet: payload.walletAddress,
+            before: {
+                registered: previous.registered,
+                vendorId: previous.vendorId || null,
+                vendorName: previous.vendorName || null,
+            },
+            after: {
+                registered: true,
+                vendorId: vendorId || null,
+                vendorName: payload.name || null,
+                url: payload.url,
+                network: payload.network,
+                priceUsd: payload.priceUsd || null,
+            },
+        });
+    }
+
+    async checkFacilitatorHealth(facilitatorUrl: string = this.facilitatorUrl): Promise<boolean> {
         try {
-            const response = await fetch(`${this.facilitatorUrl}/api/v2/x402/health`, {
+            const response = await fetch(`${facilitatorUrl}/api/v2/x402/health`, {
                 method: "GET",
                 signal: AbortSignal.timeout(5000),
             });
@@ -0,0 +1,241 @@
+/**
+ * Session Service
+ * Sign-In With Ethereum (EIP-4361) login and wallet sessions.
+ *
+ * Flow:
+ * 1. The client asks for a sign-in message for its connected wallet; the server
+ *    builds it for this service's domain with a fresh nonce, records the nonce
+ *    in siwe_nonces and also keeps it in a signed httpOnly cookie
+ * 2. The wallet signs the message
+ * 3. The server checks the message (domain, nonce, expiry) and the signature,
+ *    consumes the nonce, then issues a signed httpOnly session cookie naming the wallet
+ *
+ * Nonces are single-use: a signed message cannot be replayed once it has
+ * signed in. Nonce records carry expiresAt for a Firestore TTL policy.
+ *
+ * Sessions are stateless: the cookie carries the wallet and expiry, signed with
+ * SESSION_SECRET (HMAC-SHA256), so every instance can check it without a lookup.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { createPublicClient, http, getAddress, isAddress, verifyMessage, type Hex } from "viem";
+import { createSiweMessage, generateSiweNonce, parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import { Timestamp } from "firebase-admin/firestore";
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { CAIP2_TO_NETWORK, getRpcUrl } from "@/lib/utils/x402-payment";
+
+export const SESSION_COOKIE = "aura_session";
+export const SIWE_NONCE_COOKIE = "aura_siwe_nonce";
+
+// How long a signed-in session lasts, and how long a sign-in message may wait for its signature
+export const sessionPolicy = {
+  ttlSeconds: parseInt(process.env.SESSION_TTL_HOURS || "24", 10) * 60 * 60,
+  messageTtlSeconds: 10 * 60,
+};
+
+export interface WalletSession {
+  walletAddress: string; // Lowercase
+  chainId: number;
+  issuedAt: number; // Epoch seconds
+  expiresAt: number; // Epoch seconds
+}
+
+export class SessionService {
+  private devSecret: string | undefined;
+
+  // Resolved lazily so session checks never need Firestore credentials
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Build an EIP-4361 sign-in message for a wallet
+   * Returns the message and the signed nonce to store in the nonce cookie.
+   * The nonce is recorded so signIn can accept it only once.
+   */
+  async createSignInMessage(params: {
+    address: string;
+    chainId: number;
+    domain: string;
+    uri: string;
+  }): Promise<{ message: string; nonceToken: string; expiresAt: Date }> {
+    const nonce = generateSiweNonce();
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + sessionPolicy.messageTtlSeconds * 1000);
+
+    const message = createSiweMessage({
+      domain: params.domain,
+      address: getAddress(params.address),
+      statement: "Sign in to Aura. This request will not trigger a blockchain transaction or cost any gas fees.",
+      uri: params.uri,
+      version: "1",
+      chainId: params.chainId,
+      nonce,
+      issuedAt,
+      expirationTime: expiresAt,
+    });
+
+    await this.db.collection(COLLECTIONS.SIWE_NONCES).doc(nonce).set({
+      walletAddress: params.address.toLowerCase(),
+      expiresAt: Timestamp.fromDate(expiresAt),
+      createdAt: Timestamp.fromDate(issuedAt),
+    });
+
+    return {
+      message,
+      nonceToken: this.sign({ nonce, expiresAt: Math.floor(expiresAt.getTime() / 1000) }),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Verify a signed sign-in message and open a session for its wallet
+   * Throws with a user-facing reason if the message or signature is not valid.
+   */
+  async signIn(params: {
+    message: string;
+    signature: Hex;
+    nonceToken: string | undefined;
+    domain: string;
+  }): Promise<{ session: WalletSession; token: string }> {
+    const nonce = this.verify<{ nonce: string; expiresAt: number }>(params.nonceToken)?.nonce;
+    if (!nonce) {
+      throw new Error("Sign-in request expired, please try again");
+    }
+
+    const fields = parseSiweMessage(params.message);
+    if (!fields.address || !fields.chainId) {
+      throw new Error("Malformed sign-in message");
+    }
+
+    if (!validateSiweMessage({ message: fields, domain: params.domain, nonce })) {
+      throw new Error("Sign-in message is not valid for this site or has expired");
+    }
+
+    if (!(await this.verifySignature(fields.address, fields.chainId, params.message, params.signature))) {
+      throw new Error("Invalid signature");
+    }
+
+    if (!(await this.consumeNonce(nonce, fields.address))) {
+      throw new Error("Sign-in request was already used or has expired, please try again");
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const session: WalletSession = {
+      walletAddress: fields.address.toLowerCase(),
+      chainId: fields.chainId,
+      issuedAt: now,
+      expiresAt: now + sessionPolicy.ttlSeconds,
+    };
+
+    console.log(`✅ [Session] Signed in ${session.walletAddress}`);
+    return { session, token: this.sign(session) };
+  }
+
+  /**
+   * Read the session from a session cookie value
+   * Returns null for a missing, tampered or expired session.
+   */
+  getSession(token: string | undefined): WalletSession | null {
+    const session = this.verify<WalletSession>(token);
+    if (!session || !isAddress(session.walletAddress)) {
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Mark a nonce as used; false if it was never issued to this wallet, has
+   * expired or already signed in
+   */
+  private async consumeNonce(nonce: string, address: string): Promise<boolean> {
+    const ref = this.db.collection(COLLECTIONS.SIWE_NONCES).doc(nonce);
+
+    return this.db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+      if (!data || data.walletAddress !== address.toLowerCase() || data.expiresAt.toDate() <= new Date()) {
+        return false;
+      }
+
+      transaction.delete(ref);
+      return true;
+    });
+  }
+
+  /**
+   * Check the signature: locally for wallets that sign with a key, then
+   * on-chain (ERC-1271/ERC-6492) for smart contract wallets
+   */
+  private async verifySignature(address: string, chainId: number, message: string, signature: Hex): Promise<boolean> {
+    try {
+      if (await verifyMessage({ address: getAddress(address), message, signature })) {
+        return true;
+      }
+    } catch {
+      // Not an ECDSA signature, try the contract wallet path
+    }
+
+    const network = CAIP2_TO_NETWORK[`eip155:${chainId}` as keyof typeof CAIP2_TO_NETWORK];
+    if (!network) {
+      return false;
+    }
+
+    try {
+      const client = createPublicClient({ transport: http(getRpcUrl(network)) });
+      return await client.verifyMessage({ address: getAddress(address), message, signature });
+    } catch (error) {
+      console.error("[Session] Contract wallet signature check failed:", error);
+      return false;
+    }
+  }
+
+  // Tokens are base64url(JSON payload).base64url(HMAC-SHA256); payloads carry expiresAt
+  private sign(payload: object): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${body}.${this.hmac(body)}`;
+  }
+
+  private verify<T extends { expiresAt: number }>(token: string | undefined): T | null {
+    if (!token) return null;
+
+    const [body, signature] = token.split(".");
+    if (!body || !signature) return null;
+
+    const expected = Buffer.from(this.hmac(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(body, "base64url").toString()) as T;
+      return payload.expiresAt > Date.now() / 1000 ? payload : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private hmac(body: string): string {
+    return createHmac("sha256", this.secret).update(body).digest("base64url");
+  }
+
+  private get secret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (secret) return secret;
+
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+
+    // Development: sessions last until the server restarts
+    if (!this.devSecret) {
+      console.warn("⚠️ SESSION_SECRET not set, using a random per-process secret");
+      this.devSecret = randomBytes(32).toString("hex");
+    }
+    return this.devSecret;
+  }
+}
+
+// Export singleton instance
+export const sessionService = new SessionService();
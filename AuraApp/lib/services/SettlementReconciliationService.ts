@@ -0,0 +1,276 @@
+/**
+ * Settlement Reconciliation Service
+ * Resolves x402 payments whose settlement outcome is unknown.
+ *
+ * When a facilitator does not answer a settle request (timeout) the transfer
+ * may still land on-chain, so the payment is recorded as settle_unknown, its
+ * result withheld, and queued here (one record per authorization nonce).
+ * Run periodically from GET /api/cron/settlements, each pending record is
+ * checked on-chain (see getAuthorizationOutcome):
+ * - an AuthorizationUsed event for the nonce: the payment landed after all.
+ *   The ledger records it as settled and, since the payer never got the
+ *   result, it is refunded (see RefundService).
+ * - the nonce spent without a transfer (canceled by the payer, or no
+ *   AuthorizationUsed event since the payment was queued): the payment failed.
+ * - unused once validBefore has passed: the authorization can no longer be
+ *   used, so the payment failed.
+ * - otherwise it stays pending for the next run.
+ */
+
+import { getFirestoreInstance, COLLECTIONS } from "@/lib/db/firebase";
+import { Timestamp, type DocumentData } from "firebase-admin/firestore";
+import { settlementReconciliationConfig } from "@/lib/config/x402";
+import { toLegacyNetwork } from "@/lib/utils/x402-payment";
+import { getAuthorizationOutcome, getLatestBlockNumber } from "@/lib/utils/balance-checker";
+import { paymentLedgerService } from "@/lib/services/PaymentLedgerService";
+import { paymentNonceService } from "@/lib/services/PaymentNonceService";
+import { refundService } from "@/lib/services/RefundService";
+import type { PaymentEnvelope } from "@/lib/middleware/x402";
+
+export type ReconciliationStatus = "pending" | "settled" | "failed";
+
+export interface SettlementReconciliation {
+  id: string; // Nonce ID (see PaymentNonceService.getNonceId)
+  paymentId?: string; // Payment ledger record
+  route: string;
+  payer: string;
+  network: string; // Legacy network name (e.g. "base")
+  nonce: string;
+  amount: string; // Signed value in atomic USDC units
+  validBefore: Date; // After this the authorization can no longer land
+  fromBlock?: number; // Latest block when queued; events for the nonce are searched from here
+  reason: string; // Why the outcome was unknown
+  status: ReconciliationStatus;
+  attempts: number;
+  lastError?: string; // Last failed on-chain check
+  transactionHash?: string; // Transfer (or cancellation) found on-chain
+  refundId?: string; // Refund issued for a payment that landed
+  resolvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReconciliationRunResult {
+  checked: number;
+  settled: string[];
+  failed: string[];
+  pending: string[];
+  errors: { id: string; error: string }[];
+}
+
+// Allowance for clock skew between this server and block timestamps
+const VALID_BEFORE_GRACE_MS = 5 * 60 * 1000;
+
+// Blocks before the queueing block to search, covering a broadcast during the settle timeout
+const QUEUE_BLOCK_MARGIN = BigInt(100);
+
+export class SettlementReconciliationService {
+  private get db() {
+    return getFirestoreInstance();
+  }
+
+  /**
+   * Queue a payment whose settlement outcome is unknown
+   * Never throws: a record that cannot be written is logged for manual follow-up.
+   */
+  async queue(entry: {
+    envelope: PaymentEnvelope;
+    route: string;
+    reason: string;
+    paymentId?: string;
+  }): Promise<void> {
+    const { envelope } = entry;
+    const now = new Date();
+    const id = paymentNonceService.getNonceId(envelope);
+    const network = toLegacyNetwork(envelope.network) || envelope.network;
+
+    // The broadcast (if any) came after verification, so events are searched from
+    // a little before now; without a block the search falls back to a lookback
+    const fromBlock = await getLatestBlockNumber(network)
+      .then((block) => Number(block > QUEUE_BLOCK_MARGIN ? block - QUEUE_BLOCK_MARGIN : BigInt(0)))
+      .catch(() => undefined);
+
+    const record: SettlementReconciliation = {
+      id,
+      paymentId: entry.paymentId,
+      route: entry.route,
+      payer: envelope.authorization.from.toLowerCase(),
+      network,
+      nonce: envelope.authorization.nonce.toLowerCase(),
+      amount: envelope.authorization.value,
+      validBefore: new Date(Number(envelope.authorization.validBefore) * 1000),
+      fromBlock,
+      reason: entry.reason,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await this.db.collection(COLLECTIONS.SETTLEMENT_RECONCILIATIONS).doc(id).create(this.toFirestore(record));
+      console.warn("⏳ [Reconciliation] Queued settlement with unknown outcome:", {
+        id,
+        paymentId: entry.paymentId,
+        reason: entry.reason,
+      });
+    } catch (error) {
+      console.error("❌ [Reconciliation] Failed to queue settlement, manual follow-up required:", {
+        id,
+        paymentId: entry.paymentId,
+        payer: record.payer,
+        amount: record.amount,
+        error,
+      });
+    }
+  }
+
+  /**
+   * Check every pending settlement on-chain and resolve those with a known outcome
+   * One record's failure is reported and does not stop the run.
+   */
+  async run(): Promise<ReconciliationRunResult> {
+    const snapshot = await this.db
+      .collection(COLLECTIONS.SETTLEMENT_RECONCILIATIONS)
+      .where("status", "==", "pending")
+      .limit(settlementReconciliationConfig.batchSize)
+      .get();
+
+    const result: ReconciliationRunResult = { checked: snapshot.size, settled: [], failed: [], pending: [], errors: [] };
+
+    for (const doc of snapshot.docs) {
+      const record = this.fromFirestore(doc.id, doc.data());
+      try {
+        const outcome = await this.reconcile(record);
+        result[outcome].push(record.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`[Reconciliation] Failed to check ${record.id}:`, error);
+        result.errors.push({ id: record.id, error: message });
+        await doc.ref.update({
+          attempts: record.attempts + 1,
+          lastError: message,
+          updatedAt: Timestamp.fromDate(new Date()),
+        }).catch(() => undefined);
+      }
+    }
+
+    console.log(
+      `⏳ [Reconciliation] Checked ${result.checked}: ${result.settled.length} settled, ` +
+      `${result.failed.length} failed, ${result.pending.length} pending, ${result.errors.length} errors`
+    );
+    return result;
+  }
+
+  private async reconcile(record: SettlementReconciliation): Promise<ReconciliationStatus> {
+    const outcome = await getAuthorizationOutcome(
+      record.network,
+      record.payer as `0x${string}`,
+      record.nonce as `0x${string}`,
+      record.fromBlock !== undefined ? { fromBlock: BigInt(record.fromBlock) } : {}
+    );
+    const docRef = this.db.collection(COLLECTIONS.SETTLEMENT_RECONCILIATIONS).doc(record.id);
+    const now = new Date();
+
+    if (outcome.state === "used") {
+      const reason = "Settlement confirmed on-chain after its result was withheld";
+      await paymentLedgerService.update(record.paymentId, {
+        status: "success",
+        stage: "settle",
+        transactionHash: outcome.transactionHash,
+      });
+      await paymentNonceService.markReconciled(record.id, true, reason);
+      const refund = await refundService.issue({
+        payer: record.payer,
+        network: record.network,
+        route: record.route,
+        amount: BigInt(record.amount),
+        reason,
+        paymentId: record.paymentId,
+        transactionHash: outcome.transactionHash,
+      });
+      await docRef.update(this.compact({
+        status: "settled" as ReconciliationStatus,
+        attempts: record.attempts + 1,
+        transactionHash: outcome.transactionHash,
+        refundId: refund?.id,
+        resolvedAt: Timestamp.fromDate(now),
+        updatedAt: Timestamp.fromDate(now),
+      }));
+      console.log(`✅ [Reconciliation] ${record.id} landed on-chain, refund ${refund?.id || "not recorded"}`);
+      return "settled";
+    }
+
+    // The nonce flag is also set by cancelAuthorization, so a spent nonce
+    // without an AuthorizationUsed event moved no funds
+    if (outcome.state === "unmatched" && record.fromBlock === undefined) {
+      // Only the default lookback was searched: an older transfer may have been missed
+      throw new Error("Authorization nonce spent but no event found; check it manually");
+    }
+    if (outcome.state === "canceled" || outcome.state === "unmatched") {
+      const reason = outcome.state === "canceled"
+        ? "Authorization was canceled before it settled"
+        : "Authorization nonce spent without a transfer";
+      return this.fail(record, reason, outcome.state === "canceled" ? outcome.transactionHash : undefined);
+    }
+
+    if (now.getTime() > record.validBefore.getTime() + VALID_BEFORE_GRACE_MS) {
+      return this.fail(record, "Authorization expired without being used on-chain");
+    }
+
+    await docRef.update({
+      attempts: record.attempts + 1,
+      updatedAt: Timestamp.fromDate(now),
+    });
+    return "pending";
+  }
+
+  // Record that a queued payment never moved funds
+  private async fail(record: SettlementReconciliation, reason: string, transactionHash?: string): Promise<ReconciliationStatus> {
+    const now = new Date();
+    await paymentLedgerService.update(record.paymentId, { status: "failed", stage: "settle", error: reason });
+    await paymentNonceService.markReconciled(record.id, false, reason);
+    await this.db.collection(COLLECTIONS.SETTLEMENT_RECONCILIATIONS).doc(record.id).update(this.compact({
+      status: "failed" as ReconciliationStatus,
+      attempts: record.attempts + 1,
+      transactionHash,
+      lastError: reason,
+      resolvedAt: Timestamp.fromDate(now),
+      updatedAt: Timestamp.fromDate(now),
+    }));
+    console.log(`❌ [Reconciliation] ${record.id} failed: ${reason}`);
+    return "failed";
+  }
+
+  private toFirestore(record: SettlementReconciliation): Record<string, unknown> {
+    const { id, ...data } = record;
+    return this.compact({
+      ...data,
+      validBefore: Timestamp.fromDate(record.validBefore),
+      resolvedAt: record.resolvedAt ? Timestamp.fromDate(record.resolvedAt) : undefined,
+      createdAt: Timestamp.fromDate(record.createdAt),
+      updatedAt: Timestamp.fromDate(record.updatedAt),
+    });
+  }
+
+  private fromFirestore(id: string, data: DocumentData): SettlementReconciliation {
+    return {
+      ...data,
+      id,
+      validBefore: data.validBefore?.toDate() || new Date(0),
+      resolvedAt: data.resolvedAt?.toDate(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as SettlementReconciliation;
+  }
+
+  // Firestore rejects undefined field values
+  private compact<T extends Record<string, unknown>>(data: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
+}
+
+// Export singleton instance
+export const settlementReconciliationService = new SettlementReconciliationService();
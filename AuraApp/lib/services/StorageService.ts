@@ -1,19 +1,28 @@
 /**
  * StorageService
- * Handles uploading files to Firebase Storage and returning permanent URLs
+ * Handles uploading files to Firebase Storage
  *
  * Used for:
- * - Storing generated images from Replicate (temporary URLs → permanent Firebase URLs)
+ * - Storing generated images from Replicate (temporary URLs → stored files)
  * - Storing audio files from text-to-speech
- * - Any other generated media content
+ * - Files users attach in chat (/api/upload)
+ *
+ * Files are private and stored under users/{wallet}/. Store the returned path,
+ * not a URL: the browser reads a file through getFileUrl (/api/files, which
+ * checks the session owns the path), and services such as OpenAI read it
+ * through a short-lived signed URL from getSignedUrl.
  */
 
 import { getStorageInstance } from "@/lib/db/firebase";
+import { detectFileType, type DetectedFileType } from "@/lib/utils/file-type";
+import { uploadPolicy, MAX_UPLOAD_BYTES } from "@/lib/config/uploads";
+import { safeFetch } from "@/lib/utils/safe-fetch";
 
 export interface UploadResult {
-  url: string;
+  url: string; // Short-lived signed URL
   path: string;
   contentType: string;
+  expiresAt: Date; // When url stops working
 }
 
 /**
@@ -51,60 +60,35 @@ export class StorageService {
     });
 
     try {
-      // Fetch the file from the source URL
-      const response = await fetch(sourceUrl);
-      if (!response.ok) {
-        throw new Error(`Failed to fetch from source URL: ${response.statusText}`);
-      }
-
-      const buffer = await response.arrayBuffer();
-      const contentType = response.headers.get("content-type") || this.getDefaultContentType(type);
+      // Fetch the file from the source URL. Some providers serve generated media
+      // as octet-stream; the bytes are checked below either way.
+      const { buffer } = await safeFetch(sourceUrl, {
+        allowedContentTypes: [`${type}/`, "application/octet-stream"],
+        maxBytes: MAX_UPLOAD_BYTES,
+      });
+      const { mimeType: contentType, extension } = this.getVerifiedFileType(buffer, type);
 
       // Generate unique filename
       const timestamp = Date.now();
-      const extension = this.getExtensionFromContentType(contentType, type);
       const generatedFilename = filename || `${type}_${timestamp}.${extension}`;
 
       // Build storage path: users/{wallet}/conversations/{convId}/{filename}
       const storagePath = `users/${walletAddress.toLowerCase()}/conversations/${conversationId}/${generatedFilename}`;
 
-      // Get storage bucket and upload
-      const storage = getStorageInstance();
-      const bucket = storage.bucket();
-      const file = bucket.file(storagePath);
-
-      // Upload the file
-      await file.save(Buffer.from(buffer), {
-        metadata: {
-          contentType,
-          metadata: {
-            walletAddress: walletAddress.toLowerCase(),
-            conversationId,
-            type,
-            originalUrl: sourceUrl.substring(0, 500), // Store reference to original
-            uploadedAt: new Date().toISOString(),
-          },
-        },
+      const result = await this.saveFile(buffer, storagePath, contentType, {
+        walletAddress: walletAddress.toLowerCase(),
+        conversationId,
+        type,
+        originalUrl: sourceUrl.substring(0, 500), // Store reference to original
       });
 
-      // Make the file publicly accessible
-      await file.makePublic();
-
-      // Get the public URL
-      const publicUrl = `https://storage.googleapis.com/${bucket.name}/${storagePath}`;
-
       console.log("[StorageService] uploadFromUrl success", {
         storagePath,
-        publicUrl: publicUrl.substring(0, 100) + "...",
         contentType,
         size: buffer.byteLength,
       });
 
-      return {
-        url: publicUrl,
-        path: storagePath,
-        contentType,
-      };
+      return result;
     } catch (error) {
       console.error("[StorageService] uploadFromUrl failed:", error);
       throw error;
@@ -139,54 +123,29 @@ export class StorageService {
         throw new Error("Invalid base64 data URL format");
       }
 
-      const contentType = matches[1];
-      const base64Data = matches[2];
-      const buffer = Buffer.from(base64Data, "base64");
+      const buffer = Buffer.from(matches[2], "base64");
+      const { mimeType: contentType, extension } = this.getVerifiedFileType(buffer, type);
 
       // Generate unique filename
       const timestamp = Date.now();
-      const extension = this.getExtensionFromContentType(contentType, type);
       const generatedFilename = filename || `${type}_${timestamp}.${extension}`;
 
       // Build storage path
       const storagePath = `users/${walletAddress.toLowerCase()}/conversations/${conversationId}/${generatedFilename}`;
 
-      // Get storage bucket and upload
-      const storage = getStorageInstance();
-      const bucket = storage.bucket();
-      const file = bucket.file(storagePath);
-
-      // Upload the file
-      await file.save(buffer, {
-        metadata: {
-          contentType,
-          metadata: {
-            walletAddress: walletAddress.toLowerCase(),
-            conversationId,
-            type,
-            uploadedAt: new Date().toISOString(),
-          },
-        },
+      const result = await this.saveFile(buffer, storagePath, contentType, {
+        walletAddress: walletAddress.toLowerCase(),
+        conversationId,
+        type,
       });
 
-      // Make the file publicly accessible
-      await file.makePublic();
-
-      // Get the public URL
-      const publicUrl = `https://storage.googleapis.com/${bucket.name}/${storagePath}`;
-
       console.log("[StorageService] uploadFromBase64 success", {
         storagePath,
-        publicUrl: publicUrl.substring(0, 100) + "...",
         contentType,
         size: buffer.byteLength,
       });
 
-      return {
-        url: publicUrl,
-        path: storagePath,
-        contentType,
-      };
+      return result;
     } catch (error) {
       console.error("[StorageService] uploadFromBase64 failed:", error);
       throw error;
@@ -218,6 +177,95 @@ export class StorageService {
     throw new Error("Invalid content format: must be a data URL or HTTP(S) URL");
   }
 
+  /**
+   * Store a file a user uploaded in chat
+   * The caller has already checked its size and detected its type from its bytes.
+   */
+  async uploadUserFile(
+    buffer: Buffer,
+    options: {
+      walletAddress: string;
+      conversationId: string;
+      originalName: string;
+      contentType: string;
+      extension: string;
+    }
+  ): Promise<UploadResult> {
+    const { walletAddress, conversationId, originalName, contentType, extension } = options;
+
+    // Keep a readable name but never trust the client's extension
+    const baseName = originalName.replace(/\.[^.]*$/, "").replace(/[^a-zA-Z0-9-]/g, "_").slice(0, 64) || "file";
+    const storagePath = `users/${walletAddress.toLowerCase()}/uploads/${conversationId}/${Date.now()}_${baseName}.${extension}`;
+
+    return this.saveFile(buffer, storagePath, contentType, {
+      walletAddress: walletAddress.toLowerCase(),
+      conversationId,
+      originalName: originalName.substring(0, 200),
+    });
+  }
+
+  /**
+   * Create a short-lived signed URL to read a stored file
+   */
+  async getSignedUrl(path: string): Promise<{ url: string; expiresAt: Date }> {
+    const expiresAt = new Date(Date.now() + uploadPolicy.signedUrlTtlSeconds * 1000);
+    const [url] = await getStorageInstance().bucket().file(path).getSignedUrl({
+      version: "v4",
+      action: "read",
+      expires: expiresAt,
+    });
+    return { url, expiresAt };
+  }
+
+  /**
+   * App URL for reading a stored file in the browser
+   * /api/files checks the signed-in wallet owns the path, then redirects to a signed URL.
+   */
+  getFileUrl(path: string): string {
+    return `/api/files?path=${encodeURIComponent(path)}`;
+  }
+
+  /**
+   * Whether a storage path belongs to a wallet
+   */
+  isOwnedBy(path: string, walletAddress: string): boolean {
+    return path.startsWith(`users/${walletAddress.toLowerCase()}/`) && !path.split("/").includes("..");
+  }
+
+  /**
+   * Storage path of a URL pointing into our bucket (public, signed or Firebase download URL)
+   * Returns null for any other URL.
+   */
+  getPathFromUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const bucketName = this.bucketName || getStorageInstance().bucket().name;
+    if (parsed.hostname === "storage.googleapis.com") {
+      const prefix = `/${bucketName}/`;
+      return parsed.pathname.startsWith(prefix) ? decodeURIComponent(parsed.pathname.slice(prefix.length)) : null;
+    }
+    if (parsed.hostname === "firebasestorage.googleapis.com") {
+      const match = parsed.pathname.match(/^\/v0\/b\/([^/]+)\/o\/(.+)$/);
+      return match && match[1] === bucketName ? decodeURIComponent(match[2]) : null;
+    }
+    return null;
+  }
+
+  /**
+   * Turn a stored attachment reference (path, or a URL into our bucket from before
+   * uploads were private) into a URL the wallet's browser can load
+   * Anything else (external URLs, data URLs) is returned unchanged.
+   */
+  resolveAttachmentUrl(reference: string, walletAddress: string): string {
+    const path = reference.startsWith("users/") ? reference : this.getPathFromUrl(reference);
+    return path && this.isOwnedBy(path, walletAddress) ? this.getFileUrl(path) : reference;
+  }
+
   /**
    * Check if a URL is already a Firebase Storage URL
    */
@@ -226,29 +274,39 @@ export class StorageService {
   }
 
   /**
-   * Get file extension from content type
+   * Save a private file and sign a read URL for it
    */
-  private getExtensionFromContentType(contentType: string, fallbackType: "image" | "audio"): string {
-    const typeMap: Record<string, string> = {
-      "image/png": "png",
-      "image/jpeg": "jpg",
-      "image/jpg": "jpg",
-      "image/gif": "gif",
-      "image/webp": "webp",
-      "audio/mpeg": "mp3",
-      "audio/wav": "wav",
-      "audio/ogg": "ogg",
-      "audio/webm": "webm",
-    };
-
-    return typeMap[contentType] || (fallbackType === "image" ? "png" : "mp3");
+  private async saveFile(
+    buffer: Buffer,
+    storagePath: string,
+    contentType: string,
+    metadata: Record<string, string>
+  ): Promise<UploadResult> {
+    const file = getStorageInstance().bucket().file(storagePath);
+
+    await file.save(buffer, {
+      metadata: {
+        contentType,
+        metadata: {
+          ...metadata,
+          uploadedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    const { url, expiresAt } = await this.getSignedUrl(storagePath);
+    return { url, path: storagePath, contentType, expiresAt };
   }
 
   /**
-   * Get default content type based on file type
+   * Type of generated media, from its bytes rather than the source's header
    */
-  private getDefaultContentType(type: "image" | "audio"): string {
-    return type === "image" ? "image/png" : "audio/mpeg";
+  private getVerifiedFileType(buffer: Buffer, type: "image" | "audio"): DetectedFileType {
+    const detected = detectFileType(buffer);
+    if (!detected || detected.kind !== type) {
+      throw new Error(`Content is not a supported ${type} format`);
+    }
+    return detected;
   }
 }
 
@@ -0,0 +1,165 @@
+/**
+ * Subscription Lifecycle Service
+ * Run periodically from GET /api/cron/subscriptions:
+ * - Expired subscriptions followed by a paid plan change (a downgrade or
+ *   renewal bought mid-period) switch to that plan.
+ * - Expired subscriptions are renewed from the prepaid USDC balance when the
+ *   user opted in to auto-renew and the balance covers the price; otherwise
+ *   the user is moved back to the free tier.
+ * - Opted-in subscriptions expiring within reminderDays that the balance cannot
+ *   renew get a one-time renewal reminder.
+ * Users whose processing fails are skipped for retryDelayMinutes.
+ * CreditsService writes every transition to credit_transactions.
+ */
+
+import { subscriptionLifecycleConfig } from "@/lib/config/x402";
+import { creditsService, type UserCredits } from "@/lib/services/CreditsService";
+import { prepaidBalanceService } from "@/lib/services/PrepaidBalanceService";
+import { pricingService } from "@/lib/services/PricingService";
+import type { AuditContext } from "@/lib/services/AuditLogService";
+
+export interface LifecycleRunResult {
+  checked: number;
+  renewed: string[];
+  changed: string[]; // Scheduled plan changes that started
+  expired: string[];
+  reminded: string[];
+  failed: { walletAddress: string; error: string }[];
+}
+
+export class SubscriptionLifecycleService {
+  /**
+   * Process every subscription that has expired or is due for a reminder
+   * One user's failure is reported and does not stop the run.
+   */
+  async run(audit: AuditContext): Promise<LifecycleRunResult> {
+    const now = new Date();
+    const reminderCutoff = new Date(now.getTime() + subscriptionLifecycleConfig.reminderDays * 24 * 60 * 60 * 1000);
+    const due = await creditsService.getSubscriptionsDue(reminderCutoff, subscriptionLifecycleConfig.batchSize);
+
+    const result: LifecycleRunResult = { checked: due.length, renewed: [], changed: [], expired: [], reminded: [], failed: [] };
+
+    for (const user of due) {
+      try {
+        if (user.subscriptionExpiresAt! <= now) {
+          await this.processExpired(user, audit, result);
+        } else if (user.autoRenew && user.tier !== "free") {
+          await this.remindIfUnfunded(user, result);
+        }
+      } catch (error) {
+        console.error(`[Lifecycle] Failed to process ${user.walletAddress}:`, error);
+        result.failed.push({
+          walletAddress: user.walletAddress,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        await this.defer(user);
+      }
+    }
+
+    console.log(
+      `🔄 [Lifecycle] Checked ${result.checked}: ${result.renewed.length} renewed, ${result.changed.length} changed, ` +
+      `${result.expired.length} expired, ${result.reminded.length} reminded, ${result.failed.length} failed`
+    );
+    return result;
+  }
+
+  // Start a scheduled plan change, else renew from the prepaid balance if opted in, else move to free
+  private async processExpired(user: UserCredits, audit: AuditContext, result: LifecycleRunResult) {
+    if (user.scheduledSubscriptionId) {
+      const { started } = await creditsService.startScheduledSubscription(user.walletAddress, audit);
+      if (started) {
+        result.changed.push(user.walletAddress);
+        return;
+      }
+    }
+
+    let renewalOutcome: string | undefined;
+
+    if (user.autoRenew && user.tier !== "free") {
+      renewalOutcome = await this.renew(user, audit);
+      if (renewalOutcome === "renewed") {
+        result.renewed.push(user.walletAddress);
+        return;
+      }
+    }
+
+    const { expired } = await creditsService.expireSubscription(
+      user.walletAddress,
+      audit,
+      renewalOutcome ? { renewal: renewalOutcome } : {}
+    );
+    if (expired) {
+      result.expired.push(user.walletAddress);
+    }
+  }
+
+  /**
+   * Charge the tier's price to the prepaid balance and start a new period
+   * The charge and the new period are written in one transaction, which does
+   * nothing if the user renewed or was changed since the batch was read.
+   * Returns "renewed", or why the subscription could not be renewed.
+   */
+  private async renew(user: UserCredits, audit: AuditContext): Promise<string> {
+    const quote = await this.quoteRenewal(user);
+    if (!quote) {
+      return "tier_not_purchasable";
+    }
+
+    const renewal = await creditsService.activateSubscription(user.walletAddress, user.tier, audit, undefined, undefined, {
+      renewal: { amount: quote.amount, route: quote.route },
+    });
+    if (!renewal.success) {
+      return renewal.reason!;
+    }
+
+    console.log(`🔄 [Lifecycle] Renewed ${user.tier} for ${user.walletAddress} ($${quote.finalPrice} from prepaid balance)`);
+    return "renewed";
+  }
+
+  // Leave a failing user out of the next runs for a while so it does not hold up the rest
+  private async defer(user: UserCredits) {
+    try {
+      await creditsService.deferLifecycle(
+        user.walletAddress,
+        new Date(Date.now() + subscriptionLifecycleConfig.retryDelayMinutes * 60 * 1000)
+      );
+    } catch (error) {
+      console.error(`[Lifecycle] Failed to defer ${user.walletAddress}:`, error);
+    }
+  }
+
+  // Renewals start after the old period ends, so no tier discount applies
+  private quoteRenewal(user: UserCredits) {
+    return pricingService.quote(`/api/subscription/${user.tier}`);
+  }
+
+  // Remind once per subscription when the prepaid balance will not cover the renewal
+  // A plan already paid for the next period needs no reminder
+  private async remindIfUnfunded(user: UserCredits, result: LifecycleRunResult) {
+    if (user.scheduledSubscriptionId) {
+      return;
+    }
+
+    const subscription = await creditsService.getActiveSubscription(user.walletAddress);
+    if (!subscription || subscription.renewalReminderSentAt) {
+      return;
+    }
+
+    const quote = await this.quoteRenewal(user);
+    const balance = await prepaidBalanceService.getBalance(user.walletAddress);
+    if (!quote || balance >= quote.amount) {
+      return;
+    }
+
+    const sent = await creditsService.recordRenewalReminder(user.walletAddress, subscription.id, {
+      renewalPriceUsd: quote.finalPrice,
+      usdcBalance: Number(balance) / 1_000_000,
+    });
+    if (sent) {
+      result.reminded.push(user.walletAddress);
+    }
+  }
+}
+
+// Export singleton instance
+export const subscriptionLifecycleService = new SubscriptionLifecycleService();
@@ -5,7 +5,7 @@
  * Reference: https://docs.elizaos.ai/plugins/development
  */
 
-import { aiServiceConfig } from "@/lib/config/x402";
+import { paymentRequestService } from "@/lib/services/PaymentRequestService";
 
 /**
  * Note: Using 'as any' cast for actions to bypass strict elizaOS typing.
@@ -42,19 +42,12 @@ export const generateImageAction = {
                 return;
             }
 
-            const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-            const paymentRequest = {
-                paymentId,
+            // Signed by the server so the chat UI will show a pay button for it
+            const paymentRequest = paymentRequestService.issue({
                 endpoint: "/api/ai/generate",
-                method: "POST",
-                price: `$${aiServiceConfig.generatePriceUsd}`,
-                network: process.env.NEXT_PUBLIC_NETWORK || "avalanche",
-                payTo: process.env.NEXT_PUBLIC_PAY_TO_ADDRESS || "",
-                facilitator: process.env.NEXT_PUBLIC_FACILITATOR_URL || "https://stack.perkos.xyz",
                 description: "Generate AI image with DALL-E 3",
                 requestData: { prompt },
-            };
+            })!;
 
             if (callback) {
                 callback({
@@ -127,19 +120,12 @@ export const synthesizeSpeechAction = {
                 return;
             }
 
-            const paymentId = `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-            const paymentRequest = {
-                paymentId,
+            // Signed by the server so the chat UI will show a pay button for it
+            const paymentRequest = paymentRequestService.issue({
                 endpoint: "/api/ai/synthesize",
-                method: "POST",
-                price: `$${aiServiceConfig.synthesizePriceUsd}`,
-                network: process.env.NEXT_PUBLIC_NETWORK || "avalanche",
-                payTo: process.env.NEXT_PUBLIC_PAY_TO_ADDRESS || "",
-                facilitator: process.env.NEXT_PUBLIC_FACILITATOR_URL || "https://stack.perkos.xyz",
                 description: "Synthesize speech with TTS-1",
                 requestData: { text: textToSpeak, voice: "alloy" },
-            };
+            })!;
 
             if (callback) {
                 callback({
@@ -0,0 +1,196 @@
+/**
+ * Failover Facilitator
+ * Tries an ordered list of facilitators, skipping any whose circuit is open.
+ *
+ * Each member has a circuit breaker: after failureThreshold consecutive
+ * unavailable results its circuit opens and requests go straight to the next
+ * member. Once cooldownSeconds have passed the circuit is half-open and a
+ * single request is let through as a probe while others skip the member;
+ * success closes it, failure re-opens it. Breaker state is per process.
+ *
+ * A settlement whose outcome is unknown (the transfer may still land) is only
+ * failed over when that is safe, and a later failure does not override it.
+ */
+
+import { facilitatorPolicy } from "@/lib/config/x402";
+import type {
+  Facilitator,
+  FacilitatorRequest,
+  FacilitatorVerifyResult,
+  FacilitatorSettleResult,
+  FacilitatorHealth,
+  CircuitStatus,
+} from "./types";
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError?: string;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  probing: boolean; // A half-open probe request is in flight
+}
+
+export class FailoverFacilitator implements Facilitator {
+  readonly name: string;
+  private readonly circuits = new Map<Facilitator, CircuitState>();
+
+  constructor(
+    private readonly members: Facilitator[],
+    private readonly policy = facilitatorPolicy
+  ) {
+    this.name = members.map((member) => member.name).join(" > ");
+    for (const member of members) {
+      this.circuits.set(member, { consecutiveFailures: 0, openedAt: null, probing: false });
+    }
+  }
+
+  async verify(request: FacilitatorRequest): Promise<FacilitatorVerifyResult> {
+    const unavailable = (error: string): FacilitatorVerifyResult =>
+      ({ isValid: false, invalidReason: error, unavailable: true, retryable: true });
+    return this.run("verify", (member) => member.verify(request), unavailable, unavailable);
+  }
+
+  async settle(request: FacilitatorRequest): Promise<FacilitatorSettleResult> {
+    // A thrown settle error leaves the outcome unknown, so it is not retried elsewhere
+    return this.run(
+      "settle",
+      (member) => member.settle(request),
+      (error) => ({ success: false, error, unavailable: true, retryable: false, outcomeUnknown: true }),
+      (error) => ({ success: false, error, unavailable: true, retryable: true })
+    );
+  }
+
+  /**
+   * Probe every member and overlay its circuit breaker state
+   */
+  async getHealth(): Promise<FacilitatorHealth[]> {
+    const probes = await Promise.all(
+      this.members.map(async (member) => {
+        const probed = member.getHealth ? await member.getHealth().catch(() => []) : [];
+        return { member, probe: probed[0] };
+      })
+    );
+
+    return probes.map(({ member, probe }) => {
+      const circuit = this.circuits.get(member)!;
+      return {
+        name: member.name,
+        url: probe?.url,
+        healthy: probe ? probe.healthy : this.status(circuit) !== "open",
+        latencyMs: probe?.latencyMs,
+        circuit: this.status(circuit),
+        consecutiveFailures: circuit.consecutiveFailures,
+        lastError: circuit.lastError,
+        lastSuccessAt: circuit.lastSuccessAt ? new Date(circuit.lastSuccessAt).toISOString() : undefined,
+        lastFailureAt: circuit.lastFailureAt ? new Date(circuit.lastFailureAt).toISOString() : undefined,
+      };
+    });
+  }
+
+  private async run<T extends FacilitatorVerifyResult | FacilitatorSettleResult>(
+    operation: "verify" | "settle",
+    call: (member: Facilitator) => Promise<T>,
+    onError: (error: string) => T,
+    onSkipped: (error: string) => T
+  ): Promise<T> {
+    let candidates = this.members.filter((member) => this.admits(this.circuits.get(member)!));
+
+    // Every circuit is open: trying them all beats failing without a request
+    const allOpen = candidates.length === 0;
+    if (allOpen) {
+      console.warn(`⚠️ All facilitator circuits open, trying every facilitator for ${operation}`);
+      candidates = this.members;
+    }
+
+    let lastResult: T | undefined;
+    // Settlement whose outcome is unknown: a later failure (such as the nonce
+    // already being used) does not show that the payment failed
+    let unknownResult: T | undefined;
+    const settled = (result: T) => ("isValid" in result ? result.isValid : result.success);
+
+    for (const member of candidates) {
+      const circuit = this.circuits.get(member)!;
+      const halfOpen = this.status(circuit) === "half-open";
+      // Another request may have started probing this member since the candidates were chosen
+      if (halfOpen && circuit.probing && !allOpen) {
+        continue;
+      }
+      const probe = halfOpen && !circuit.probing;
+      if (probe) {
+        circuit.probing = true;
+      }
+
+      let result: T;
+      try {
+        result = await call(member);
+      } catch (error) {
+        result = onError(error instanceof Error ? error.message : `${operation} failed`);
+      } finally {
+        if (probe) {
+          circuit.probing = false;
+        }
+      }
+      result = { ...result, facilitator: member.name };
+
+      if (!result.unavailable) {
+        this.recordSuccess(member);
+        return unknownResult && !settled(result) ? unknownResult : result;
+      }
+
+      const reason = "isValid" in result ? result.invalidReason : result.error;
+      this.recordFailure(member, reason || `${operation} failed`);
+      lastResult = result;
+      if ("outcomeUnknown" in result && result.outcomeUnknown) {
+        unknownResult = result;
+      }
+
+      if (!result.retryable) {
+        return unknownResult || result;
+      }
+
+      if (member !== candidates[candidates.length - 1]) {
+        console.warn(`⚠️ Facilitator ${member.name} unavailable for ${operation}, failing over:`, reason);
+      }
+    }
+
+    return unknownResult || lastResult || onSkipped(`No facilitator available for ${operation}`);
+  }
+
+  // Closed circuits take every request, half-open ones a single probe at a time
+  private admits(circuit: CircuitState): boolean {
+    const status = this.status(circuit);
+    return status === "closed" || (status === "half-open" && !circuit.probing);
+  }
+
+  private status(circuit: CircuitState): CircuitStatus {
+    if (circuit.openedAt === null) return "closed";
+    return Date.now() - circuit.openedAt >= this.policy.cooldownSeconds * 1000 ? "half-open" : "open";
+  }
+
+  private recordSuccess(member: Facilitator): void {
+    const circuit = this.circuits.get(member)!;
+    if (circuit.openedAt !== null) {
+      console.log(`✅ Facilitator ${member.name} recovered, circuit closed`);
+    }
+    circuit.consecutiveFailures = 0;
+    circuit.openedAt = null;
+    circuit.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(member: Facilitator, error: string): void {
+    const circuit = this.circuits.get(member)!;
+    const wasHalfOpen = this.status(circuit) === "half-open";
+
+    circuit.consecutiveFailures += 1;
+    circuit.lastError = error;
+    circuit.lastFailureAt = Date.now();
+
+    if (wasHalfOpen || circuit.consecutiveFailures >= this.policy.failureThreshold) {
+      if (circuit.openedAt === null || wasHalfOpen) {
+        console.error(`❌ Facilitator ${member.name} circuit opened after ${circuit.consecutiveFailures} failure(s):`, error);
+      }
+      circuit.openedAt = Date.now();
+    }
+  }
+}
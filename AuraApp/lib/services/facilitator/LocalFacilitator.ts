@@ -0,0 +1,129 @@
+/**
+ * Local Facilitator
+ * Verifies x402 v2 "exact" payments in-process by recovering the EIP-3009
+ * TransferWithAuthorization signature against the token's EIP-712 domain.
+ * Settlement is delegated, since broadcasting requires a funded relayer.
+ */
+
+import { verifyTypedData } from "viem";
+import {
+  createEIP712Domain,
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  toLegacyNetwork,
+} from "@/lib/utils/x402-payment";
+import type {
+  Facilitator,
+  FacilitatorRequest,
+  FacilitatorVerifyResult,
+  FacilitatorSettleResult,
+  FacilitatorHealth,
+} from "./types";
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const NONCE_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+
+export class LocalFacilitator implements Facilitator {
+  readonly name: string;
+
+  constructor(private readonly settler: Facilitator) {
+    this.name = `local+${settler.name}`;
+  }
+
+  async verify({ envelope, requirements }: FacilitatorRequest): Promise<FacilitatorVerifyResult> {
+    const { authorization, signature } = envelope;
+
+    if (
+      !ADDRESS_PATTERN.test(authorization.from) ||
+      !ADDRESS_PATTERN.test(authorization.to) ||
+      !NONCE_PATTERN.test(authorization.nonce) ||
+      authorization.validAfter === undefined
+    ) {
+      return { isValid: false, invalidReason: "Malformed payment authorization" };
+    }
+
+    if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      return {
+        isValid: false,
+        invalidReason: `Recipient mismatch. Expected ${requirements.payTo}, got ${authorization.to}`,
+      };
+    }
+
+    let value: bigint;
+    let validAfter: bigint;
+    let validBefore: bigint;
+    try {
+      value = BigInt(authorization.value);
+      validAfter = BigInt(authorization.validAfter);
+      validBefore = BigInt(authorization.validBefore);
+    } catch {
+      return { isValid: false, invalidReason: "Malformed payment authorization" };
+    }
+
+    if (value < BigInt(requirements.maxAmountRequired)) {
+      return {
+        isValid: false,
+        invalidReason: `Insufficient payment amount. Expected ${requirements.maxAmountRequired}, got ${authorization.value}`,
+      };
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (validBefore <= now || validAfter > now) {
+      return { isValid: false, invalidReason: "Payment authorization is not currently valid" };
+    }
+
+    // Same domain construction the client uses to sign (see lib/utils/sign-payment.ts),
+    // with name/version taken from the requirements so both sides agree
+    const legacyNetwork = toLegacyNetwork(requirements.network) || requirements.network;
+    const domain = {
+      ...createEIP712Domain(legacyNetwork, requirements.asset, requirements.extra.name),
+      version: requirements.extra.version,
+    };
+
+    try {
+      const valid = await verifyTypedData({
+        address: authorization.from as `0x${string}`,
+        domain,
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: "TransferWithAuthorization",
+        message: {
+          from: authorization.from as `0x${string}`,
+          to: authorization.to as `0x${string}`,
+          value,
+          validAfter,
+          validBefore,
+          nonce: authorization.nonce as `0x${string}`,
+        },
+        signature: signature as `0x${string}`,
+      });
+
+      if (!valid) {
+        console.error("❌ Local signature verification failed:", {
+          from: authorization.from,
+          network: requirements.network,
+        });
+        return { isValid: false, payer: authorization.from, invalidReason: "Invalid payment signature" };
+      }
+    } catch (error) {
+      return {
+        isValid: false,
+        invalidReason: error instanceof Error ? error.message : "Invalid payment signature",
+      };
+    }
+
+    console.log("✅ Payment signature verified locally:", {
+      payer: authorization.from,
+      network: requirements.network,
+    });
+
+    return { isValid: true, payer: authorization.from };
+  }
+
+  async settle(request: FacilitatorRequest): Promise<FacilitatorSettleResult> {
+    return this.settler.settle(request);
+  }
+
+  // Verification is in-process, so health is that of the settler
+  async getHealth(): Promise<FacilitatorHealth[]> {
+    return this.settler.getHealth ? this.settler.getHealth() : [];
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Mock Facilitator
+ * Accepts every payment and "settles" it with a random transaction hash.
+ * For local development and offline demos only - no funds ever move.
+ */
+
+import { randomBytes } from "crypto";
+import type {
+  Facilitator,
+  FacilitatorRequest,
+  FacilitatorVerifyResult,
+  FacilitatorSettleResult,
+  FacilitatorHealth,
+} from "./types";
+
+export class MockFacilitator implements Facilitator {
+  readonly name = "mock";
+
+  async verify({ envelope }: FacilitatorRequest): Promise<FacilitatorVerifyResult> {
+    console.warn("⚠️ Mock facilitator accepted payment without verification:", {
+      payer: envelope.authorization.from,
+      value: envelope.authorization.value,
+    });
+    return { isValid: true, payer: envelope.authorization.from };
+  }
+
+  async settle({ envelope }: FacilitatorRequest): Promise<FacilitatorSettleResult> {
+    const transactionHash = `0x${randomBytes(32).toString("hex")}`;
+    console.warn("⚠️ Mock facilitator settled payment off-chain:", {
+      payer: envelope.authorization.from,
+      value: envelope.authorization.value,
+      transactionHash,
+    });
+    return { success: true, transactionHash };
+  }
+
+  async getHealth(): Promise<FacilitatorHealth[]> {
+    return [{ name: this.name, healthy: true, circuit: "closed", consecutiveFailures: 0 }];
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Remote Facilitator
+ * Verifies and settles x402 v2 payments over HTTP via a PerkOS-Stack facilitator
+ */
+
+import { facilitatorPolicy } from "@/lib/config/x402";
+import { toCAIP2Network, toLegacyNetwork } from "@/lib/utils/x402-payment";
+import { getAuthorizationOutcome } from "@/lib/utils/balance-checker";
+import { registrationService } from "@/lib/services/RegistrationService";
+import type {
+  Facilitator,
+  FacilitatorRequest,
+  FacilitatorVerifyResult,
+  FacilitatorSettleResult,
+  FacilitatorHealth,
+} from "./types";
+
+export class RemoteFacilitator implements Facilitator {
+  readonly name: string;
+
+  constructor(
+    readonly baseUrl: string,
+    private readonly timeoutMs: number = facilitatorPolicy.timeoutMs
+  ) {
+    this.name = `remote:${baseUrl}`;
+  }
+
+  async getHealth(): Promise<FacilitatorHealth[]> {
+    const startedAt = Date.now();
+    const healthy = await registrationService.checkFacilitatorHealth(this.baseUrl);
+    return [{
+      name: this.name,
+      url: this.baseUrl,
+      healthy,
+      latencyMs: Date.now() - startedAt,
+      circuit: "closed",
+      consecutiveFailures: 0,
+    }];
+  }
+
+  async verify({ envelope, requirements }: FacilitatorRequest): Promise<FacilitatorVerifyResult> {
+    const verifyUrl = `${this.baseUrl}/api/v2/x402/verify`;
+
+    let verifyResponse: Response;
+    try {
+      verifyResponse = await fetch(verifyUrl, {
+        method: "POST",
+        signal: AbortSignal.timeout(this.timeoutMs),
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          x402Version: 2, // Use x402 V2 protocol
+          paymentRequirements: requirements,
+          paymentPayload: {
+            x402Version: 2, // V2 protocol
+            network: toCAIP2Network(envelope.network), // V2 uses CAIP-2 format
+            scheme: "exact", // Required: exact or deferred
+            payload: envelope,
+          },
+        }),
+      });
+    } catch (fetchError) {
+      // Connection error - facilitator not running or unreachable
+      const errorMessage = fetchError instanceof Error ? fetchError.message : "Unknown error";
+      console.error(`❌ Facilitator connection failed: ${verifyUrl}`, {
+        error: errorMessage,
+        facilitatorUrl: this.baseUrl,
+        hint: "Make sure the x402 facilitator is running on the configured port",
+      });
+      return {
+        isValid: false,
+        invalidReason: `Facilitator unavailable at ${this.baseUrl}. Please ensure the facilitator service is running.`,
+        unavailable: true,
+        retryable: true, // Verification has no side effects
+      };
+    }
+
+    if (!verifyResponse.ok) {
+      const errorData = await verifyResponse.json().catch(() => ({}));
+      const serverError = verifyResponse.status >= 500;
+      return {
+        isValid: false,
+        invalidReason: errorData.invalidReason || `Verification failed: ${verifyResponse.statusText}`,
+        unavailable: serverError,
+        retryable: serverError,
+      };
+    }
+
+    const verifyResult = await verifyResponse.json();
+    return {
+      isValid: verifyResult.isValid || false,
+      payer: verifyResult.payer,
+      invalidReason: verifyResult.invalidReason,
+    };
+  }
+
+  async settle({ envelope, requirements }: FacilitatorRequest): Promise<FacilitatorSettleResult> {
+    const settleUrl = `${this.baseUrl}/api/v2/x402/settle`;
+
+    let settleResponse: Response;
+    try {
+      settleResponse = await fetch(settleUrl, {
+        method: "POST",
+        signal: AbortSignal.timeout(this.timeoutMs),
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          x402Version: 2, // Use x402 V2 protocol
+          paymentPayload: {
+            x402Version: 2, // V2 protocol
+            network: toCAIP2Network(envelope.network), // V2 uses CAIP-2 format
+            scheme: "exact", // Required: exact or deferred
+            payload: envelope,
+          },
+          paymentRequirements: requirements,
+        }),
+      });
+    } catch (fetchError) {
+      // Connection error - facilitator not running or unreachable
+      const errorMessage = fetchError instanceof Error ? fetchError.message : "Unknown error";
+      console.error(`❌ Facilitator connection failed during settlement: ${settleUrl}`, {
+        error: errorMessage,
+        facilitatorUrl: this.baseUrl,
+        hint: "Make sure the x402 facilitator is running on the configured port",
+      });
+      // A timed-out request may still have been broadcast, so only retry elsewhere
+      // when the facilitator was never reached or the chain shows the nonce unused
+      const timedOut = fetchError instanceof Error &&
+        (fetchError.name === "TimeoutError" || fetchError.name === "AbortError");
+      if (timedOut) {
+        return this.resolveLostSettlement({ envelope, requirements }, `Settlement timed out at ${this.baseUrl}`);
+      }
+      return {
+        success: false,
+        error: `Facilitator unavailable at ${this.baseUrl}. Please ensure the facilitator service is running.`,
+        unavailable: true,
+        retryable: true,
+      };
+    }
+
+    if (!settleResponse.ok) {
+      const errorData = await settleResponse.json().catch(() => ({}));
+      const errorReason = errorData.errorReason || errorData.error || `Settlement failed: ${settleResponse.statusText}`;
+
+      // A gateway timeout may have reached the facilitator, like a timeout here
+      if (settleResponse.status === 504) {
+        return this.resolveLostSettlement({ envelope, requirements }, errorReason);
+      }
+      // Other gateway errors mean the request never reached the facilitator
+      const gatewayError = [502, 503].includes(settleResponse.status);
+
+      console.error("❌ Payment settlement failed:", {
+        status: settleResponse.status,
+        errorReason,
+        payer: envelope.authorization.from,
+        network: envelope.network,
+      });
+
+      return {
+        success: false,
+        error: errorReason,
+        unavailable: settleResponse.status >= 500,
+        retryable: gatewayError,
+      };
+    }
+
+    const settleResult = await settleResponse.json();
+
+    // Log the full response for debugging
+    console.log("🔍 Facilitator settle response:", JSON.stringify(settleResult, null, 2));
+
+    if (!settleResult.success) {
+      const errorReason = settleResult.errorReason || settleResult.error || "Settlement failed";
+      console.error("❌ Payment settlement returned success: false:", {
+        errorReason,
+        payer: settleResult.payer,
+        network: settleResult.network,
+      });
+
+      return {
+        success: false,
+        error: errorReason,
+      };
+    }
+
+    // Extract transaction hash from various possible response formats
+    // Facilitator returns transaction as a string or in receipt.settlement.transaction
+    const transactionHash =
+      (typeof settleResult.transaction === "string" ? settleResult.transaction : undefined) ||
+      settleResult.transaction?.hash ||
+      settleResult.transaction?.transactionHash ||
+      settleResult.receipt?.settlement?.transaction ||
+      settleResult.transactionHash ||
+      settleResult.hash ||
+      undefined;
+
+    console.log("✅ Payment settled successfully:", {
+      transactionHash,
+      payer: settleResult.payer,
+      network: settleResult.network,
+      responseKeys: Object.keys(settleResult),
+    });
+
+    return {
+      success: true,
+      transactionHash,
+    };
+  }
+
+  /**
+   * Resolve a settle request whose response was lost: the facilitator may have
+   * broadcast the transfer. Only an AuthorizationUsed event for the nonce shows
+   * it landed; a canceled authorization means it never will. An unused nonce can
+   * be settled elsewhere (EIP-3009 nonces are single-use) but the outcome stays
+   * unknown, since the first broadcast may still be pending.
+   */
+  private async resolveLostSettlement(
+    { envelope, requirements }: FacilitatorRequest,
+    error: string
+  ): Promise<FacilitatorSettleResult> {
+    const network = toLegacyNetwork(requirements.network) || envelope.network;
+
+    try {
+      const outcome = await getAuthorizationOutcome(
+        network,
+        envelope.authorization.from as `0x${string}`,
+        envelope.authorization.nonce as `0x${string}`,
+        { token: requirements.asset }
+      );
+
+      switch (outcome.state) {
+        case "used":
+          console.log("✅ Settlement response lost but the transfer landed on-chain:", {
+            facilitatorUrl: this.baseUrl,
+            transactionHash: outcome.transactionHash,
+            network,
+          });
+          return { success: true, transactionHash: outcome.transactionHash };
+        case "canceled":
+          return {
+            success: false,
+            error: "Payment authorization was canceled before it settled",
+            unavailable: true,
+            retryable: false,
+          };
+        case "unused":
+          return { success: false, error, unavailable: true, retryable: true, outcomeUnknown: true };
+        default:
+          // Spent with no matching event in range: leave it to reconciliation
+          return { success: false, error, unavailable: true, retryable: false, outcomeUnknown: true };
+      }
+    } catch (checkError) {
+      console.error("❌ Could not check the authorization on-chain after a lost settlement:", {
+        facilitatorUrl: this.baseUrl,
+        error: checkError instanceof Error ? checkError.message : checkError,
+      });
+      return { success: false, error, unavailable: true, retryable: false, outcomeUnknown: true };
+    }
+  }
+}
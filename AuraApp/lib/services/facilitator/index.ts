@@ -0,0 +1,60 @@
+/**
+ * Facilitator selection
+ * Resolves the Facilitator used by the x402 middleware from FACILITATOR_MODE
+ */
+
+import { x402Config, assertFacilitatorModeAllowed, type FacilitatorMode } from "@/lib/config/x402";
+import { RemoteFacilitator } from "./RemoteFacilitator";
+import { LocalFacilitator } from "./LocalFacilitator";
+import { MockFacilitator } from "./MockFacilitator";
+import { FailoverFacilitator } from "./FailoverFacilitator";
+import type { Facilitator, FacilitatorHealth } from "./types";
+
+export * from "./types";
+export { RemoteFacilitator, LocalFacilitator, MockFacilitator, FailoverFacilitator };
+
+let facilitator: Facilitator | null = null;
+
+/**
+ * Build a facilitator for a mode
+ * Modes that mock settlement throw outside development and test.
+ */
+export function createFacilitator(mode: FacilitatorMode): Facilitator {
+  assertFacilitatorModeAllowed(mode);
+
+  // Configured facilitators in order of preference, with failover between them
+  const remote = () => new FailoverFacilitator(
+    x402Config.facilitatorUrls.map((url) => new RemoteFacilitator(url))
+  );
+
+  switch (mode) {
+    case "local":
+      return new LocalFacilitator(remote());
+    case "offline":
+      return new LocalFacilitator(new MockFacilitator());
+    case "mock":
+      return new MockFacilitator();
+    case "remote":
+    default:
+      return remote();
+  }
+}
+
+/**
+ * Get the configured facilitator (created once per process)
+ */
+export function getFacilitator(): Facilitator {
+  if (!facilitator) {
+    facilitator = createFacilitator(x402Config.facilitatorMode);
+    console.log(`💰 Using x402 facilitator: ${facilitator.name}`);
+  }
+  return facilitator;
+}
+
+/**
+ * Probe the configured facilitator(s) and report circuit breaker state
+ */
+export async function getFacilitatorHealth(): Promise<FacilitatorHealth[]> {
+  const current = getFacilitator();
+  return current.getHealth ? current.getHealth() : [];
+}
@@ -0,0 +1,72 @@
+/**
+ * Facilitator type definitions
+ * A facilitator verifies and settles x402 payments; implementations may be
+ * remote (PerkOS-Stack), in-process (local EIP-712 verification) or mocked.
+ */
+
+import type { PaymentEnvelope } from "@/lib/middleware/x402";
+
+export type { FacilitatorMode } from "@/lib/config/x402";
+
+// x402 v2 paymentRequirements sent alongside the payload
+export interface FacilitatorPaymentRequirements {
+  scheme: "exact";
+  network: string; // CAIP-2
+  maxAmountRequired: string; // Atomic units
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: `0x${string}`;
+  extra: {
+    name: string; // EIP-712 domain name of the token
+    version: string; // EIP-712 domain version of the token
+  };
+}
+
+export interface FacilitatorRequest {
+  envelope: PaymentEnvelope;
+  requirements: FacilitatorPaymentRequirements;
+}
+
+// Failure flags shared by verify and settle results
+interface FacilitatorOutcome {
+  facilitator?: string; // Name of the facilitator that produced the result
+  unavailable?: boolean; // Facilitator unreachable or erroring; counts against its circuit
+  retryable?: boolean; // Safe to repeat the same request on another facilitator
+}
+
+export interface FacilitatorVerifyResult extends FacilitatorOutcome {
+  isValid: boolean;
+  payer?: string;
+  invalidReason?: string;
+}
+
+export interface FacilitatorSettleResult extends FacilitatorOutcome {
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+  outcomeUnknown?: boolean; // The transfer may still land on-chain (e.g. the request timed out)
+}
+
+export type CircuitStatus = "closed" | "open" | "half-open";
+
+export interface FacilitatorHealth {
+  name: string;
+  url?: string;
+  healthy: boolean; // Result of the latest health probe
+  latencyMs?: number; // Health probe latency
+  circuit: CircuitStatus;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+}
+
+export interface Facilitator {
+  readonly name: string;
+  verify(request: FacilitatorRequest): Promise<FacilitatorVerifyResult>;
+  settle(request: FacilitatorRequest): Promise<FacilitatorSettleResult>;
+  getHealth?(): Promise<FacilitatorHealth[]>;
+}
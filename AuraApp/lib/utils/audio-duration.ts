@@ -0,0 +1,78 @@
+/**
+ * Audio Duration
+ * Determines the duration of an uploaded audio file for usage-based pricing
+ */
+
+// Assumed bitrate for formats whose duration is not read from the header (16 kbps).
+// A floor: speech codecs rarely go lower, so estimates err towards overcounting.
+const FALLBACK_BYTES_PER_SECOND = 2_000;
+
+// WAV encodings whose byte rate is sampleRate x blockAlign: PCM, IEEE float, extensible
+const UNCOMPRESSED_WAV_FORMATS = new Set([0x0001, 0x0003, 0xfffe]);
+
+/**
+ * Get the duration of an audio file in seconds
+ * Uncompressed WAV durations are exact (from the header). Other formats (mp3,
+ * m4a, webm, compressed WAV, ...) are estimated from their size at 16 kbps,
+ * which overcounts anything encoded at a higher bitrate and so never prices a
+ * recording below its length.
+ */
+export function getAudioDurationSeconds(bytes: Uint8Array): number {
+  return getWavDurationSeconds(bytes) ?? bytes.byteLength / FALLBACK_BYTES_PER_SECOND;
+}
+
+/**
+ * Read the duration of a RIFF/WAVE file from its fmt and data chunks
+ */
+function getWavDurationSeconds(bytes: Uint8Array): number | null {
+  if (bytes.byteLength < 12) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  if (tag(0) !== "RIFF" || tag(8) !== "WAVE") return null;
+
+  let byteRate: number | null = null; // Derived from the fmt chunk, never read from it
+  let offset = 12;
+
+  while (offset + 8 <= bytes.byteLength) {
+    const chunkId = tag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+
+    if (chunkId === "fmt " && offset + 24 <= bytes.byteLength) {
+      byteRate = getWavByteRate(view, offset + 8);
+      if (!byteRate) return null;
+    } else if (chunkId === "data") {
+      if (!byteRate) return null;
+      // Streamed WAVs may leave the data size unset; use what was uploaded
+      const dataSize = Math.min(chunkSize, bytes.byteLength - offset - 8);
+      return dataSize / byteRate;
+    }
+
+    // Chunks are word-aligned
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Byte rate of an uncompressed WAV fmt chunk, as sampleRate x blockAlign
+ * The header's own byteRate field is ignored since it can be forged. Returns
+ * null for compressed encodings and implausible or inconsistent fields.
+ */
+function getWavByteRate(view: DataView, fmtOffset: number): number | null {
+  const formatTag = view.getUint16(fmtOffset, true);
+  const channels = view.getUint16(fmtOffset + 2, true);
+  const sampleRate = view.getUint32(fmtOffset + 4, true);
+  const blockAlign = view.getUint16(fmtOffset + 12, true);
+  const bitsPerSample = view.getUint16(fmtOffset + 14, true);
+
+  if (!UNCOMPRESSED_WAV_FORMATS.has(formatTag)) return null;
+  if (channels < 1 || channels > 8) return null;
+  if (sampleRate < 1_000 || sampleRate > 384_000) return null;
+  if (bitsPerSample < 8 || bitsPerSample > 64 || bitsPerSample % 8 !== 0) return null;
+  if (blockAlign !== channels * (bitsPerSample / 8)) return null;
+
+  return sampleRate * blockAlign;
+}
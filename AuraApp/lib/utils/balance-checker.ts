@@ -1,6 +1,6 @@
 /**
  * Balance Checker Utilities
- * Check USDC balance for a wallet address
+ * Read USDC state on-chain: wallet balances and EIP-3009 authorization nonces
  */
 
 import { createPublicClient, http, formatUnits, type Address } from "viem";
@@ -25,6 +25,55 @@ const ERC20_ABI = [
   },
 ] as const;
 
+// EIP-3009 nonce state (true once an authorization has been used or canceled)
+// and the events that tell the two apart
+const EIP3009_ABI = [
+  {
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+    name: "authorizationState",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "authorizer", type: "address" },
+      { indexed: true, name: "nonce", type: "bytes32" },
+    ],
+    name: "AuthorizationUsed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "authorizer", type: "address" },
+      { indexed: true, name: "nonce", type: "bytes32" },
+    ],
+    name: "AuthorizationCanceled",
+    type: "event",
+  },
+] as const;
+
+// Blocks searched for authorization events when no starting block is known
+const AUTHORIZATION_LOOKBACK_BLOCKS = BigInt(2000);
+
+/**
+ * What happened to an EIP-3009 authorization on-chain
+ * - unused: the nonce is still free
+ * - used: a transfer with the authorization landed in transactionHash
+ * - canceled: the payer canceled it, so no transfer happened
+ * - unmatched: the nonce is spent but no event was found in the searched blocks
+ */
+export type AuthorizationOutcome =
+  | { state: "unused" }
+  | { state: "used"; transactionHash: `0x${string}` }
+  | { state: "canceled"; transactionHash: `0x${string}` }
+  | { state: "unmatched" };
+
 /**
  * Get RPC URL for a network
  */
@@ -101,6 +150,73 @@ export async function checkUSDCBalance(
   }
 }
 
+/**
+ * Get the latest block number for a network
+ */
+export async function getLatestBlockNumber(network: string): Promise<bigint> {
+  const publicClient = createPublicClient({
+    chain: getViemChain(network),
+    transport: http(getRpcUrl(network)),
+  });
+  return publicClient.getBlockNumber();
+}
+
+/**
+ * Find out what happened to an EIP-3009 authorization on-chain
+ * authorizationState alone cannot tell a landed transfer from a canceled
+ * authorization, so a spent nonce is matched to its AuthorizationUsed or
+ * AuthorizationCanceled event from fromBlock on (default: the last
+ * AUTHORIZATION_LOOKBACK_BLOCKS). Throws if the chain cannot be read.
+ */
+export async function getAuthorizationOutcome(
+  network: string,
+  authorizer: Address,
+  nonce: `0x${string}`,
+  options: { token?: Address; fromBlock?: bigint } = {}
+): Promise<AuthorizationOutcome> {
+  const token = options.token || getUSDCAddress(network);
+  const publicClient = createPublicClient({
+    chain: getViemChain(network),
+    transport: http(getRpcUrl(network)),
+  });
+
+  const spent = (await publicClient.readContract({
+    address: token,
+    abi: EIP3009_ABI,
+    functionName: "authorizationState",
+    args: [authorizer, nonce],
+  })) as boolean;
+  if (!spent) {
+    return { state: "unused" };
+  }
+
+  let fromBlock = options.fromBlock;
+  if (fromBlock === undefined) {
+    const latest = await publicClient.getBlockNumber();
+    fromBlock = latest > AUTHORIZATION_LOOKBACK_BLOCKS ? latest - AUTHORIZATION_LOOKBACK_BLOCKS : BigInt(0);
+  }
+
+  const [used, canceled] = await Promise.all(
+    (["AuthorizationUsed", "AuthorizationCanceled"] as const).map((eventName) =>
+      publicClient.getContractEvents({
+        address: token,
+        abi: EIP3009_ABI,
+        eventName,
+        args: { authorizer, nonce },
+        fromBlock,
+      })
+    )
+  );
+
+  if (used.length > 0 && used[0].transactionHash) {
+    return { state: "used", transactionHash: used[0].transactionHash };
+  }
+  if (canceled.length > 0 && canceled[0].transactionHash) {
+    return { state: "canceled", transactionHash: canceled[0].transactionHash };
+  }
+  return { state: "unmatched" };
+}
+
 /**
  * Get supported networks information
  */
@@ -1,10 +1,17 @@
 /**
  * Private Key Encryption Utilities
  * Encrypts/decrypts private keys for secure storage in .env files
- * 
+ *
+ * Encrypted keys are a self-describing envelope: "enc:" followed by base64url
+ * JSON holding the format version, KDF and its parameters, cipher, salt, iv,
+ * tag and ciphertext. Raising the KDF cost or changing it later only affects
+ * new values; older values still decrypt, including the original unversioned
+ * format (base64 of salt + iv + tag + ciphertext, PBKDF2-SHA512, 100k iterations).
+ *
  * Usage:
- *   Encrypt: npx tsx scripts/encrypt-key.ts encrypt 0xYourPrivateKey
- *   Decrypt: npx tsx scripts/encrypt-key.ts decrypt ENCRYPTED_KEY
+ *   Encrypt: npm run keys -- encrypt 0xYourPrivateKey
+ *   Decrypt: npm run keys -- decrypt ENCRYPTED_KEY
+ *   Rotate:  npm run keys -- rotate [env|vault]
  */
 
 import crypto from "crypto";
@@ -14,67 +21,213 @@ const IV_LENGTH = 16;
 const SALT_LENGTH = 64;
 const TAG_LENGTH = 16;
 const KEY_LENGTH = 32;
-const ITERATIONS = 100000;
+
+const ENVELOPE_PREFIX = "enc:";
+export const ENCRYPTED_KEY_VERSION = 2;
+
+// Original unversioned format
+const LEGACY_KDF: KdfConfig = { kdf: "pbkdf2", params: { digest: "sha512", iterations: 100000 } };
+
+export type KdfConfig =
+  | { kdf: "pbkdf2"; params: { digest: "sha256" | "sha512"; iterations: number } }
+  | { kdf: "scrypt"; params: { N: number; r: number; p: number } };
+
+export type KdfName = KdfConfig["kdf"];
+
+// Used for new encryptions
+export const DEFAULT_KDFS: Record<KdfName, KdfConfig> = {
+  scrypt: { kdf: "scrypt", params: { N: 131072, r: 8, p: 1 } },
+  pbkdf2: { kdf: "pbkdf2", params: { digest: "sha512", iterations: 600000 } },
+};
+export const DEFAULT_KDF = DEFAULT_KDFS.scrypt;
+
+interface EncryptedKeyEnvelope {
+  version: number;
+  cipher: typeof ALGORITHM;
+  kdf: KdfName;
+  params: KdfConfig["params"];
+  salt: string; // base64
+  iv: string; // base64
+  tag: string; // base64
+  ciphertext: string; // base64
+}
+
+export interface EncryptedKeyInfo {
+  version: number; // 1 for the unversioned format
+  cipher: string;
+  kdf: KdfConfig;
+}
 
 /**
- * Derive encryption key from password using PBKDF2
+ * Derive encryption key from password using the envelope's KDF
  */
-function deriveKey(password: string, salt: Buffer): Buffer {
-  return crypto.pbkdf2Sync(password, salt, ITERATIONS, KEY_LENGTH, "sha512");
+function deriveKey(password: string, salt: Buffer, config: KdfConfig): Buffer {
+  assertKdfConfig(config);
+
+  if (config.kdf === "pbkdf2") {
+    return crypto.pbkdf2Sync(password, salt, config.params.iterations, KEY_LENGTH, config.params.digest);
+  }
+
+  const { N, r, p } = config.params;
+  return crypto.scryptSync(password, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r });
+}
+
+// Bounds for parameters read from an envelope, so a malformed value cannot hang the process
+function assertKdfConfig(config: KdfConfig): void {
+  if (config.kdf === "pbkdf2") {
+    const { digest, iterations } = config.params;
+    if (!["sha256", "sha512"].includes(digest) || !Number.isInteger(iterations) || iterations < 10000 || iterations > 10000000) {
+      throw new Error("Unsupported PBKDF2 parameters");
+    }
+    return;
+  }
+
+  if (config.kdf === "scrypt") {
+    const { N, r, p } = config.params;
+    const isPowerOfTwo = Number.isInteger(N) && N > 1 && (N & (N - 1)) === 0;
+    const validR = Number.isInteger(r) && r >= 1 && r <= 32;
+    const validP = Number.isInteger(p) && p >= 1 && p <= 16;
+    // scrypt needs 128 * N * r bytes; stay under 1 GiB
+    if (!isPowerOfTwo || !validR || !validP || 128 * N * r > 2 ** 30) {
+      throw new Error("Unsupported scrypt parameters");
+    }
+    return;
+  }
+
+  throw new Error(`Unsupported KDF: ${(config as { kdf: unknown }).kdf}`);
+}
+
+// Header fields are authenticated with the ciphertext, so they cannot be swapped
+function envelopeAad(envelope: Pick<EncryptedKeyEnvelope, "version" | "cipher" | "kdf" | "params">): Buffer {
+  return Buffer.from(JSON.stringify([envelope.version, envelope.cipher, envelope.kdf, envelope.params]));
 }
 
 /**
  * Encrypt a private key
  */
-export function encryptPrivateKey(privateKey: string, password: string): string {
+export function encryptPrivateKey(privateKey: string, password: string, kdf: KdfConfig = DEFAULT_KDF): string {
   const salt = crypto.randomBytes(SALT_LENGTH);
   const iv = crypto.randomBytes(IV_LENGTH);
-  const key = deriveKey(password, salt);
+  const key = deriveKey(password, salt, kdf);
 
+  const header: Pick<EncryptedKeyEnvelope, "version" | "cipher" | "kdf" | "params"> = {
+    version: ENCRYPTED_KEY_VERSION,
+    cipher: ALGORITHM,
+    kdf: kdf.kdf,
+    params: kdf.params,
+  };
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-  
+  cipher.setAAD(envelopeAad(header));
+
   let encrypted = cipher.update(privateKey, "utf8");
   encrypted = Buffer.concat([encrypted, cipher.final()]);
-  
-  const tag = cipher.getAuthTag();
-  
-  // Combine: salt + iv + tag + encrypted
-  const combined = Buffer.concat([salt, iv, tag, encrypted]);
-  
-  // Return base64 encoded
-  return combined.toString("base64");
+
+  const envelope: EncryptedKeyEnvelope = {
+    ...header,
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: encrypted.toString("base64"),
+  };
+
+  return ENVELOPE_PREFIX + Buffer.from(JSON.stringify(envelope)).toString("base64url");
 }
 
 /**
- * Decrypt a private key
+ * Decrypt a private key, in the current or the unversioned format
  */
 export function decryptPrivateKey(encryptedKey: string, password: string): string {
   try {
-    const combined = Buffer.from(encryptedKey, "base64");
-    
-    // Extract components
-    const salt = combined.subarray(0, SALT_LENGTH);
-    const iv = combined.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
-    const tag = combined.subarray(
-      SALT_LENGTH + IV_LENGTH,
-      SALT_LENGTH + IV_LENGTH + TAG_LENGTH
-    );
-    const encrypted = combined.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    
-    const key = deriveKey(password, salt);
-    
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(tag);
-    
-    let decrypted = decipher.update(encrypted);
+    if (!encryptedKey.startsWith(ENVELOPE_PREFIX)) {
+      return decryptLegacy(encryptedKey, password);
+    }
+
+    const envelope = parseEnvelope(encryptedKey);
+    const key = deriveKey(password, Buffer.from(envelope.salt, "base64"), toKdfConfig(envelope));
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(envelope.iv, "base64"));
+    decipher.setAAD(envelopeAad(envelope));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+
+    let decrypted = decipher.update(Buffer.from(envelope.ciphertext, "base64"));
     decrypted = Buffer.concat([decrypted, decipher.final()]);
-    
+
     return decrypted.toString("utf8");
   } catch (error) {
     throw new Error(`Decryption failed: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 }
 
+/**
+ * Read an encrypted key's version and KDF without decrypting it
+ */
+export function describeEncryptedKey(encryptedKey: string): EncryptedKeyInfo {
+  if (!encryptedKey.startsWith(ENVELOPE_PREFIX)) {
+    return { version: 1, cipher: ALGORITHM, kdf: LEGACY_KDF };
+  }
+
+  const envelope = parseEnvelope(encryptedKey);
+  return { version: envelope.version, cipher: envelope.cipher, kdf: toKdfConfig(envelope) };
+}
+
+/**
+ * Whether an encrypted key uses an older format or different KDF settings than given
+ */
+export function needsRotation(encryptedKey: string, kdf: KdfConfig = DEFAULT_KDF): boolean {
+  const info = describeEncryptedKey(encryptedKey);
+  return (
+    info.version !== ENCRYPTED_KEY_VERSION ||
+    JSON.stringify(info.kdf) !== JSON.stringify({ kdf: kdf.kdf, params: kdf.params })
+  );
+}
+
+function parseEnvelope(encryptedKey: string): EncryptedKeyEnvelope {
+  let envelope: EncryptedKeyEnvelope;
+  try {
+    envelope = JSON.parse(Buffer.from(encryptedKey.slice(ENVELOPE_PREFIX.length), "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Encrypted key envelope is not valid");
+  }
+
+  if (envelope.version !== ENCRYPTED_KEY_VERSION) {
+    throw new Error(`Unsupported encrypted key version: ${envelope.version}`);
+  }
+  if (envelope.cipher !== ALGORITHM) {
+    throw new Error(`Unsupported cipher: ${envelope.cipher}`);
+  }
+  return envelope;
+}
+
+function toKdfConfig(envelope: EncryptedKeyEnvelope): KdfConfig {
+  const config = { kdf: envelope.kdf, params: envelope.params } as KdfConfig;
+  assertKdfConfig(config);
+  return config;
+}
+
+// Unversioned format: base64(salt + iv + tag + ciphertext)
+function decryptLegacy(encryptedKey: string, password: string): string {
+  const combined = Buffer.from(encryptedKey, "base64");
+
+  // Extract components
+  const salt = combined.subarray(0, SALT_LENGTH);
+  const iv = combined.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
+  const tag = combined.subarray(
+    SALT_LENGTH + IV_LENGTH,
+    SALT_LENGTH + IV_LENGTH + TAG_LENGTH
+  );
+  const encrypted = combined.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
+
+  const key = deriveKey(password, salt, LEGACY_KDF);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+
+  let decrypted = decipher.update(encrypted);
+  decrypted = Buffer.concat([decrypted, decipher.final()]);
+
+  return decrypted.toString("utf8");
+}
+
 /**
  * Get encryption password from environment or prompt
  */
@@ -89,4 +242,3 @@ export function getEncryptionPassword(): string {
   }
   return password;
 }
-
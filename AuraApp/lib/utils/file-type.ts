@@ -0,0 +1,67 @@
+/**
+ * File Type Detection
+ * Identifies uploaded content from its leading bytes (magic numbers) instead of
+ * trusting the client's declared MIME type. Only the types listed here are
+ * recognised; anything else is rejected by the callers.
+ */
+
+export type FileKind = "image" | "audio" | "pdf";
+
+export interface DetectedFileType {
+  mimeType: string;
+  extension: string;
+  kind: FileKind;
+}
+
+/**
+ * Detect the type of a file from its first bytes
+ * Returns null for content that is not an allowed image, audio or PDF format.
+ */
+export function detectFileType(bytes: Uint8Array): DetectedFileType | null {
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+  const startsWith = (...signature: number[]) =>
+    bytes.byteLength >= signature.length && signature.every((byte, i) => bytes[i] === byte);
+
+  // Images
+  if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) {
+    return { mimeType: "image/png", extension: "png", kind: "image" };
+  }
+  if (startsWith(0xff, 0xd8, 0xff)) {
+    return { mimeType: "image/jpeg", extension: "jpg", kind: "image" };
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return { mimeType: "image/gif", extension: "gif", kind: "image" };
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    return { mimeType: "image/webp", extension: "webp", kind: "image" };
+  }
+
+  // Audio
+  if (ascii(0, 4) === "RIFF" && ascii(8, 4) === "WAVE") {
+    return { mimeType: "audio/wav", extension: "wav", kind: "audio" };
+  }
+  if (ascii(0, 3) === "ID3" || (bytes.byteLength >= 2 && bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    return { mimeType: "audio/mpeg", extension: "mp3", kind: "audio" };
+  }
+  if (ascii(0, 4) === "OggS") {
+    return { mimeType: "audio/ogg", extension: "ogg", kind: "audio" };
+  }
+  if (ascii(0, 4) === "fLaC") {
+    return { mimeType: "audio/flac", extension: "flac", kind: "audio" };
+  }
+  // EBML header: browser MediaRecorder output (audio/webm)
+  if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) {
+    return { mimeType: "audio/webm", extension: "webm", kind: "audio" };
+  }
+  if (ascii(4, 4) === "ftyp" && ascii(8, 3) === "M4A") {
+    return { mimeType: "audio/mp4", extension: "m4a", kind: "audio" };
+  }
+
+  // Documents
+  if (ascii(0, 5) === "%PDF-") {
+    return { mimeType: "application/pdf", extension: "pdf", kind: "pdf" };
+  }
+
+  return null;
+}
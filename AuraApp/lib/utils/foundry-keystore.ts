@@ -9,7 +9,6 @@
 import { execSync } from "child_process";
 import { existsSync } from "fs";
 import { join } from "path";
-import { getPrivateKeyFromKeychain } from "./keychain";
 
 /**
  * Get Foundry keystore path
@@ -74,53 +73,18 @@ export function getPrivateKeyFromFoundry(
 }
 
 /**
- * Get private key with fallback priority (Foundry-style):
- * 1. Foundry keystore (if FOUNDRY_KEYSTORE_PASSWORD is set)
- * 2. macOS Keychain (if on macOS)
- * 3. TEST_PRIVATE_KEY_ENCRYPTED (if ENCRYPTION_PASSWORD is set)
- * 4. TEST_PRIVATE_KEY (plain text, least secure)
- * 
- * @param walletName - Name of the keystore (default: "defaultKey" or from FOUNDRY_KEYSTORE_NAME env var)
+ * Get a keystore's address (does not need the password)
  */
-export function getPrivateKey(walletName?: string): string | null {
-  // Use FOUNDRY_KEYSTORE_NAME from env if not provided, otherwise default to "defaultKey"
-  const keystoreName = walletName || process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
-  // Try Foundry keystore first (like Foundry does)
-  const foundryPassword = process.env.FOUNDRY_KEYSTORE_PASSWORD;
-  if (foundryPassword && hasFoundryKeystore(keystoreName)) {
-    const foundryKey = getPrivateKeyFromFoundry(keystoreName, foundryPassword);
-    if (foundryKey) {
-      return foundryKey;
-    }
-  }
-
-  // Fallback to Keychain (macOS only)
-  if (process.platform === "darwin") {
-    const keychainKey = getPrivateKeyFromKeychain();
-    if (keychainKey) {
-      return keychainKey;
-    }
-  }
-
-  // Fallback to encrypted env variable
-  const encryptedKey = process.env.TEST_PRIVATE_KEY_ENCRYPTED;
-  const encryptionPassword = process.env.ENCRYPTION_PASSWORD;
-  if (encryptedKey && encryptionPassword) {
-    try {
-      const { decryptPrivateKey } = require("./encrypt-key");
-      return decryptPrivateKey(encryptedKey, encryptionPassword);
-    } catch (error) {
-      console.warn("⚠️  Failed to decrypt TEST_PRIVATE_KEY_ENCRYPTED, trying fallback...");
-    }
-  }
-
-  // Fallback to plain text (least secure)
-  const plainKey = process.env.TEST_PRIVATE_KEY;
-  if (plainKey) {
-    return plainKey;
+export function getFoundryKeystoreAddress(walletName: string = "defaultKey"): string | null {
+  try {
+    const address = execSync(
+      `cast wallet address --keystore "${getKeystorePath(walletName)}" 2>/dev/null`,
+      { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }
+    ).trim();
+    return address || null;
+  } catch {
+    return null;
   }
-
-  return null;
 }
 
 /**
@@ -0,0 +1,297 @@
+/**
+ * Key Providers
+ * One place to load signing keys, whatever they are stored in.
+ *
+ * Providers (tried in KEY_PROVIDERS order, default: foundry,env-encrypted,vault,keychain,env):
+ * - foundry:       Foundry keystore ~/.foundry/keystores/{name} (FOUNDRY_KEYSTORE_PASSWORD)
+ * - env-encrypted: TEST_PRIVATE_KEY_ENCRYPTED, AES-256-GCM (ENCRYPTION_PASSWORD)
+ * - vault:         encrypted file vault, works on any OS (KEY_VAULT_PATH, KEY_VAULT_PASSWORD)
+ * - keychain:      macOS Keychain
+ * - env:           TEST_PRIVATE_KEY in plain text (least secure)
+ *
+ * Manage keys with the key CLI: npm run keys -- help
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { decryptPrivateKey, encryptPrivateKey, type KdfConfig } from "./encrypt-key";
+import { getPrivateKeyFromFoundry, hasFoundryKeystore, listFoundryKeystores } from "./foundry-keystore";
+import {
+  deletePrivateKeyFromKeychain,
+  getPrivateKeyFromKeychain,
+  isMacOS,
+  storePrivateKeyInKeychain,
+} from "./keychain";
+
+export const KEY_PROVIDER_NAMES = ["foundry", "env-encrypted", "vault", "keychain", "env"] as const;
+export type KeyProviderName = (typeof KEY_PROVIDER_NAMES)[number];
+
+export interface KeyProvider {
+  readonly name: KeyProviderName;
+  readonly description: string;
+  // Configured and usable on this machine
+  isAvailable(): boolean;
+  getPrivateKey(keyName: string): string | null;
+  // Names of the stored keys, for providers that hold several
+  listKeys?(): string[];
+}
+
+// Providers that can also store keys
+export interface WritableKeyProvider extends KeyProvider {
+  storePrivateKey(keyName: string, privateKey: string): void;
+  deletePrivateKey(keyName: string): void;
+}
+
+export interface ResolvedKey {
+  privateKey: string;
+  provider: KeyProviderName;
+}
+
+/**
+ * Key name used when none is given: KEY_NAME, then FOUNDRY_KEYSTORE_NAME, then "defaultKey"
+ */
+export function getDefaultKeyName(): string {
+  return process.env.KEY_NAME || process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
+}
+
+class FoundryKeyProvider implements KeyProvider {
+  readonly name = "foundry" as const;
+  readonly description = "Foundry keystore (~/.foundry/keystores, FOUNDRY_KEYSTORE_PASSWORD)";
+
+  isAvailable(): boolean {
+    return !!process.env.FOUNDRY_KEYSTORE_PASSWORD;
+  }
+
+  getPrivateKey(keyName: string): string | null {
+    if (!hasFoundryKeystore(keyName)) return null;
+    return getPrivateKeyFromFoundry(keyName, process.env.FOUNDRY_KEYSTORE_PASSWORD);
+  }
+
+  listKeys(): string[] {
+    return listFoundryKeystores();
+  }
+}
+
+class EncryptedEnvKeyProvider implements KeyProvider {
+  readonly name = "env-encrypted" as const;
+  readonly description = "TEST_PRIVATE_KEY_ENCRYPTED (ENCRYPTION_PASSWORD)";
+
+  isAvailable(): boolean {
+    return !!(process.env.TEST_PRIVATE_KEY_ENCRYPTED && process.env.ENCRYPTION_PASSWORD);
+  }
+
+  // A single key: the name is ignored
+  getPrivateKey(): string | null {
+    try {
+      return decryptPrivateKey(process.env.TEST_PRIVATE_KEY_ENCRYPTED!, process.env.ENCRYPTION_PASSWORD!);
+    } catch {
+      console.warn("⚠️  Failed to decrypt TEST_PRIVATE_KEY_ENCRYPTED, trying fallback...");
+      return null;
+    }
+  }
+}
+
+interface VaultFile {
+  version: 1;
+  keys: Record<string, string>; // Key name -> encrypted private key
+}
+
+/**
+ * Encrypted file vault
+ * A JSON file of named keys, each encrypted with KEY_VAULT_PASSWORD. Readable
+ * only by the owner (0600), so it is the keychain alternative on Linux.
+ */
+class VaultKeyProvider implements WritableKeyProvider {
+  readonly name = "vault" as const;
+  readonly description = "Encrypted file vault (KEY_VAULT_PATH, KEY_VAULT_PASSWORD)";
+
+  get path(): string {
+    return process.env.KEY_VAULT_PATH || join(homedir(), ".perkos", "vault.json");
+  }
+
+  isAvailable(): boolean {
+    return !!process.env.KEY_VAULT_PASSWORD && existsSync(this.path);
+  }
+
+  getPrivateKey(keyName: string): string | null {
+    const encrypted = this.read().keys[keyName];
+    if (!encrypted) return null;
+
+    try {
+      return decryptPrivateKey(encrypted, this.password);
+    } catch {
+      console.warn(`⚠️  Failed to decrypt vault key "${keyName}", trying fallback...`);
+      return null;
+    }
+  }
+
+  storePrivateKey(keyName: string, privateKey: string): void {
+    const vault = this.read();
+    vault.keys[keyName] = encryptPrivateKey(privateKey, this.password);
+    this.write(vault);
+  }
+
+  deletePrivateKey(keyName: string): void {
+    const vault = this.read();
+    delete vault.keys[keyName];
+    this.write(vault);
+  }
+
+  listKeys(): string[] {
+    return Object.keys(this.read().keys);
+  }
+
+  /**
+   * Re-encrypt every key under a new password and KDF
+   * All keys are decrypted first, so a wrong KEY_VAULT_PASSWORD changes nothing.
+   */
+  rotate(newPassword: string, kdf?: KdfConfig): string[] {
+    const vault = this.read();
+    const decrypted = Object.entries(vault.keys).map(([keyName, encrypted]) => {
+      try {
+        return [keyName, decryptPrivateKey(encrypted, this.password)] as const;
+      } catch {
+        throw new Error(`Failed to decrypt vault key "${keyName}" with KEY_VAULT_PASSWORD`);
+      }
+    });
+
+    for (const [keyName, privateKey] of decrypted) {
+      vault.keys[keyName] = encryptPrivateKey(privateKey, newPassword, kdf);
+    }
+    this.write(vault);
+    return decrypted.map(([keyName]) => keyName);
+  }
+
+  private get password(): string {
+    const password = process.env.KEY_VAULT_PASSWORD;
+    if (!password) {
+      throw new Error("KEY_VAULT_PASSWORD not set. Set it in your .env file to use the key vault");
+    }
+    return password;
+  }
+
+  private read(): VaultFile {
+    if (!existsSync(this.path)) {
+      return { version: 1, keys: {} };
+    }
+    return JSON.parse(readFileSync(this.path, "utf8")) as VaultFile;
+  }
+
+  // Written to a temporary file and renamed, so a failed write never corrupts the vault
+  private write(vault: VaultFile): void {
+    mkdirSync(dirname(this.path), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(vault, null, 2), { mode: 0o600 });
+    renameSync(tempPath, this.path);
+  }
+}
+
+class KeychainKeyProvider implements WritableKeyProvider {
+  readonly name = "keychain" as const;
+  readonly description = "macOS Keychain (service PerkOS-AI-Vendor-Service)";
+
+  isAvailable(): boolean {
+    return isMacOS();
+  }
+
+  // Keys stored before named keys existed are under the TEST_PRIVATE_KEY account
+  getPrivateKey(keyName: string): string | null {
+    return getPrivateKeyFromKeychain(keyName) || getPrivateKeyFromKeychain();
+  }
+
+  storePrivateKey(keyName: string, privateKey: string): void {
+    storePrivateKeyInKeychain(privateKey, keyName);
+  }
+
+  deletePrivateKey(keyName: string): void {
+    deletePrivateKeyFromKeychain(keyName);
+  }
+}
+
+class PlainEnvKeyProvider implements KeyProvider {
+  readonly name = "env" as const;
+  readonly description = "TEST_PRIVATE_KEY in plain text (least secure)";
+
+  isAvailable(): boolean {
+    return !!process.env.TEST_PRIVATE_KEY;
+  }
+
+  // A single key: the name is ignored
+  getPrivateKey(): string | null {
+    return process.env.TEST_PRIVATE_KEY || null;
+  }
+}
+
+const keyVault = new VaultKeyProvider();
+
+const providers: Record<KeyProviderName, KeyProvider> = {
+  foundry: new FoundryKeyProvider(),
+  "env-encrypted": new EncryptedEnvKeyProvider(),
+  vault: keyVault,
+  keychain: new KeychainKeyProvider(),
+  env: new PlainEnvKeyProvider(),
+};
+
+export function getKeyProvider(name: KeyProviderName): KeyProvider {
+  return providers[name];
+}
+
+export function isKeyProviderName(name: string): name is KeyProviderName {
+  return (KEY_PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+export function isWritableKeyProvider(provider: KeyProvider): provider is WritableKeyProvider {
+  return "storePrivateKey" in provider;
+}
+
+/**
+ * Re-encrypt the key vault under a new password and KDF
+ * Returns the names of the re-encrypted keys.
+ */
+export function rotateKeyVault(newPassword: string, kdf?: KdfConfig): string[] {
+  return keyVault.rotate(newPassword, kdf);
+}
+
+/**
+ * Providers in resolution order, from KEY_PROVIDERS (comma-separated)
+ * Unknown names are skipped with a warning.
+ */
+export function getKeyProviderOrder(): KeyProviderName[] {
+  const configured = process.env.KEY_PROVIDERS;
+  if (!configured) {
+    return [...KEY_PROVIDER_NAMES];
+  }
+
+  return configured
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name): name is KeyProviderName => {
+      if (isKeyProviderName(name)) return true;
+      if (name) console.warn(`⚠️  Unknown key provider in KEY_PROVIDERS: ${name}`);
+      return false;
+    });
+}
+
+/**
+ * Load a private key from the first provider that has it
+ */
+export function resolvePrivateKey(keyName: string = getDefaultKeyName()): ResolvedKey | null {
+  for (const name of getKeyProviderOrder()) {
+    const provider = providers[name];
+    if (!provider.isAvailable()) continue;
+
+    const privateKey = provider.getPrivateKey(keyName);
+    if (privateKey) {
+      return { privateKey, provider: name };
+    }
+  }
+  return null;
+}
+
+/**
+ * Private key only, for scripts that do not report where it came from
+ */
+export function getPrivateKey(keyName?: string): string | null {
+  return resolvePrivateKey(keyName)?.privateKey ?? null;
+}
@@ -8,12 +8,13 @@
 import { execSync } from "child_process";
 
 const KEYCHAIN_SERVICE = "PerkOS-AI-Vendor-Service";
+// Account used when no key name is given (and by keys stored before named keys)
 const KEYCHAIN_ACCOUNT = "TEST_PRIVATE_KEY";
 
 /**
  * Store private key in macOS Keychain
  */
-export function storePrivateKeyInKeychain(privateKey: string): void {
+export function storePrivateKeyInKeychain(privateKey: string, account: string = KEYCHAIN_ACCOUNT): void {
   try {
     // Use security add-generic-password to store the key
     // -a: account name
@@ -21,7 +22,7 @@ export function storePrivateKeyInKeychain(privateKey: string): void {
     // -w: password (the private key)
     // -U: update if exists
     execSync(
-      `security add-generic-password -a "${KEYCHAIN_ACCOUNT}" -s "${KEYCHAIN_SERVICE}" -w "${privateKey}" -U 2>/dev/null || security add-generic-password -a "${KEYCHAIN_ACCOUNT}" -s "${KEYCHAIN_SERVICE}" -w "${privateKey}"`,
+      `security add-generic-password -a "${account}" -s "${KEYCHAIN_SERVICE}" -w "${privateKey}" -U 2>/dev/null || security add-generic-password -a "${account}" -s "${KEYCHAIN_SERVICE}" -w "${privateKey}"`,
       { stdio: "ignore" }
     );
   } catch (error) {
@@ -35,14 +36,14 @@ export function storePrivateKeyInKeychain(privateKey: string): void {
 /**
  * Retrieve private key from macOS Keychain
  */
-export function getPrivateKeyFromKeychain(): string | null {
+export function getPrivateKeyFromKeychain(account: string = KEYCHAIN_ACCOUNT): string | null {
   try {
     // Use security find-generic-password to retrieve the key
     // -a: account name
     // -s: service name
     // -w: write password to stdout
     const privateKey = execSync(
-      `security find-generic-password -a "${KEYCHAIN_ACCOUNT}" -s "${KEYCHAIN_SERVICE}" -w 2>/dev/null`,
+      `security find-generic-password -a "${account}" -s "${KEYCHAIN_SERVICE}" -w 2>/dev/null`,
       { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }
     ).trim();
 
@@ -56,10 +57,10 @@ export function getPrivateKeyFromKeychain(): string | null {
 /**
  * Delete private key from macOS Keychain
  */
-export function deletePrivateKeyFromKeychain(): void {
+export function deletePrivateKeyFromKeychain(account: string = KEYCHAIN_ACCOUNT): void {
   try {
     execSync(
-      `security delete-generic-password -a "${KEYCHAIN_ACCOUNT}" -s "${KEYCHAIN_SERVICE}" 2>/dev/null || true`,
+      `security delete-generic-password -a "${account}" -s "${KEYCHAIN_SERVICE}" 2>/dev/null || true`,
       { stdio: "ignore" }
     );
   } catch (error) {
@@ -73,40 +74,3 @@ export function deletePrivateKeyFromKeychain(): void {
 export function isMacOS(): boolean {
   return process.platform === "darwin";
 }
-
-/**
- * Get private key with fallback priority:
- * 1. macOS Keychain (if on macOS)
- * 2. TEST_PRIVATE_KEY_ENCRYPTED (if ENCRYPTION_PASSWORD is set)
- * 3. TEST_PRIVATE_KEY (plain text, least secure)
- */
-export function getPrivateKey(): string | null {
-  // Try Keychain first (macOS only)
-  if (isMacOS()) {
-    const keychainKey = getPrivateKeyFromKeychain();
-    if (keychainKey) {
-      return keychainKey;
-    }
-  }
-
-  // Fallback to encrypted env variable
-  const encryptedKey = process.env.TEST_PRIVATE_KEY_ENCRYPTED;
-  const password = process.env.ENCRYPTION_PASSWORD;
-  if (encryptedKey && password) {
-    try {
-      const { decryptPrivateKey } = require("./encrypt-key");
-      return decryptPrivateKey(encryptedKey, password);
-    } catch (error) {
-      console.warn("⚠️  Failed to decrypt TEST_PRIVATE_KEY_ENCRYPTED, trying fallback...");
-    }
-  }
-
-  // Fallback to plain text (least secure)
-  const plainKey = process.env.TEST_PRIVATE_KEY;
-  if (plainKey) {
-    return plainKey;
-  }
-
-  return null;
-}
-
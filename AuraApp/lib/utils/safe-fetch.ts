@@ -0,0 +1,286 @@
+/**
+ * Safe Fetch
+ * Fetches user-supplied URLs (image and audio URLs sent to chat, generated
+ * media copied into storage) without letting them reach internal services.
+ *
+ * - https only, optionally restricted to SAFE_FETCH_ALLOWED_HOSTS
+ * - every address the host resolves to is checked when the connection is made,
+ *   so private, loopback and link-local targets (and DNS rebinding to them) are refused
+ * - redirects are followed manually and each hop is checked again
+ * - the response must have an allowed content type and stay under a byte cap and timeout
+ *
+ * Refused URLs throw a ValidationError, so routes can answer 400 before any
+ * payment is settled.
+ */
+
+import https from "https";
+import { lookup, type LookupAddress } from "dns";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { ValidationError } from "@/lib/errors";
+
+export interface SafeFetchOptions {
+  allowedContentTypes: string[]; // Prefixes such as "image/" or exact types such as "application/pdf"
+  maxBytes?: number;
+  timeoutMs?: number;
+  maxRedirects?: number;
+}
+
+export interface SafeFetchResult {
+  buffer: Buffer;
+  contentType: string;
+  url: string; // Final URL after redirects
+}
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_REDIRECTS = 3;
+
+// Addresses that must never be fetched on a user's behalf
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local (cloud metadata endpoints)
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved and broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128], // Loopback
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local or otherwise not public
+ */
+export function isBlockedAddress(address: string): boolean {
+  const mappedIpv4 = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mappedIpv4) {
+    return isBlockedAddress(mappedIpv4[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Hosts user URLs may point to, from SAFE_FETCH_ALLOWED_HOSTS
+ * Format: "replicate.delivery,*.googleapis.com" (comma-separated, "*." matches subdomains).
+ * Empty means any public host.
+ */
+function getAllowedHosts(): string[] {
+  return (process.env.SAFE_FETCH_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isAllowedHost(hostname: string): boolean {
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts.length === 0) return true;
+
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith("*.")
+      ? hostname.endsWith(allowed.slice(1)) || hostname === allowed.slice(2)
+      : hostname === allowed
+  );
+}
+
+/**
+ * Check a URL's scheme, host and resolved addresses without fetching it
+ * Throws a ValidationError if the URL may not be fetched.
+ */
+export async function assertSafeUrl(rawUrl: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ValidationError("URL is not valid");
+  }
+
+  if (url.protocol !== "https:") {
+    throw new ValidationError("Only https URLs are allowed");
+  }
+  if (url.username || url.password) {
+    throw new ValidationError("URLs with credentials are not allowed");
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (!isAllowedHost(hostname)) {
+    throw new ValidationError(`Host ${hostname} is not allowed`);
+  }
+
+  const addresses = isIP(hostname) ? [hostname] : await resolveHost(hostname);
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new ValidationError(`Host ${hostname} resolves to a private or reserved address`);
+  }
+
+  return url;
+}
+
+/**
+ * Fetch a user-supplied URL safely
+ * Throws a ValidationError if the URL, a redirect or the response is refused.
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions): Promise<SafeFetchResult> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let url = await assertSafeUrl(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    const result = await fetchOnce(url, options, deadline);
+    if ("redirect" in result) {
+      if (redirects >= maxRedirects) {
+        throw new ValidationError(`URL redirected more than ${maxRedirects} times`);
+      }
+      url = await assertSafeUrl(new URL(result.redirect, url).toString());
+      continue;
+    }
+    return result;
+  }
+}
+
+/**
+ * Fetch an image URL as a data URL so AI services never fetch user URLs themselves
+ * Base64 and data URL input is returned unchanged.
+ */
+export async function fetchImageAsDataUrl(image: string): Promise<string> {
+  if (!/^https?:\/\//i.test(image)) {
+    return image;
+  }
+
+  const { buffer, contentType } = await safeFetch(image, { allowedContentTypes: ["image/"] });
+  return `data:${contentType};base64,${buffer.toString("base64")}`;
+}
+
+function resolveHost(hostname: string): Promise<string[]> {
+  return new Promise((resolve) => {
+    lookup(hostname, { all: true }, (error, addresses) => {
+      resolve(error ? [] : addresses.map((entry) => entry.address));
+    });
+  });
+}
+
+// Resolves like dns.lookup but refuses blocked addresses at connection time
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Host ${hostname} resolves to a private or reserved address`), "", 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function fetchOnce(
+  url: URL,
+  options: SafeFetchOptions,
+  deadline: number
+): Promise<SafeFetchResult | { redirect: string }> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  return new Promise((resolvePromise, rejectPromise) => {
+    // The socket timeout only catches idle connections; this timer ends a
+    // response that keeps trickling in past the overall deadline
+    const timer = setTimeout(() => {
+      const error = new ValidationError("URL took too long to respond");
+      request.destroy(error);
+      reject(error);
+    }, Math.max(1, deadline - Date.now()));
+    const resolve = (result: SafeFetchResult | { redirect: string }) => {
+      clearTimeout(timer);
+      resolvePromise(result);
+    };
+    const reject = (error: Error) => {
+      clearTimeout(timer);
+      rejectPromise(error);
+    };
+
+    const request = https.get(
+      url,
+      {
+        lookup: checkedLookup,
+        timeout: Math.max(1, deadline - Date.now()),
+        headers: { "Accept-Encoding": "identity", "User-Agent": "Aura/1.0" },
+      },
+      (response) => {
+        const status = response.statusCode || 0;
+
+        if (status >= 300 && status < 400 && response.headers.location) {
+          response.resume();
+          resolve({ redirect: response.headers.location });
+          return;
+        }
+
+        if (status < 200 || status >= 300) {
+          response.resume();
+          reject(new ValidationError(`URL returned HTTP ${status}`));
+          return;
+        }
+
+        const contentType = (response.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+        const typeAllowed = options.allowedContentTypes.some((allowed) =>
+          allowed.endsWith("/") ? contentType.startsWith(allowed) : contentType === allowed
+        );
+        if (!typeAllowed) {
+          response.resume();
+          reject(new ValidationError(`URL content type ${contentType || "(none)"} is not allowed`));
+          return;
+        }
+
+        const declaredLength = parseInt(response.headers["content-length"] || "0", 10);
+        if (declaredLength > maxBytes) {
+          response.destroy();
+          reject(new ValidationError(`URL content is larger than ${maxBytes} bytes`));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        response.on("data", (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > maxBytes) {
+            response.destroy();
+            reject(new ValidationError(`URL content is larger than ${maxBytes} bytes`));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on("end", () => resolve({ buffer: Buffer.concat(chunks), contentType, url: url.toString() }));
+        response.on("error", reject);
+      }
+    );
+
+    request.on("timeout", () => {
+      request.destroy(new ValidationError("URL took too long to respond"));
+    });
+    request.on("error", (error) => {
+      reject(error instanceof ValidationError ? error : new ValidationError(`Could not fetch URL: ${error.message}`));
+    });
+  });
+}
@@ -7,7 +7,7 @@ import { z } from "zod";
 export const chatRequestSchema = z.object({
     message: z.string().min(1).max(10000), // Increased for longer content
     conversationId: z.string().nullable().optional(),
-    walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+    walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(), // Must match the session wallet if sent
     paymentId: z.string().optional(),
     projectId: z.string().uuid().nullable().optional(),
     // For storing generated content (images, audio, etc.) without generating a response
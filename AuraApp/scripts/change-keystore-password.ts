@@ -2,7 +2,7 @@
 /**
  * Change Foundry Keystore Password
  * 
- * Usage: npx tsx scripts/change-keystore-password.ts <walletName>
+ * Usage: npm run keys -- change-password [walletName]
  * 
  * This script:
  * 1. Decrypts the keystore with the old password (from FOUNDRY_KEYSTORE_PASSWORD)
@@ -10,46 +10,13 @@
  * 3. Updates the keystore file
  */
 
-import { config } from "dotenv";
-import { resolve, dirname } from "path";
-import { fileURLToPath } from "url";
 import { execSync } from "child_process";
 import { existsSync } from "fs";
 import { join } from "path";
 import * as readline from "readline";
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Load environment variables
-config({ path: resolve(__dirname, "../.env") });
-
-const walletName = process.argv[2] || process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
-const oldPassword = process.env.FOUNDRY_KEYSTORE_PASSWORD;
-
-if (!oldPassword) {
-  console.error("❌ FOUNDRY_KEYSTORE_PASSWORD not set in .env");
-  console.error("   Please set it to your current keystore password");
-  process.exit(1);
-}
-
-// Get keystore path
-const homeDir = process.env.HOME || process.env.USERPROFILE;
-if (!homeDir) {
-  console.error("❌ Could not determine home directory");
-  process.exit(1);
-}
-
-const keystorePath = join(homeDir, ".foundry", "keystores", walletName);
-
-if (!existsSync(keystorePath)) {
-  console.error(`❌ Keystore "${walletName}" not found at: ${keystorePath}`);
-  console.error("   List keystores: cast wallet list");
-  process.exit(1);
-}
-
 // Prompt for new password
-function promptPassword(message: string): Promise<string> {
+export function promptPassword(message: string): Promise<string> {
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -63,7 +30,30 @@ function promptPassword(message: string): Promise<string> {
   });
 }
 
-async function changePassword() {
+export async function changeKeystorePassword(walletName: string) {
+  const oldPassword = process.env.FOUNDRY_KEYSTORE_PASSWORD;
+
+  if (!oldPassword) {
+    console.error("❌ FOUNDRY_KEYSTORE_PASSWORD not set in .env");
+    console.error("   Please set it to your current keystore password");
+    process.exit(1);
+  }
+
+  // Get keystore path
+  const homeDir = process.env.HOME || process.env.USERPROFILE;
+  if (!homeDir) {
+    console.error("❌ Could not determine home directory");
+    process.exit(1);
+  }
+
+  const keystorePath = join(homeDir, ".foundry", "keystores", walletName);
+
+  if (!existsSync(keystorePath)) {
+    console.error(`❌ Keystore "${walletName}" not found at: ${keystorePath}`);
+    console.error("   List keystores: cast wallet list");
+    process.exit(1);
+  }
+
   try {
     console.log(`\n🔐 Changing password for keystore: ${walletName}`);
     console.log("=" .repeat(50));
@@ -145,5 +135,3 @@ async function changePassword() {
   }
 }
 
-changePassword().catch(console.error);
-
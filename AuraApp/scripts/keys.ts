@@ -0,0 +1,282 @@
+#!/usr/bin/env tsx
+/**
+ * Key Management CLI
+ * One entry point for every key provider (see lib/utils/key-provider.ts)
+ *
+ * Usage: npm run keys -- <command> [args]
+ *   providers                               Show providers in resolution order
+ *   resolve [keyName]                       Show which provider supplies a key, and its address
+ *   get [keyName] [--provider name]         Print a private key
+ *   address [keyName] [--provider name]     Print a key's address
+ *   list [--provider name]                  List stored keys (foundry, vault)
+ *   store <provider> <0xKey> [keyName]      Store a key (vault, keychain)
+ *   delete <provider> [keyName]             Delete a key (vault, keychain)
+ *   encrypt <0xKey> [--kdf name]            Encrypt a key for TEST_PRIVATE_KEY_ENCRYPTED
+ *   decrypt <encryptedKey>                  Decrypt a TEST_PRIVATE_KEY_ENCRYPTED value
+ *   rotate [env|vault] [--kdf name]         Re-encrypt under a new password or KDF
+ *   change-password [walletName]            Change a Foundry keystore password
+ */
+
+import { config } from "dotenv";
+import { resolve, dirname } from "path";
+import { fileURLToPath } from "url";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  getDefaultKeyName,
+  getKeyProvider,
+  getKeyProviderOrder,
+  isKeyProviderName,
+  isWritableKeyProvider,
+  resolvePrivateKey,
+  KEY_PROVIDER_NAMES,
+  type KeyProviderName,
+  type ResolvedKey,
+} from "../lib/utils/key-provider";
+import {
+  encryptPrivateKey,
+  decryptPrivateKey,
+  describeEncryptedKey,
+  getEncryptionPassword,
+  DEFAULT_KDF,
+  DEFAULT_KDFS,
+  type KdfName,
+} from "../lib/utils/encrypt-key";
+import { getFoundryKeystoreAddress, hasFoundryKeystore } from "../lib/utils/foundry-keystore";
+import { changeKeystorePassword } from "./change-keystore-password";
+import { rotateEncryptedKeys } from "./rotate-encryption";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Load environment variables
+config({ path: resolve(__dirname, "../.env") });
+
+function usage(): never {
+  console.error("Usage: npm run keys -- <command> [args]");
+  console.error("  providers                               Show providers in resolution order");
+  console.error("  resolve [keyName]                       Show which provider supplies a key, and its address");
+  console.error("  get [keyName] [--provider name]         Print a private key");
+  console.error("  address [keyName] [--provider name]     Print a key's address");
+  console.error("  list [--provider name]                  List stored keys (foundry, vault)");
+  console.error("  store <provider> <0xKey> [keyName]      Store a key (vault, keychain)");
+  console.error("  delete <provider> [keyName]             Delete a key (vault, keychain)");
+  console.error("  encrypt <0xKey> [--kdf name]            Encrypt a key for TEST_PRIVATE_KEY_ENCRYPTED");
+  console.error("  decrypt <encryptedKey>                  Decrypt a TEST_PRIVATE_KEY_ENCRYPTED value");
+  console.error("  rotate [env|vault] [--kdf name]         Re-encrypt under a new password or KDF");
+  console.error("  change-password [walletName]            Change a Foundry keystore password");
+  console.error(`\nProviders: ${KEY_PROVIDER_NAMES.join(", ")} (order: KEY_PROVIDERS)`);
+  console.error(`KDFs: ${Object.keys(DEFAULT_KDFS).join(", ")} (default: ${DEFAULT_KDF.kdf})`);
+  process.exit(1);
+}
+
+// Split "--provider name" and "--kdf name" out of the positional arguments
+function parseArgs(argv: string[]): { positional: string[]; provider?: KeyProviderName; kdf: KdfName } {
+  const positional: string[] = [];
+  let provider: KeyProviderName | undefined;
+  let kdf: KdfName = DEFAULT_KDF.kdf;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--provider") {
+      const name = argv[++i] || "";
+      if (!isKeyProviderName(name)) {
+        console.error(`❌ Unknown provider: ${name}`);
+        console.error(`   Use one of: ${KEY_PROVIDER_NAMES.join(", ")}`);
+        process.exit(1);
+      }
+      provider = name;
+    } else if (argv[i] === "--kdf") {
+      const name = argv[++i] || "";
+      if (!(name in DEFAULT_KDFS)) {
+        console.error(`❌ Unknown KDF: ${name}`);
+        console.error(`   Use one of: ${Object.keys(DEFAULT_KDFS).join(", ")}`);
+        process.exit(1);
+      }
+      kdf = name as KdfName;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  return { positional, provider, kdf };
+}
+
+function requireProvider(name: string | undefined): KeyProviderName {
+  if (!name || !isKeyProviderName(name)) {
+    console.error(`❌ Unknown provider: ${name || "(none)"}`);
+    console.error(`   Use one of: ${KEY_PROVIDER_NAMES.join(", ")}`);
+    process.exit(1);
+  }
+  return name;
+}
+
+function requirePrivateKey(input: string | undefined): `0x${string}` {
+  if (!input || !/^0x[a-fA-F0-9]{64}$/.test(input)) {
+    console.error("❌ Private key must be 0x followed by 64 hex characters");
+    process.exit(1);
+  }
+  return input as `0x${string}`;
+}
+
+// From one provider when --provider is given, otherwise in resolution order
+function loadKey(keyName: string, provider?: KeyProviderName): ResolvedKey {
+  if (provider) {
+    const privateKey = getKeyProvider(provider).getPrivateKey(keyName);
+    if (privateKey) return { privateKey, provider };
+  } else {
+    const resolved = resolvePrivateKey(keyName);
+    if (resolved) return resolved;
+  }
+
+  console.error(`\n❌ No private key "${keyName}" found${provider ? ` in ${provider}` : ""}`);
+  console.error("   Run 'npm run keys -- providers' to see what is configured");
+  process.exit(1);
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, provider, kdf } = parseArgs(rest);
+
+  switch (command) {
+    case "providers": {
+      console.log("\n🔑 Key providers (resolution order):");
+      getKeyProviderOrder().forEach((name, i) => {
+        const keyProvider = getKeyProvider(name);
+        const status = keyProvider.isAvailable() ? "✅" : "⚪";
+        console.log(`   ${i + 1}. ${status} ${name.padEnd(14)} ${keyProvider.description}`);
+      });
+      console.log(`\n   Default key name: ${getDefaultKeyName()}`);
+      break;
+    }
+
+    case "resolve": {
+      const keyName = positional[0] || getDefaultKeyName();
+      const { privateKey, provider: source } = loadKey(keyName);
+      console.log(`\n✅ Key "${keyName}" comes from: ${source}`);
+      console.log(`   Address: ${privateKeyToAccount(privateKey as `0x${string}`).address}`);
+      break;
+    }
+
+    case "get": {
+      const keyName = positional[0] || getDefaultKeyName();
+      const { privateKey, provider: source } = loadKey(keyName, provider);
+      console.log(`\n✅ Private key "${keyName}" from ${source}:`);
+      console.log(privateKey);
+      break;
+    }
+
+    case "address": {
+      const keyName = positional[0] || getDefaultKeyName();
+
+      // Foundry keystores know their address without the password
+      if (provider === "foundry") {
+        if (!hasFoundryKeystore(keyName)) {
+          console.error(`\n❌ Keystore "${keyName}" not found`);
+          process.exit(1);
+        }
+        const address = getFoundryKeystoreAddress(keyName);
+        if (!address) {
+          console.error("\n❌ Failed to get address");
+          console.error("   Make sure Foundry is installed: foundryup");
+          process.exit(1);
+        }
+        console.log(`\n✅ Address for keystore "${keyName}":`);
+        console.log(address);
+        break;
+      }
+
+      const { privateKey, provider: source } = loadKey(keyName, provider);
+      console.log(`\n✅ Address for "${keyName}" (${source}):`);
+      console.log(privateKeyToAccount(privateKey as `0x${string}`).address);
+      break;
+    }
+
+    case "list": {
+      const names: KeyProviderName[] = provider ? [provider] : ["foundry", "vault"];
+      for (const name of names) {
+        const keyProvider = getKeyProvider(name);
+        if (!keyProvider.listKeys) {
+          console.error(`❌ ${name} cannot list keys`);
+          process.exit(1);
+        }
+        const keys = keyProvider.listKeys();
+        console.log(`\n📋 ${name}:`);
+        if (keys.length === 0) {
+          console.log("   (none)");
+        }
+        keys.forEach((key) => console.log(`   - ${key}`));
+      }
+      break;
+    }
+
+    case "store": {
+      const target = getKeyProvider(requireProvider(positional[0]));
+      const privateKey = requirePrivateKey(positional[1]);
+      const keyName = positional[2] || getDefaultKeyName();
+      // The vault file is created on first store, so only the keychain needs to be available
+      if (!isWritableKeyProvider(target) || (target.name === "keychain" && !target.isAvailable())) {
+        console.error(`❌ Cannot store keys in ${target.name} here`);
+        console.error("   Use 'vault' (any OS) or 'keychain' (macOS)");
+        process.exit(1);
+      }
+
+      target.storePrivateKey(keyName, privateKey);
+      console.log(`\n✅ Private key "${keyName}" stored in ${target.name}`);
+      console.log(`   Address: ${privateKeyToAccount(privateKey).address}`);
+      console.log("\n💡 You can now remove TEST_PRIVATE_KEY from your .env file");
+      break;
+    }
+
+    case "delete": {
+      const target = getKeyProvider(requireProvider(positional[0]));
+      const keyName = positional[1] || getDefaultKeyName();
+      if (!isWritableKeyProvider(target)) {
+        console.error(`❌ Cannot delete keys from ${target.name}`);
+        process.exit(1);
+      }
+
+      target.deletePrivateKey(keyName);
+      console.log(`\n✅ Private key "${keyName}" deleted from ${target.name}`);
+      break;
+    }
+
+    case "encrypt": {
+      const privateKey = requirePrivateKey(positional[0]);
+      const encrypted = encryptPrivateKey(privateKey, getEncryptionPassword(), DEFAULT_KDFS[kdf]);
+      console.log("\n✅ Encrypted private key:");
+      console.log(encrypted);
+      console.log("\n📝 Add this to your .env file:");
+      console.log(`TEST_PRIVATE_KEY_ENCRYPTED=${encrypted}`);
+      console.log("\n⚠️  Make sure ENCRYPTION_PASSWORD is set in your .env file!");
+      break;
+    }
+
+    case "decrypt": {
+      if (!positional[0]) usage();
+      const decrypted = decryptPrivateKey(positional[0], getEncryptionPassword());
+      const info = describeEncryptedKey(positional[0]);
+      console.log(`\n✅ Decrypted private key (format v${info.version}, ${info.kdf.kdf}):`);
+      console.log(decrypted);
+      break;
+    }
+
+    case "rotate": {
+      const target = positional[0] || "env";
+      if (target !== "env" && target !== "vault") usage();
+      await rotateEncryptedKeys(target, kdf);
+      break;
+    }
+
+    case "change-password": {
+      await changeKeystorePassword(positional[0] || process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey");
+      break;
+    }
+
+    default:
+      usage();
+  }
+}
+
+main().catch((error) => {
+  console.error("\n❌ Error:", error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+/**
+ * Rotate Encrypted Keys
+ *
+ * Usage: npm run keys -- rotate [env|vault] [--kdf scrypt|pbkdf2]
+ *
+ * This script:
+ * 1. Decrypts TEST_PRIVATE_KEY_ENCRYPTED (ENCRYPTION_PASSWORD) or every vault key (KEY_VAULT_PASSWORD)
+ * 2. Asks for a new password (interactive prompt, empty keeps the current one)
+ * 3. Re-encrypts in the current format with the chosen KDF
+ * 4. Prints the new .env values, or rewrites the vault file
+ */
+
+import {
+  DEFAULT_KDFS,
+  decryptPrivateKey,
+  describeEncryptedKey,
+  encryptPrivateKey,
+  type EncryptedKeyInfo,
+  type KdfName,
+} from "../lib/utils/encrypt-key";
+import { getKeyProvider, rotateKeyVault } from "../lib/utils/key-provider";
+import { promptPassword } from "./change-keystore-password";
+
+export type RotateTarget = "env" | "vault";
+
+function formatInfo(info: EncryptedKeyInfo): string {
+  const params = Object.entries(info.kdf.params).map(([name, value]) => `${name}=${value}`).join(", ");
+  return `v${info.version}, ${info.kdf.kdf} (${params})`;
+}
+
+// New password, or the current one when left empty
+async function promptNewPassword(currentPassword: string): Promise<string> {
+  const newPassword1 = await promptPassword("Enter new password (empty keeps the current one): ");
+  if (!newPassword1) {
+    console.log("   Keeping the current password");
+    return currentPassword;
+  }
+
+  const newPassword2 = await promptPassword("Enter new password again: ");
+  if (newPassword1 !== newPassword2) {
+    console.error("\n❌ Passwords don't match");
+    process.exit(1);
+  }
+
+  if (newPassword1.length < 8) {
+    console.error("\n❌ Password must be at least 8 characters");
+    process.exit(1);
+  }
+
+  return newPassword1;
+}
+
+async function rotateEnvKey(kdfName: KdfName) {
+  const encrypted = process.env.TEST_PRIVATE_KEY_ENCRYPTED;
+  const oldPassword = process.env.ENCRYPTION_PASSWORD;
+
+  if (!encrypted || !oldPassword) {
+    console.error("❌ TEST_PRIVATE_KEY_ENCRYPTED and ENCRYPTION_PASSWORD must be set in .env");
+    process.exit(1);
+  }
+
+  // Step 1: Decrypt with the current password
+  console.log("\n📋 Step 1: Decrypting TEST_PRIVATE_KEY_ENCRYPTED...");
+  console.log(`   Current format: ${formatInfo(describeEncryptedKey(encrypted))}`);
+  let privateKey: string;
+  try {
+    privateKey = decryptPrivateKey(encrypted, oldPassword);
+  } catch (error) {
+    console.error("\n❌ Failed to decrypt with the current password");
+    console.error("   Check that ENCRYPTION_PASSWORD is correct");
+    process.exit(1);
+  }
+  console.log("   ✅ Decrypted successfully");
+
+  // Step 2: Get new password
+  console.log("\n🔑 Step 2: Enter new password...");
+  const newPassword = await promptNewPassword(oldPassword);
+
+  // Step 3: Re-encrypt, and check the result decrypts before showing it
+  console.log(`\n💾 Step 3: Re-encrypting with ${kdfName}...`);
+  const rotated = encryptPrivateKey(privateKey, newPassword, DEFAULT_KDFS[kdfName]);
+  if (decryptPrivateKey(rotated, newPassword) !== privateKey) {
+    throw new Error("Re-encrypted key did not decrypt to the original");
+  }
+  console.log(`   New format: ${formatInfo(describeEncryptedKey(rotated))}`);
+
+  // Step 4: Update .env reminder
+  console.log("\n📝 Step 4: Update your .env file:");
+  console.log(`   TEST_PRIVATE_KEY_ENCRYPTED=${rotated}`);
+  if (newPassword !== oldPassword) {
+    console.log(`   ENCRYPTION_PASSWORD=${newPassword}`);
+  }
+
+  console.log("\n✅ Replace the values above to complete the rotation");
+}
+
+async function rotateVault(kdfName: KdfName) {
+  const oldPassword = process.env.KEY_VAULT_PASSWORD;
+  const vault = getKeyProvider("vault");
+
+  if (!oldPassword) {
+    console.error("❌ KEY_VAULT_PASSWORD not set in .env");
+    console.error("   Please set it to your current vault password");
+    process.exit(1);
+  }
+
+  if (!vault.isAvailable()) {
+    console.error("❌ Key vault not found");
+    console.error("   Store a key first: npm run keys -- store vault <0xKey> [keyName]");
+    process.exit(1);
+  }
+
+  // Step 1: Show what will be rotated (decryption happens in step 3, before anything is written)
+  const keyNames = vault.listKeys!();
+  console.log(`\n📋 Step 1: ${keyNames.length} key(s) in the vault`);
+  if (keyNames.length === 0) {
+    console.log("   Nothing to rotate");
+    return;
+  }
+
+  // Step 2: Get new password
+  console.log("\n🔑 Step 2: Enter new password...");
+  const newPassword = await promptNewPassword(oldPassword);
+
+  // Step 3: Re-encrypt every key and rewrite the vault
+  console.log(`\n💾 Step 3: Re-encrypting with ${kdfName}...`);
+  const rotated = rotateKeyVault(newPassword, DEFAULT_KDFS[kdfName]);
+  rotated.forEach((keyName) => console.log(`   ✅ ${keyName}`));
+
+  // Step 4: Update .env reminder
+  if (newPassword !== oldPassword) {
+    console.log("\n📝 Step 4: Update your .env file");
+    console.log("   Update KEY_VAULT_PASSWORD to:");
+    console.log(`   KEY_VAULT_PASSWORD=${newPassword}`);
+  }
+
+  console.log("\n✅ Vault rotated");
+}
+
+export async function rotateEncryptedKeys(target: RotateTarget, kdfName: KdfName) {
+  try {
+    console.log(`\n🔐 Rotating encrypted keys: ${target}`);
+    console.log("=".repeat(50));
+
+    if (target === "vault") {
+      await rotateVault(kdfName);
+    } else {
+      await rotateEnvKey(kdfName);
+    }
+  } catch (error) {
+    console.error("\n❌ Error:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
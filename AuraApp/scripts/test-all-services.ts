@@ -27,11 +27,11 @@ async function bootstrap() {
     // Dynamic imports for modules that read env vars at load time
     const { signPaymentEnvelope } = await import("../lib/utils/sign-payment");
     const { x402Config, aiServiceConfig } = await import("../lib/config/x402");
-    const { getPrivateKey } = await import("../lib/utils/foundry-keystore");
+    const { getDefaultKeyName, getPrivateKey } = await import("../lib/utils/key-provider");
     const { formatPaymentSignature } = await import("../lib/utils/x402-payment");
 
     const SERVICE_URL = process.env.NEXT_PUBLIC_SERVICE_URL || "http://localhost:3000";
-    const walletName = process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
+    const walletName = getDefaultKeyName();
     const PRIVATE_KEY = getPrivateKey(walletName);
 
     if (!PRIVATE_KEY || !PRIVATE_KEY.startsWith("0x")) {
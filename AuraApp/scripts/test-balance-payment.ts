@@ -13,7 +13,7 @@ import { fileURLToPath } from "url";
 import { privateKeyToAccount } from "viem/accounts";
 import { signPaymentEnvelope } from "../lib/utils/sign-payment";
 import { x402Config } from "../lib/config/x402";
-import { getPrivateKey } from "../lib/utils/foundry-keystore";
+import { getDefaultKeyName, getPrivateKey } from "../lib/utils/key-provider";
 import { formatPaymentSignature } from "../lib/utils/x402-payment";
 
 // Debug: Log config values
@@ -30,8 +30,7 @@ const __dirname = dirname(__filename);
 config({ path: resolve(__dirname, "../.env") });
 
 const SERVICE_URL = process.env.NEXT_PUBLIC_SERVICE_URL || "http://localhost:3000";
-// Use FOUNDRY_KEYSTORE_NAME from env, or default to "defaultKey"
-const walletName = process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
+const walletName = getDefaultKeyName();
 const PRIVATE_KEY = getPrivateKey(walletName);
 
 if (!PRIVATE_KEY) {
@@ -39,7 +38,8 @@ if (!PRIVATE_KEY) {
   console.error("Please set one of:");
   console.error("  - Foundry keystore (recommended): cast wallet import <name> --interactive");
   console.error("    Then set FOUNDRY_KEYSTORE_PASSWORD and FOUNDRY_KEYSTORE_NAME in .env");
-  console.error("  - macOS Keychain: npm run keychain:store 0xYourPrivateKey");
+  console.error("  - Encrypted key vault (any OS): npm run keys -- store vault 0xYourPrivateKey");
+  console.error("  - macOS Keychain: npm run keys -- store keychain 0xYourPrivateKey");
   console.error("  - TEST_PRIVATE_KEY_ENCRYPTED (encrypted, requires ENCRYPTION_PASSWORD)");
   console.error("  - TEST_PRIVATE_KEY (plain text, must start with 0x)");
   process.exit(1);
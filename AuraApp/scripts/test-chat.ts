@@ -3,13 +3,15 @@
  * Usage: npx tsx scripts/test-chat.ts "Your message here"
  * 
  * This script tests the /api/chat endpoint with a wallet address from .env
+ * /api/chat needs a signed-in wallet: the script signs in with the private key
+ * (Sign-In With Ethereum), or sends AURA_API_KEY (chat scope) if it is set.
  */
 
 import { config } from "dotenv";
 import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
 import { privateKeyToAccount } from "viem/accounts";
-import { getPrivateKey } from "../lib/utils/foundry-keystore";
+import { getDefaultKeyName, getPrivateKey } from "../lib/utils/key-provider";
 
 // Get __dirname equivalent for ES modules (tsx uses ES modules)
 const __filename = fileURLToPath(import.meta.url);
@@ -20,10 +22,10 @@ config({ path: resolve(__dirname, "../.env") });
 
 const SERVICE_URL = process.env.NEXT_PUBLIC_SERVICE_URL || "http://localhost:3000";
 // For chat testing, we can use a wallet address directly or derive from private key
-// Priority: Foundry keystore > Keychain > Encrypted > Plain text > Wallet address
-// Use FOUNDRY_KEYSTORE_NAME from env, or default to "defaultKey"
-const walletName = process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
+// Priority: key providers in KEY_PROVIDERS order (see lib/utils/key-provider.ts) > Wallet address
+const walletName = getDefaultKeyName();
 const PRIVATE_KEY = getPrivateKey(walletName);
+const API_KEY = process.env.AURA_API_KEY;
 let TEST_WALLET = "";
 
 if (PRIVATE_KEY && PRIVATE_KEY.startsWith("0x")) {
@@ -39,7 +41,8 @@ if (!TEST_WALLET) {
   console.error("❌ No wallet address found. Please set one of:");
   console.error("   - Foundry keystore (recommended): cast wallet import <name> --interactive");
   console.error("     Then set FOUNDRY_KEYSTORE_PASSWORD and FOUNDRY_KEYSTORE_NAME in .env");
-  console.error("   - macOS Keychain: npm run keychain:store 0xYourPrivateKey");
+  console.error("   - Encrypted key vault (any OS): npm run keys -- store vault 0xYourPrivateKey");
+  console.error("   - macOS Keychain: npm run keys -- store keychain 0xYourPrivateKey");
   console.error("   - TEST_PRIVATE_KEY_ENCRYPTED (encrypted, requires ENCRYPTION_PASSWORD)");
   console.error("   - TEST_PRIVATE_KEY (plain text)");
   console.error("   - TEST_WALLET_ADDRESS");
@@ -47,7 +50,47 @@ if (!TEST_WALLET) {
   process.exit(1);
 }
 
-async function testChat(message: string, conversationId?: string) {
+if (!API_KEY && !PRIVATE_KEY?.startsWith("0x")) {
+  console.error("❌ /api/chat needs a signed-in wallet. Please set one of:");
+  console.error("   - A private key (see above) to sign in with the wallet");
+  console.error("   - AURA_API_KEY (an API key with the chat scope, from /dashboard/api-keys)");
+  process.exit(1);
+}
+
+// Cookies set by a response, as a Cookie header value
+function getCookies(response: Response): string {
+  return response.headers.getSetCookie().map((cookie) => cookie.split(";")[0]).join("; ");
+}
+
+// Authenticate as the test wallet: API key if set, otherwise a SIWE session
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  if (API_KEY) {
+    return { Authorization: `Bearer ${API_KEY}` };
+  }
+
+  const account = privateKeyToAccount(PRIVATE_KEY as `0x${string}`);
+  const nonceResponse = await fetch(`${SERVICE_URL}/api/auth/nonce?address=${account.address}&chainId=1`);
+  const nonceData = await nonceResponse.json();
+  if (!nonceData.success) {
+    throw new Error(`Sign-in failed: ${nonceData.error}`);
+  }
+
+  const signature = await account.signMessage({ message: nonceData.message });
+  const loginResponse = await fetch(`${SERVICE_URL}/api/auth/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: getCookies(nonceResponse) },
+    body: JSON.stringify({ message: nonceData.message, signature }),
+  });
+  const loginData = await loginResponse.json();
+  if (!loginData.success) {
+    throw new Error(`Sign-in failed: ${loginData.error}`);
+  }
+
+  console.log(`🔐 Signed in as ${loginData.walletAddress}`);
+  return { Cookie: getCookies(loginResponse) };
+}
+
+async function testChat(authHeaders: Record<string, string>, message: string, conversationId?: string) {
   const url = `${SERVICE_URL}/api/chat`;
   
   console.log("\n📤 Sending chat request...");
@@ -63,10 +106,12 @@ async function testChat(message: string, conversationId?: string) {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        ...authHeaders,
       },
       body: JSON.stringify({
         message,
-        walletAddress: TEST_WALLET,
+        // An API key acts as its own wallet, so only name the wallet for sessions
+        ...(!API_KEY && { walletAddress: TEST_WALLET }),
         conversationId: conversationId || null,
       }),
     });
@@ -107,14 +152,16 @@ async function main() {
   console.log("🧪 Testing Chat Endpoint");
   console.log("=" .repeat(50));
   
+  const authHeaders = await getAuthHeaders();
+
   // First message
-  const result1 = await testChat(message);
+  const result1 = await testChat(authHeaders, message);
   
   if (result1 && result1.conversationId) {
     // Follow-up message in same conversation
     console.log("\n" + "=".repeat(50));
     console.log("📝 Testing follow-up message...");
-    await testChat("Tell me more about my balance", result1.conversationId);
+    await testChat(authHeaders, "Tell me more about my balance", result1.conversationId);
   }
   
   console.log("\n" + "=".repeat(50));
@@ -12,7 +12,7 @@ import { writeFileSync } from "fs";
 import { privateKeyToAccount } from "viem/accounts";
 import { signPaymentEnvelope } from "../lib/utils/sign-payment";
 import { x402Config, aiServiceConfig } from "../lib/config/x402";
-import { getPrivateKey } from "../lib/utils/foundry-keystore";
+import { getDefaultKeyName, getPrivateKey } from "../lib/utils/key-provider";
 import { formatPaymentSignature } from "../lib/utils/x402-payment";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -21,7 +21,7 @@ const __dirname = dirname(__filename);
 config({ path: resolve(__dirname, "../.env") });
 
 const SERVICE_URL = process.env.NEXT_PUBLIC_SERVICE_URL || "http://localhost:3000";
-const walletName = process.env.FOUNDRY_KEYSTORE_NAME || "defaultKey";
+const walletName = getDefaultKeyName();
 const PRIVATE_KEY = getPrivateKey(walletName);
 
 if (!PRIVATE_KEY?.startsWith("0x") || PRIVATE_KEY.length !== 66) {